@@ -1,6 +1,7 @@
 import { Controller, Get } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { AppService } from './app.service';
+import { RawResponse } from './common/decorators/raw-response.decorator';
 
 @ApiTags('Health')
 @Controller()
@@ -8,6 +9,7 @@ export class AppController {
   constructor(private readonly appService: AppService) {}
 
   @Get()
+  @RawResponse()
   @ApiOperation({ 
     summary: 'Get application info',
     description: 'Returns basic information about the application'
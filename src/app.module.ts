@@ -1,24 +1,49 @@
-import { Module } from '@nestjs/common';
-import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { ThrottlerModule } from '@nestjs/throttler';
 import { ConfigModule } from '@nestjs/config';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
+import { AuditModule } from './audit/audit.module';
+import { LoggerModule } from './logger/logger.module';
+import { I18nModule } from './i18n/i18n.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { MetricsMiddleware } from './metrics/metrics.middleware';
+import { MeteredThrottlerGuard } from './common/guards/metered-throttler.guard';
+import { LocaleMiddleware } from './i18n/locale.middleware';
+import { RequestIdMiddleware } from './common/middleware/request-id.middleware';
+import { TenantMiddleware } from './users/tenant.middleware';
+import { TransformInterceptor } from './common/interceptors/transform.interceptor';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { validateEnv } from './config/env.validation';
+import { authConfig } from './config/auth.config';
+import { securityConfig } from './config/security.config';
+import { httpConfig, HttpConfig } from './config/http.config';
+import { oidcConfig } from './config/oidc.config';
+import { storageConfig } from './config/storage.config';
+import { observabilityConfig } from './config/observability.config';
 
 @Module({
   imports: [
-    ConfigModule.forRoot({ isGlobal: true }),
+    ConfigModule.forRoot({
+      isGlobal: true,
+      load: [authConfig, securityConfig, httpConfig, oidcConfig, storageConfig, observabilityConfig],
+      validate: validateEnv,
+    }),
+    LoggerModule,
+    I18nModule,
+    HealthModule,
+    MetricsModule,
+    AuditModule,
     AuthModule,
     UsersModule,
-    ThrottlerModule.forRoot({
-      throttlers: [
-        {
-          ttl: parseInt(process.env.RATE_LIMIT_TTL || '60', 10) * 1000,
-          limit: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
-        },
-      ],
+    ThrottlerModule.forRootAsync({
+      inject: [httpConfig.KEY],
+      useFactory: (http: HttpConfig) => ({
+        throttlers: [{ ttl: http.rateLimitTtlMs, limit: http.rateLimitMax }],
+      }),
     }),
   ],
   controllers: [AppController],
@@ -26,8 +51,16 @@ import { AppService } from './app.service';
     AppService,
     {
       provide: APP_GUARD,
-      useClass: ThrottlerGuard,
+      useClass: MeteredThrottlerGuard,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: TransformInterceptor,
     },
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestIdMiddleware, LocaleMiddleware, MetricsMiddleware, TenantMiddleware).forRoutes('*');
+  }
+}
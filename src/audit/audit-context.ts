@@ -0,0 +1,26 @@
+import { AuditContext } from '../common/types/audit.types';
+import { UserPayload } from '../common/types/user.types';
+import { RequestContext } from '../common/context/request-context';
+
+/**
+ * Builds the audit context of an HTTP request: the authenticated user, if
+ * any, the client IP and the request ID
+ */
+export function auditContextFromRequest(request: any): AuditContext {
+  const user = request.user as UserPayload | undefined;
+
+  return {
+    actor: user
+      ? {
+        id: user.sub,
+        email: user.email,
+        role: user.role,
+        ...(user.act && { impersonatorId: user.act.sub }),
+        ...(user.organization && { organizationId: user.organization.id }),
+      }
+      : null,
+    ip: request.ip ?? null,
+    requestId: RequestContext.requestId() ?? null,
+    userAgent: request.headers?.['user-agent'] ?? null,
+  };
+}
@@ -0,0 +1,50 @@
+import { AuditEntry } from '../common/types/audit.types';
+
+export type AuditExportFormat = 'ndjson' | 'csv';
+
+const CSV_COLUMNS: [string, (entry: AuditEntry) => unknown][] = [
+  ['id', entry => entry.id],
+  ['timestamp', entry => entry.timestamp.toISOString()],
+  ['action', entry => entry.action],
+  ['outcome', entry => entry.outcome],
+  ['actorId', entry => entry.actor?.id],
+  ['actorEmail', entry => entry.actor?.email],
+  ['actorRole', entry => entry.actor?.role],
+  ['impersonatorId', entry => entry.actor?.impersonatorId],
+  ['organizationId', entry => entry.actor?.organizationId],
+  ['targetType', entry => entry.target?.type],
+  ['targetId', entry => entry.target?.id],
+  ['changes', entry => (entry.changes ? JSON.stringify(entry.changes) : null)],
+  ['reason', entry => entry.reason],
+  ['ip', entry => entry.ip],
+  ['requestId', entry => entry.requestId],
+  ['userAgent', entry => entry.userAgent],
+];
+
+/**
+ * Quotes a CSV cell. Cells that a spreadsheet would run as a formula get a
+ * leading apostrophe, since emails and user agents are attacker-controlled.
+ */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r']/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toNdjson(entries: AuditEntry[]): string {
+  return entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+}
+
+export function toCsv(entries: AuditEntry[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = entries.map(entry => CSV_COLUMNS.map(([, value]) => csvCell(value(entry))).join(','));
+
+  return `${[header, ...rows].join('\r\n')}\r\n`;
+}
@@ -0,0 +1 @@
+export const AUDIT_STORE = 'AUDIT_STORE';
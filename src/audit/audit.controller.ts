@@ -0,0 +1,65 @@
+import { Controller, Get, Query, Res, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiSecurity, ApiOperation, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
+import { AuditService } from './audit.service';
+import { toCsv, toNdjson } from './audit-export';
+import { AuditFilterDto, ExportAuditQueryDto, ListAuditQueryDto } from '../common/dto/audit-query.dto';
+import { AuditEntry, AuditSearchCriteria } from '../common/types/audit.types';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { NoOrganization } from '../common/decorators/no-organization.decorator';
+import { Paginated } from '../common/types/api-response.types';
+import { AuditEntryDto } from '../common/dto/audit-entry.dto';
+import { ResponseMessage } from '../common/decorators/response-message.decorator';
+import { RawResponse } from '../common/decorators/raw-response.decorator';
+import { ApiOkResponseEnvelope } from '../common/decorators/api-ok-response-envelope.decorator';
+
+@ApiTags('Audit')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
+@Controller('audit')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('audit:read')
+@NoOrganization()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Search the audit log, newest first' })
+  @ResponseMessage('responses.audit.listed')
+  @ApiOkResponseEnvelope(AuditEntryDto, { paginated: true })
+  async findAll(@Query() query: ListAuditQueryDto): Promise<Paginated<AuditEntry>> {
+    const limit = query.limit || 50;
+    const page = query.page || 1;
+    const { items, total } = await this.auditService.find({
+      ...this.criteria(query),
+      offset: (page - 1) * limit,
+      limit,
+    });
+
+    return {
+      items,
+      meta: { total, limit, page, totalPages: Math.ceil(total / limit), nextCursor: null },
+    };
+  }
+
+  @Get('export')
+  @RawResponse()
+  @ApiOperation({ summary: 'Export every matching audit entry as NDJSON or CSV' })
+  @ApiProduces('application/x-ndjson', 'text/csv')
+  async export(@Query() query: ExportAuditQueryDto, @Res({ passthrough: true }) res: Response) {
+    const format = query.format || 'ndjson';
+    const { items } = await this.auditService.find(this.criteria(query));
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-log.${format}"`);
+
+    return format === 'csv' ? toCsv(items) : toNdjson(items);
+  }
+
+  private criteria(query: AuditFilterDto): AuditSearchCriteria {
+    const { action, outcome, actorId, targetType, targetId, requestId, from, to } = query;
+    return { action, outcome, actorId, targetType, targetId, requestId, from, to };
+  }
+}
@@ -0,0 +1,26 @@
+import { Global, Module } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AUDIT_STORE } from './audit.constants';
+import { InMemoryAuditStore } from './stores/in-memory-audit.store';
+import { FileAuditStore } from './stores/file-audit.store';
+import { storageConfig, StorageConfig } from '../config/storage.config';
+
+// Global because the guards in common/ record denials in whichever module uses them
+@Global()
+@Module({
+  providers: [
+    AuditService,
+    {
+      provide: AUDIT_STORE,
+      inject: [storageConfig.KEY],
+      useFactory: (storage: StorageConfig) =>
+        storage.auditStore === 'file'
+          ? new FileAuditStore(storage.auditLogFile)
+          : new InMemoryAuditStore(),
+    },
+  ],
+  controllers: [AuditController],
+  exports: [AuditService],
+})
+export class AuditModule {}
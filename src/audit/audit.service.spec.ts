@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditService, diffFields } from './audit.service';
+import { AUDIT_STORE } from './audit.constants';
+import { InMemoryAuditStore } from './stores/in-memory-audit.store';
+import { toCsv, toNdjson } from './audit-export';
+import { RequestContext } from '../common/context/request-context';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let store: InMemoryAuditStore;
+
+  beforeEach(async () => {
+    store = new InMemoryAuditStore();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: AUDIT_STORE,
+          useValue: store,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  describe('record', () => {
+    it('should fill in id, time, outcome and context', async () => {
+      const entry = await service.record(
+        { action: 'user.deleted', target: { type: 'User', id: '2' } },
+        { actor: { id: '1', email: 'admin@example.com', role: 'admin' }, ip: '10.0.0.1', requestId: 'req-1' },
+      );
+
+      expect(entry).toEqual(expect.objectContaining({
+        id: expect.any(String),
+        timestamp: expect.any(Date),
+        action: 'user.deleted',
+        outcome: 'success',
+        actor: { id: '1', email: 'admin@example.com', role: 'admin' },
+        ip: '10.0.0.1',
+        requestId: 'req-1',
+      }));
+      expect((await service.find({})).items).toEqual([entry]);
+    });
+
+    it('should not fail when the store does', async () => {
+      jest.spyOn(store, 'append').mockRejectedValue(new Error('disk full'));
+
+      await expect(service.record({ action: 'user.created' })).resolves.toBeDefined();
+    });
+  });
+
+  describe('recordAccessDenied', () => {
+    it('should take the actor, IP and request ID from the request', async () => {
+      const entry = await RequestContext.run({ requestId: 'req-1' }, () => service.recordAccessDenied(
+        {
+          method: 'DELETE',
+          originalUrl: '/users/2',
+          ip: '10.0.0.1',
+          headers: { 'user-agent': 'jest' },
+          user: { sub: '1', email: 'user@example.com', username: 'user', role: 'user' },
+        },
+        'Access denied. Missing permissions: users:delete',
+      ));
+
+      expect(entry).toEqual(expect.objectContaining({
+        action: 'access.denied',
+        outcome: 'failure',
+        actor: { id: '1', email: 'user@example.com', role: 'user' },
+        target: { type: 'Route', id: 'DELETE /users/2' },
+        requestId: 'req-1',
+        userAgent: 'jest',
+      }));
+    });
+  });
+
+  describe('find', () => {
+    it('should filter, return newest first and paginate', async () => {
+      await service.record({ action: 'auth.login.failed', outcome: 'failure' });
+      await service.record({ action: 'auth.login.succeeded', target: { type: 'User', id: '1' } });
+      await service.record({ action: 'auth.login.failed', outcome: 'failure' });
+
+      const failures = await service.find({ action: 'auth.login.failed' });
+      expect(failures.total).toBe(2);
+
+      const page = await service.find({ offset: 1, limit: 1 });
+      expect(page.total).toBe(3);
+      expect(page.items.map(entry => entry.action)).toEqual(['auth.login.succeeded']);
+
+      expect((await service.find({ targetId: '1' })).items).toHaveLength(1);
+      expect((await service.find({ from: new Date(Date.now() + 60 * 1000) })).total).toBe(0);
+    });
+
+    it('should find what an admin did while impersonating by the admin id', async () => {
+      await service.record(
+        { action: 'user.updated', target: { type: 'User', id: '1' } },
+        { actor: { id: '1', email: 'user@example.com', role: 'user', impersonatorId: '2' } },
+      );
+
+      expect((await service.find({ actorId: '2' })).total).toBe(1);
+      expect((await service.find({ actorId: '1' })).total).toBe(1);
+    });
+  });
+
+  describe('diffFields', () => {
+    it('should only list changed fields', () => {
+      expect(diffFields({ a: 1, b: 'x' }, { a: 2, b: 'x' }, ['a', 'b'])).toEqual({ a: { before: 1, after: 2 } });
+      expect(diffFields({ a: 1 }, { a: 1 }, ['a'])).toBeNull();
+      expect(diffFields(null, { a: 1 }, ['a'])).toEqual({ a: { before: null, after: 1 } });
+    });
+  });
+
+  describe('export', () => {
+    it('should write one JSON object per line', async () => {
+      await service.record({ action: 'user.created' });
+      await service.record({ action: 'user.deleted' });
+
+      const lines = toNdjson((await service.find({})).items).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line).action)).toEqual(['user.deleted', 'user.created']);
+    });
+
+    it('should quote CSV cells and defuse formulas', async () => {
+      await service.record(
+        { action: 'auth.login.failed', outcome: 'failure', reason: 'Invalid credentials (=cmd|"a",b)' },
+        { userAgent: '=HYPERLINK("x")' },
+      );
+
+      const [header, row] = toCsv((await service.find({})).items).trim().split('\r\n');
+      expect(header.split(',')).toContain('requestId');
+      expect(row).toContain('"Invalid credentials (=cmd|""a"",b)"');
+      expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  AuditChanges,
+  AuditContext,
+  AuditEntry,
+  AuditEvent,
+  AuditSearchCriteria,
+  AuditTarget,
+} from '../common/types/audit.types';
+import { AUDIT_STORE } from './audit.constants';
+import { AuditStore } from './stores/audit.store';
+import { auditContextFromRequest } from './audit-context';
+
+/**
+ * Field-by-field difference between two versions of a record, limited to
+ * the given fields. Returns null when none of them changed.
+ */
+export function diffFields<T extends object>(before: T | null, after: T | null, fields: (keyof T)[]): AuditChanges | null {
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    const previous = before ? before[field] : undefined;
+    const next = after ? after[field] : undefined;
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field as string] = { before: previous ?? null, after: next ?? null };
+    }
+  }
+
+  return Object.keys(changes).length ? changes : null;
+}
+
+/**
+ * Audit Service
+ * Records security-relevant events with who did what to which resource.
+ * Recording never fails the action being audited: store errors are logged.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(@Inject(AUDIT_STORE) private readonly auditStore: AuditStore) {}
+
+  async record(event: AuditEvent, context: AuditContext = {}): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date(),
+      action: event.action,
+      outcome: event.outcome ?? 'success',
+      actor: context.actor ?? null,
+      target: event.target ?? null,
+      changes: event.changes ?? null,
+      reason: event.reason ?? null,
+      ip: context.ip ?? null,
+      requestId: context.requestId ?? null,
+      userAgent: context.userAgent ?? null,
+    };
+
+    try {
+      await this.auditStore.append(entry);
+    } catch (error) {
+      this.logger.error(`Could not write audit entry ${entry.action}: ${error}`);
+    }
+
+    return entry;
+  }
+
+  /** Used by the guards, which only have the request at hand */
+  async recordAccessDenied(request: any, reason: string, target?: AuditTarget): Promise<AuditEntry> {
+    return this.record(
+      {
+        action: 'access.denied',
+        outcome: 'failure',
+        target: target ?? { type: 'Route', id: `${request.method} ${request.originalUrl ?? request.url}` },
+        reason,
+      },
+      auditContextFromRequest(request),
+    );
+  }
+
+  async find(criteria: AuditSearchCriteria): Promise<{ items: AuditEntry[]; total: number }> {
+    return this.auditStore.find(criteria);
+  }
+}
@@ -0,0 +1,25 @@
+import { AuditEntry, AuditSearchCriteria } from '../../common/types/audit.types';
+
+/**
+ * Audit Store
+ * Append-only storage for audit entries: there is deliberately no way to
+ * change or remove an entry once it has been written.
+ */
+export interface AuditStore {
+  append(entry: AuditEntry): Promise<void>;
+
+  /** Matching entries, newest first, and how many match in total */
+  find(criteria: AuditSearchCriteria): Promise<{ items: AuditEntry[]; total: number }>;
+}
+
+export function matchesCriteria(entry: AuditEntry, criteria: AuditSearchCriteria): boolean {
+  return (!criteria.action || entry.action === criteria.action)
+    && (!criteria.outcome || entry.outcome === criteria.outcome)
+    // An admin's entries include what they did while impersonating someone
+    && (!criteria.actorId || entry.actor?.id === criteria.actorId || entry.actor?.impersonatorId === criteria.actorId)
+    && (!criteria.targetType || entry.target?.type === criteria.targetType)
+    && (!criteria.targetId || entry.target?.id === criteria.targetId)
+    && (!criteria.requestId || entry.requestId === criteria.requestId)
+    && (!criteria.from || entry.timestamp >= criteria.from)
+    && (!criteria.to || entry.timestamp <= criteria.to);
+}
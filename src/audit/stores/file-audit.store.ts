@@ -0,0 +1,49 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditEntry } from '../../common/types/audit.types';
+import { InMemoryAuditStore } from './in-memory-audit.store';
+
+/**
+ * File-backed Audit Store
+ * Appends every entry as one JSON line to a log file and reads the file
+ * back on start, so the trail survives restarts
+ */
+export class FileAuditStore extends InMemoryAuditStore {
+  private readonly logger = new Logger(FileAuditStore.name);
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await super.append(entry);
+
+    // Serialize writes so lines are never interleaved or reordered
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    });
+
+    return this.writeQueue;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim());
+
+    for (const line of lines) {
+      try {
+        const entry = JSON.parse(line);
+        this.entries.push({ ...entry, timestamp: new Date(entry.timestamp) });
+      } catch (error) {
+        this.logger.error(`Skipping unreadable line in audit log ${this.filePath}: ${error}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import { AuditEntry, AuditSearchCriteria } from '../../common/types/audit.types';
+import { AuditStore, matchesCriteria } from './audit.store';
+
+/**
+ * In-memory Audit Store
+ * Entries are lost on restart, which is fine for a single dev instance
+ */
+@Injectable()
+export class InMemoryAuditStore implements AuditStore {
+  protected entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async find(criteria: AuditSearchCriteria): Promise<{ items: AuditEntry[]; total: number }> {
+    const matches = this.entries.filter(entry => matchesCriteria(entry, criteria)).reverse();
+    const offset = criteria.offset ?? 0;
+    const end = criteria.limit === undefined ? undefined : offset + criteria.limit;
+
+    return { items: matches.slice(offset, end), total: matches.length };
+  }
+}
@@ -0,0 +1,69 @@
+import { Body, Controller, Delete, Get, Param, ParseUUIDPipe, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiResponse as SwaggerApiResponse, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { RequireScopes } from '../../common/decorators/scopes.decorator';
+import { NoImpersonation } from '../../common/decorators/no-impersonation.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequestAuditContext } from '../../common/decorators/audit-context.decorator';
+import { ResponseMessage } from '../../common/decorators/response-message.decorator';
+import { ApiOkResponseEnvelope } from '../../common/decorators/api-ok-response-envelope.decorator';
+import { CreateApiKeyDto } from '../../common/dto/create-api-key.dto';
+import { ApiKeyResponseDto, CreatedApiKeyResponseDto } from '../../common/dto/api-key-response.dto';
+import { UserPayload } from '../../common/types/user.types';
+import { AuditContext } from '../../common/types/audit.types';
+
+@ApiTags('API Keys')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard, ScopesGuard)
+@RequireScopes('api-keys:manage')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @NoImpersonation()
+  @Post()
+  @ResponseMessage('responses.api_keys.created')
+  @ApiOperation({
+    summary: 'Create an API key',
+    description: 'Creates a key for the current user, or for another user such as a service account with the api-keys:manage permission. The key is returned only once.'
+  })
+  @ApiOkResponseEnvelope(CreatedApiKeyResponseDto, { status: 201 })
+  @SwaggerApiResponse({ status: 403, description: 'The owner is not granted a scope, or the caller may not create keys for other users' })
+  @SwaggerApiResponse({ status: 404, description: 'Owner not found' })
+  async create(
+    @CurrentUser() currentUser: UserPayload,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    return this.apiKeysService.create(currentUser, createApiKeyDto, context);
+  }
+
+  @Get()
+  @ResponseMessage('responses.api_keys.listed')
+  @ApiOperation({ summary: 'List API keys', description: 'Revoked and expired keys are listed as well.' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Another owner; needs the api-keys:manage permission' })
+  @ApiOkResponseEnvelope(ApiKeyResponseDto, { isArray: true })
+  async findAll(
+    @CurrentUser() currentUser: UserPayload,
+    @Query('userId', new ParseUUIDPipe({ optional: true })) userId?: string,
+  ) {
+    return this.apiKeysService.findAll(currentUser, userId);
+  }
+
+  @NoImpersonation()
+  @Delete(':id')
+  @ResponseMessage('responses.api_keys.revoked')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiOkResponseEnvelope()
+  @SwaggerApiResponse({ status: 404, description: 'API key not found or already revoked' })
+  async revoke(
+    @CurrentUser() currentUser: UserPayload,
+    @Param('id', ParseUUIDPipe) id: string,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    await this.apiKeysService.revoke(currentUser, id, context);
+  }
+}
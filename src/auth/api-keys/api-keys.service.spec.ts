@@ -0,0 +1,232 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiKeysService } from './api-keys.service';
+import {
+  AccountDeactivatedException,
+  ApiKeyExpiredException,
+  ApiKeyNotFoundException,
+  ApiKeyScopesNotAllowedException,
+  InvalidApiKeyException,
+} from '../auth.exceptions';
+import { UsersService } from '../../users/users.service';
+import { RolesService } from '../../users/roles.service';
+import { OrganizationsService } from '../../users/organizations.service';
+import { AuditService } from '../../audit/audit.service';
+import { AccessDeniedException } from '../../common/exceptions/access.exceptions';
+import { UserPayload, UserRole, UserStatus } from '../../common/types/user.types';
+import { ApiKey } from '../../common/types/api-key.types';
+import { authConfig } from '../../config/auth.config';
+import { RequestContext } from '../../common/context/request-context';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let usersService: jest.Mocked<UsersService>;
+  let rolesService: jest.Mocked<RolesService>;
+  let organizationsService: { enter: jest.Mock };
+  let auditService: { record: jest.Mock };
+  let stored: Map<string, ApiKey>;
+
+  const mockUser = {
+    id: '1',
+    email: 'test@example.com',
+    username: 'testuser',
+    role: UserRole.USER,
+    status: UserStatus.ACTIVE,
+    isActive: true,
+    mfaEnabled: false,
+    locale: 'de',
+    failedLoginAttempts: 0,
+    lockoutCount: 0,
+    lockedUntil: null,
+    password: 'hashedpassword',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const caller: UserPayload = {
+    sub: '1',
+    email: 'test@example.com',
+    username: 'testuser',
+    role: UserRole.USER,
+    permissions: ['users:read'],
+  };
+
+  beforeEach(async () => {
+    stored = new Map();
+    auditService = { record: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(mockUser),
+            exists: jest.fn().mockResolvedValue(true),
+            saveApiKey: jest.fn((key: ApiKey) => {
+              stored.set(key.id, key);
+              return Promise.resolve(key);
+            }),
+            findApiKey: jest.fn((id: string) => Promise.resolve(stored.get(id) ?? null)),
+            findApiKeys: jest.fn(() => Promise.resolve([...stored.values()])),
+            updateApiKey: jest.fn((id: string, changes: Partial<ApiKey>) => Promise.resolve(Object.assign(stored.get(id), changes))),
+          },
+        },
+        {
+          provide: RolesService,
+          useValue: { resolvePermissions: jest.fn().mockResolvedValue(['users:read', 'api-keys:manage']) },
+        },
+        { provide: OrganizationsService, useValue: { enter: jest.fn() } },
+        { provide: AuditService, useValue: auditService },
+        { provide: authConfig.KEY, useValue: { apiKeyTtlMs: 90 * 24 * 60 * 60 * 1000 } },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+    usersService = module.get(UsersService);
+    rolesService = module.get(RolesService);
+    organizationsService = module.get(OrganizationsService);
+  });
+
+  describe('create', () => {
+    it('should return the key once and store only its hash', async () => {
+      const created = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+
+      expect(created.key).toMatch(new RegExp(`^ak_${created.id}\\.`));
+      expect(created).not.toHaveProperty('keyHash');
+      expect(stored.get(created.id).keyHash).not.toContain(created.key.split('.')[1]);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'api_key.created', target: { type: 'ApiKey', id: created.id } }),
+        {},
+      );
+    });
+
+    it('should default the expiry to the configured lifetime', async () => {
+      const created = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+      const days = (created.expiresAt.getTime() - created.createdAt.getTime()) / (24 * 60 * 60 * 1000);
+
+      expect(days).toBe(90);
+    });
+
+    it('should reject scopes the owner is not granted', async () => {
+      await expect(service.create(caller, { name: 'ci', scopes: ['users:read', 'users:delete'] }))
+        .rejects.toThrow(ApiKeyScopesNotAllowedException);
+    });
+
+    it('should not let a key create a key with more scopes than its own', async () => {
+      const keyCaller = { ...caller, apiKeyId: 'key-1', scopes: ['api-keys:manage'], permissions: ['api-keys:manage'] };
+
+      await expect(service.create(keyCaller, { name: 'ci', scopes: ['users:read'] }))
+        .rejects.toThrow(ApiKeyScopesNotAllowedException);
+    });
+
+    it('should only create keys for other users with api-keys:manage', async () => {
+      await expect(service.create(caller, { name: 'ci', scopes: ['users:read'], userId: '2' }))
+        .rejects.toThrow(AccessDeniedException);
+
+      const manager = { ...caller, permissions: ['api-keys:manage'] };
+      const created = await service.create(manager, { name: 'ci', scopes: ['users:read'], userId: '2' });
+      expect(usersService.findById).toHaveBeenCalledWith('2');
+      expect(created.userId).toBe('2');
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should act as the owner, limited to the key scopes', async () => {
+      const { key, id } = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+
+      const result = await service.authenticate(key);
+
+      expect(result).toEqual(expect.objectContaining({
+        sub: '1',
+        permissions: ['users:read'],
+        scopes: ['users:read'],
+        apiKeyId: id,
+        locale: 'de',
+      }));
+      expect(stored.get(id).lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('should act in the organization the request names', async () => {
+      const { key } = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+      const organization = { id: 'org-1', slug: 'acme', name: 'Acme', role: UserRole.USER };
+      organizationsService.enter.mockResolvedValue(organization);
+
+      const result = await service.authenticate(key);
+
+      expect(organizationsService.enter).toHaveBeenCalledWith('1', undefined);
+      expect(result.organization).toEqual(organization);
+    });
+
+    it('should stay in the organization the key was created in', async () => {
+      const { key, organizationId } = await RequestContext.run(
+        { requestId: 'req-1', organizationId: 'org-1' },
+        () => service.create(caller, { name: 'ci', scopes: ['users:read'] }),
+      );
+
+      await service.authenticate(key);
+
+      expect(organizationId).toBe('org-1');
+      expect(organizationsService.enter).toHaveBeenCalledWith('1', 'org-1');
+    });
+
+    it('should drop scopes the owner has lost since', async () => {
+      const { key } = await service.create(caller, { name: 'ci', scopes: ['users:read', 'api-keys:manage'] });
+      rolesService.resolvePermissions.mockResolvedValue(['users:read']);
+
+      expect((await service.authenticate(key)).permissions).toEqual(['users:read']);
+    });
+
+    it('should record the last use at most once a minute', async () => {
+      const { key } = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+
+      await service.authenticate(key);
+      await service.authenticate(key);
+
+      expect(usersService.updateApiKey).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject unknown, tampered and revoked keys alike', async () => {
+      const { key, id } = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+
+      await expect(service.authenticate('not-a-key')).rejects.toThrow(InvalidApiKeyException);
+      await expect(service.authenticate(`${key}x`)).rejects.toThrow(InvalidApiKeyException);
+
+      await service.revoke(caller, id);
+      await expect(service.authenticate(key)).rejects.toThrow(InvalidApiKeyException);
+    });
+
+    it('should reject expired keys', async () => {
+      const { key, id } = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+      stored.get(id).expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.authenticate(key)).rejects.toThrow(ApiKeyExpiredException);
+    });
+
+    it('should reject keys of deactivated users', async () => {
+      const { key } = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+      usersService.findById.mockResolvedValue({ ...mockUser, isActive: false });
+
+      await expect(service.authenticate(key)).rejects.toThrow(AccountDeactivatedException);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should hide keys of other users from callers without api-keys:manage', async () => {
+      const { id } = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+
+      await expect(service.revoke({ ...caller, sub: '2' }, id)).rejects.toThrow(ApiKeyNotFoundException);
+      await service.revoke({ ...caller, sub: '2', permissions: ['*'] }, id);
+
+      expect(stored.get(id).revokedAt).toBeInstanceOf(Date);
+      await expect(service.revoke(caller, id)).rejects.toThrow(ApiKeyNotFoundException);
+    });
+
+    it('should hide keys of users outside the caller\'s organization', async () => {
+      const { id } = await service.create(caller, { name: 'ci', scopes: ['users:read'] });
+      usersService.exists.mockResolvedValue(false);
+
+      await expect(service.revoke({ ...caller, sub: '2', permissions: ['*'] }, id)).rejects.toThrow(ApiKeyNotFoundException);
+      expect(usersService.exists).toHaveBeenCalledWith('1');
+    });
+  });
+});
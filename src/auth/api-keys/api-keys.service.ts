@@ -0,0 +1,205 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { UsersService } from '../../users/users.service';
+import { OrganizationsService } from '../../users/organizations.service';
+import { RolesService } from '../../users/roles.service';
+import { AuditService } from '../../audit/audit.service';
+import { UserPayload } from '../../common/types/user.types';
+import { AuditContext } from '../../common/types/audit.types';
+import { ApiKey, ApiKeyView, CreatedApiKey } from '../../common/types/api-key.types';
+import { grantsPermission } from '../../common/types/role.types';
+import { CreateApiKeyDto } from '../../common/dto/create-api-key.dto';
+import { AccessDeniedException } from '../../common/exceptions/access.exceptions';
+import { UserNotFoundException } from '../../users/users.exceptions';
+import { RequestContext } from '../../common/context/request-context';
+import { authConfig, AuthConfig } from '../../config/auth.config';
+import { API_KEY_PREFIX } from '../auth.constants';
+import {
+  AccountDeactivatedException,
+  ApiKeyExpiredException,
+  ApiKeyNotFoundException,
+  ApiKeyScopesNotAllowedException,
+  InvalidApiKeyException,
+} from '../auth.exceptions';
+
+// Recording every request would turn each read into a write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * API Keys Service
+ * Long-lived credentials for machine clients. A key is `ak_<id>.<secret>`;
+ * only a hash of the secret is stored, so the key is shown once. A key acts
+ * as its owner, limited to its scopes. A key created in an organization only
+ * ever acts there; any other key acts in the organization the request
+ * names, if any.
+ */
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    private usersService: UsersService,
+    private rolesService: RolesService,
+    private organizationsService: OrganizationsService,
+    private auditService: AuditService,
+    @Inject(authConfig.KEY) private auth: AuthConfig,
+  ) {}
+
+  /**
+   * Creates a key for the caller, or for another user such as a service
+   * account when the caller may manage API keys. The owner's role must
+   * grant every scope, and a key cannot create a key with more scopes
+   * than its own.
+   */
+  async create(caller: UserPayload, dto: CreateApiKeyDto, context: AuditContext = {}): Promise<CreatedApiKey> {
+    const userId = dto.userId ?? caller.sub;
+
+    if (userId !== caller.sub && !this.canManage(caller)) {
+      throw new AccessDeniedException();
+    }
+
+    const owner = await this.usersService.findById(userId);
+
+    if (!owner) {
+      throw new UserNotFoundException();
+    }
+
+    const ownerPermissions = await this.rolesService.resolvePermissions(owner.role);
+    const notAllowed = dto.scopes.filter(
+      scope => !grantsPermission(ownerPermissions, scope) || (caller.apiKeyId && !grantsPermission(caller.permissions || [], scope)),
+    );
+
+    if (notAllowed.length) {
+      throw new ApiKeyScopesNotAllowedException(notAllowed);
+    }
+
+    const secret = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const ttlMs = dto.expiresInDays ? dto.expiresInDays * 24 * 60 * 60 * 1000 : this.auth.apiKeyTtlMs;
+    const apiKey = await this.usersService.saveApiKey({
+      id: randomUUID(),
+      userId,
+      name: dto.name,
+      scopes: [...new Set(dto.scopes)],
+      organizationId: RequestContext.organizationId() ?? null,
+      keyHash: this.hashSecret(secret),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + ttlMs),
+      lastUsedAt: null,
+    });
+
+    await this.auditService.record(
+      { action: 'api_key.created', target: { type: 'ApiKey', id: apiKey.id }, reason: `Owner ${owner.email}` },
+      context,
+    );
+
+    return { ...toView(apiKey), key: `${API_KEY_PREFIX}${apiKey.id}.${secret}` };
+  }
+
+  /** The caller's keys, or another user's when the caller may manage API keys */
+  async findAll(caller: UserPayload, userId: string = caller.sub): Promise<ApiKeyView[]> {
+    if (userId !== caller.sub && !this.canManage(caller)) {
+      throw new AccessDeniedException();
+    }
+
+    if (userId !== caller.sub && !(await this.usersService.exists(userId))) {
+      throw new UserNotFoundException();
+    }
+
+    return (await this.usersService.findApiKeys(userId)).map(toView);
+  }
+
+  /**
+   * Keys of other users look missing unless the caller may manage API keys
+   * and, within an organization, the owner is a member
+   */
+  async revoke(caller: UserPayload, id: string, context: AuditContext = {}): Promise<void> {
+    const apiKey = await this.usersService.findApiKey(id);
+    const isOthers = apiKey && apiKey.userId !== caller.sub;
+
+    if (!apiKey || apiKey.revokedAt || (isOthers && !(await this.canManageKeysOf(caller, apiKey.userId)))) {
+      throw new ApiKeyNotFoundException();
+    }
+
+    await this.usersService.updateApiKey(id, { revokedAt: new Date() });
+    await this.auditService.record({ action: 'api_key.revoked', target: { type: 'ApiKey', id } }, context);
+  }
+
+  /**
+   * Resolves a key sent by a client to its owner. The permissions are the
+   * owner's current ones narrowed to the key's scopes, so a key loses
+   * access along with its owner.
+   */
+  async authenticate(rawKey: string): Promise<UserPayload> {
+    const apiKey = await this.findByRawKey(rawKey);
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new InvalidApiKeyException();
+    }
+
+    if (apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new ApiKeyExpiredException();
+    }
+
+    const organization = await this.organizationsService.enter(apiKey.userId, apiKey.organizationId ?? undefined);
+    const owner = await this.usersService.findById(apiKey.userId);
+
+    if (!owner) {
+      throw new InvalidApiKeyException();
+    }
+
+    if (!owner.isActive) {
+      throw new AccountDeactivatedException();
+    }
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await this.usersService.updateApiKey(apiKey.id, { lastUsedAt: now });
+    }
+
+    const ownerPermissions = await this.rolesService.resolvePermissions(owner.role);
+
+    return {
+      sub: owner.id,
+      email: owner.email,
+      username: owner.username,
+      role: owner.role,
+      permissions: apiKey.scopes.filter(scope => grantsPermission(ownerPermissions, scope)),
+      locale: owner.locale,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+      ...(organization && { organization }),
+    };
+  }
+
+  private async findByRawKey(rawKey: string): Promise<ApiKey | null> {
+    if (!rawKey.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const [id, secret] = rawKey.slice(API_KEY_PREFIX.length).split('.');
+    const apiKey = id && secret ? await this.usersService.findApiKey(id) : null;
+
+    return apiKey && this.matchesHash(secret, apiKey.keyHash) ? apiKey : null;
+  }
+
+  private canManage(caller: UserPayload): boolean {
+    return grantsPermission(caller.permissions || [], 'api-keys:manage');
+  }
+
+  private async canManageKeysOf(caller: UserPayload, userId: string): Promise<boolean> {
+    return this.canManage(caller) && (await this.usersService.exists(userId));
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private matchesHash(secret: string, keyHash: string): boolean {
+    const expected = Buffer.from(keyHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
+
+function toView({ keyHash, ...view }: ApiKey): ApiKeyView {
+  return view;
+}
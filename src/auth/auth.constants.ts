@@ -0,0 +1,15 @@
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+
+/** Impersonation tokens are short-lived and come without a refresh token */
+export const IMPERSONATION_TOKEN_TTL_SECONDS = 15 * 60;
+
+/** Header machine clients send their API key in */
+export const API_KEY_HEADER = 'X-API-Key';
+
+/** Marks a string as one of our API keys, e.g. for secret scanners */
+export const API_KEY_PREFIX = 'ak_';
+
+export const TOKEN_REVOCATION_STORE = 'TOKEN_REVOCATION_STORE';
+
+/** Signed cookie that binds an OpenID Connect state to the browser that started the flow */
+export const OIDC_STATE_COOKIE = 'oidc_state';
@@ -1,22 +1,59 @@
-import { Controller, Post, Body, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse as SwaggerApiResponse, ApiBody } from '@nestjs/swagger';
+import { Controller, Post, Body, Param, ParseUUIDPipe, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse as SwaggerApiResponse, ApiBody, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
+import { PasswordResetService } from './password-reset.service';
+import { MfaService } from './mfa/mfa.service';
+import { EmailVerificationService } from '../users/email-verification.service';
 import { LocalAuthGuard } from './guards/local-auth.guard';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
 import { Public } from '../common/decorators/public.decorator';
+import { SessionOnly } from '../common/decorators/session-only.decorator';
+import { NoImpersonation } from '../common/decorators/no-impersonation.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequestAuditContext } from '../common/decorators/audit-context.decorator';
+import { ResponseMessage } from '../common/decorators/response-message.decorator';
+import { ApiOkResponseEnvelope } from '../common/decorators/api-ok-response-envelope.decorator';
 import { LoginDto } from '../common/dto/login.dto';
-import { ApiResponse } from '../common/types/api-response.types';
+import { RefreshTokenDto } from '../common/dto/refresh-token.dto';
+import { LogoutDto } from '../common/dto/logout.dto';
+import { VerifyEmailDto } from '../common/dto/verify-email.dto';
+import { ResendVerificationDto } from '../common/dto/resend-verification.dto';
+import { ForgotPasswordDto } from '../common/dto/forgot-password.dto';
+import { ResetPasswordDto } from '../common/dto/reset-password.dto';
+import { MfaCodeDto, MfaTokenDto, MfaVerifyDto } from '../common/dto/mfa.dto';
+import {
+  AuthTokensDto,
+  ImpersonationTokenDto,
+  MfaEnrollmentResultDto,
+  MfaSecretDto,
+  RecoveryCodesDto,
+} from '../common/dto/auth-response.dto';
+import { UserResponseDto } from '../common/dto/user-response.dto';
+import { UserPayload, UserRole } from '../common/types/user.types';
+import { AuditContext } from '../common/types/audit.types';
+import { AuthTokens, MfaChallenge } from '../common/types/auth.types';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly mfaService: MfaService,
+  ) {}
 
   @Public()
   @Post('login')
+  @ResponseMessage((result: AuthTokens | MfaChallenge) =>
+    'mfa_token' in result ? 'responses.auth.mfa_required' : 'responses.auth.logged_in',
+  )
   @ApiOperation({ 
     summary: 'User login',
-    description: 'Authenticate user and receive JWT token. Use the returned token in Authorization header for protected endpoints.'
+    description: 'Authenticate user and receive JWT token. Use the returned token in Authorization header for protected endpoints. Accounts with two-factor authentication get an mfa_token instead, to be exchanged at /auth/mfa/verify.'
   })
   @ApiBody({ 
     type: LoginDto,
@@ -31,34 +68,9 @@ export class AuthController {
       }
     }
   })
-  @SwaggerApiResponse({ 
-    status: 201, 
-    description: 'Login successful',
-    schema: {
-      type: 'object',
-      properties: {
-        success: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Login successful' },
-        data: {
-          type: 'object',
-          properties: {
-            access_token: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
-            user: {
-              type: 'object',
-              properties: {
-                id: { type: 'string', example: '1' },
-                email: { type: 'string', example: 'admin@example.com' },
-                username: { type: 'string', example: 'admin' },
-                role: { type: 'string', example: 'admin' },
-                isActive: { type: 'boolean', example: true }
-              }
-            }
-          }
-        },
-        timestamp: { type: 'string', example: '2024-01-01T00:00:00.000Z' },
-        path: { type: 'string', example: '/auth/login' }
-      }
-    }
+  @ApiOkResponseEnvelope(AuthTokensDto, {
+    status: 201,
+    description: 'Login successful. With two-factor authentication, data holds mfa_required (or mfa_enrollment_required) and mfa_token instead',
   })
   @SwaggerApiResponse({ 
     status: 401, 
@@ -68,7 +80,8 @@ export class AuthController {
       properties: {
         statusCode: { type: 'number', example: 401 },
         message: { type: 'string', example: 'Invalid credentials' },
-        error: { type: 'string', example: 'UnauthorizedException' },
+        error: { type: 'string', example: 'Unauthorized' },
+        code: { type: 'string', example: 'AUTH_INVALID_CREDENTIALS' },
         timestamp: { type: 'string', example: '2024-01-01T00:00:00.000Z' },
         path: { type: 'string', example: '/auth/login' }
       }
@@ -81,24 +94,277 @@ export class AuthController {
       type: 'object',
       properties: {
         statusCode: { type: 'number', example: 400 },
-        message: { type: 'string', example: 'email must be an email, password must be longer than or equal to 6 characters' },
-        error: { type: 'string', example: 'BadRequestException' },
+        message: { type: 'string', example: 'Validation failed' },
+        error: { type: 'string', example: 'Bad Request' },
+        code: { type: 'string', example: 'VALIDATION_FAILED' },
+        errors: {
+          type: 'array',
+          example: [{ field: 'email', message: 'email must be an email' }],
+        },
         timestamp: { type: 'string', example: '2024-01-01T00:00:00.000Z' },
         path: { type: 'string', example: '/auth/login' }
       }
     }
   })
-  async login(@Body() loginDto: LoginDto) {
-    const result = await this.authService.login(loginDto);
-    
-    const response: ApiResponse = {
-      success: true,
-      message: 'Login successful',
-      data: result,
-      timestamp: new Date().toISOString(),
-      path: '/auth/login',
-    };
-
-    return response;
+  @SwaggerApiResponse({
+    status: 423,
+    description: 'Account temporarily locked after repeated failed logins',
+    schema: {
+      type: 'object',
+      properties: {
+        statusCode: { type: 'number', example: 423 },
+        message: { type: 'string', example: 'Account is temporarily locked. Try again later' },
+        error: { type: 'string', example: 'Locked' },
+        code: { type: 'string', example: 'AUTH_ACCOUNT_LOCKED' },
+        timestamp: { type: 'string', example: '2024-01-01T00:00:00.000Z' },
+        path: { type: 'string', example: '/auth/login' }
+      }
+    }
+  })
+  @SwaggerApiResponse({ status: 429, description: 'Too many failed logins from this IP address' })
+  async login(@Body() loginDto: LoginDto, @RequestAuditContext() context: AuditContext) {
+    return this.authService.login(loginDto, context);
+  }
+
+  @Public()
+  @Post('refresh')
+  @ResponseMessage('responses.auth.token_refreshed')
+  @ApiOperation({
+    summary: 'Refresh access token',
+    description: 'Exchange a refresh token for a new access token. The refresh token is rotated on every call; reusing a rotated-out token revokes the whole token family.'
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiOkResponseEnvelope(AuthTokensDto, { status: 201, description: 'Tokens refreshed' })
+  @SwaggerApiResponse({
+    status: 401,
+    description: 'Invalid, expired or reused refresh token',
+    schema: {
+      type: 'object',
+      properties: {
+        statusCode: { type: 'number', example: 401 },
+        message: { type: 'string', example: 'Refresh token reuse detected' },
+        error: { type: 'string', example: 'Unauthorized' },
+        code: { type: 'string', example: 'AUTH_REFRESH_TOKEN_REUSED' },
+        timestamp: { type: 'string', example: '2024-01-01T00:00:00.000Z' },
+        path: { type: 'string', example: '/auth/refresh' }
+      }
+    }
+  })
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto, @RequestAuditContext() context: AuditContext) {
+    return this.authService.refresh(refreshTokenDto.refresh_token, context);
+  }
+
+  @Post('logout')
+  @ResponseMessage('responses.auth.logged_out')
+  @UseGuards(JwtAuthGuard)
+  @SessionOnly()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Logout current session',
+    description: 'Revoke the access token used for this request. Pass the session refresh token to revoke it as well.'
+  })
+  @ApiBody({ type: LogoutDto, required: false })
+  @ApiOkResponseEnvelope(undefined, { status: 201, description: 'Logged out successfully' })
+  @SwaggerApiResponse({ status: 401, description: 'Missing, invalid or revoked token' })
+  async logout(@CurrentUser() user: UserPayload, @Body() logoutDto: LogoutDto) {
+    await this.authService.logout(user, logoutDto.refresh_token);
+  }
+
+  @Post('logout-all')
+  @ResponseMessage('responses.auth.logged_out_all')
+  @UseGuards(JwtAuthGuard)
+  @SessionOnly()
+  @NoImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Logout all sessions',
+    description: 'Revoke every access and refresh token issued to the current user.'
+  })
+  @ApiOkResponseEnvelope(undefined, { status: 201, description: 'All sessions logged out' })
+  @SwaggerApiResponse({ status: 401, description: 'Missing, invalid or revoked token' })
+  async logoutAll(@CurrentUser('sub') userId: string) {
+    await this.authService.logoutAll(userId);
+  }
+
+  @Post('impersonate/:id')
+  @ResponseMessage('responses.auth.impersonating')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @SessionOnly()
+  @NoImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Impersonate a user',
+    description: 'Issue a short-lived access token that acts as the user, e.g. to see what they see at /users/profile. The token names the admin in its act claim, cannot be refreshed and cannot be used for sensitive operations such as changing the password or deleting users. Every impersonation is audited.'
+  })
+  @ApiParam({ name: 'id', description: 'User to impersonate' })
+  @ApiOkResponseEnvelope(ImpersonationTokenDto, { status: 201, description: 'Impersonation started' })
+  @SwaggerApiResponse({ status: 400, description: 'The user is the admin themselves, another admin or deactivated' })
+  @SwaggerApiResponse({ status: 403, description: 'Not an admin, or already impersonating' })
+  @SwaggerApiResponse({ status: 404, description: 'User not found' })
+  async impersonate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() admin: UserPayload,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    return this.authService.impersonate(admin, id, context);
+  }
+
+  @Public()
+  @Post('verify-email')
+  @ResponseMessage('responses.auth.email_verified')
+  @ApiOperation({
+    summary: 'Verify email address',
+    description: 'Confirm a self-registered account with the token from the verification email.'
+  })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiOkResponseEnvelope(UserResponseDto, { status: 201, description: 'Email verified successfully' })
+  @SwaggerApiResponse({ status: 400, description: 'Invalid or expired verification token' })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.emailVerificationService.verify(verifyEmailDto.token);
+  }
+
+  @Public()
+  @Post('verify-email/resend')
+  @ResponseMessage('responses.auth.verification_resent')
+  @Throttle({ default: { limit: 3, ttl: 60 * 60 * 1000 } })
+  @ApiOperation({
+    summary: 'Resend verification email',
+    description: 'Send a new verification email. Always succeeds so it cannot be used to discover accounts. Limited to 3 requests per hour.'
+  })
+  @ApiBody({ type: ResendVerificationDto })
+  @ApiOkResponseEnvelope(undefined, { status: 201, description: 'Verification email sent if the account is pending verification' })
+  @SwaggerApiResponse({ status: 429, description: 'Too many requests' })
+  async resendVerification(@Body() resendVerificationDto: ResendVerificationDto) {
+    await this.emailVerificationService.resend(resendVerificationDto.email);
+  }
+
+  @Public()
+  @Post('forgot-password')
+  @ResponseMessage('responses.auth.reset_requested')
+  @Throttle({ default: { limit: 3, ttl: 60 * 60 * 1000 } })
+  @ApiOperation({
+    summary: 'Request a password reset',
+    description: 'Email a single-use, time-limited reset link. Always succeeds so it cannot be used to discover accounts. Limited to 3 requests per hour.'
+  })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiOkResponseEnvelope(undefined, { status: 201, description: 'Reset email sent if the account exists' })
+  @SwaggerApiResponse({ status: 429, description: 'Too many requests' })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.passwordResetService.requestReset(forgotPasswordDto.email);
+  }
+
+  @Public()
+  @Post('reset-password')
+  @ResponseMessage('responses.auth.password_reset')
+  @ApiOperation({
+    summary: 'Reset password',
+    description: 'Set a new password with the token from the reset email. All existing sessions are revoked.'
+  })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiOkResponseEnvelope(undefined, { status: 201, description: 'Password reset successfully' })
+  @SwaggerApiResponse({ status: 400, description: 'Invalid, expired or already used reset token' })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.passwordResetService.resetPassword(resetPasswordDto.token, resetPasswordDto.password);
+  }
+
+  @Public()
+  @Post('mfa/verify')
+  @ResponseMessage('responses.auth.logged_in')
+  @Throttle({ default: { limit: 5, ttl: 60 * 1000 } })
+  @ApiOperation({
+    summary: 'Complete two-factor login',
+    description: 'Exchange the mfa_token from /auth/login and a code from the authenticator app (or a recovery code) for an access and refresh token.'
+  })
+  @ApiBody({ type: MfaVerifyDto })
+  @ApiOkResponseEnvelope(AuthTokensDto, { status: 201, description: 'Login successful' })
+  @SwaggerApiResponse({ status: 401, description: 'Invalid or expired mfa_token, or invalid code' })
+  @SwaggerApiResponse({ status: 429, description: 'Too many requests' })
+  async verifyMfa(@Body() mfaVerifyDto: MfaVerifyDto, @RequestAuditContext() context: AuditContext) {
+    return this.authService.verifyMfa(mfaVerifyDto.mfa_token, mfaVerifyDto.code, context);
+  }
+
+  @Public()
+  @Post('mfa/enroll')
+  @ResponseMessage('responses.auth.mfa_setup')
+  @ApiOperation({
+    summary: 'Start required two-factor enrollment',
+    description: 'For accounts that must use two-factor authentication but have not set it up yet. Takes the mfa_token from /auth/login and returns a new secret and otpauth URI.'
+  })
+  @ApiBody({ type: MfaTokenDto })
+  @ApiOkResponseEnvelope(MfaSecretDto, { status: 201, description: 'Secret generated' })
+  @SwaggerApiResponse({ status: 401, description: 'Invalid or expired mfa_token' })
+  async beginMfaEnrollment(@Body() mfaTokenDto: MfaTokenDto) {
+    return this.authService.beginMfaEnrollment(mfaTokenDto.mfa_token);
+  }
+
+  @Public()
+  @Post('mfa/enroll/confirm')
+  @ResponseMessage('responses.auth.mfa_enabled')
+  @Throttle({ default: { limit: 5, ttl: 60 * 1000 } })
+  @ApiOperation({
+    summary: 'Finish required two-factor enrollment',
+    description: 'Confirm the new secret with the first code. Returns the recovery codes along with an access and refresh token.'
+  })
+  @ApiBody({ type: MfaVerifyDto })
+  @ApiOkResponseEnvelope(MfaEnrollmentResultDto, { status: 201, description: 'Two-factor authentication enabled, login successful' })
+  @SwaggerApiResponse({ status: 400, description: 'Invalid code or enrollment not started' })
+  @SwaggerApiResponse({ status: 401, description: 'Invalid or expired mfa_token' })
+  async completeMfaEnrollment(@Body() mfaVerifyDto: MfaVerifyDto, @RequestAuditContext() context: AuditContext) {
+    return this.authService.completeMfaEnrollment(mfaVerifyDto.mfa_token, mfaVerifyDto.code, context);
+  }
+
+  @Post('mfa/setup')
+  @ResponseMessage('responses.auth.mfa_setup')
+  @UseGuards(JwtAuthGuard)
+  @SessionOnly()
+  @NoImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start two-factor setup',
+    description: 'Generate a new TOTP secret and otpauth URI for the current user. Two-factor authentication stays off until /auth/mfa/confirm succeeds.'
+  })
+  @ApiOkResponseEnvelope(MfaSecretDto, { status: 201, description: 'Secret generated' })
+  @SwaggerApiResponse({ status: 400, description: 'Two-factor authentication is already enabled' })
+  async setupMfa(@CurrentUser('sub') userId: string) {
+    return this.mfaService.beginEnrollment(userId);
+  }
+
+  @Post('mfa/confirm')
+  @ResponseMessage('responses.auth.mfa_enabled')
+  @UseGuards(JwtAuthGuard)
+  @SessionOnly()
+  @NoImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @Throttle({ default: { limit: 5, ttl: 60 * 1000 } })
+  @ApiOperation({
+    summary: 'Confirm two-factor setup',
+    description: 'Enable two-factor authentication with the first code from the authenticator app. The returned recovery codes are shown only once.'
+  })
+  @ApiBody({ type: MfaCodeDto })
+  @ApiOkResponseEnvelope(RecoveryCodesDto, { status: 201, description: 'Two-factor authentication enabled' })
+  @SwaggerApiResponse({ status: 400, description: 'Invalid code or setup not started' })
+  async confirmMfa(@CurrentUser('sub') userId: string, @Body() mfaCodeDto: MfaCodeDto) {
+    const recoveryCodes = await this.mfaService.confirmEnrollment(userId, mfaCodeDto.code);
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  @Post('mfa/disable')
+  @ResponseMessage('responses.auth.mfa_disabled')
+  @UseGuards(JwtAuthGuard)
+  @SessionOnly()
+  @NoImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @Throttle({ default: { limit: 5, ttl: 60 * 1000 } })
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description: 'Turn two-factor authentication off after checking a current code or a recovery code. Not allowed for admins when 2FA is required for them.'
+  })
+  @ApiBody({ type: MfaCodeDto })
+  @ApiOkResponseEnvelope(undefined, { status: 201, description: 'Two-factor authentication disabled' })
+  @SwaggerApiResponse({ status: 400, description: 'Invalid code, not enabled, or required for this account' })
+  async disableMfa(@CurrentUser('sub') userId: string, @Body() mfaCodeDto: MfaCodeDto) {
+    await this.mfaService.disable(userId, mfaCodeDto.code);
   }
 }
@@ -0,0 +1,227 @@
+import { HttpStatus } from '@nestjs/common';
+import { DomainException } from '../common/exceptions/domain.exception';
+import { ErrorCode } from '../common/types/error.types';
+
+// 423 Locked (RFC 4918) is not part of Nest's HttpStatus enum
+const HTTP_STATUS_LOCKED = 423;
+
+export class InvalidCredentialsException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid credentials', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class AccountDeactivatedException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_ACCOUNT_DEACTIVATED, 'Account is deactivated', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class EmailNotVerifiedException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_EMAIL_NOT_VERIFIED, 'Email address has not been verified', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+/** Carries retryAfter, which the exception filter sends as a Retry-After header */
+export class AccountLockedException extends DomainException {
+  constructor(retryAfter: number) {
+    super(
+      ErrorCode.AUTH_ACCOUNT_LOCKED,
+      'Account is temporarily locked. Try again later',
+      HTTP_STATUS_LOCKED,
+      { retryAfter },
+    );
+  }
+}
+
+export class TooManyLoginAttemptsException extends DomainException {
+  constructor(retryAfter: number) {
+    super(
+      ErrorCode.AUTH_TOO_MANY_LOGIN_ATTEMPTS,
+      'Too many failed login attempts. Try again later',
+      HttpStatus.TOO_MANY_REQUESTS,
+      { retryAfter },
+    );
+  }
+}
+
+export class InvalidMfaCodeException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_INVALID_MFA_CODE, 'Invalid two-factor code', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class TokenRevokedException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_TOKEN_REVOKED, 'Token has been revoked', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class InvalidRefreshTokenException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_REFRESH_TOKEN_INVALID, 'Invalid refresh token', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class RefreshTokenReusedException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_REFRESH_TOKEN_REUSED, 'Refresh token reuse detected', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class RefreshTokenExpiredException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_REFRESH_TOKEN_EXPIRED, 'Refresh token expired', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class CurrentPasswordIncorrectException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_CURRENT_PASSWORD_INCORRECT, 'Current password is incorrect', HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class InvalidTokenException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid token', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class InvalidResetTokenException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_RESET_TOKEN_INVALID, 'Invalid or expired reset token', HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class InvalidMfaTokenException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_MFA_TOKEN_INVALID, 'Invalid or expired MFA token', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class UnknownOidcProviderException extends DomainException {
+  constructor(provider: string) {
+    super(ErrorCode.AUTH_OIDC_UNKNOWN_PROVIDER, `Unknown login provider: ${provider}`, HttpStatus.NOT_FOUND, { provider });
+  }
+}
+
+/** The state of an OIDC callback is unknown, already used or expired */
+export class InvalidOidcStateException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.AUTH_OIDC_INVALID_STATE,
+      'The login request is unknown or has expired. Start the login again',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+/** The provider reported an error, or its code or ID token did not check out */
+export class OidcLoginFailedException extends DomainException {
+  constructor(provider: string) {
+    super(ErrorCode.AUTH_OIDC_LOGIN_FAILED, `Login with ${provider} failed`, HttpStatus.UNAUTHORIZED, { provider });
+  }
+}
+
+export class OidcAccountNotLinkedException extends DomainException {
+  constructor(provider: string) {
+    super(
+      ErrorCode.AUTH_OIDC_ACCOUNT_NOT_LINKED,
+      `No account is linked to this ${provider} identity. Log in and link it first`,
+      HttpStatus.UNAUTHORIZED,
+      { provider },
+    );
+  }
+}
+
+export class OidcIdentityInUseException extends DomainException {
+  constructor(provider: string) {
+    super(
+      ErrorCode.AUTH_OIDC_IDENTITY_IN_USE,
+      `This ${provider} identity is already linked to another account`,
+      HttpStatus.CONFLICT,
+      { provider },
+    );
+  }
+}
+
+export class MfaAlreadyEnabledException extends DomainException {
+  constructor() {
+    super(ErrorCode.MFA_ALREADY_ENABLED, 'Two-factor authentication is already enabled', HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class MfaNotEnabledException extends DomainException {
+  constructor() {
+    super(ErrorCode.MFA_NOT_ENABLED, 'Two-factor authentication is not enabled', HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class MfaSetupNotStartedException extends DomainException {
+  constructor() {
+    super(ErrorCode.MFA_SETUP_NOT_STARTED, 'Two-factor setup has not been started', HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class InvalidVerificationCodeException extends DomainException {
+  constructor() {
+    super(ErrorCode.MFA_INVALID_CODE, 'Invalid verification code', HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class MfaRequiredForAdminsException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.MFA_REQUIRED_FOR_ADMINS,
+      'Two-factor authentication is required for administrators',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+/** Unknown, malformed or revoked; the client is not told which */
+export class InvalidApiKeyException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_API_KEY_INVALID, 'Invalid API key', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class ApiKeyExpiredException extends DomainException {
+  constructor() {
+    super(ErrorCode.AUTH_API_KEY_EXPIRED, 'API key expired', HttpStatus.UNAUTHORIZED);
+  }
+}
+
+export class ApiKeyNotFoundException extends DomainException {
+  constructor() {
+    super(ErrorCode.API_KEY_NOT_FOUND, 'API key not found', HttpStatus.NOT_FOUND);
+  }
+}
+
+export class ApiKeyScopesNotAllowedException extends DomainException {
+  constructor(scopes: string[]) {
+    super(
+      ErrorCode.API_KEY_SCOPES_NOT_ALLOWED,
+      `The key owner is not granted the scopes: ${scopes.join(', ')}`,
+      HttpStatus.FORBIDDEN,
+      { scopes },
+    );
+  }
+}
+
+export class ImpersonationNotAllowedException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.AUTH_IMPERSONATION_NOT_ALLOWED,
+      'You cannot impersonate yourself, another admin or a deactivated account',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class SessionNotFoundException extends DomainException {
+  constructor() {
+    super(ErrorCode.SESSION_NOT_FOUND, 'Session not found', HttpStatus.NOT_FOUND);
+  }
+}
@@ -1,23 +1,64 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { AuthService } from './auth.service';
+import { PasswordResetService } from './password-reset.service';
+import { MfaService } from './mfa/mfa.service';
+import { LoginLockoutService } from './lockout/login-lockout.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import { ACCESS_TOKEN_TTL_SECONDS, TOKEN_REVOCATION_STORE } from './auth.constants';
+import { InMemoryTokenRevocationStore } from './stores/in-memory-token-revocation.store';
+import { FileTokenRevocationStore } from './stores/file-token-revocation.store';
+import { TokenRevocationStoreIndicator } from './stores/token-revocation-store.indicator';
+import { SigningKeyService } from './keys/signing-key.service';
+import { JwksController } from './keys/jwks.controller';
+import { OidcService } from './oidc/oidc.service';
+import { OidcController } from './oidc/oidc.controller';
+import { ApiKeysService } from './api-keys/api-keys.service';
+import { SessionsService } from './sessions/sessions.service';
+import { ApiKeysController } from './api-keys/api-keys.controller';
+import { storageConfig, StorageConfig } from '../config/storage.config';
 
 @Module({
   imports: [
-    UsersModule,
+    // UsersController relies on AuthService for session revocation
+    forwardRef(() => UsersModule),
+    MailModule,
     PassportModule,
+    // No module-wide secret: access tokens take their key from SigningKeyService,
+    // and the other token types pass their own secret
     JwtModule.register({
-      secret: process.env.JWT_SECRET || 'your-secret-key',
-      signOptions: { expiresIn: '1h' },
+      signOptions: { expiresIn: ACCESS_TOKEN_TTL_SECONDS },
     }),
   ],
-  providers: [AuthService, JwtStrategy, LocalStrategy],
-  controllers: [AuthController],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    SigningKeyService,
+    PasswordResetService,
+    MfaService,
+    LoginLockoutService,
+    OidcService,
+    ApiKeysService,
+    SessionsService,
+    JwtStrategy,
+    LocalStrategy,
+    ApiKeyStrategy,
+    TokenRevocationStoreIndicator,
+    {
+      provide: TOKEN_REVOCATION_STORE,
+      inject: [storageConfig.KEY],
+      useFactory: (storage: StorageConfig) =>
+        storage.tokenRevocationStore === 'file'
+          ? new FileTokenRevocationStore(storage.tokenRevocationFile)
+          : new InMemoryTokenRevocationStore(),
+    },
+  ],
+  controllers: [AuthController, JwksController, OidcController, ApiKeysController],
+  exports: [AuthService, SessionsService],
 })
 export class AuthModule {}
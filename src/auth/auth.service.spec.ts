@@ -1,10 +1,34 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
-import { UnauthorizedException } from '@nestjs/common';
+import { HttpException } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { UsersService } from '../users/users.service';
-import { UserRole } from '../common/types/user.types';
+import { UserRole, UserStatus } from '../common/types/user.types';
+import { TOKEN_REVOCATION_STORE } from './auth.constants';
+import { TokenRevocationStore } from './stores/token-revocation.store';
+import { MfaService } from './mfa/mfa.service';
+import { LoginLockoutService } from './lockout/login-lockout.service';
+import { RolesService } from '../users/roles.service';
+import { AuthTokens } from '../common/types/auth.types';
 import * as bcrypt from 'bcrypt';
+import { AuditService } from '../audit/audit.service';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  AccountDeactivatedException,
+  CurrentPasswordIncorrectException,
+  EmailNotVerifiedException,
+  ImpersonationNotAllowedException,
+  InvalidCredentialsException,
+  InvalidRefreshTokenException,
+  RefreshTokenReusedException,
+} from './auth.exceptions';
+import { ErrorCode } from '../common/types/error.types';
+import { authConfig } from '../config/auth.config';
+import { SigningKeyService } from './keys/signing-key.service';
+import { UserNotFoundException } from '../users/users.exceptions';
+import { IMPERSONATION_TOKEN_TTL_SECONDS } from './auth.constants';
+import { SessionsService } from './sessions/sessions.service';
+import { OrganizationsService } from '../users/organizations.service';
 
 // Mock bcrypt
 jest.mock('bcrypt');
@@ -14,13 +38,26 @@ describe('AuthService', () => {
   let service: AuthService;
   let usersService: jest.Mocked<UsersService>;
   let jwtService: jest.Mocked<JwtService>;
+  let revocationStore: jest.Mocked<TokenRevocationStore>;
+  let mfaService: jest.Mocked<MfaService>;
+  let loginLockoutService: jest.Mocked<LoginLockoutService>;
+  let auditService: { record: jest.Mock };
+  let metricsService: { recordLoginSuccess: jest.Mock; recordLoginFailure: jest.Mock };
+  let sessionsService: { start: jest.Mock; resume: jest.Mock; end: jest.Mock; endAll: jest.Mock };
+  let organizationsService: { enter: jest.Mock };
 
   const mockUser = {
     id: '1',
     email: 'test@example.com',
     username: 'testuser',
     role: UserRole.USER,
+    status: UserStatus.ACTIVE,
     isActive: true,
+    mfaEnabled: false,
+    locale: null,
+    failedLoginAttempts: 0,
+    lockoutCount: 0,
+    lockedUntil: null,
     password: 'hashedpassword',
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -30,12 +67,41 @@ describe('AuthService', () => {
     const mockUsersService = {
       findByEmail: jest.fn(),
       findById: jest.fn(),
+      saveRefreshToken: jest.fn(),
+      findRefreshToken: jest.fn(),
+      revokeRefreshToken: jest.fn().mockResolvedValue(true),
+      revokeRefreshTokenFamily: jest.fn(),
+      revokeAllRefreshTokens: jest.fn(),
+      setPassword: jest.fn(),
     };
 
     const mockJwtService = {
       sign: jest.fn(),
     };
 
+    const mockRevocationStore = {
+      revokeToken: jest.fn(),
+      revokeUserTokens: jest.fn(),
+      isRevoked: jest.fn(),
+      prune: jest.fn(),
+    };
+
+    const mockMfaService = {
+      isEnrollmentRequired: jest.fn().mockReturnValue(false),
+      issueMfaToken: jest.fn(),
+      verifyMfaToken: jest.fn(),
+      revokeMfaToken: jest.fn(),
+      verifyCode: jest.fn(),
+      confirmEnrollment: jest.fn(),
+    };
+
+    const mockLoginLockoutService = {
+      assertIpAllowed: jest.fn(),
+      assertAccountAllowed: jest.fn(),
+      recordFailure: jest.fn(),
+      recordSuccess: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
@@ -47,12 +113,61 @@ describe('AuthService', () => {
           provide: JwtService,
           useValue: mockJwtService,
         },
+        {
+          provide: TOKEN_REVOCATION_STORE,
+          useValue: mockRevocationStore,
+        },
+        {
+          provide: MfaService,
+          useValue: mockMfaService,
+        },
+        {
+          provide: LoginLockoutService,
+          useValue: mockLoginLockoutService,
+        },
+        {
+          provide: RolesService,
+          useValue: { resolvePermissions: jest.fn().mockResolvedValue(['users:read']) },
+        },
+        {
+          provide: AuditService,
+          useValue: { record: jest.fn() },
+        },
+        {
+          provide: MetricsService,
+          useValue: { recordLoginSuccess: jest.fn(), recordLoginFailure: jest.fn() },
+        },
+        {
+          provide: authConfig.KEY,
+          useValue: authConfig(),
+        },
+        SigningKeyService,
+        {
+          provide: SessionsService,
+          useValue: {
+            start: jest.fn().mockResolvedValue({ id: 'session-1' }),
+            resume: jest.fn().mockResolvedValue({ id: 'session-1', organizationId: null }),
+            end: jest.fn(),
+            endAll: jest.fn(),
+          },
+        },
+        {
+          provide: OrganizationsService,
+          useValue: { enter: jest.fn() },
+        },
       ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
     usersService = module.get(UsersService);
     jwtService = module.get(JwtService);
+    revocationStore = module.get(TOKEN_REVOCATION_STORE);
+    mfaService = module.get(MfaService);
+    loginLockoutService = module.get(LoginLockoutService);
+    auditService = module.get(AuditService);
+    metricsService = module.get(MetricsService);
+    sessionsService = module.get(SessionsService);
+    organizationsService = module.get(OrganizationsService);
   });
 
   afterEach(() => {
@@ -71,7 +186,13 @@ describe('AuthService', () => {
         email: 'test@example.com',
         username: 'testuser',
         role: UserRole.USER,
+        status: UserStatus.ACTIVE,
         isActive: true,
+        mfaEnabled: false,
+        locale: null,
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        lockedUntil: null,
         createdAt: mockUser.createdAt,
         updatedAt: mockUser.updatedAt,
       });
@@ -79,28 +200,86 @@ describe('AuthService', () => {
       expect(mockedBcrypt.compare).toHaveBeenCalledWith('password123', 'hashedpassword');
     });
 
-    it('should throw UnauthorizedException when user is not found', async () => {
+    it('should throw InvalidCredentialsException when user is not found', async () => {
       usersService.findByEmail.mockResolvedValue(null);
 
       await expect(service.validateUser('test@example.com', 'password123'))
-        .rejects.toThrow(UnauthorizedException);
+        .rejects.toThrow(InvalidCredentialsException);
     });
 
-    it('should throw UnauthorizedException when password is invalid', async () => {
+    it('should throw InvalidCredentialsException when password is invalid', async () => {
       usersService.findByEmail.mockResolvedValue(mockUser);
       mockedBcrypt.compare.mockResolvedValue(false as never);
 
       await expect(service.validateUser('test@example.com', 'wrongpassword'))
-        .rejects.toThrow(UnauthorizedException);
+        .rejects.toThrow(InvalidCredentialsException);
     });
 
-    it('should throw UnauthorizedException when user is inactive', async () => {
+    it('should throw AccountDeactivatedException when user is inactive', async () => {
       const inactiveUser = { ...mockUser, isActive: false };
       usersService.findByEmail.mockResolvedValue(inactiveUser);
       mockedBcrypt.compare.mockResolvedValue(true as never);
 
       await expect(service.validateUser('test@example.com', 'password123'))
-        .rejects.toThrow(UnauthorizedException);
+        .rejects.toThrow(AccountDeactivatedException);
+    });
+
+    it('should record failed attempts per account and IP', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(false as never);
+
+      await expect(service.validateUser('test@example.com', 'wrongpassword', '10.0.0.1'))
+        .rejects.toThrow('Invalid credentials');
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith('test@example.com', mockUser, '10.0.0.1');
+    });
+
+    it('should record failed attempts for unknown emails too', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await expect(service.validateUser('nobody@example.com', 'password123', '10.0.0.1'))
+        .rejects.toThrow('Invalid credentials');
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith('nobody@example.com', null, '10.0.0.1');
+    });
+
+    it('should not compare the password of a locked account', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      loginLockoutService.assertAccountAllowed.mockImplementation(() => {
+        throw new HttpException('Account is temporarily locked. Try again later', 423);
+      });
+
+      await expect(service.validateUser('test@example.com', 'password123'))
+        .rejects.toThrow('Account is temporarily locked');
+      expect(mockedBcrypt.compare).not.toHaveBeenCalled();
+    });
+
+    it('should reset the failure counters after a successful login', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+
+      await service.validateUser('test@example.com', 'password123');
+
+      expect(loginLockoutService.recordSuccess).toHaveBeenCalledWith(mockUser);
+    });
+
+    it('should reject unverified users with the AUTH_EMAIL_NOT_VERIFIED code', async () => {
+      const pendingUser = { ...mockUser, status: UserStatus.PENDING_VERIFICATION };
+      usersService.findByEmail.mockResolvedValue(pendingUser);
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+
+      const error = await service.validateUser('test@example.com', 'password123').catch(e => e);
+
+      expect(error).toBeInstanceOf(EmailNotVerifiedException);
+      expect(error.getStatus()).toBe(401);
+      expect(error.getResponse()).toEqual(expect.objectContaining({ code: ErrorCode.AUTH_EMAIL_NOT_VERIFIED }));
+    });
+
+    it('should not reveal verification status when the password is wrong', async () => {
+      const pendingUser = { ...mockUser, status: UserStatus.PENDING_VERIFICATION };
+      usersService.findByEmail.mockResolvedValue(pendingUser);
+      mockedBcrypt.compare.mockResolvedValue(false as never);
+
+      await expect(service.validateUser('test@example.com', 'wrongpassword'))
+        .rejects.toThrow('Invalid credentials');
     });
   });
 
@@ -127,6 +306,7 @@ describe('AuthService', () => {
 
       expect(result).toEqual({
         access_token: 'mock-jwt-token',
+        refresh_token: expect.any(String),
         user: {
           id: '1',
           email: 'test@example.com',
@@ -140,7 +320,436 @@ describe('AuthService', () => {
         email: 'test@example.com',
         username: 'testuser',
         role: UserRole.USER,
+        jti: expect.any(String),
+        sid: 'session-1',
+        iat: expect.any(Number),
+      }, { secret: authConfig().jwtSecret, algorithm: 'HS256' });
+    });
+
+    it('should start a session that the refresh token family belongs to', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+      const context = { ip: '203.0.113.7', userAgent: 'curl/8.5.0' };
+
+      await service.login({ email: 'test@example.com', password: 'password123' }, context);
+
+      expect(sessionsService.start).toHaveBeenCalledWith('1', context);
+      expect(usersService.saveRefreshToken.mock.calls[0][0].familyId).toBe('session-1');
+    });
+
+    it('should issue tokens in the organization of the request, with the role held there', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+      organizationsService.enter.mockResolvedValue({ id: 'org-1', slug: 'acme', name: 'Acme', role: UserRole.ADMIN });
+
+      const result = await service.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(organizationsService.enter).toHaveBeenCalledWith('1');
+      expect(jwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ org: 'org-1', role: UserRole.ADMIN }),
+        expect.anything(),
+      );
+      expect(result).toEqual(expect.objectContaining({ user: expect.objectContaining({ role: UserRole.ADMIN }) }));
+    });
+
+    it('should store a hashed refresh token for the user', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+      jwtService.sign.mockReturnValue('mock-jwt-token');
+
+      const result = await service.login({
+        email: 'test@example.com',
+        password: 'password123',
+      }) as AuthTokens;
+
+      const [id, secret] = result.refresh_token.split('.');
+      const stored = usersService.saveRefreshToken.mock.calls[0][0];
+      expect(stored.id).toBe(id);
+      expect(stored.userId).toBe('1');
+      expect(stored.tokenHash).not.toContain(secret);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should audit a successful login with the user as actor', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+      jwtService.sign.mockReturnValue('mock-jwt-token');
+
+      await service.login({ email: 'test@example.com', password: 'password123' }, { ip: '10.0.0.1' });
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        { action: 'auth.login.succeeded', target: { type: 'User', id: '1' } },
+        { ip: '10.0.0.1', actor: { id: '1', email: 'test@example.com', role: UserRole.USER } },
+      );
+      expect(metricsService.recordLoginSuccess).toHaveBeenCalledTimes(1);
+    });
+
+    it('should audit a failed login and rethrow', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(false as never);
+
+      await expect(service.login({ email: 'test@example.com', password: 'wrongpassword' }, { requestId: 'req-1' }))
+        .rejects.toThrow(InvalidCredentialsException);
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        {
+          action: 'auth.login.failed',
+          outcome: 'failure',
+          target: { type: 'User', id: '1' },
+          reason: 'Invalid credentials (test@example.com)',
+        },
+        { requestId: 'req-1' },
+      );
+      expect(metricsService.recordLoginFailure).toHaveBeenCalledWith(ErrorCode.AUTH_INVALID_CREDENTIALS);
+    });
+  });
+
+  describe('loginWithIdentity', () => {
+    it('should issue tokens for an active account', async () => {
+      jwtService.sign.mockReturnValue('mock-jwt-token');
+
+      const result = await service.loginWithIdentity(mockUser, { ip: '10.0.0.1' });
+
+      expect(loginLockoutService.assertIpAllowed).toHaveBeenCalledWith('10.0.0.1');
+      expect(result).toEqual(expect.objectContaining({ access_token: 'mock-jwt-token' }));
+    });
+
+    it('should reject a locked account', async () => {
+      loginLockoutService.assertAccountAllowed.mockImplementation(() => {
+        throw new HttpException('Account is temporarily locked. Try again later', 423);
       });
+
+      await expect(service.loginWithIdentity(mockUser)).rejects.toThrow('Account is temporarily locked');
+      expect(jwtService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should reject deactivated and unverified accounts', async () => {
+      await expect(service.loginWithIdentity({ ...mockUser, isActive: false }))
+        .rejects.toThrow(AccountDeactivatedException);
+      await expect(service.loginWithIdentity({ ...mockUser, status: UserStatus.PENDING_VERIFICATION }))
+        .rejects.toThrow(EmailNotVerifiedException);
+    });
+  });
+
+  describe('two-factor login', () => {
+    it('should return an mfa_token instead of tokens when 2FA is enabled', async () => {
+      usersService.findByEmail.mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+      mfaService.issueMfaToken.mockReturnValue('mfa-token');
+
+      const result = await service.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(result).toEqual({ mfa_required: true, mfa_token: 'mfa-token' });
+      expect(mfaService.issueMfaToken).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), 'mfa-login');
+      expect(usersService.saveRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should require enrollment when 2FA is mandatory for the account', async () => {
+      usersService.findByEmail.mockResolvedValue({ ...mockUser, role: UserRole.ADMIN });
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+      mfaService.isEnrollmentRequired.mockReturnValue(true);
+      mfaService.issueMfaToken.mockReturnValue('enrollment-token');
+
+      const result = await service.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(result).toEqual({ mfa_enrollment_required: true, mfa_token: 'enrollment-token' });
+      expect(mfaService.issueMfaToken).toHaveBeenCalledWith(expect.anything(), 'mfa-enrollment');
+    });
+
+    it('should issue tokens for a valid mfa_token and code', async () => {
+      mfaService.verifyMfaToken.mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      mfaService.verifyCode.mockResolvedValue(true);
+      jwtService.sign.mockReturnValue('mock-jwt-token');
+
+      const result = await service.verifyMfa('mfa-token', '123456');
+
+      expect(mfaService.verifyMfaToken).toHaveBeenCalledWith('mfa-token', 'mfa-login');
+      expect(mfaService.revokeMfaToken).toHaveBeenCalledWith('mfa-token');
+      expect(result.access_token).toBe('mock-jwt-token');
+      expect(result.refresh_token).toEqual(expect.any(String));
+    });
+
+    it('should reject an invalid code and count it as a failed login', async () => {
+      mfaService.verifyMfaToken.mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      mfaService.verifyCode.mockResolvedValue(false);
+
+      await expect(service.verifyMfa('mfa-token', '000000', { ip: '10.0.0.1' }))
+        .rejects.toThrow('Invalid two-factor code');
+      expect(loginLockoutService.recordFailure)
+        .toHaveBeenCalledWith('test@example.com', expect.objectContaining({ id: '1' }), '10.0.0.1');
+      expect(mfaService.revokeMfaToken).not.toHaveBeenCalled();
+      expect(jwtService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should not check codes while the account is locked', async () => {
+      mfaService.verifyMfaToken.mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      loginLockoutService.assertAccountAllowed.mockImplementation(() => {
+        throw new HttpException('Account is temporarily locked. Try again later', 423);
+      });
+
+      await expect(service.verifyMfa('mfa-token', '123456'))
+        .rejects.toThrow('Account is temporarily locked');
+      expect(mfaService.verifyCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    const issueRefreshToken = async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+      jwtService.sign.mockReturnValue('mock-jwt-token');
+
+      const { refresh_token } = await service.login({
+        email: 'test@example.com',
+        password: 'password123',
+      }) as AuthTokens;
+      const stored = { ...usersService.saveRefreshToken.mock.calls[0][0] };
+      usersService.findRefreshToken.mockResolvedValue(stored);
+      usersService.findById.mockResolvedValue(mockUser);
+
+      return { refresh_token, stored };
+    };
+
+    it('should rotate the refresh token within the same family', async () => {
+      const { refresh_token, stored } = await issueRefreshToken();
+
+      const result = await service.refresh(refresh_token);
+
+      expect(result.access_token).toBe('mock-jwt-token');
+      expect(result.refresh_token).not.toBe(refresh_token);
+      expect(usersService.revokeRefreshToken).toHaveBeenCalledWith(stored.id);
+      const rotated = usersService.saveRefreshToken.mock.calls[1][0];
+      expect(rotated.familyId).toBe(stored.familyId);
+      expect(sessionsService.resume).toHaveBeenCalledWith('1', stored.familyId, {});
+      expect(sessionsService.start).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stay in the organization the session was started in', async () => {
+      const { refresh_token } = await issueRefreshToken();
+      sessionsService.resume.mockResolvedValue({ id: 'session-1', organizationId: 'org-1' });
+
+      await service.refresh(refresh_token);
+
+      expect(organizationsService.enter).toHaveBeenCalledWith('1', 'org-1');
+    });
+
+    it('should not rotate the refresh token of a revoked session', async () => {
+      const { refresh_token } = await issueRefreshToken();
+      sessionsService.resume.mockResolvedValue(null);
+
+      await expect(service.refresh(refresh_token))
+        .rejects.toThrow(InvalidRefreshTokenException);
+      expect(usersService.saveRefreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only let one of two concurrent refreshes with the same token succeed', async () => {
+      const { refresh_token, stored } = await issueRefreshToken();
+      let revoked = false;
+      usersService.revokeRefreshToken.mockImplementation(async () => {
+        const won = !revoked;
+        revoked = true;
+        return won;
+      });
+
+      const results = await Promise.allSettled([service.refresh(refresh_token), service.refresh(refresh_token)]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      expect(rejected.reason).toBeInstanceOf(RefreshTokenReusedException);
+      expect(usersService.revokeRefreshTokenFamily).toHaveBeenCalledWith(stored.familyId);
+    });
+
+    it('should revoke the whole family when a rotated-out token is reused', async () => {
+      const { refresh_token, stored } = await issueRefreshToken();
+      usersService.findRefreshToken.mockResolvedValue({ ...stored, revokedAt: new Date() });
+
+      await expect(service.refresh(refresh_token))
+        .rejects.toThrow('Refresh token reuse detected');
+      expect(usersService.revokeRefreshTokenFamily).toHaveBeenCalledWith(stored.familyId);
+    });
+
+    it('should throw InvalidRefreshTokenException when the secret does not match', async () => {
+      const { refresh_token } = await issueRefreshToken();
+      const [id] = refresh_token.split('.');
+
+      await expect(service.refresh(`${id}.tampered`))
+        .rejects.toThrow(InvalidRefreshTokenException);
+    });
+
+    it('should throw RefreshTokenExpiredException when the token has expired', async () => {
+      const { refresh_token, stored } = await issueRefreshToken();
+      usersService.findRefreshToken.mockResolvedValue({ ...stored, expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(service.refresh(refresh_token))
+        .rejects.toThrow('Refresh token expired');
+    });
+
+    it('should throw InvalidRefreshTokenException for malformed tokens', async () => {
+      await expect(service.refresh('not-a-token'))
+        .rejects.toThrow(InvalidRefreshTokenException);
+      expect(usersService.findRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    const currentUser = {
+      sub: '1',
+      email: 'test@example.com',
+      username: 'testuser',
+      role: UserRole.USER,
+      jti: 'token-id',
+      exp: 1700000000,
+    };
+
+    it('should revoke the current access token until it expires', async () => {
+      await service.logout(currentUser);
+
+      expect(revocationStore.revokeToken).toHaveBeenCalledWith('token-id', 1700000000);
+      expect(usersService.findRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should end the session the access token belongs to', async () => {
+      await service.logout({ ...currentUser, sid: 'session-1' });
+
+      expect(sessionsService.end).toHaveBeenCalledWith('session-1');
+    });
+
+    it('should revoke the refresh token family of the session', async () => {
+      usersService.findRefreshToken.mockResolvedValue({
+        id: 'refresh-id',
+        userId: '1',
+        familyId: 'family-1',
+        tokenHash: 'hash',
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60000),
+      });
+
+      await service.logout(currentUser, 'refresh-id.secret');
+
+      expect(usersService.revokeRefreshTokenFamily).toHaveBeenCalledWith('family-1');
+    });
+
+    it('should not revoke refresh tokens owned by another user', async () => {
+      usersService.findRefreshToken.mockResolvedValue({
+        id: 'refresh-id',
+        userId: '2',
+        familyId: 'family-2',
+        tokenHash: 'hash',
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60000),
+      });
+
+      await service.logout(currentUser, 'refresh-id.secret');
+
+      expect(usersService.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should revoke all access and refresh tokens of the user', async () => {
+      await service.logoutAll('1');
+
+      expect(revocationStore.revokeUserTokens).toHaveBeenCalledWith('1', expect.any(Number), expect.any(Number));
+      expect(usersService.revokeAllRefreshTokens).toHaveBeenCalledWith('1');
+      expect(sessionsService.endAll).toHaveBeenCalledWith('1');
+    });
+  });
+
+  describe('changePassword', () => {
+    const currentUser = {
+      sub: '1',
+      email: 'test@example.com',
+      username: 'testuser',
+      role: UserRole.USER,
+      jti: 'token-id',
+      exp: 1700000000,
+    };
+
+    it('should set the new password and revoke all sessions', async () => {
+      usersService.findById.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(true as never);
+
+      await service.changePassword(currentUser, 'password123', 'newpassword123');
+
+      expect(mockedBcrypt.compare).toHaveBeenCalledWith('password123', 'hashedpassword');
+      expect(usersService.setPassword).toHaveBeenCalledWith('1', 'newpassword123');
+      expect(usersService.revokeAllRefreshTokens).toHaveBeenCalledWith('1');
+      expect(revocationStore.revokeUserTokens).toHaveBeenCalledWith('1', expect.any(Number), expect.any(Number));
+    });
+
+    it('should throw CurrentPasswordIncorrectException when the current password is wrong', async () => {
+      usersService.findById.mockResolvedValue(mockUser);
+      mockedBcrypt.compare.mockResolvedValue(false as never);
+
+      await expect(service.changePassword(currentUser, 'wrongpassword', 'newpassword123'))
+        .rejects.toThrow(CurrentPasswordIncorrectException);
+      expect(usersService.setPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('impersonate', () => {
+    const admin = { sub: '2', email: 'admin@example.com', username: 'admin', role: UserRole.ADMIN };
+
+    it('should issue a short-lived token that names the admin and audit it', async () => {
+      usersService.findById.mockResolvedValue(mockUser);
+      jwtService.sign.mockReturnValue('impersonation-token');
+
+      const result = await service.impersonate(admin, '1', { actor: { id: '2', email: 'admin@example.com', role: 'admin' } });
+
+      const act = { sub: '2', email: 'admin@example.com', role: UserRole.ADMIN };
+      expect(jwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: '1', email: 'test@example.com', act }),
+        expect.objectContaining({ expiresIn: IMPERSONATION_TOKEN_TTL_SECONDS }),
+      );
+      expect(result).toEqual(expect.objectContaining({
+        access_token: 'impersonation-token',
+        expires_in: IMPERSONATION_TOKEN_TTL_SECONDS,
+        act,
+      }));
+      expect(result).not.toHaveProperty('refresh_token');
+      expect(auditService.record).toHaveBeenCalledWith(
+        { action: 'user.impersonated', target: { type: 'User', id: '1' } },
+        expect.objectContaining({ actor: expect.objectContaining({ id: '2' }) }),
+      );
+    });
+
+    it('should throw UserNotFoundException for an unknown user', async () => {
+      usersService.findById.mockResolvedValue(null);
+
+      await expect(service.impersonate(admin, '999')).rejects.toThrow(UserNotFoundException);
+    });
+
+    it('should not impersonate the admin themselves or a deactivated user', async () => {
+      usersService.findById.mockResolvedValue({ ...mockUser, id: '2' });
+      await expect(service.impersonate(admin, '2')).rejects.toThrow(ImpersonationNotAllowedException);
+
+      usersService.findById.mockResolvedValue({ ...mockUser, isActive: false });
+      await expect(service.impersonate(admin, '1')).rejects.toThrow(ImpersonationNotAllowedException);
+      expect(jwtService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should sign the role the user holds in the organization, as a login would', async () => {
+      usersService.findById.mockResolvedValue(mockUser);
+      organizationsService.enter.mockResolvedValue({ id: 'org-1', slug: 'acme', name: 'Acme', role: UserRole.MODERATOR });
+
+      const result = await service.impersonate(admin, '1');
+
+      expect(organizationsService.enter).toHaveBeenCalledWith('1');
+      expect(jwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: '1', role: UserRole.MODERATOR, org: 'org-1' }),
+        expect.anything(),
+      );
+      expect(result.user.role).toBe(UserRole.MODERATOR);
+    });
+
+    it('should not impersonate another admin', async () => {
+      usersService.findById.mockResolvedValue({ ...mockUser, role: UserRole.ADMIN });
+      await expect(service.impersonate(admin, '1')).rejects.toThrow(ImpersonationNotAllowedException);
+
+      usersService.findById.mockResolvedValue(mockUser);
+      organizationsService.enter.mockResolvedValue({ id: 'org-1', slug: 'acme', name: 'Acme', role: UserRole.ADMIN });
+      await expect(service.impersonate(admin, '1')).rejects.toThrow(ImpersonationNotAllowedException);
+      expect(jwtService.sign).not.toHaveBeenCalled();
     });
   });
 
@@ -155,6 +764,8 @@ describe('AuthService', () => {
         email: 'test@example.com',
         username: 'testuser',
         role: UserRole.USER,
+        permissions: ['users:read'],
+        locale: null,
       });
     });
 
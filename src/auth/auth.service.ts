@@ -1,57 +1,313 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { UsersService } from '../users/users.service';
-import { UserPayload } from '../common/types/user.types';
+import { RolesService } from '../users/roles.service';
+import { toUser, UserRecord } from '../users/repositories/user.repository';
+import { User, UserPayload, UserRole, UserStatus } from '../common/types/user.types';
+import { AuthTokens, MfaChallenge } from '../common/types/auth.types';
 import { LoginDto } from '../common/dto/login.dto';
+import { ACCESS_TOKEN_TTL_SECONDS, IMPERSONATION_TOKEN_TTL_SECONDS, TOKEN_REVOCATION_STORE } from './auth.constants';
+import { TokenRevocationStore } from './stores/token-revocation.store';
+import { MfaService } from './mfa/mfa.service';
+import { LoginLockoutService } from './lockout/login-lockout.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditContext } from '../common/types/audit.types';
+import { ErrorCode } from '../common/types/error.types';
+import { DomainException } from '../common/exceptions/domain.exception';
+import { MetricsService } from '../metrics/metrics.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
+import { SigningKeyService } from './keys/signing-key.service';
+import { SessionsService } from './sessions/sessions.service';
+import { OrganizationsService } from '../users/organizations.service';
+import { UserNotFoundException } from '../users/users.exceptions';
+import {
+  AccountDeactivatedException,
+  CurrentPasswordIncorrectException,
+  EmailNotVerifiedException,
+  ImpersonationNotAllowedException,
+  InvalidCredentialsException,
+  InvalidMfaCodeException,
+  InvalidRefreshTokenException,
+  RefreshTokenExpiredException,
+  RefreshTokenReusedException,
+} from './auth.exceptions';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
 
 @Injectable()
 export class AuthService {
   constructor(
     private usersService: UsersService,
     private jwtService: JwtService,
+    @Inject(TOKEN_REVOCATION_STORE) private revocationStore: TokenRevocationStore,
+    private mfaService: MfaService,
+    private loginLockoutService: LoginLockoutService,
+    private rolesService: RolesService,
+    private auditService: AuditService,
+    private metricsService: MetricsService,
+    @Inject(authConfig.KEY) private auth: AuthConfig,
+    private signingKeyService: SigningKeyService,
+    private sessionsService: SessionsService,
+    private organizationsService: OrganizationsService,
   ) {}
 
-  async validateUser(email: string, password: string): Promise<any> {
+  /**
+   * Checks the credentials, counting failures per account and per IP.
+   * Locked accounts are rejected before the password is even compared.
+   */
+  async validateUser(email: string, password: string, ip?: string): Promise<User> {
+    this.loginLockoutService.assertIpAllowed(ip);
+
     const user = await this.usersService.findByEmail(email);
+
+    this.loginLockoutService.assertAccountAllowed(email, user);
     
     if (!user) {
-      throw new UnauthorizedException('Invalid credentials');
+      await this.loginLockoutService.recordFailure(email, null, ip);
+      throw new InvalidCredentialsException();
     }
 
     const isPasswordValid = await bcrypt.compare(password, user.password);
     
     if (!isPasswordValid) {
-      throw new UnauthorizedException('Invalid credentials');
+      await this.loginLockoutService.recordFailure(email, user, ip);
+      throw new InvalidCredentialsException();
     }
 
-    if (!user.isActive) {
-      throw new UnauthorizedException('Account is deactivated');
+    await this.loginLockoutService.recordSuccess(user);
+    this.assertCanLogIn(user);
+
+    return toUser(user);
+  }
+
+  /**
+   * Checks the password and either issues tokens or, when two-factor
+   * authentication applies, an mfa_token for the second step.
+   * Failed attempts and completed logins are audited and counted.
+   */
+  async login(loginDto: LoginDto, context: AuditContext = {}) {
+    let user: User;
+    try {
+      user = await this.validateUser(loginDto.email, loginDto.password, context.ip ?? undefined);
+    } catch (error) {
+      await this.recordLoginFailure(loginDto.email, error as Error, context);
+      throw error;
     }
 
-    const { password: _, ...result } = user;
-    return result;
+    return this.completeLogin(user, context);
   }
 
-  async login(loginDto: LoginDto) {
-    const user = await this.validateUser(loginDto.email, loginDto.password);
-    
+  /**
+   * Logs in a user an external provider has vouched for, e.g. after an
+   * OpenID Connect callback. Lockouts, the account status and two-factor
+   * authentication apply just as they do after a password check.
+   */
+  async loginWithIdentity(record: UserRecord, context: AuditContext = {}) {
+    try {
+      this.loginLockoutService.assertIpAllowed(context.ip ?? undefined);
+      this.loginLockoutService.assertAccountAllowed(record.email, record);
+      await this.loginLockoutService.recordSuccess(record);
+      this.assertCanLogIn(record);
+    } catch (error) {
+      await this.recordLoginFailure(record.email, error as Error, context);
+      throw error;
+    }
+
+    return this.completeLogin(toUser(record), context);
+  }
+
+  /**
+   * Second login step: exchanges an mfa_token and a TOTP or recovery code
+   * for the real token pair. Wrong codes count towards the lockout like wrong
+   * passwords, and the mfa_token is void once it has been used.
+   */
+  async verifyMfa(mfaToken: string, code: string, context: AuditContext = {}) {
+    const user = await this.mfaService.verifyMfaToken(mfaToken, 'mfa-login');
+    const ip = context.ip ?? undefined;
+
+    try {
+      this.loginLockoutService.assertIpAllowed(ip);
+      this.loginLockoutService.assertAccountAllowed(user.email, user);
+
+      if (!(await this.mfaService.verifyCode(user, code))) {
+        await this.loginLockoutService.recordFailure(user.email, user, ip);
+        throw new InvalidMfaCodeException();
+      }
+    } catch (error) {
+      await this.recordLoginFailure(user.email, error as Error, context);
+      throw error;
+    }
+
+    await this.mfaService.revokeMfaToken(mfaToken);
+    await this.loginLockoutService.recordSuccess(user);
+    await this.recordLoginSuccess(user, context);
+    return this.issueTokens(user, context);
+  }
+
+  /**
+   * Starts the enrollment that an admin without 2FA has to finish before
+   * getting a token pair
+   */
+  async beginMfaEnrollment(mfaToken: string) {
+    const user = await this.mfaService.verifyMfaToken(mfaToken, 'mfa-enrollment');
+
+    return this.mfaService.beginEnrollment(user.id);
+  }
+
+  async completeMfaEnrollment(mfaToken: string, code: string, context: AuditContext = {}) {
+    const user = await this.mfaService.verifyMfaToken(mfaToken, 'mfa-enrollment');
+    const recoveryCodes = await this.mfaService.confirmEnrollment(user.id, code);
+
+    await this.mfaService.revokeMfaToken(mfaToken);
+    await this.recordLoginSuccess(user, context);
+
+    return {
+      ...(await this.issueTokens(user, context)),
+      recovery_codes: recoveryCodes,
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new access/refresh token pair.
+   * Every refresh rotates the token; presenting a rotated-out token again
+   * revokes the whole family, since it means the token has leaked. The new
+   * pair stays in the organization the session was started in.
+   */
+  async refresh(refreshToken: string, context: AuditContext = {}) {
+    const [id, secret] = (refreshToken || '').split('.');
+    const stored = id && secret ? await this.usersService.findRefreshToken(id) : null;
+
+    if (!stored || !this.matchesTokenHash(secret, stored.tokenHash)) {
+      throw new InvalidRefreshTokenException();
+    }
+
+    if (stored.revokedAt) {
+      await this.usersService.revokeRefreshTokenFamily(stored.familyId);
+      throw new RefreshTokenReusedException();
+    }
+
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new RefreshTokenExpiredException();
+    }
+
+    // Revoking before anything else is awaited makes the rotation atomic: of
+    // two requests presenting the same token only one can revoke it, and the
+    // other counts as reuse
+    if (!(await this.usersService.revokeRefreshToken(stored.id))) {
+      await this.usersService.revokeRefreshTokenFamily(stored.familyId);
+      throw new RefreshTokenReusedException();
+    }
+
+    const session = await this.sessionsService.resume(stored.userId, stored.familyId, context);
+
+    if (!session) {
+      throw new InvalidRefreshTokenException();
+    }
+
+    await this.organizationsService.enter(stored.userId, session.organizationId ?? undefined);
+    const user = await this.usersService.findById(stored.userId);
+
+    if (!user || !user.isActive) {
+      await this.usersService.revokeRefreshTokenFamily(stored.familyId);
+      throw new AccountDeactivatedException();
+    }
+
+    return this.issueTokens(user, context, stored.familyId);
+  }
+
+  /**
+   * Revokes the access token of the current session and ends the session
+   * along with its refresh tokens. A refresh token given explicitly has its
+   * family revoked as well.
+   */
+  async logout(user: UserPayload, refreshToken?: string): Promise<void> {
+    if (user.jti) {
+      await this.revocationStore.revokeToken(user.jti, user.exp ?? this.nowInSeconds() + ACCESS_TOKEN_TTL_SECONDS);
+    }
+
+    if (user.sid) {
+      await this.sessionsService.end(user.sid);
+    }
+
+    if (refreshToken) {
+      const [id] = refreshToken.split('.');
+      const stored = await this.usersService.findRefreshToken(id);
+      if (stored && stored.userId === user.sub) {
+        await this.usersService.revokeRefreshTokenFamily(stored.familyId);
+      }
+    }
+  }
+
+  /**
+   * Revokes every access and refresh token the user currently holds
+   */
+  async logoutAll(userId: string): Promise<void> {
+    const now = this.nowInSeconds();
+    await this.revocationStore.revokeUserTokens(userId, now, now + ACCESS_TOKEN_TTL_SECONDS);
+    await this.usersService.revokeAllRefreshTokens(userId);
+    await this.sessionsService.endAll(userId);
+  }
+
+  /**
+   * Changes the password of a signed-in user after checking the current one,
+   * then revokes all of their sessions
+   */
+  async changePassword(user: UserPayload, currentPassword: string, newPassword: string): Promise<void> {
+    const existing = await this.usersService.findById(user.sub);
+
+    if (!existing || !(await bcrypt.compare(currentPassword, existing.password))) {
+      throw new CurrentPasswordIncorrectException();
+    }
+
+    await this.usersService.setPassword(user.sub, newPassword);
+    await this.logoutAll(user.sub);
+  }
+
+  /**
+   * Issues a short-lived access token that acts as the user and names the
+   * admin in its `act` claim. There is no refresh token, so the admin has
+   * to start over once it expires. The token carries the same claims the
+   * user's own login would get, and admins cannot impersonate each other,
+   * since that would let one act with another's privileges unnoticed.
+   */
+  async impersonate(admin: UserPayload, userId: string, context: AuditContext = {}) {
+    const user = await this.usersService.findById(userId);
+
+    if (!user) {
+      throw new UserNotFoundException();
+    }
+
+    const claims = await this.identityClaims(user);
+
+    if (user.id === admin.sub || !user.isActive || claims.role === UserRole.ADMIN) {
+      throw new ImpersonationNotAllowedException();
+    }
+
+    const act = { sub: admin.sub, email: admin.email, role: admin.role };
     const payload: UserPayload = {
-      sub: user.id,
-      email: user.email,
-      username: user.username,
-      role: user.role,
+      ...claims,
+      jti: randomUUID(),
+      iat: this.nowInSeconds(),
+      act,
     };
+    const accessToken = this.jwtService.sign(payload, {
+      ...this.signingKeyService.signOptions(),
+      expiresIn: IMPERSONATION_TOKEN_TTL_SECONDS,
+    });
+
+    await this.auditService.record({ action: 'user.impersonated', target: { type: 'User', id: user.id } }, context);
 
     return {
-      access_token: this.jwtService.sign(payload),
+      access_token: accessToken,
+      expires_in: IMPERSONATION_TOKEN_TTL_SECONDS,
       user: {
         id: user.id,
         email: user.email,
         username: user.username,
-        role: user.role,
+        role: claims.role,
         isActive: user.isActive,
       },
+      act,
     };
   }
 
@@ -67,6 +323,146 @@ export class AuthService {
       email: user.email,
       username: user.username,
       role: user.role,
+      permissions: await this.rolesService.resolvePermissions(user.role),
+      locale: user.locale,
     };
   }
+
+  /** Issues tokens for a checked user, or an mfa_token when 2FA applies */
+  private async completeLogin(user: User, context: AuditContext) {
+    if (user.mfaEnabled) {
+      const challenge: MfaChallenge = {
+        mfa_required: true,
+        mfa_token: this.mfaService.issueMfaToken(user, 'mfa-login'),
+      };
+      return challenge;
+    }
+
+    if (this.mfaService.isEnrollmentRequired(user)) {
+      const challenge: MfaChallenge = {
+        mfa_enrollment_required: true,
+        mfa_token: this.mfaService.issueMfaToken(user, 'mfa-enrollment'),
+      };
+      return challenge;
+    }
+
+    await this.recordLoginSuccess(user, context);
+    return this.issueTokens(user, context);
+  }
+
+  private async recordLoginSuccess(user: User, context: AuditContext): Promise<void> {
+    this.metricsService.recordLoginSuccess();
+    await this.auditService.record(
+      { action: 'auth.login.succeeded', target: { type: 'User', id: user.id } },
+      { ...context, actor: { id: user.id, email: user.email, role: user.role } },
+    );
+  }
+
+  /** Checks that apply however the user proved who they are */
+  private assertCanLogIn(user: User): void {
+    if (!user.isActive) {
+      throw new AccountDeactivatedException();
+    }
+
+    if (user.status === UserStatus.PENDING_VERIFICATION) {
+      throw new EmailNotVerifiedException();
+    }
+  }
+
+  /** The attempted email goes into the reason, since there may be no such user */
+  private async recordLoginFailure(email: string, error: Error, context: AuditContext): Promise<void> {
+    this.metricsService.recordLoginFailure(error instanceof DomainException ? error.code : ErrorCode.INTERNAL_ERROR);
+    const user = await this.usersService.findByEmail(email);
+
+    await this.auditService.record(
+      {
+        action: 'auth.login.failed',
+        outcome: 'failure',
+        target: { type: 'User', id: user?.id ?? null },
+        reason: `${error.message} (${email})`,
+      },
+      context,
+    );
+  }
+
+  /**
+   * A token pair for a new session, or for an existing one on refresh, in
+   * the organization the request acts in
+   */
+  private async issueTokens(user: User, context: AuditContext, familyId?: string) {
+    const claims = await this.identityClaims(user);
+    familyId ??= (await this.sessionsService.start(user.id, context)).id;
+
+    const payload: UserPayload = {
+      ...claims,
+      jti: randomUUID(),
+      sid: familyId,
+      // Millisecond precision, so a logout-all never catches a token issued right after it
+      iat: this.nowInSeconds(),
+    };
+
+    const tokens: AuthTokens = {
+      access_token: this.jwtService.sign(payload, this.signingKeyService.signOptions()),
+      refresh_token: await this.createRefreshToken(user.id, familyId),
+    };
+
+    return {
+      ...tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: claims.role,
+        isActive: user.isActive,
+      },
+    };
+  }
+
+  /**
+   * Who a token is for, with the role held in the organization the request
+   * acts in. The user must be a member there.
+   */
+  private async identityClaims(user: User): Promise<Pick<UserPayload, 'sub' | 'email' | 'username' | 'role' | 'org'>> {
+    const organization = await this.organizationsService.enter(user.id);
+
+    return {
+      sub: user.id,
+      email: user.email,
+      username: user.username,
+      role: organization?.role ?? user.role,
+      org: organization?.id,
+    };
+  }
+
+  private async createRefreshToken(userId: string, familyId: string): Promise<string> {
+    const id = randomUUID();
+    const secret = randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    await this.usersService.saveRefreshToken({
+      id,
+      userId,
+      familyId,
+      tokenHash: this.hashToken(secret),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.auth.refreshTokenTtlMs),
+    });
+
+    return `${id}.${secret}`;
+  }
+
+  private hashToken(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private matchesTokenHash(secret: string, tokenHash: string): boolean {
+    const expected = Buffer.from(tokenHash, 'hex');
+    const actual = Buffer.from(this.hashToken(secret), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /** Current time as a JWT NumericDate, keeping the fractional part */
+  private nowInSeconds(): number {
+    return Date.now() / 1000;
+  }
 }
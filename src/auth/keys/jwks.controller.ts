@@ -0,0 +1,46 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { SigningKeyService } from './signing-key.service';
+import { Jwks } from '../../common/types/signing-key.types';
+import { Public } from '../../common/decorators/public.decorator';
+import { RawResponse } from '../../common/decorators/raw-response.decorator';
+
+const JWKS_EXAMPLE: Jwks = {
+  keys: [
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: 'f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU',
+      y: 'x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0',
+      kid: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+      alg: 'ES256',
+      use: 'sig',
+    },
+  ],
+};
+
+/**
+ * JWKS Controller
+ * Publishes the public signing keys, so other services can verify access
+ * tokens by their `kid` without sharing a secret
+ */
+@ApiTags('Authentication')
+@Controller('.well-known')
+@Public()
+@SkipThrottle()
+export class JwksController {
+  constructor(private readonly signingKeyService: SigningKeyService) {}
+
+  @Get('jwks.json')
+  @RawResponse()
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({
+    summary: 'JSON Web Key Set',
+    description: 'Public keys that verify access tokens, including retired keys whose tokens may still be valid. Empty when tokens are signed with HS256.',
+  })
+  @ApiResponse({ status: 200, description: 'The key set', schema: { example: JWKS_EXAMPLE } })
+  jwks(): Jwks {
+    return this.signingKeyService.jwks();
+  }
+}
@@ -0,0 +1,146 @@
+import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SigningKeyService } from './signing-key.service';
+import { authConfig, AuthConfig } from '../../config/auth.config';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../auth.constants';
+
+describe('SigningKeyService', () => {
+  const jwtService = new JwtService({});
+  let keysDir: string;
+  let service: SigningKeyService;
+
+  const createService = async (overrides: Partial<AuthConfig>): Promise<SigningKeyService> => {
+    const created = new SigningKeyService({ ...authConfig(), ...overrides });
+    await created.onModuleInit();
+    return created;
+  };
+
+  const kidOf = (token: string): string => jwtService.decode(token, { complete: true }).header.kid;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'signing-keys-'));
+  });
+
+  afterEach(() => {
+    service?.onModuleDestroy();
+    fs.rmSync(keysDir, { recursive: true, force: true });
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should sign with JWT_SECRET and publish no keys with HS256', async () => {
+    service = await createService({ jwtAlgorithm: 'HS256' });
+
+    expect(service.signOptions()).toEqual({ secret: authConfig().jwtSecret, algorithm: 'HS256' });
+    expect(service.algorithms).toEqual(['HS256']);
+    expect(service.jwks()).toEqual({ keys: [] });
+  });
+
+  it.each(['RS256', 'ES256'] as const)('should sign %s tokens that verify with the key of their kid', async algorithm => {
+    service = await createService({ jwtAlgorithm: algorithm });
+
+    const token = jwtService.sign({ sub: '1' }, service.signOptions());
+    const { header } = jwtService.decode(token, { complete: true });
+
+    expect(header.alg).toBe(algorithm);
+    expect(jwtService.verify(token, { publicKey: service.verificationKey(header.kid) as never })).toEqual(
+      expect.objectContaining({ sub: '1' }),
+    );
+    expect(service.jwks().keys).toEqual([expect.objectContaining({ kid: header.kid, alg: algorithm, use: 'sig' })]);
+  });
+
+  it('should never publish private key material', async () => {
+    service = await createService({ jwtAlgorithm: 'RS256' });
+
+    const [jwk] = service.jwks().keys;
+
+    expect(jwk).toEqual(expect.objectContaining({ kty: 'RSA', n: expect.any(String), e: 'AQAB' }));
+    expect(jwk).not.toHaveProperty('d');
+    expect(jwk).not.toHaveProperty('p');
+  });
+
+  it('should keep verifying tokens of the previous key after a rotation', async () => {
+    service = await createService({ jwtAlgorithm: 'ES256' });
+    const oldToken = jwtService.sign({ sub: '1' }, service.signOptions());
+
+    await service.rotate();
+    const newToken = jwtService.sign({ sub: '1' }, service.signOptions());
+
+    expect(kidOf(newToken)).not.toBe(kidOf(oldToken));
+    expect(service.verificationKey(kidOf(oldToken))).toBeDefined();
+    expect(service.jwks().keys).toHaveLength(2);
+  });
+
+  it('should drop retired keys once their tokens have expired', async () => {
+    service = await createService({ jwtAlgorithm: 'ES256', jwtKeysDir: keysDir });
+    const oldKid = kidOf(jwtService.sign({ sub: '1' }, service.signOptions()));
+
+    await service.rotate();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.setSystemTime(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000);
+    await service.rotate();
+
+    expect(service.verificationKey(oldKid)).toBeUndefined();
+    expect(service.jwks().keys).toHaveLength(2);
+    expect(fs.readdirSync(keysDir)).toHaveLength(2);
+    expect(fs.existsSync(path.join(keysDir, `${oldKid}.pem`))).toBe(false);
+  });
+
+  it('should load PEM files with the file name as kid and sign with the newest', async () => {
+    const pem = (type: 'rsa' | 'ec') =>
+      (type === 'rsa'
+        ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+        : generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      ).privateKey.export({ type: 'pkcs8', format: 'pem' });
+    fs.writeFileSync(path.join(keysDir, 'old-rsa.pem'), pem('rsa'));
+    fs.writeFileSync(path.join(keysDir, 'new-ec.pem'), pem('ec'));
+    fs.utimesSync(path.join(keysDir, 'old-rsa.pem'), new Date(Date.now() - 60_000), new Date(Date.now() - 60_000));
+
+    service = await createService({ jwtAlgorithm: 'ES256', jwtKeysDir: keysDir });
+
+    expect(service.signOptions()).toEqual(expect.objectContaining({ keyid: 'new-ec', algorithm: 'ES256' }));
+    expect(service.jwks().keys.map(key => [key.kid, key.alg])).toEqual([['new-ec', 'ES256'], ['old-rsa', 'RS256']]);
+  });
+
+  it('should persist generated keys so a restart keeps signing with them', async () => {
+    service = await createService({ jwtAlgorithm: 'RS256', jwtKeysDir: keysDir });
+    const kid = service.signOptions().keyid;
+    service.onModuleDestroy();
+
+    service = await createService({ jwtAlgorithm: 'RS256', jwtKeysDir: keysDir });
+
+    expect(service.signOptions().keyid).toBe(kid);
+  });
+
+  it('should pick up a key another instance rotated into the shared directory', async () => {
+    service = await createService({ jwtAlgorithm: 'ES256', jwtKeysDir: keysDir });
+    const other = await createService({ jwtAlgorithm: 'ES256', jwtKeysDir: keysDir });
+    const { kid } = await other.rotate();
+    other.onModuleDestroy();
+
+    expect(service.verificationKey(kid)).toBeUndefined();
+    expect(await service.findVerificationKey(kid)).toBeDefined();
+    expect(service.signOptions().keyid).toBe(kid);
+  });
+
+  it('should not look outside the keys directory for a kid', async () => {
+    service = await createService({ jwtAlgorithm: 'ES256', jwtKeysDir: keysDir });
+
+    expect(await service.findVerificationKey('../etc/passwd')).toBeUndefined();
+    expect(await service.findVerificationKey('missing')).toBeUndefined();
+  });
+
+  it('should reject PEM files that are not RSA or P-256 keys', async () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp384r1' });
+    fs.writeFileSync(path.join(keysDir, 'p384.pem'), privateKey.export({ type: 'pkcs8', format: 'pem' }));
+
+    await expect(createService({ jwtAlgorithm: 'ES256', jwtKeysDir: keysDir })).rejects.toThrow(
+      'must be an RSA or P-256 EC private key',
+    );
+  });
+});
@@ -0,0 +1,232 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { JwtSignOptions } from '@nestjs/jwt';
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, JsonWebKey, KeyObject } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { authConfig, AuthConfig } from '../../config/auth.config';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../auth.constants';
+import { AsymmetricJwtAlgorithm, Jwks, SigningKey } from '../../common/types/signing-key.types';
+
+const PEM_EXTENSION = '.pem';
+/** Also keeps a kid from the token header from escaping the keys directory */
+const KID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Signing Key Service
+ * Holds the keys that sign access tokens. With HS256 that is JWT_SECRET.
+ * With RS256 or ES256 it is a set of key pairs identified by `kid`, loaded
+ * from `<kid>.pem` files in JWT_KEYS_DIR (or generated in memory). The newest
+ * key signs; rotation adds a new key and keeps the previous ones for
+ * verification until the access tokens they signed have expired.
+ */
+@Injectable()
+export class SigningKeyService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SigningKeyService.name);
+  private keys: SigningKey[] = [];
+  private rotationTimer?: NodeJS.Timeout;
+
+  constructor(@Inject(authConfig.KEY) private auth: AuthConfig) {}
+
+  get symmetric(): boolean {
+    return this.auth.jwtAlgorithm === 'HS256';
+  }
+
+  /** Algorithms accepted on verification; never HS256 next to a public key */
+  get algorithms(): string[] {
+    return this.symmetric ? ['HS256'] : ['RS256', 'ES256'];
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (this.symmetric) {
+      return;
+    }
+
+    if (this.auth.jwtKeysDir) {
+      this.keys = await this.loadKeys(this.auth.jwtKeysDir);
+      await this.prune();
+    }
+    if (!this.keys.length) {
+      await this.rotate();
+    }
+
+    if (this.auth.jwtKeyRotationMs > 0) {
+      this.rotationTimer = setInterval(() => {
+        this.rotate().catch(error => this.logger.error(`Signing key rotation failed: ${error}`));
+      }, this.auth.jwtKeyRotationMs);
+      this.rotationTimer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.rotationTimer);
+  }
+
+  /** Options for JwtService.sign() that select the current key */
+  signOptions(): JwtSignOptions {
+    if (this.symmetric) {
+      return { secret: this.auth.jwtSecret, algorithm: 'HS256' };
+    }
+
+    const key = this.activeKey();
+    return { privateKey: key.privateKey, algorithm: key.algorithm, keyid: key.kid };
+  }
+
+  /** The key that verifies a token with the given `kid` header, if we know it */
+  verificationKey(kid: string | undefined): KeyObject | string | undefined {
+    if (this.symmetric) {
+      return this.auth.jwtSecret;
+    }
+    return this.keys.find(key => key.kid === kid)?.publicKey;
+  }
+
+  /**
+   * Like verificationKey(), but an unknown kid is looked up in JWT_KEYS_DIR
+   * first: another instance sharing the directory may have rotated, and a
+   * newer key then takes over signing here too.
+   */
+  async findVerificationKey(kid: string | undefined): Promise<KeyObject | string | undefined> {
+    const known = this.verificationKey(kid);
+    if (known || this.symmetric || !this.auth.jwtKeysDir || !kid || !KID_PATTERN.test(kid)) {
+      return known;
+    }
+
+    try {
+      const key = await this.loadKey(this.auth.jwtKeysDir, `${kid}${PEM_EXTENSION}`);
+      const active = this.activeKey();
+
+      // A key we have not seen yet is at least as new as ours, even within the same millisecond
+      if (key.createdAt >= active.createdAt) {
+        await this.activate(key);
+      } else {
+        this.keys.push({ ...key, retiredAt: active.createdAt });
+      }
+      return key.publicKey;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Public keys of the active and retired keys; empty with HS256 */
+  jwks(): Jwks {
+    return {
+      keys: this.keys.map(key => ({ ...toJwk(key.publicKey), kid: key.kid, alg: key.algorithm, use: 'sig' })),
+    };
+  }
+
+  /**
+   * Generates a key that takes over signing at once. The previous key is
+   * retired, and keys retired longer than the access token lifetime ago are
+   * dropped, together with their PEM file.
+   */
+  async rotate(): Promise<SigningKey> {
+    const algorithm = this.auth.jwtAlgorithm as AsymmetricJwtAlgorithm;
+    const { privateKey, publicKey } = algorithm === 'ES256'
+      ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const key: SigningKey = { kid: thumbprint(publicKey), algorithm, privateKey, publicKey, createdAt: new Date() };
+
+    if (this.auth.jwtKeysDir) {
+      await fs.promises.mkdir(this.auth.jwtKeysDir, { recursive: true });
+      await fs.promises.writeFile(
+        this.pemPath(key.kid),
+        privateKey.export({ type: 'pkcs8', format: 'pem' }),
+        { mode: 0o600 },
+      );
+    }
+
+    await this.activate(key);
+    return key;
+  }
+
+  private async activate(key: SigningKey): Promise<void> {
+    for (const previous of this.keys) {
+      previous.retiredAt ??= key.createdAt;
+    }
+    this.keys = [key, ...this.keys];
+    await this.prune();
+
+    this.logger.log(`Signing with new ${key.algorithm} key ${key.kid}`);
+  }
+
+  private activeKey(): SigningKey {
+    const key = this.keys.find(candidate => !candidate.retiredAt);
+    if (!key) {
+      throw new Error('No active signing key; the module has not been initialized');
+    }
+    return key;
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - ACCESS_TOKEN_TTL_SECONDS * 1000;
+    const expired = this.keys.filter(key => key.retiredAt && key.retiredAt.getTime() <= cutoff);
+
+    this.keys = this.keys.filter(key => !expired.includes(key));
+    for (const key of expired) {
+      if (this.auth.jwtKeysDir) {
+        await fs.promises.rm(this.pemPath(key.kid), { force: true });
+      }
+      this.logger.log(`Dropped signing key ${key.kid}`);
+    }
+  }
+
+  /**
+   * Every `<kid>.pem` private key in the directory. The newest file is the
+   * active key; each older one counts as retired when the next one appeared.
+   */
+  private async loadKeys(directory: string): Promise<SigningKey[]> {
+    await fs.promises.mkdir(directory, { recursive: true });
+    const files = (await fs.promises.readdir(directory)).filter(file => file.endsWith(PEM_EXTENSION));
+
+    const keys = await Promise.all(files.map(file => this.loadKey(directory, file)));
+
+    keys.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    keys.forEach((key, index) => {
+      if (index > 0) {
+        key.retiredAt = keys[index - 1].createdAt;
+      }
+    });
+    return keys;
+  }
+
+  private async loadKey(directory: string, file: string): Promise<SigningKey> {
+    const filePath = path.join(directory, file);
+    const privateKey = createPrivateKey(await fs.promises.readFile(filePath));
+    const { mtime } = await fs.promises.stat(filePath);
+
+    return {
+      kid: path.basename(file, PEM_EXTENSION),
+      algorithm: algorithmOf(privateKey, filePath),
+      privateKey,
+      publicKey: createPublicKey(privateKey),
+      createdAt: mtime,
+    };
+  }
+
+  private pemPath(kid: string): string {
+    return path.join(this.auth.jwtKeysDir, `${kid}${PEM_EXTENSION}`);
+  }
+}
+
+function algorithmOf(key: KeyObject, filePath: string): AsymmetricJwtAlgorithm {
+  if (key.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  throw new Error(`Signing key ${filePath} must be an RSA or P-256 EC private key`);
+}
+
+function toJwk(publicKey: KeyObject): JsonWebKey {
+  return publicKey.export({ format: 'jwk' });
+}
+
+/** RFC 7638 thumbprint, so a generated kid is stable and derived from the key itself */
+function thumbprint(publicKey: KeyObject): string {
+  const jwk = toJwk(publicKey);
+  const members = jwk.kty === 'RSA'
+    ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+    : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
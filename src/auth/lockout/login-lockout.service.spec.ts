@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException } from '@nestjs/common';
+import { LoginLockoutService } from './login-lockout.service';
+import { UsersService } from '../../users/users.service';
+import { User, UserRole, UserStatus } from '../../common/types/user.types';
+import { ErrorCode } from '../../common/types/error.types';
+import { AccountLockedException } from '../auth.exceptions';
+import { authConfig } from '../../config/auth.config';
+
+describe('LoginLockoutService', () => {
+  let service: LoginLockoutService;
+  let user: User;
+
+  const statusOf = (fn: () => void): number | undefined => {
+    try {
+      fn();
+    } catch (error) {
+      return (error as HttpException).getStatus();
+    }
+    return undefined;
+  };
+
+  const failTimes = async (times: number, email: string, account: User | null, ip?: string) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(email, account, ip);
+    }
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+
+    user = {
+      id: '1',
+      email: 'test@example.com',
+      username: 'testuser',
+      role: UserRole.USER,
+      status: UserStatus.ACTIVE,
+      isActive: true,
+      mfaEnabled: false,
+      locale: null,
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginLockoutService,
+        {
+          provide: UsersService,
+          useValue: {
+            updateLockState: jest.fn(async (_id, state) => Object.assign(user, state)),
+            unlock: jest.fn(async () =>
+              Object.assign(user, { failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null }),
+            ),
+          },
+        },
+        {
+          provide: authConfig.KEY,
+          useValue: authConfig(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginLockoutService>(LoginLockoutService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should lock the account after five failures', async () => {
+    await failTimes(4, user.email, user);
+    expect(statusOf(() => service.assertAccountAllowed(user.email, user))).toBeUndefined();
+
+    await failTimes(1, user.email, user);
+
+    expect(user.lockedUntil).toEqual(new Date('2024-01-01T00:01:00.000Z'));
+    expect(statusOf(() => service.assertAccountAllowed(user.email, user))).toBe(423);
+  });
+
+  it('should unlock automatically and double the next lockout', async () => {
+    await failTimes(5, user.email, user);
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(statusOf(() => service.assertAccountAllowed(user.email, user))).toBeUndefined();
+
+    await failTimes(5, user.email, user);
+    expect(user.lockoutCount).toBe(2);
+    expect(user.lockedUntil).toEqual(new Date('2024-01-01T00:03:00.000Z'));
+  });
+
+  it('should lock unknown emails the same way', async () => {
+    await failTimes(5, 'nobody@example.com', null);
+
+    expect(statusOf(() => service.assertAccountAllowed('NOBODY@example.com', null))).toBe(423);
+  });
+
+  it('should block an IP address after twenty failures across accounts', async () => {
+    for (let i = 0; i < 20; i++) {
+      await service.recordFailure(`user${i}@example.com`, null, '10.0.0.1');
+    }
+
+    expect(statusOf(() => service.assertIpAllowed('10.0.0.1'))).toBe(429);
+    expect(statusOf(() => service.assertIpAllowed('10.0.0.2'))).toBeUndefined();
+  });
+
+  it('should report when to retry', async () => {
+    await failTimes(5, user.email, user);
+    jest.advanceTimersByTime(15 * 1000);
+
+    expect(() => service.assertAccountAllowed(user.email, user)).toThrow(AccountLockedException);
+    try {
+      service.assertAccountAllowed(user.email, user);
+    } catch (error) {
+      expect((error as HttpException).getResponse()).toEqual(expect.objectContaining({
+        code: ErrorCode.AUTH_ACCOUNT_LOCKED,
+        retryAfter: 45,
+      }));
+    }
+  });
+
+  it('should clear the counters after a successful login', async () => {
+    await failTimes(3, user.email, user);
+
+    await service.recordSuccess(user);
+
+    expect(user.failedLoginAttempts).toBe(0);
+  });
+});
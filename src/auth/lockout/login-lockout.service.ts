@@ -0,0 +1,103 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { User, UserLockState } from '../../common/types/user.types';
+import { UsersService } from '../../users/users.service';
+import { authConfig, AuthConfig } from '../../config/auth.config';
+import { AccountLockedException, TooManyLoginAttemptsException } from '../auth.exceptions';
+
+interface AttemptState extends UserLockState {
+  lastFailureAt: number;
+}
+
+/**
+ * Login Lockout Service
+ * Counts failed logins per account and per client IP. Reaching the limit
+ * locks the account (or IP) for a period that doubles with every lockout
+ * in a row, up to a maximum.
+ */
+@Injectable()
+export class LoginLockoutService {
+  private readonly ipAttempts = new Map<string, AttemptState>();
+  // Emails without an account lock exactly like real ones, so a 423
+  // does not tell whether the address is registered
+  private readonly unknownAccountAttempts = new Map<string, AttemptState>();
+
+  constructor(
+    private usersService: UsersService,
+    @Inject(authConfig.KEY) private auth: AuthConfig,
+  ) {}
+
+  assertIpAllowed(ip?: string): void {
+    const retryAfter = ip ? this.secondsUntil(this.ipAttempts.get(ip)?.lockedUntil) : 0;
+
+    if (retryAfter > 0) {
+      throw new TooManyLoginAttemptsException(retryAfter);
+    }
+  }
+
+  assertAccountAllowed(email: string, user: User | null): void {
+    const lockedUntil = user
+      ? user.lockedUntil
+      : this.unknownAccountAttempts.get(email.toLowerCase())?.lockedUntil;
+    const retryAfter = this.secondsUntil(lockedUntil);
+
+    if (retryAfter > 0) {
+      throw new AccountLockedException(retryAfter);
+    }
+  }
+
+  async recordFailure(email: string, user: User | null, ip?: string): Promise<void> {
+    const now = Date.now();
+    this.prune(now);
+
+    if (ip) {
+      this.ipAttempts.set(ip, this.nextState(this.ipAttempts.get(ip), this.auth.loginIpMaxAttempts, now));
+    }
+
+    if (user) {
+      const { failedLoginAttempts, lockoutCount, lockedUntil } = this.nextState(user, this.auth.loginMaxAttempts, now);
+      await this.usersService.updateLockState(user.id, { failedLoginAttempts, lockoutCount, lockedUntil });
+    } else {
+      const key = email.toLowerCase();
+      this.unknownAccountAttempts.set(key, this.nextState(this.unknownAccountAttempts.get(key), this.auth.loginMaxAttempts, now));
+    }
+  }
+
+  async recordSuccess(user: User): Promise<void> {
+    if (user.failedLoginAttempts > 0 || user.lockoutCount > 0 || user.lockedUntil) {
+      await this.usersService.unlock(user.id);
+    }
+  }
+
+  private nextState(state: UserLockState | undefined, maxAttempts: number, now: number): AttemptState {
+    const failedLoginAttempts = (state?.failedLoginAttempts ?? 0) + 1;
+    const lockoutCount = state?.lockoutCount ?? 0;
+
+    if (failedLoginAttempts < maxAttempts) {
+      return { failedLoginAttempts, lockoutCount, lockedUntil: state?.lockedUntil ?? null, lastFailureAt: now };
+    }
+
+    const lockoutMs = Math.min(this.auth.loginLockoutMs * 2 ** lockoutCount, this.auth.loginLockoutMaxMs);
+
+    return {
+      failedLoginAttempts: 0,
+      lockoutCount: lockoutCount + 1,
+      lockedUntil: new Date(now + lockoutMs),
+      lastFailureAt: now,
+    };
+  }
+
+  /** Forgets in-memory counters that have been quiet for the longest lockout period */
+  private prune(now: number): void {
+    for (const attempts of [this.ipAttempts, this.unknownAccountAttempts]) {
+      for (const [key, state] of attempts) {
+        if (state.lastFailureAt + this.auth.loginLockoutMaxMs <= now && this.secondsUntil(state.lockedUntil, now) === 0) {
+          attempts.delete(key);
+        }
+      }
+    }
+  }
+
+  private secondsUntil(date: Date | null | undefined, now: number = Date.now()): number {
+    return date ? Math.max(0, Math.ceil((date.getTime() - now) / 1000)) : 0;
+  }
+}
@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { MfaService } from './mfa.service';
+import { UsersService } from '../../users/users.service';
+import { UserRecord } from '../../users/repositories/user.repository';
+import { UserRole, UserStatus } from '../../common/types/user.types';
+import { generateTotp, timeStep } from './totp';
+import { InvalidMfaTokenException, InvalidVerificationCodeException } from '../auth.exceptions';
+import { authConfig } from '../../config/auth.config';
+import { TOKEN_REVOCATION_STORE } from '../auth.constants';
+import { InMemoryTokenRevocationStore } from '../stores/in-memory-token-revocation.store';
+import { UserNotFoundException } from '../../users/users.exceptions';
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let usersService: jest.Mocked<UsersService>;
+  let user: UserRecord;
+
+  const SECRET = 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP';
+
+  beforeEach(async () => {
+    user = {
+      id: '1',
+      email: 'test@example.com',
+      username: 'testuser',
+      role: UserRole.USER,
+      status: UserStatus.ACTIVE,
+      isActive: true,
+      mfaEnabled: false,
+      locale: null,
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null,
+      password: 'hashedpassword',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn(async () => user),
+            // Apply updates to the fixture so consecutive calls see them
+            updateMfaSettings: jest.fn(async (_id, settings) => Object.assign(user, settings)),
+          },
+        },
+        {
+          provide: JwtService,
+          useValue: new JwtService({}),
+        },
+        {
+          provide: authConfig.KEY,
+          useValue: authConfig(),
+        },
+        {
+          provide: TOKEN_REVOCATION_STORE,
+          useValue: new InMemoryTokenRevocationStore(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+    usersService = module.get(UsersService);
+  });
+
+  const enable = async (): Promise<string[]> => {
+    user.mfaPendingSecret = SECRET;
+    // Confirm with the previous step so the current one is still unused
+    return service.confirmEnrollment(user.id, generateTotp(SECRET, timeStep(Date.now()) - 1));
+  };
+
+  describe('enrollment', () => {
+    it('should store a pending secret and return an otpauth URI', async () => {
+      const result = await service.beginEnrollment(user.id);
+
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+      expect(user.mfaPendingSecret).toBe(result.secret);
+      expect(user.mfaEnabled).toBe(false);
+    });
+
+    it('should enable 2FA and return hashed-at-rest recovery codes', async () => {
+      const codes = await enable();
+
+      expect(codes).toHaveLength(10);
+      expect(user.mfaEnabled).toBe(true);
+      expect(user.mfaSecret).toBe(SECRET);
+      expect(user.mfaPendingSecret).toBeNull();
+      expect(user.mfaRecoveryCodes).toHaveLength(10);
+      expect(user.mfaRecoveryCodes).not.toContain(codes[0]);
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      user.mfaPendingSecret = SECRET;
+
+      await expect(service.confirmEnrollment(user.id, '000000'))
+        .rejects.toThrow(InvalidVerificationCodeException);
+      expect(user.mfaEnabled).toBe(false);
+    });
+
+    it('should refuse to start again while 2FA is enabled', async () => {
+      await enable();
+
+      await expect(service.beginEnrollment(user.id))
+        .rejects.toThrow('Two-factor authentication is already enabled');
+    });
+  });
+
+  describe('missing users', () => {
+    it('should throw UserNotFoundException for a user that cannot be found', async () => {
+      usersService.findById.mockResolvedValue(null);
+
+      await expect(service.beginEnrollment('missing')).rejects.toThrow(UserNotFoundException);
+      await expect(service.confirmEnrollment('missing', '000000')).rejects.toThrow(UserNotFoundException);
+      await expect(service.disable('missing', '000000')).rejects.toThrow(UserNotFoundException);
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a current TOTP code only once', async () => {
+      await enable();
+      const code = generateTotp(SECRET, timeStep(Date.now()));
+
+      expect(await service.verifyCode(user, code)).toBe(true);
+      expect(await service.verifyCode(user, code)).toBe(false);
+    });
+
+    it('should consume recovery codes', async () => {
+      const [recoveryCode] = await enable();
+
+      expect(await service.verifyCode(user, recoveryCode.toUpperCase())).toBe(true);
+      expect(await service.verifyCode(user, recoveryCode)).toBe(false);
+      expect(user.mfaRecoveryCodes).toHaveLength(9);
+    });
+
+    it('should reject codes for users without 2FA', async () => {
+      expect(await service.verifyCode(user, '123456')).toBe(false);
+    });
+  });
+
+  describe('disable', () => {
+    it('should clear the secret and recovery codes', async () => {
+      const [recoveryCode] = await enable();
+
+      await service.disable(user.id, recoveryCode);
+
+      expect(user.mfaEnabled).toBe(false);
+      expect(user.mfaSecret).toBeNull();
+      expect(user.mfaRecoveryCodes).toEqual([]);
+    });
+
+    it('should require a valid code', async () => {
+      await enable();
+
+      await expect(service.disable(user.id, '000000'))
+        .rejects.toThrow('Invalid verification code');
+      expect(user.mfaEnabled).toBe(true);
+    });
+  });
+
+  describe('mfa tokens', () => {
+    it('should only accept a token for the purpose it was issued for', async () => {
+      const token = service.issueMfaToken(user, 'mfa-login');
+
+      await expect(service.verifyMfaToken(token, 'mfa-login')).resolves.toBe(user);
+      await expect(service.verifyMfaToken(token, 'mfa-enrollment'))
+        .rejects.toThrow(InvalidMfaTokenException);
+    });
+
+    it('should reject a token once it has been used', async () => {
+      const token = service.issueMfaToken(user, 'mfa-login');
+
+      await service.revokeMfaToken(token);
+
+      await expect(service.verifyMfaToken(token, 'mfa-login'))
+        .rejects.toThrow(InvalidMfaTokenException);
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const token = new JwtService({}).sign({ sub: user.id, purpose: 'mfa-login' }, { secret: 'other' });
+
+      await expect(service.verifyMfaToken(token, 'mfa-login'))
+        .rejects.toThrow('Invalid or expired MFA token');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { User, UserRole } from '../../common/types/user.types';
+import { UsersService } from '../../users/users.service';
+import { UserRecord } from '../../users/repositories/user.repository';
+import { UserNotFoundException } from '../../users/users.exceptions';
+import { authConfig, AuthConfig } from '../../config/auth.config';
+import { TOKEN_REVOCATION_STORE } from '../auth.constants';
+import { TokenRevocationStore } from '../stores/token-revocation.store';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+import {
+  InvalidMfaTokenException,
+  InvalidVerificationCodeException,
+  MfaAlreadyEnabledException,
+  MfaNotEnabledException,
+  MfaRequiredForAdminsException,
+  MfaSetupNotStartedException,
+} from '../auth.exceptions';
+
+export type MfaTokenPurpose = 'mfa-login' | 'mfa-enrollment';
+
+interface MfaTokenPayload {
+  sub: string;
+  purpose: MfaTokenPurpose;
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * MFA Service
+ * TOTP enrollment, recovery codes and the short-lived `mfa_token` that
+ * bridges the password step and the code step of a login
+ */
+@Injectable()
+export class MfaService {
+  constructor(
+    private usersService: UsersService,
+    private jwtService: JwtService,
+    @Inject(authConfig.KEY) private auth: AuthConfig,
+    @Inject(TOKEN_REVOCATION_STORE) private revocationStore: TokenRevocationStore,
+  ) {}
+
+  isEnrollmentRequired(user: User): boolean {
+    return this.auth.mfaRequiredForAdmins && user.role === UserRole.ADMIN && !user.mfaEnabled;
+  }
+
+  issueMfaToken(user: User, purpose: MfaTokenPurpose): string {
+    const payload: MfaTokenPayload = { sub: user.id, purpose, jti: randomUUID() };
+    return this.jwtService.sign(payload, { secret: this.auth.mfaTokenSecret, expiresIn: '5m' });
+  }
+
+  async verifyMfaToken(token: string, purpose: MfaTokenPurpose): Promise<UserRecord> {
+    let payload: MfaTokenPayload;
+    try {
+      payload = this.jwtService.verify<MfaTokenPayload>(token, { secret: this.auth.mfaTokenSecret });
+    } catch {
+      throw new InvalidMfaTokenException();
+    }
+
+    if (payload.purpose !== purpose || !payload.jti || await this.revocationStore.isRevoked(payload)) {
+      throw new InvalidMfaTokenException();
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+
+    if (!user || !user.isActive) {
+      throw new InvalidMfaTokenException();
+    }
+
+    return user;
+  }
+
+  /** Voids an mfa_token once it has been used, so it cannot start a second session */
+  async revokeMfaToken(token: string): Promise<void> {
+    const payload = this.jwtService.decode<MfaTokenPayload | null>(token);
+
+    if (payload?.jti && payload.exp) {
+      await this.revocationStore.revokeToken(payload.jti, payload.exp);
+    }
+  }
+
+  /**
+   * Starts enrollment with a fresh secret. The secret only becomes active
+   * once confirmEnrollment receives a valid code for it.
+   */
+  async beginEnrollment(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await this.findUser(userId);
+
+    if (user.mfaEnabled) {
+      throw new MfaAlreadyEnabledException();
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersService.updateMfaSettings(userId, { mfaPendingSecret: secret });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, this.auth.mfaIssuer),
+    };
+  }
+
+  /**
+   * Activates the pending secret and returns the recovery codes, which are
+   * only ever shown this once
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (user.mfaEnabled || !user.mfaPendingSecret) {
+      throw new MfaSetupNotStartedException();
+    }
+
+    const step = verifyTotp(user.mfaPendingSecret, code);
+    if (step === null) {
+      throw new InvalidVerificationCodeException();
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode());
+    await this.usersService.updateMfaSettings(userId, {
+      mfaEnabled: true,
+      mfaSecret: user.mfaPendingSecret,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+      mfaLastUsedStep: step,
+    });
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.mfaEnabled) {
+      throw new MfaNotEnabledException();
+    }
+
+    if (this.auth.mfaRequiredForAdmins && user.role === UserRole.ADMIN) {
+      throw new MfaRequiredForAdminsException();
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new InvalidVerificationCodeException();
+    }
+
+    await this.usersService.updateMfaSettings(userId, {
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: [],
+      mfaLastUsedStep: null,
+    });
+  }
+
+  /**
+   * Accepts either a TOTP code or an unused recovery code. TOTP codes cannot
+   * be replayed and recovery codes are consumed on use.
+   */
+  async verifyCode(user: UserRecord, code: string): Promise<boolean> {
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      return false;
+    }
+
+    if (/^\d{6}$/.test(code)) {
+      const step = verifyTotp(user.mfaSecret, code);
+      if (step === null || step <= (user.mfaLastUsedStep ?? -1)) {
+        return false;
+      }
+
+      await this.usersService.updateMfaSettings(user.id, { mfaLastUsedStep: step });
+      return true;
+    }
+
+    const hash = this.hashRecoveryCode(code);
+    const remaining = (user.mfaRecoveryCodes || []).filter(stored => stored !== hash);
+    if (remaining.length === (user.mfaRecoveryCodes || []).length) {
+      return false;
+    }
+
+    await this.usersService.updateMfaSettings(user.id, { mfaRecoveryCodes: remaining });
+    return true;
+  }
+
+  // findById is scoped to the current organization, so a user outside it
+  // is as missing as a deleted one
+  private async findUser(userId: string): Promise<UserRecord> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UserNotFoundException();
+    }
+    return user;
+  }
+
+  private generateRecoveryCode(): string {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  timeStep,
+  verifyTotp,
+} from './totp';
+
+describe('TOTP', () => {
+  // RFC 6238 appendix B test secret: ASCII "12345678901234567890"
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should encode the RFC 4648 test vector', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 SHA1 vector at %i', (seconds, expected) => {
+      expect(generateTotp(rfcSecret, timeStep(seconds * 1000))).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1234567890 * 1000;
+
+    it('should accept codes from adjacent steps and return the matched step', () => {
+      const previous = generateTotp(rfcSecret, timeStep(now) - 1);
+
+      expect(verifyTotp(rfcSecret, previous, now)).toBe(timeStep(now) - 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const stale = generateTotp(rfcSecret, timeStep(now) - 5);
+
+      expect(verifyTotp(rfcSecret, stale, now)).toBeNull();
+    });
+  });
+
+  it('should generate distinct base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'admin@example.com', 'NestJS Demo');
+
+    expect(uri).toBe(
+      'otpauth://totp/NestJS%20Demo%3Aadmin%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=NestJS+Demo&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
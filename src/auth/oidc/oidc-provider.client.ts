@@ -0,0 +1,174 @@
+import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { JwtPayload, verify } from 'jsonwebtoken';
+import { OidcClaims, OidcDiscoveryDocument, OidcProviderConfig } from '../../common/types/oidc.types';
+import { OidcLoginFailedException } from '../auth.exceptions';
+
+const DISCOVERY_PATH = '/.well-known/openid-configuration';
+const ID_TOKEN_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export interface AuthorizationUrlParams {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+/**
+ * OIDC Provider Client
+ * Talks to one provider: reads its discovery document, builds authorization
+ * URLs, exchanges codes at the token endpoint and verifies ID tokens against
+ * the provider's JWKS. Discovery and keys are cached; an unknown kid fetches
+ * the key set again, since providers rotate their keys.
+ */
+export class OidcProviderClient {
+  private readonly logger: Logger;
+  private discovery?: Promise<OidcDiscoveryDocument>;
+  private keys = new Map<string, KeyObject>();
+
+  constructor(readonly config: OidcProviderConfig, private jwtService: JwtService) {
+    this.logger = new Logger(`${OidcProviderClient.name}:${config.name}`);
+  }
+
+  async authorizationUrl({ redirectUri, state, nonce, codeChallenge }: AuthorizationUrlParams): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+    const url = new URL(authorization_endpoint);
+
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: redirectUri,
+      scope: this.config.scopes.join(' '),
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+    return url.toString();
+  }
+
+  /** Redeems an authorization code and returns the verified ID token claims */
+  async exchangeCode(code: string, codeVerifier: string, redirectUri: string, nonce: string): Promise<OidcClaims> {
+    const { token_endpoint } = await this.discover();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+
+    const tokens = await this.fetchJson<{ id_token?: string }>(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body,
+    });
+    if (!tokens.id_token) {
+      this.fail('token response has no id_token');
+    }
+
+    return this.verifyIdToken(tokens.id_token, nonce);
+  }
+
+  /** Checks signature, issuer, audience, expiry and the nonce of our request */
+  async verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+    const decoded = this.jwtService.decode(idToken, { complete: true });
+    const key = decoded && await this.findKey(decoded.header?.kid);
+    if (!key) {
+      this.fail('ID token is malformed or signed with an unknown key');
+    }
+
+    let claims: JwtPayload | string;
+    try {
+      // JwtService only takes keys as PEM, jsonwebtoken takes the KeyObject itself
+      claims = verify(idToken, key, {
+        algorithms: [...ID_TOKEN_ALGORITHMS],
+        issuer: (await this.discover()).issuer,
+        audience: this.config.clientId,
+      });
+    } catch (error) {
+      this.fail(`ID token rejected: ${(error as Error).message}`);
+    }
+
+    if (typeof claims === 'string' || claims.nonce !== nonce || !claims.sub) {
+      this.fail('ID token nonce or subject mismatch');
+    }
+    return {
+      sub: claims.sub,
+      email: claims.email,
+      email_verified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name,
+    };
+  }
+
+  private discover(): Promise<OidcDiscoveryDocument> {
+    this.discovery ??= this.fetchJson<OidcDiscoveryDocument>(
+      `${this.config.issuer.replace(/\/$/, '')}${DISCOVERY_PATH}`,
+    ).then(document => {
+      if (document.issuer.replace(/\/$/, '') !== this.config.issuer.replace(/\/$/, '')) {
+        this.fail(`discovery document is for issuer ${document.issuer}`);
+      }
+      return document;
+    });
+
+    // A failed lookup is retried on the next login rather than cached
+    return this.discovery.catch(error => {
+      this.discovery = undefined;
+      throw error;
+    });
+  }
+
+  private async findKey(kid: string | undefined): Promise<KeyObject | undefined> {
+    if (!kid || !this.keys.has(kid)) {
+      await this.loadKeys();
+    }
+    return kid ? this.keys.get(kid) : this.keys.size === 1 ? [...this.keys.values()][0] : undefined;
+  }
+
+  private async loadKeys(): Promise<void> {
+    const { jwks_uri } = await this.discover();
+    const { keys = [] } = await this.fetchJson<{ keys?: (JsonWebKey & { kid?: string; use?: string })[] }>(jwks_uri);
+
+    this.keys = new Map(
+      keys
+        .filter(jwk => jwk.kid && (!jwk.use || jwk.use === 'sig'))
+        .map(jwk => [jwk.kid, this.importKey(jwk)]),
+    );
+  }
+
+  private importKey(jwk: JsonWebKey & { kid?: string }): KeyObject {
+    try {
+      return createPublicKey({ key: jwk, format: 'jwk' });
+    } catch (error) {
+      this.fail(`key ${jwk.kid} in the JWKS is malformed: ${(error as Error).message}`);
+    }
+  }
+
+  private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers: { Accept: 'application/json', ...init?.headers } });
+    } catch (error) {
+      this.fail(`${url} is unreachable: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      this.fail(`${url} answered ${response.status}`);
+    }
+    try {
+      return await response.json() as T;
+    } catch (error) {
+      this.fail(`${url} did not answer with JSON: ${(error as Error).message}`);
+    }
+  }
+
+  /** Logs what went wrong; the client only learns that the login failed */
+  private fail(reason: string): never {
+    this.logger.warn(`Login with ${this.config.name} failed: ${reason}`);
+    throw new OidcLoginFailedException(this.config.name);
+  }
+}
@@ -0,0 +1,120 @@
+import { Controller, Get, Inject, Param, Post, Query, Req, Res, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiQuery, ApiResponse as SwaggerApiResponse, ApiTags } from '@nestjs/swagger';
+import { CookieOptions, Request, Response } from 'express';
+import { OidcService } from './oidc.service';
+import { OIDC_STATE_COOKIE } from '../auth.constants';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { Public } from '../../common/decorators/public.decorator';
+import { SessionOnly } from '../../common/decorators/session-only.decorator';
+import { NoImpersonation } from '../../common/decorators/no-impersonation.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequestAuditContext } from '../../common/decorators/audit-context.decorator';
+import { ResponseMessage } from '../../common/decorators/response-message.decorator';
+import { ApiOkResponseEnvelope } from '../../common/decorators/api-ok-response-envelope.decorator';
+import { AuthTokensDto, OidcAuthorizationUrlDto } from '../../common/dto/auth-response.dto';
+import { AuditContext } from '../../common/types/audit.types';
+import { AuthTokens, MfaChallenge } from '../../common/types/auth.types';
+import { UserIdentity } from '../../common/types/oidc.types';
+import { oidcConfig, OidcConfig } from '../../config/oidc.config';
+import { securityConfig, SecurityConfig } from '../../config/security.config';
+
+// The cookie only needs to reach the callback
+const STATE_COOKIE_PATH = '/auth/oidc';
+
+@ApiTags('Authentication')
+@Controller('auth/oidc')
+export class OidcController {
+  constructor(
+    private readonly oidcService: OidcService,
+    @Inject(oidcConfig.KEY) private readonly oidc: OidcConfig,
+    @Inject(securityConfig.KEY) private readonly security: SecurityConfig,
+  ) {}
+
+  @Public()
+  @Get(':provider')
+  @ApiOperation({
+    summary: 'Log in with an OpenID Connect provider',
+    description: 'Redirects to the provider. After the user signs in there, the provider redirects back to /auth/oidc/{provider}/callback.'
+  })
+  @ApiParam({ name: 'provider', example: 'google' })
+  @SwaggerApiResponse({ status: 302, description: 'Redirect to the provider' })
+  @SwaggerApiResponse({ status: 404, description: 'Unknown provider' })
+  async login(@Param('provider') provider: string, @Res() res: Response) {
+    const { authorizationUrl, state } = await this.oidcService.authorize(provider);
+
+    res.cookie(OIDC_STATE_COOKIE, state, this.stateCookieOptions());
+    res.redirect(authorizationUrl);
+  }
+
+  @Public()
+  @Get(':provider/callback')
+  @ResponseMessage((result: AuthTokens | MfaChallenge | UserIdentity) =>
+    'linkedAt' in result
+      ? 'responses.auth.oidc_linked'
+      : 'mfa_token' in result ? 'responses.auth.mfa_required' : 'responses.auth.logged_in',
+  )
+  @ApiOperation({
+    summary: 'OpenID Connect callback',
+    description: 'Exchanges the authorization code and logs in the user linked to the provider identity. An identity that is not linked yet is linked to the account with the same email, if the provider has verified it. For a link started at /auth/oidc/{provider}/link, the identity is linked to that account instead. Only the browser that started the flow, and so holds its state cookie, can complete it.'
+  })
+  @ApiParam({ name: 'provider', example: 'google' })
+  @ApiQuery({ name: 'code', required: false })
+  @ApiQuery({ name: 'state', required: false })
+  @ApiOkResponseEnvelope(AuthTokensDto, {
+    description: 'Login successful. With two-factor authentication, data holds mfa_required and mfa_token instead; for a link, the linked identity',
+  })
+  @SwaggerApiResponse({ status: 400, description: 'Unknown, used or expired state, or one this browser did not start' })
+  @SwaggerApiResponse({ status: 401, description: 'The provider login failed, or no account is linked to the identity' })
+  @SwaggerApiResponse({ status: 409, description: 'The identity is already linked to another account' })
+  async callback(
+    @Param('provider') provider: string,
+    @Query('code') code: string | undefined,
+    @Query('state') state: string | undefined,
+    @Query('error') error: string | undefined,
+    @RequestAuditContext() context: AuditContext,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    // A tampered cookie comes back as false
+    const browserState = req.signedCookies?.[OIDC_STATE_COOKIE] || undefined;
+    res.clearCookie(OIDC_STATE_COOKIE, { path: STATE_COOKIE_PATH });
+
+    return this.oidcService.callback(provider, { code, state, error, browserState }, context);
+  }
+
+  @Post(':provider/link')
+  @ResponseMessage('responses.auth.oidc_link_started')
+  @UseGuards(JwtAuthGuard)
+  @SessionOnly()
+  @NoImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Link an OpenID Connect identity',
+    description: 'Returns the provider URL to open. Once the user signs in there, the callback links the provider identity to the current account.'
+  })
+  @ApiParam({ name: 'provider', example: 'google' })
+  @ApiOkResponseEnvelope(OidcAuthorizationUrlDto, { status: 201, description: 'Link started' })
+  @SwaggerApiResponse({ status: 404, description: 'Unknown provider' })
+  async link(
+    @Param('provider') provider: string,
+    @CurrentUser('sub') userId: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { authorizationUrl, state } = await this.oidcService.authorize(provider, userId);
+
+    res.cookie(OIDC_STATE_COOKIE, state, this.stateCookieOptions());
+    return { authorizationUrl };
+  }
+
+  /** Lax, so the cookie still comes along on the top-level redirect back from the provider */
+  private stateCookieOptions(): CookieOptions {
+    return {
+      signed: true,
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: this.security.secureCookies,
+      path: STATE_COOKIE_PATH,
+      maxAge: this.oidc.stateTtlMs,
+    };
+  }
+}
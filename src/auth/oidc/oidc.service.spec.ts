@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { OidcService } from './oidc.service';
+import { OidcProviderClient } from './oidc-provider.client';
+import { AuthService } from '../auth.service';
+import {
+  InvalidOidcStateException,
+  OidcAccountNotLinkedException,
+  OidcIdentityInUseException,
+  UnknownOidcProviderException,
+} from '../auth.exceptions';
+import { UsersService } from '../../users/users.service';
+import { UserRole, UserStatus } from '../../common/types/user.types';
+import { OidcClaims } from '../../common/types/oidc.types';
+import { oidcConfig } from '../../config/oidc.config';
+import { httpConfig } from '../../config/http.config';
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let usersService: jest.Mocked<UsersService>;
+  let authService: jest.Mocked<AuthService>;
+  let authorizationUrl: jest.SpyInstance;
+  let exchangeCode: jest.SpyInstance;
+
+  const mockUser = {
+    id: '1',
+    email: 'test@example.com',
+    username: 'testuser',
+    role: UserRole.USER,
+    status: UserStatus.ACTIVE,
+    isActive: true,
+    mfaEnabled: false,
+    locale: null,
+    failedLoginAttempts: 0,
+    lockoutCount: 0,
+    lockedUntil: null,
+    password: 'hashedpassword',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const claims = (overrides: Partial<OidcClaims> = {}): OidcClaims => ({
+    sub: 'external-1',
+    email: 'test@example.com',
+    email_verified: true,
+    ...overrides,
+  });
+
+  /** Starts a flow and returns the state the provider would send back */
+  const start = async (linkUserId?: string): Promise<string> =>
+    (await service.authorize('acme', linkUserId)).state;
+
+  /** Callback parameters from the browser that holds the state cookie */
+  const fromBrowser = (state: string) => ({ code: 'code', state, browserState: state });
+
+  beforeEach(async () => {
+    authorizationUrl = jest.spyOn(OidcProviderClient.prototype, 'authorizationUrl')
+      .mockResolvedValue('https://idp.example.com/authorize');
+    exchangeCode = jest.spyOn(OidcProviderClient.prototype, 'exchangeCode').mockResolvedValue(claims());
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        {
+          provide: UsersService,
+          useValue: {
+            findByEmail: jest.fn(),
+            findById: jest.fn(),
+            findByIdentity: jest.fn().mockResolvedValue(null),
+            findIdentities: jest.fn().mockResolvedValue([]),
+            linkIdentity: jest.fn(identity => Promise.resolve(identity)),
+            markEmailVerified: jest.fn(),
+          },
+        },
+        {
+          provide: AuthService,
+          useValue: { loginWithIdentity: jest.fn().mockResolvedValue({ access_token: 'token' }) },
+        },
+        {
+          provide: JwtService,
+          useValue: new JwtService({}),
+        },
+        {
+          provide: oidcConfig.KEY,
+          useValue: {
+            providers: [{ name: 'acme', issuer: 'https://idp.example.com', clientId: 'app', scopes: ['openid'] }],
+            stateTtlMs: 60_000,
+          },
+        },
+        {
+          provide: httpConfig.KEY,
+          useValue: { ...httpConfig(), appUrl: 'http://localhost:3000' },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+    usersService = module.get(UsersService);
+    authService = module.get(AuthService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should send an S256 challenge of the verifier it later redeems the code with', async () => {
+    usersService.findByIdentity.mockResolvedValue(mockUser);
+    const state = await start();
+    const { codeChallenge, nonce, redirectUri } = authorizationUrl.mock.calls[0][0];
+
+    await service.callback('acme', fromBrowser(state));
+
+    const [, codeVerifier, redeemUri, redeemNonce] = exchangeCode.mock.calls[0];
+    expect(createHash('sha256').update(codeVerifier).digest('base64url')).toBe(codeChallenge);
+    expect(codeChallenge).not.toBe(codeVerifier);
+    expect(redeemNonce).toBe(nonce);
+    expect(redeemUri).toBe(redirectUri);
+    expect(redirectUri).toBe('http://localhost:3000/auth/oidc/acme/callback');
+  });
+
+  it('should reject unknown providers', async () => {
+    await expect(service.authorize('other')).rejects.toThrow(UnknownOidcProviderException);
+  });
+
+  it('should accept a state only once', async () => {
+    usersService.findByIdentity.mockResolvedValue(mockUser);
+    const state = await start();
+
+    await service.callback('acme', fromBrowser(state));
+
+    await expect(service.callback('acme', fromBrowser(state))).rejects.toThrow(InvalidOidcStateException);
+  });
+
+  it('should reject unknown and expired states', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    const state = await start();
+    jest.advanceTimersByTime(60_000);
+
+    await expect(service.callback('acme', fromBrowser(state))).rejects.toThrow(InvalidOidcStateException);
+    await expect(service.callback('acme', fromBrowser('forged'))).rejects.toThrow(InvalidOidcStateException);
+    expect(exchangeCode).not.toHaveBeenCalled();
+  });
+
+  it('should reject a state the browser did not start', async () => {
+    const state = await start();
+    const otherState = await start();
+
+    await expect(service.callback('acme', { code: 'code', state })).rejects.toThrow(InvalidOidcStateException);
+    await expect(service.callback('acme', { code: 'code', state, browserState: otherState }))
+      .rejects.toThrow(InvalidOidcStateException);
+    expect(exchangeCode).not.toHaveBeenCalled();
+  });
+
+  it('should log in the user already linked to the identity', async () => {
+    usersService.findByIdentity.mockResolvedValue(mockUser);
+
+    await service.callback('acme', fromBrowser(await start()));
+
+    expect(usersService.linkIdentity).not.toHaveBeenCalled();
+    expect(authService.loginWithIdentity).toHaveBeenCalledWith(mockUser, {});
+  });
+
+  it('should link the identity to the user with the same verified email', async () => {
+    usersService.findByEmail.mockResolvedValue(mockUser);
+
+    await service.callback('acme', fromBrowser(await start()));
+
+    expect(usersService.linkIdentity).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'acme', subject: 'external-1', userId: '1' }),
+      {},
+    );
+    expect(authService.loginWithIdentity).toHaveBeenCalledWith(mockUser, {});
+  });
+
+  it('should verify a pending account the provider has verified the email of', async () => {
+    const pending = { ...mockUser, status: UserStatus.PENDING_VERIFICATION };
+    usersService.findByEmail.mockResolvedValue(pending);
+    usersService.findById.mockResolvedValue(mockUser);
+
+    await service.callback('acme', fromBrowser(await start()));
+
+    expect(usersService.markEmailVerified).toHaveBeenCalledWith('1');
+    expect(authService.loginWithIdentity).toHaveBeenCalledWith(mockUser, {});
+  });
+
+  it('should not match accounts by an unverified email', async () => {
+    exchangeCode.mockResolvedValue(claims({ email_verified: false }));
+    usersService.findByEmail.mockResolvedValue(mockUser);
+
+    await expect(service.callback('acme', fromBrowser(await start()))).rejects.toThrow(
+      OidcAccountNotLinkedException,
+    );
+    expect(usersService.linkIdentity).not.toHaveBeenCalled();
+  });
+
+  it('should link the identity to the user who started a link', async () => {
+    exchangeCode.mockResolvedValue(claims({ email: 'other@example.com', email_verified: false }));
+
+    const result = await service.callback('acme', fromBrowser(await start('1')));
+
+    expect(result).toEqual(expect.objectContaining({ provider: 'acme', subject: 'external-1', userId: '1' }));
+    expect(authService.loginWithIdentity).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to link an identity another user has linked', async () => {
+    usersService.findByIdentity.mockResolvedValue({ ...mockUser, id: '2' });
+
+    await expect(service.callback('acme', fromBrowser(await start('1')))).rejects.toThrow(
+      OidcIdentityInUseException,
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes } from 'crypto';
+import { UsersService } from '../../users/users.service';
+import { UserRecord } from '../../users/repositories/user.repository';
+import { UserStatus } from '../../common/types/user.types';
+import { AuditContext } from '../../common/types/audit.types';
+import { OidcAuthorization, OidcAuthorizationRequest, OidcClaims, UserIdentity } from '../../common/types/oidc.types';
+import { oidcConfig, OidcConfig } from '../../config/oidc.config';
+import { httpConfig, HttpConfig } from '../../config/http.config';
+import { AuthService } from '../auth.service';
+import { OidcProviderClient } from './oidc-provider.client';
+import {
+  InvalidOidcStateException,
+  OidcAccountNotLinkedException,
+  OidcIdentityInUseException,
+  OidcLoginFailedException,
+  UnknownOidcProviderException,
+} from '../auth.exceptions';
+
+export interface OidcCallbackParams {
+  code?: string;
+  state?: string;
+  /** Set by the provider instead of a code when the user declined */
+  error?: string;
+  /** State from the signed cookie of the browser the callback arrived in */
+  browserState?: string;
+}
+
+/**
+ * OIDC Service
+ * Runs the authorization-code flow with PKCE for the configured providers.
+ * A callback logs in the user linked to the provider identity. An identity
+ * not linked yet is linked to the user with the same, provider-verified
+ * email, or to the signed-in user who started an explicit link.
+ */
+@Injectable()
+export class OidcService {
+  private readonly clients: Map<string, OidcProviderClient>;
+  private readonly requests = new Map<string, OidcAuthorizationRequest>();
+
+  constructor(
+    @Inject(oidcConfig.KEY) private oidc: OidcConfig,
+    @Inject(httpConfig.KEY) private http: HttpConfig,
+    private usersService: UsersService,
+    private authService: AuthService,
+    jwtService: JwtService,
+  ) {
+    this.clients = new Map(
+      oidc.providers.map(provider => [provider.name, new OidcProviderClient(provider, jwtService)]),
+    );
+  }
+
+  get providers(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  /**
+   * Starts a login, or with linkUserId a link to that user, and returns the
+   * provider URL to send the browser to. The caller binds the state to the
+   * browser, since only that browser may complete the flow.
+   */
+  async authorize(provider: string, linkUserId?: string): Promise<OidcAuthorization> {
+    const client = this.client(provider);
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    const state = randomBytes(16).toString('base64url');
+
+    this.pruneRequests();
+    this.requests.set(state, {
+      provider,
+      codeVerifier,
+      nonce,
+      linkUserId,
+      expiresAt: Date.now() + this.oidc.stateTtlMs,
+    });
+
+    const authorizationUrl = await client.authorizationUrl({
+      redirectUri: this.redirectUri(provider),
+      state,
+      nonce,
+      codeChallenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+    });
+    return { authorizationUrl, state };
+  }
+
+  /**
+   * Completes the flow the state belongs to. A login returns what a password
+   * login would (tokens or an MFA challenge); a link returns the new identity.
+   */
+  async callback(provider: string, params: OidcCallbackParams, context: AuditContext = {}) {
+    const client = this.client(provider);
+
+    // Otherwise an attacker could have a victim's browser finish the attacker's flow
+    if (!params.state || params.state !== params.browserState) {
+      throw new InvalidOidcStateException();
+    }
+    const request = this.takeRequest(provider, params.state);
+
+    if (params.error || !params.code) {
+      throw new OidcLoginFailedException(provider);
+    }
+
+    const claims = await client.exchangeCode(params.code, request.codeVerifier, this.redirectUri(provider), request.nonce);
+
+    if (request.linkUserId) {
+      return this.link(provider, claims, request.linkUserId, context);
+    }
+
+    const user = await this.resolveUser(provider, claims, context);
+    return this.authService.loginWithIdentity(user, context);
+  }
+
+  /** The user linked to the identity, linking it by verified email if need be */
+  private async resolveUser(provider: string, claims: OidcClaims, context: AuditContext): Promise<UserRecord> {
+    const linked = await this.usersService.findByIdentity(provider, claims.sub);
+    if (linked) {
+      return linked;
+    }
+
+    const user = claims.email && claims.email_verified
+      ? await this.usersService.findByEmail(claims.email)
+      : null;
+    if (!user) {
+      throw new OidcAccountNotLinkedException(provider);
+    }
+
+    await this.usersService.linkIdentity(this.identity(provider, claims, user.id), context);
+
+    // The provider has confirmed the address, which is all our own check would do
+    if (user.status === UserStatus.PENDING_VERIFICATION) {
+      await this.usersService.markEmailVerified(user.id);
+      return this.usersService.findById(user.id);
+    }
+    return user;
+  }
+
+  private async link(provider: string, claims: OidcClaims, userId: string, context: AuditContext): Promise<UserIdentity> {
+    const existing = (await this.usersService.findIdentities(userId))
+      .find(identity => identity.provider === provider && identity.subject === claims.sub);
+    if (existing) {
+      return existing;
+    }
+
+    if (await this.usersService.findByIdentity(provider, claims.sub)) {
+      throw new OidcIdentityInUseException(provider);
+    }
+
+    return this.usersService.linkIdentity(this.identity(provider, claims, userId), context);
+  }
+
+  private identity(provider: string, claims: OidcClaims, userId: string): UserIdentity {
+    return { provider, subject: claims.sub, userId, email: claims.email, linkedAt: new Date() };
+  }
+
+  private client(provider: string): OidcProviderClient {
+    const client = this.clients.get(provider);
+    if (!client) {
+      throw new UnknownOidcProviderException(provider);
+    }
+    return client;
+  }
+
+  /** A state is good for one callback of the provider it was issued for */
+  private takeRequest(provider: string, state: string | undefined): OidcAuthorizationRequest {
+    const request = state ? this.requests.get(state) : undefined;
+    if (request) {
+      this.requests.delete(state);
+    }
+
+    if (!request || request.provider !== provider || request.expiresAt <= Date.now()) {
+      throw new InvalidOidcStateException();
+    }
+    return request;
+  }
+
+  private pruneRequests(): void {
+    const now = Date.now();
+    for (const [state, request] of this.requests) {
+      if (request.expiresAt <= now) {
+        this.requests.delete(state);
+      }
+    }
+  }
+
+  private redirectUri(provider: string): string {
+    return `${this.http.appUrl.replace(/\/$/, '')}/auth/oidc/${provider}/callback`;
+  }
+}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { PasswordResetService } from './password-reset.service';
+import { AuthService } from './auth.service';
+import { InvalidResetTokenException } from './auth.exceptions';
+import { UsersService } from '../users/users.service';
+import { MAILER } from '../mail/mail.constants';
+import { UserRole, UserStatus } from '../common/types/user.types';
+import { authConfig } from '../config/auth.config';
+import { httpConfig } from '../config/http.config';
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+  let usersService: jest.Mocked<UsersService>;
+  let authService: jest.Mocked<AuthService>;
+  let mailer: { send: jest.Mock };
+
+  const mockUser = {
+    id: '1',
+    email: 'test@example.com',
+    username: 'testuser',
+    role: UserRole.USER,
+    status: UserStatus.ACTIVE,
+    isActive: true,
+    mfaEnabled: false,
+    locale: null,
+    failedLoginAttempts: 0,
+    lockoutCount: 0,
+    lockedUntil: null,
+    password: 'hashedpassword',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const tokenFromLastMail = (): string => {
+    const { text } = mailer.send.mock.calls[mailer.send.mock.calls.length - 1][0];
+    return text.match(/token=([^\s]+)/)[1];
+  };
+
+  beforeEach(async () => {
+    mailer = { send: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordResetService,
+        {
+          provide: UsersService,
+          useValue: {
+            findByEmail: jest.fn(),
+            findById: jest.fn(),
+            setPassword: jest.fn(),
+          },
+        },
+        {
+          provide: AuthService,
+          useValue: { logoutAll: jest.fn() },
+        },
+        {
+          provide: JwtService,
+          useValue: new JwtService({}),
+        },
+        {
+          provide: MAILER,
+          useValue: mailer,
+        },
+        {
+          provide: authConfig.KEY,
+          useValue: authConfig(),
+        },
+        {
+          provide: httpConfig.KEY,
+          useValue: httpConfig(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<PasswordResetService>(PasswordResetService);
+    usersService = module.get(UsersService);
+    authService = module.get(AuthService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('requestReset', () => {
+    it('should mail a reset link to active users', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+
+      await service.requestReset('test@example.com');
+
+      expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'test@example.com' }));
+    });
+
+    it('should silently ignore unknown and deactivated accounts', async () => {
+      usersService.findByEmail.mockResolvedValueOnce(null);
+      usersService.findByEmail.mockResolvedValueOnce({ ...mockUser, isActive: false });
+
+      await service.requestReset('nobody@example.com');
+      await service.requestReset('test@example.com');
+
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke all sessions', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      usersService.findById.mockResolvedValue(mockUser);
+      await service.requestReset('test@example.com');
+
+      await service.resetPassword(tokenFromLastMail(), 'newpassword123');
+
+      expect(usersService.setPassword).toHaveBeenCalledWith('1', 'newpassword123');
+      expect(authService.logoutAll).toHaveBeenCalledWith('1');
+    });
+
+    it('should reject a token once the password has changed', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      await service.requestReset('test@example.com');
+      usersService.findById.mockResolvedValue({ ...mockUser, password: 'another-hash' });
+
+      await expect(service.resetPassword(tokenFromLastMail(), 'newpassword123'))
+        .rejects.toThrow(InvalidResetTokenException);
+      expect(usersService.setPassword).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed tokens', async () => {
+      await expect(service.resetPassword('invalid', 'newpassword123'))
+        .rejects.toThrow(InvalidResetTokenException);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { UsersService } from '../users/users.service';
+import { MAILER } from '../mail/mail.constants';
+import { Mailer } from '../mail/mailer.interface';
+import { AuthService } from './auth.service';
+import { InvalidResetTokenException } from './auth.exceptions';
+import { authConfig, AuthConfig } from '../config/auth.config';
+import { httpConfig, HttpConfig } from '../config/http.config';
+
+const PASSWORD_RESET_PURPOSE = 'password-reset';
+
+interface PasswordResetPayload {
+  sub: string;
+  purpose: string;
+  /** Fingerprint of the password hash the token was issued for */
+  pwd: string;
+}
+
+/**
+ * Password Reset Service
+ * Mails time-limited reset tokens. A token is bound to the password hash it
+ * was issued for, so it stops working as soon as the password changes.
+ */
+@Injectable()
+export class PasswordResetService {
+  constructor(
+    private usersService: UsersService,
+    private authService: AuthService,
+    private jwtService: JwtService,
+    @Inject(MAILER) private mailer: Mailer,
+    @Inject(authConfig.KEY) private auth: AuthConfig,
+    @Inject(httpConfig.KEY) private http: HttpConfig,
+  ) {}
+
+  /**
+   * Mails a reset link. Silently does nothing for unknown or deactivated
+   * accounts so the endpoint cannot be used to probe accounts.
+   */
+  async requestReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const payload: PasswordResetPayload = {
+      sub: user.id,
+      purpose: PASSWORD_RESET_PURPOSE,
+      pwd: this.fingerprint(user.password),
+    };
+    const token = this.jwtService.sign(payload, { secret: this.auth.passwordResetSecret, expiresIn: this.auth.passwordResetTtl });
+    const link = `${this.http.appUrl}/reset-password?token=${token}`;
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.username},\n\nSomeone asked to reset the password of your account. If it was you, open the link below:\n\n${link}\n\nThe link expires in ${this.auth.passwordResetTtl} and can only be used once. If you did not ask for a reset, you can ignore this email.`,
+    });
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    let payload: PasswordResetPayload;
+    try {
+      payload = this.jwtService.verify<PasswordResetPayload>(token, { secret: this.auth.passwordResetSecret });
+    } catch {
+      throw new InvalidResetTokenException();
+    }
+
+    const user = payload.purpose === PASSWORD_RESET_PURPOSE
+      ? await this.usersService.findById(payload.sub)
+      : null;
+
+    if (!user || !user.isActive || this.fingerprint(user.password) !== payload.pwd) {
+      throw new InvalidResetTokenException();
+    }
+
+    await this.usersService.setPassword(user.id, newPassword);
+    await this.authService.logoutAll(user.id);
+  }
+
+  private fingerprint(passwordHash: string): string {
+    return createHash('sha256').update(passwordHash).digest('hex').slice(0, 32);
+  }
+}
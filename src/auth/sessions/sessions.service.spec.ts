@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionsService } from './sessions.service';
+import { SessionNotFoundException } from '../auth.exceptions';
+import { UsersService } from '../../users/users.service';
+import { AuditService } from '../../audit/audit.service';
+import { Session } from '../../common/types/session.types';
+import { authConfig } from '../../config/auth.config';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let usersService: jest.Mocked<UsersService>;
+  let auditService: { record: jest.Mock };
+  let stored: Map<string, Session>;
+
+  const refreshTokenTtlMs = 7 * 24 * 60 * 60 * 1000;
+  const userAgent = 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0';
+
+  const storeSession = (changes: Partial<Session> = {}): Session => {
+    const session: Session = {
+      id: 'session-1',
+      userId: '1',
+      device: 'desktop',
+      browser: 'Firefox 128',
+      os: 'Linux',
+      userAgent,
+      ip: '203.0.113.7',
+      organizationId: null,
+      createdAt: new Date(),
+      lastSeenAt: new Date(),
+      ...changes,
+    };
+    stored.set(session.id, session);
+    return session;
+  };
+
+  beforeEach(async () => {
+    stored = new Map();
+    auditService = { record: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        {
+          provide: UsersService,
+          useValue: {
+            saveSession: jest.fn((session: Session) => {
+              stored.set(session.id, session);
+              return Promise.resolve(session);
+            }),
+            findSession: jest.fn((id: string) => Promise.resolve(stored.get(id) ?? null)),
+            findSessions: jest.fn(() => Promise.resolve([...stored.values()])),
+            updateSession: jest.fn((id: string, changes: Partial<Session>) => Promise.resolve(Object.assign(stored.get(id), changes))),
+            revokeRefreshTokenFamily: jest.fn(),
+          },
+        },
+        { provide: AuditService, useValue: auditService },
+        { provide: authConfig.KEY, useValue: { refreshTokenTtlMs } },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+    usersService = module.get(UsersService);
+  });
+
+  describe('start', () => {
+    it('should record the device, ip and user agent of the login', async () => {
+      const session = await service.start('1', { ip: '203.0.113.7', userAgent });
+
+      expect(session).toEqual(expect.objectContaining({
+        userId: '1',
+        device: 'desktop',
+        browser: 'Firefox 128',
+        os: 'Linux',
+        userAgent,
+        ip: '203.0.113.7',
+      }));
+      expect(session.lastSeenAt).toEqual(session.createdAt);
+    });
+  });
+
+  describe('touch', () => {
+    it('should record activity at most once a minute', async () => {
+      storeSession({ lastSeenAt: new Date(Date.now() - 5000) });
+
+      await expect(service.touch('session-1', '203.0.113.7')).resolves.toBe(true);
+      expect(usersService.updateSession).not.toHaveBeenCalled();
+
+      stored.get('session-1').lastSeenAt = new Date(Date.now() - 2 * 60 * 1000);
+      await service.touch('session-1', '203.0.113.7');
+      expect(usersService.updateSession).toHaveBeenCalledWith('session-1', { lastSeenAt: expect.any(Date), ip: '203.0.113.7' });
+    });
+
+    it('should record a new ip right away', async () => {
+      storeSession();
+
+      await service.touch('session-1', '198.51.100.1');
+
+      expect(stored.get('session-1').ip).toBe('198.51.100.1');
+    });
+
+    it('should refuse revoked, expired and unknown sessions', async () => {
+      storeSession({ id: 'revoked', revokedAt: new Date() });
+      storeSession({ id: 'expired', lastSeenAt: new Date(Date.now() - refreshTokenTtlMs - 1000) });
+
+      await expect(service.touch('revoked')).resolves.toBe(false);
+      await expect(service.touch('expired')).resolves.toBe(false);
+      await expect(service.touch('missing')).resolves.toBe(false);
+    });
+  });
+
+  describe('resume', () => {
+    it('should record a session for a refresh token family from before sessions existed', async () => {
+      const session = await service.resume('1', 'family-1', { userAgent });
+
+      expect(session).toEqual(expect.objectContaining({ id: 'family-1', userId: '1', browser: 'Firefox 128' }));
+      expect(stored.get('family-1')).toEqual(session);
+    });
+
+    it('should not bring back a revoked session', async () => {
+      storeSession({ revokedAt: new Date() });
+
+      await expect(service.resume('1', 'session-1')).resolves.toBeNull();
+      expect(usersService.saveSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findActive', () => {
+    it('should list active sessions, most recently used first, and mark the current one', async () => {
+      storeSession({ id: 'older', lastSeenAt: new Date(Date.now() - 60000) });
+      storeSession({ id: 'newer' });
+      storeSession({ id: 'revoked', revokedAt: new Date() });
+
+      const result = await service.findActive('1', 'older');
+
+      expect(result.map(session => [session.id, session.current])).toEqual([['newer', false], ['older', true]]);
+      expect(result[0]).not.toHaveProperty('revokedAt');
+    });
+  });
+
+  describe('revoke', () => {
+    it('should end the session and its refresh tokens and audit it', async () => {
+      storeSession();
+
+      await service.revoke('1', 'session-1', { ip: '203.0.113.7' });
+
+      expect(stored.get('session-1').revokedAt).toBeInstanceOf(Date);
+      expect(usersService.revokeRefreshTokenFamily).toHaveBeenCalledWith('session-1');
+      expect(auditService.record).toHaveBeenCalledWith(
+        { action: 'session.revoked', target: { type: 'Session', id: 'session-1' } },
+        { ip: '203.0.113.7' },
+      );
+    });
+
+    it('should not reveal sessions of other users or revoke one twice', async () => {
+      storeSession({ userId: '2' });
+      storeSession({ id: 'revoked', revokedAt: new Date() });
+
+      await expect(service.revoke('1', 'session-1')).rejects.toThrow(SessionNotFoundException);
+      await expect(service.revoke('1', 'revoked')).rejects.toThrow(SessionNotFoundException);
+      await expect(service.revoke('1', 'missing')).rejects.toThrow(SessionNotFoundException);
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endAll', () => {
+    it('should revoke every open session of the user', async () => {
+      storeSession({ id: 'a' });
+      storeSession({ id: 'b' });
+
+      await service.endAll('1');
+
+      expect([...stored.values()].every(session => session.revokedAt instanceof Date)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { UsersService } from '../../users/users.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditContext } from '../../common/types/audit.types';
+import { RequestContext } from '../../common/context/request-context';
+import { Session, SessionView } from '../../common/types/session.types';
+import { authConfig, AuthConfig } from '../../config/auth.config';
+import { SessionNotFoundException } from '../auth.exceptions';
+import { parseUserAgent } from './user-agent';
+
+// Writing on every request would turn each read into a write
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Sessions Service
+ * One session per login, so users can see where they are signed in and
+ * sign out a single device. The session id is the `sid` claim of the access
+ * tokens and the family of the refresh tokens, so ending a session ends both.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    private usersService: UsersService,
+    private auditService: AuditService,
+    @Inject(authConfig.KEY) private auth: AuthConfig,
+  ) {}
+
+  /** Records a login from the device described by the request context, in the organization it acts in */
+  async start(userId: string, context: AuditContext = {}, id: string = randomUUID()): Promise<Session> {
+    const now = new Date();
+
+    return this.usersService.saveSession({
+      id,
+      userId,
+      ...parseUserAgent(context.userAgent),
+      userAgent: context.userAgent ?? null,
+      ip: context.ip ?? null,
+      organizationId: RequestContext.organizationId() ?? null,
+      createdAt: now,
+      lastSeenAt: now,
+    });
+  }
+
+  /**
+   * Notes activity on a session, at most once a minute. Returns false when
+   * the session has been revoked or has expired, so its tokens are refused.
+   */
+  async touch(id: string, ip?: string | null): Promise<boolean> {
+    const session = await this.usersService.findSession(id);
+
+    if (!session || !this.isActive(session)) {
+      return false;
+    }
+
+    const now = new Date();
+    if (now.getTime() - session.lastSeenAt.getTime() >= LAST_SEEN_RESOLUTION_MS || (ip && ip !== session.ip)) {
+      await this.usersService.updateSession(id, { lastSeenAt: now, ...(ip && { ip }) });
+    }
+
+    return true;
+  }
+
+  /**
+   * Keeps a session going on refresh and returns it, or null once it has
+   * ended. Families from before sessions were recorded get one now.
+   */
+  async resume(userId: string, id: string, context: AuditContext = {}): Promise<Session | null> {
+    const session = await this.usersService.findSession(id);
+
+    if (!session) {
+      return this.start(userId, context, id);
+    }
+
+    return (await this.touch(id, context.ip)) ? session : null;
+  }
+
+  /** Active sessions, most recently used first; within an organization, the ones started there */
+  async findActive(userId: string, currentId?: string): Promise<SessionView[]> {
+    return (await this.usersService.findSessions(userId))
+      .filter(session => this.isActive(session) && this.isInOrganization(session))
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      .map(({ revokedAt: _revokedAt, ...session }) => ({ ...session, current: session.id === currentId }));
+  }
+
+  /** Signs a user out of one of their sessions on their or an admin's request */
+  async revoke(userId: string, id: string, context: AuditContext = {}): Promise<void> {
+    const session = await this.usersService.findSession(id);
+
+    if (!session || session.userId !== userId || !this.isActive(session) || !this.isInOrganization(session)) {
+      throw new SessionNotFoundException();
+    }
+
+    await this.end(id);
+    await this.auditService.record({ action: 'session.revoked', target: { type: 'Session', id } }, context);
+  }
+
+  /** Ends a session and its refresh tokens, e.g. on logout */
+  async end(id: string): Promise<void> {
+    await this.usersService.updateSession(id, { revokedAt: new Date() });
+    await this.usersService.revokeRefreshTokenFamily(id);
+  }
+
+  async endAll(userId: string): Promise<void> {
+    const sessions = await this.usersService.findSessions(userId);
+    const revokedAt = new Date();
+
+    await Promise.all(
+      sessions
+        .filter(session => !session.revokedAt)
+        .map(session => this.usersService.updateSession(session.id, { revokedAt })),
+    );
+  }
+
+  /** A session lasts as long as its refresh token could, counted from the last activity */
+  private isActive(session: Session): boolean {
+    return !session.revokedAt && session.lastSeenAt.getTime() + this.auth.refreshTokenTtlMs > Date.now();
+  }
+
+  private isInOrganization(session: Session): boolean {
+    const organizationId = RequestContext.organizationId();
+    return !organizationId || session.organizationId === organizationId;
+  }
+}
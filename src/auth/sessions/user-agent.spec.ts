@@ -0,0 +1,33 @@
+import { parseUserAgent } from './user-agent';
+
+describe('parseUserAgent', () => {
+  it.each([
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0',
+      { device: 'desktop', browser: 'Edge 126', os: 'Windows' },
+    ],
+    [
+      'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0',
+      { device: 'desktop', browser: 'Firefox 128', os: 'Linux' },
+    ],
+    [
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+      { device: 'mobile', browser: 'Safari 17', os: 'iOS' },
+    ],
+    [
+      'Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+      { device: 'tablet', browser: 'Chrome 126', os: 'Android' },
+    ],
+    [
+      'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+      { device: 'bot', browser: null, os: null },
+    ],
+    ['curl/8.5.0', { device: 'unknown', browser: 'curl 8', os: null }],
+  ])('should read %s', (userAgent, expected) => {
+    expect(parseUserAgent(userAgent)).toEqual(expected);
+  });
+
+  it('should return nulls without a user agent', () => {
+    expect(parseUserAgent(undefined)).toEqual({ device: 'unknown', browser: null, os: null });
+  });
+});
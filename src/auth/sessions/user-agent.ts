@@ -0,0 +1,57 @@
+import { DeviceType, UserAgentInfo } from '../../common/types/session.types';
+
+// Checked in order: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg(?:e|A|iOS)?\/(\d+)/],
+  ['Opera', /(?:OPR|Opera)\/(\d+)/],
+  ['Samsung Internet', /SamsungBrowser\/(\d+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/(\d+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/(\d+)/],
+  ['Safari', /Version\/(\d+)[\d.]* (?:Mobile\/\S+ )?Safari\//],
+  ['curl', /^curl\/(\d+)/],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ['iOS', /\b(?:iPhone|iPad|iPod)\b/],
+  ['Android', /\bAndroid\b/],
+  ['Windows', /\bWindows\b/],
+  ['macOS', /\bMac OS X\b/],
+  ['ChromeOS', /\bCrOS\b/],
+  ['Linux', /\bLinux\b/],
+];
+
+/**
+ * A rough reading of a User-Agent header, good enough for a user to tell
+ * their sessions apart. Unknown clients simply get nulls.
+ */
+export function parseUserAgent(userAgent: string | null | undefined): UserAgentInfo {
+  if (!userAgent) {
+    return { device: 'unknown', browser: null, os: null };
+  }
+
+  const browser = BROWSERS
+    .map(([name, pattern]) => {
+      const match = pattern.exec(userAgent);
+      return match ? `${name} ${match[1]}` : null;
+    })
+    .find(Boolean) ?? null;
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? null;
+
+  return { device: deviceType(userAgent), browser, os };
+}
+
+function deviceType(userAgent: string): DeviceType {
+  if (/bot|crawler|spider/i.test(userAgent)) {
+    return 'bot';
+  }
+  if (/iPad|Tablet|Android(?!.*Mobile)/.test(userAgent)) {
+    return 'tablet';
+  }
+  if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    return 'mobile';
+  }
+  if (/Windows|Macintosh|X11|CrOS/.test(userAgent)) {
+    return 'desktop';
+  }
+  return 'unknown';
+}
@@ -0,0 +1,70 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InMemoryTokenRevocationStore, UserRevocation } from './in-memory-token-revocation.store';
+
+interface RevocationFile {
+  tokens: Record<string, number>;
+  users: Record<string, UserRevocation>;
+}
+
+/**
+ * File-backed Token Revocation Store
+ * Keeps the in-memory maps as the source of truth and mirrors them to a JSON
+ * file so revocations survive restarts
+ */
+export class FileTokenRevocationStore extends InMemoryTokenRevocationStore {
+  private readonly logger = new Logger(FileTokenRevocationStore.name);
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    await super.revokeToken(jti, expiresAt);
+    await this.persist();
+  }
+
+  async revokeUserTokens(userId: string, issuedBefore: number, expiresAt: number): Promise<void> {
+    await super.revokeUserTokens(userId, issuedBefore, expiresAt);
+    await this.persist();
+  }
+
+  /** The directory must be writable, or the next revocation would be lost on restart */
+  async ping(): Promise<void> {
+    const directory = path.dirname(this.filePath);
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.access(directory, fs.constants.W_OK);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data: RevocationFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      this.revokedTokens = new Map(Object.entries(data.tokens || {}));
+      this.revokedUsers = new Map(Object.entries(data.users || {}));
+    } catch (error) {
+      this.logger.error(`Could not read revocation file ${this.filePath}: ${error}`);
+    }
+  }
+
+  private persist(): Promise<void> {
+    const data: RevocationFile = {
+      tokens: Object.fromEntries(this.revokedTokens),
+      users: Object.fromEntries(this.revokedUsers),
+    };
+
+    // Serialize writes so a slow write never overwrites a newer snapshot
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(this.filePath, JSON.stringify(data), 'utf8');
+    });
+
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { UserPayload } from '../../common/types/user.types';
+import { TokenRevocationStore } from './token-revocation.store';
+
+export interface UserRevocation {
+  issuedBefore: number;
+  expiresAt: number;
+}
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * In-memory Token Revocation Store
+ * Revocations are lost on restart, which is fine for a single dev instance
+ */
+@Injectable()
+export class InMemoryTokenRevocationStore implements TokenRevocationStore {
+  protected revokedTokens: Map<string, number> = new Map();
+  protected revokedUsers: Map<string, UserRevocation> = new Map();
+
+  async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    this.revokedTokens.set(jti, expiresAt);
+    await this.prune();
+  }
+
+  async revokeUserTokens(userId: string, issuedBefore: number, expiresAt: number): Promise<void> {
+    const existing = this.revokedUsers.get(userId);
+    this.revokedUsers.set(userId, {
+      issuedBefore: Math.max(issuedBefore, existing?.issuedBefore || 0),
+      expiresAt: Math.max(expiresAt, existing?.expiresAt || 0),
+    });
+    await this.prune();
+  }
+
+  async isRevoked(payload: Pick<UserPayload, 'sub' | 'jti' | 'iat'>): Promise<boolean> {
+    const now = nowInSeconds();
+
+    const tokenExpiresAt = payload.jti ? this.revokedTokens.get(payload.jti) : undefined;
+    if (tokenExpiresAt !== undefined && tokenExpiresAt > now) {
+      return true;
+    }
+
+    const userRevocation = this.revokedUsers.get(payload.sub);
+    return !!userRevocation
+      && userRevocation.expiresAt > now
+      && (payload.iat ?? 0) <= userRevocation.issuedBefore;
+  }
+
+  async ping(): Promise<void> {
+    // Nothing to reach
+  }
+
+  async prune(now: number = nowInSeconds()): Promise<void> {
+    for (const [jti, expiresAt] of this.revokedTokens) {
+      if (expiresAt <= now) {
+        this.revokedTokens.delete(jti);
+      }
+    }
+
+    for (const [userId, revocation] of this.revokedUsers) {
+      if (revocation.expiresAt <= now) {
+        this.revokedUsers.delete(userId);
+      }
+    }
+  }
+}
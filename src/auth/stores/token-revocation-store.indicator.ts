@@ -0,0 +1,24 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { HealthIndicator } from '../../common/types/health.types';
+import { HealthService } from '../../health/health.service';
+import { TOKEN_REVOCATION_STORE } from '../auth.constants';
+import { TokenRevocationStore } from './token-revocation.store';
+
+/** Readiness check that revoked tokens can still be recorded */
+@Injectable()
+export class TokenRevocationStoreIndicator implements HealthIndicator, OnModuleInit {
+  readonly name = 'tokenRevocationStore';
+
+  constructor(
+    @Inject(TOKEN_REVOCATION_STORE) private readonly revocationStore: TokenRevocationStore,
+    private readonly healthService: HealthService,
+  ) {}
+
+  onModuleInit(): void {
+    this.healthService.register(this);
+  }
+
+  async check(): Promise<void> {
+    await this.revocationStore.ping();
+  }
+}
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UserRole } from '../../common/types/user.types';
+import { InMemoryTokenRevocationStore } from './in-memory-token-revocation.store';
+import { FileTokenRevocationStore } from './file-token-revocation.store';
+
+describe('TokenRevocationStore', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    sub: '1',
+    email: 'test@example.com',
+    username: 'testuser',
+    role: UserRole.USER,
+    jti: 'token-id',
+    iat: now - 10,
+    exp: now + 3600,
+  };
+
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'revocations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe.each([
+    ['InMemoryTokenRevocationStore', () => new InMemoryTokenRevocationStore()],
+    ['FileTokenRevocationStore', () => new FileTokenRevocationStore(path.join(tmpDir, 'revoked.json'))],
+  ])('%s', (_name, createStore) => {
+    it('should not report unknown tokens as revoked', async () => {
+      const store = createStore();
+
+      expect(await store.isRevoked(payload)).toBe(false);
+    });
+
+    it('should report a revoked jti as revoked', async () => {
+      const store = createStore();
+
+      await store.revokeToken('token-id', payload.exp);
+
+      expect(await store.isRevoked(payload)).toBe(true);
+      expect(await store.isRevoked({ ...payload, jti: 'other-token' })).toBe(false);
+    });
+
+    it('should revoke every token issued before a user-wide revocation', async () => {
+      const store = createStore();
+
+      await store.revokeUserTokens('1', now, now + 3600);
+
+      expect(await store.isRevoked({ ...payload, jti: 'other-token' })).toBe(true);
+      expect(await store.isRevoked({ ...payload, iat: now + 0.001 })).toBe(false);
+      expect(await store.isRevoked({ ...payload, sub: '2' })).toBe(false);
+    });
+
+    it('should prune entries once their exp has passed', async () => {
+      const store = createStore();
+
+      await store.revokeToken('token-id', payload.exp);
+      await store.prune(payload.exp + 1);
+
+      expect(await store.isRevoked(payload)).toBe(false);
+    });
+  });
+
+  describe('FileTokenRevocationStore persistence', () => {
+    it('should reload revocations from disk', async () => {
+      const filePath = path.join(tmpDir, 'nested', 'revoked.json');
+      await new FileTokenRevocationStore(filePath).revokeToken('token-id', payload.exp);
+
+      const reloaded = new FileTokenRevocationStore(filePath);
+
+      expect(await reloaded.isRevoked(payload)).toBe(true);
+    });
+
+    it('should fail the ping when the revocation file cannot be written', async () => {
+      const blocker = path.join(tmpDir, 'not-a-directory');
+      fs.writeFileSync(blocker, '');
+
+      await expect(new FileTokenRevocationStore(path.join(tmpDir, 'nested', 'revoked.json')).ping()).resolves.toBeUndefined();
+      await expect(new FileTokenRevocationStore(path.join(blocker, 'revoked.json')).ping()).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { UserPayload } from '../../common/types/user.types';
+
+/**
+ * Token Revocation Store
+ * Keeps track of access tokens that must be rejected before they expire.
+ * All timestamps are JWT NumericDate values (seconds since the epoch, which
+ * may be fractional).
+ */
+export interface TokenRevocationStore {
+  /** Revokes a single token by its `jti` until it would have expired anyway */
+  revokeToken(jti: string, expiresAt: number): Promise<void>;
+
+  /** Revokes every token of a user issued at or before `issuedBefore` */
+  revokeUserTokens(userId: string, issuedBefore: number, expiresAt: number): Promise<void>;
+
+  isRevoked(payload: Pick<UserPayload, 'sub' | 'jti' | 'iat'>): Promise<boolean>;
+
+  /** Drops entries whose `exp` has passed */
+  prune(now?: number): Promise<void>;
+
+  /** Throws when revocations cannot be stored; used by the readiness probe */
+  ping(): Promise<void>;
+}
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport';
+import { Request } from 'express';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { UserPayload } from '../../common/types/user.types';
+import { API_KEY_HEADER } from '../auth.constants';
+import { I18nService } from '../../i18n/i18n.service';
+
+type VerifyApiKey = (apiKey: string, done: (error: Error | null, user?: UserPayload | false) => void) => void;
+
+/** Passport strategy that hands the X-API-Key header to a verify callback */
+class HeaderApiKeyStrategy extends Strategy {
+  constructor(private readonly verify: VerifyApiKey) {
+    super();
+  }
+
+  authenticate(req: Request): void {
+    const apiKey = req.header(API_KEY_HEADER);
+
+    if (!apiKey) {
+      return this.fail(401);
+    }
+
+    this.verify(apiKey, (error, user) => {
+      if (error) {
+        return this.error(error);
+      }
+      return user ? this.success(user) : this.fail(401);
+    });
+  }
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(HeaderApiKeyStrategy, 'api-key') {
+  constructor(
+    private apiKeysService: ApiKeysService,
+    private i18n: I18nService,
+  ) {
+    super();
+  }
+
+  async validate(apiKey: string): Promise<UserPayload> {
+    const user = await this.apiKeysService.authenticate(apiKey);
+
+    this.i18n.applyUserPreference(user.locale);
+
+    return user;
+  }
+}
@@ -1,26 +1,101 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { Request } from 'express';
 import { AuthService } from '../auth.service';
-import { UserPayload } from '../../common/types/user.types';
+import { UserPayload, UserRole } from '../../common/types/user.types';
+import { TOKEN_REVOCATION_STORE } from '../auth.constants';
+import { TokenRevocationStore } from '../stores/token-revocation.store';
+import { InvalidTokenException, TokenRevokedException } from '../auth.exceptions';
+import { I18nService } from '../../i18n/i18n.service';
+import { SigningKeyService } from '../keys/signing-key.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { OrganizationsService } from '../../users/organizations.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private authService: AuthService) {
+  constructor(
+    private authService: AuthService,
+    @Inject(TOKEN_REVOCATION_STORE) private revocationStore: TokenRevocationStore,
+    private i18n: I18nService,
+    private sessionsService: SessionsService,
+    private organizationsService: OrganizationsService,
+    signingKeyService: SigningKeyService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      passReqToCallback: true,
       ignoreExpiration: false,
-      secretOrKey: process.env.JWT_SECRET || 'your-secret-key',
+      algorithms: signingKeyService.algorithms,
+      // The key is picked by the token's kid, so rotated-out keys keep verifying
+      secretOrKeyProvider: (_request: unknown, rawJwtToken: string, done: (error: Error | null, key?: unknown) => void) => {
+        signingKeyService.findVerificationKey(keyIdOf(rawJwtToken)).then(
+          key => (key ? done(null, key) : done(new Error('Unknown signing key'))),
+          error => done(error),
+        );
+      },
     });
   }
 
-  async validate(payload: UserPayload): Promise<UserPayload> {
+  async validate(request: Request, payload: UserPayload): Promise<UserPayload> {
+    if (await this.revocationStore.isRevoked(payload)) {
+      throw new TokenRevokedException();
+    }
+
+    // Revoking a session revokes its access tokens as well
+    if (payload.sid && !(await this.sessionsService.touch(payload.sid, request.ip))) {
+      throw new TokenRevokedException();
+    }
+
+    // The organization the request names, or else the one the token was issued in
+    const organization = await this.organizationsService.enter(payload.sub, payload.org);
+
     const user = await this.authService.validateUserById(payload.sub);
     
     if (!user) {
-      throw new UnauthorizedException('Invalid token');
+      throw new InvalidTokenException();
     }
 
-    return user;
+    if (payload.act) {
+      await this.validateActor(payload);
+    }
+
+    // From here on, messages use the language the user picked, unless ?lang= overrides it
+    this.i18n.applyUserPreference(user.locale);
+
+    return {
+      ...user,
+      jti: payload.jti,
+      sid: payload.sid,
+      iat: payload.iat,
+      exp: payload.exp,
+      ...(payload.org && { org: payload.org }),
+      ...(organization && { organization }),
+      ...(payload.act && { act: payload.act }),
+    };
+  }
+
+  /**
+   * An impersonation ends as soon as the admin behind it loses the role,
+   * is deactivated or logs out of all sessions
+   */
+  private async validateActor(payload: UserPayload): Promise<void> {
+    if (await this.revocationStore.isRevoked({ ...payload, sub: payload.act.sub })) {
+      throw new TokenRevokedException();
+    }
+
+    const actor = await this.authService.validateUserById(payload.act.sub);
+
+    if (actor?.role !== UserRole.ADMIN) {
+      throw new InvalidTokenException();
+    }
+  }
+}
+
+function keyIdOf(token: string): string | undefined {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString()).kid;
+  } catch {
+    return undefined;
   }
 }
@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Locale } from '../types/i18n.types';
+
+export interface RequestContextStore {
+  requestId: string;
+  locale?: Locale;
+  // Set when the client picked the locale with ?lang=, which beats the user's preference
+  localeFromQuery?: boolean;
+  // The organization the request acts in; UsersService only sees its members
+  organizationId?: string;
+}
+
+/**
+ * Request Context
+ * Carries per-request values through AsyncLocalStorage, so code deep in a
+ * call chain (loggers, filters, services) can read them without having the
+ * request at hand
+ */
+export class RequestContext {
+  private static readonly storage = new AsyncLocalStorage<RequestContextStore>();
+
+  static run<T>(store: RequestContextStore, callback: () => T): T {
+    return this.storage.run(store, callback);
+  }
+
+  static current(): RequestContextStore | undefined {
+    return this.storage.getStore();
+  }
+
+  /** The ID of the request being handled, if any */
+  static requestId(): string | undefined {
+    return this.storage.getStore()?.requestId;
+  }
+
+  /** The organization the request acts in, if any */
+  static organizationId(): string | undefined {
+    return this.storage.getStore()?.organizationId;
+  }
+}
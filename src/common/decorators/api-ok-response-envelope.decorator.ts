@@ -0,0 +1,41 @@
+import { applyDecorators, HttpStatus, Type } from '@nestjs/common';
+import { ApiExtraModels, ApiResponse, getSchemaPath } from '@nestjs/swagger';
+import { ApiResponseDto, PaginationMetaDto } from '../dto/api-response.dto';
+
+export interface ApiOkResponseEnvelopeOptions {
+  status?: number;
+  description?: string;
+  // `data` is a list of the model
+  isArray?: boolean;
+  // `data` is a list of the model and `meta` holds the pagination
+  paginated?: boolean;
+}
+
+/**
+ * Custom decorator to document a response wrapped by TransformInterceptor
+ * This decorator generates the ApiResponse schema with `data` typed as the
+ * given model. Without a model, the response has no `data`.
+ */
+export const ApiOkResponseEnvelope = (model?: Type<unknown>, options: ApiOkResponseEnvelopeOptions = {}) => {
+  const properties: Record<string, unknown> = {};
+
+  if (model) {
+    properties.data = options.isArray || options.paginated
+      ? { type: 'array', items: { $ref: getSchemaPath(model) } }
+      : { $ref: getSchemaPath(model) };
+  }
+  if (options.paginated) {
+    properties.meta = { $ref: getSchemaPath(PaginationMetaDto) };
+  }
+
+  return applyDecorators(
+    ApiExtraModels(ApiResponseDto, PaginationMetaDto, ...(model ? [model] : [])),
+    ApiResponse({
+      status: options.status ?? HttpStatus.OK,
+      description: options.description,
+      schema: {
+        allOf: [{ $ref: getSchemaPath(ApiResponseDto) }, { properties }],
+      },
+    }),
+  );
+};
@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuditContext } from '../types/audit.types';
+import { auditContextFromRequest } from '../../audit/audit-context';
+
+/**
+ * Custom decorator to extract the audit context of a request
+ * This decorator collects the acting user, IP, user agent and X-Request-Id
+ * for services that record audit entries
+ */
+export const RequestAuditContext = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): AuditContext => auditContextFromRequest(ctx.switchToHttp().getRequest()),
+);
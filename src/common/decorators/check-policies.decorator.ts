@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+import { Request } from 'express';
+import { Ability } from '../policies/ability';
+
+export type PolicyHandler = (ability: Ability, resource: any, request: Request) => boolean;
+
+export const CHECK_POLICIES_KEY = 'check_policies';
+
+/**
+ * Custom decorator to attach policy checks to a route
+ * The PoliciesGuard runs every handler with the user's ability and the loaded resource
+ */
+export const CheckPolicies = (...handlers: PolicyHandler[]) => SetMetadata(CHECK_POLICIES_KEY, handlers);
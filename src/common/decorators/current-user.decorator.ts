@@ -3,7 +3,10 @@ import { UserPayload } from '../types/user.types';
 
 /**
  * Custom decorator to extract the current user from the request
- * This decorator extracts the user payload that was attached by the JWT strategy
+ * This decorator extracts the user payload that was attached by the JWT strategy.
+ * While an admin impersonates the user, `act` names the admin. Within an
+ * organization, `organization` names it, and role and permissions are the
+ * ones the user holds there.
  */
 export const CurrentUser = createParamDecorator(
   (data: keyof UserPayload | undefined, ctx: ExecutionContext): UserPayload | any => {
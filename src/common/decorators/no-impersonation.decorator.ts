@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_NO_IMPERSONATION_KEY = 'isNoImpersonation';
+
+/**
+ * Custom decorator to mark sensitive routes, e.g. deleting users or changing
+ * the password, that an admin impersonating a user may not call
+ * This decorator sets metadata that can be read by the JwtAuthGuard
+ */
+export const NoImpersonation = () => SetMetadata(IS_NO_IMPERSONATION_KEY, true);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_NO_ORGANIZATION_KEY = 'isNoOrganization';
+
+/**
+ * Custom decorator to mark routes that change what all organizations share,
+ * e.g. custom roles or the audit log, so they are refused within one
+ * This decorator sets metadata that can be read by the JwtAuthGuard
+ */
+export const NoOrganization = () => SetMetadata(IS_NO_ORGANIZATION_KEY, true);
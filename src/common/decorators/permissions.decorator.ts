@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../types/role.types';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Custom decorator to specify the permissions a route requires
+ * The PermissionsGuard lets the request through only if all of them are granted
+ */
+export const RequirePermissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
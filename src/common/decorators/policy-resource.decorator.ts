@@ -0,0 +1,10 @@
+import { SetMetadata, Type } from '@nestjs/common';
+import { ResourceLoader } from '../policies/resource-loader';
+
+export const POLICY_RESOURCE_KEY = 'policy_resource';
+
+/**
+ * Custom decorator to name the loader for the resource a route acts on
+ * The PoliciesGuard passes the loaded resource to the @CheckPolicies handlers
+ */
+export const PolicyResource = (loader: Type<ResourceLoader>) => SetMetadata(POLICY_RESOURCE_KEY, loader);
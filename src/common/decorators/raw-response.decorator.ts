@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RAW_RESPONSE_KEY = 'rawResponse';
+
+/**
+ * Custom decorator to opt out of the ApiResponse envelope
+ * This decorator is for plain-text, file and streaming responses
+ */
+export const RawResponse = () => SetMetadata(RAW_RESPONSE_KEY, true);
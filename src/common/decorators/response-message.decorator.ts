@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RESPONSE_MESSAGE_KEY = 'responseMessage';
+
+/** A catalogue key such as `responses.users.created`, or one derived from what the handler returned */
+export type ResponseMessageOption = string | ((data: any) => string);
+
+/**
+ * Custom decorator to set the message of the ApiResponse envelope
+ * This decorator is read by TransformInterceptor, which translates the key
+ * into the locale of the request when it wraps the result
+ */
+export const ResponseMessage = (message: ResponseMessageOption) => SetMetadata(RESPONSE_MESSAGE_KEY, message);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../types/role.types';
+
+export const SCOPES_KEY = 'scopes';
+
+/**
+ * Custom decorator to specify the scopes an API key needs for a route
+ * The ScopesGuard checks them for API keys only; JWT sessions are not scoped
+ */
+export const RequireScopes = (...scopes: Permission[]) => SetMetadata(SCOPES_KEY, scopes);
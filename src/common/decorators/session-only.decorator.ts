@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_SESSION_ONLY_KEY = 'isSessionOnly';
+
+/**
+ * Custom decorator to mark routes that API keys may not call, e.g. changing
+ * the password or signing out. The JwtAuthGuard only accepts a JWT for them.
+ */
+export const SessionOnly = () => SetMetadata(IS_SESSION_ONLY_KEY, true);
@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174001', description: 'Owner of the key' })
+  userId: string;
+
+  @ApiProperty({ example: 'CI user sync' })
+  name: string;
+
+  @ApiProperty({ example: ['users:read'] })
+  scopes: string[];
+
+  @ApiProperty({ type: String, nullable: true, example: null, description: 'The organization the key was created in and is confined to' })
+  organizationId: string | null;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-04-01T00:00:00.000Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: '2024-01-02T00:00:00.000Z', nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ example: null, required: false })
+  revokedAt?: Date;
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    example: 'ak_123e4567-e89b-12d3-a456-426614174000.Q2hhbmdlIG1lIHBsZWFzZQ',
+    description: 'Send as the X-API-Key header. Shown only once',
+  })
+  key: string;
+}
@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Swagger models of the ApiResponse envelope. ApiOkResponseEnvelope combines
+ * them with the model of `data`.
+ */
+export class PaginationMetaDto {
+  @ApiProperty({ example: 42 })
+  total: number;
+
+  @ApiProperty({ example: 20 })
+  limit: number;
+
+  @ApiProperty({ example: 1, required: false, description: 'Only with page pagination' })
+  page?: number;
+
+  @ApiProperty({ example: 3, required: false, description: 'Only with page pagination' })
+  totalPages?: number;
+
+  @ApiProperty({ type: String, nullable: true, example: null, description: 'Cursor of the next page, if there is one' })
+  nextCursor: string | null;
+}
+
+export class ApiResponseDto {
+  @ApiProperty({ example: true })
+  success: boolean;
+
+  @ApiProperty({ example: 'Request completed successfully' })
+  message: string;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  timestamp: string;
+
+  @ApiProperty({ example: '/users?page=1' })
+  path: string;
+
+  @ApiProperty({ example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a' })
+  requestId: string;
+}
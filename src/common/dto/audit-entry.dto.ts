@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AUDIT_ACTIONS, AuditAction, AuditActor, AuditChanges, AuditOutcome, AuditTarget } from '../types/audit.types';
+
+export class AuditEntryDto {
+  @ApiProperty({ example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a' })
+  id: string;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  timestamp: Date;
+
+  @ApiProperty({ enum: AUDIT_ACTIONS, example: 'user.role_changed' })
+  action: AuditAction;
+
+  @ApiProperty({ enum: ['success', 'failure'], example: 'success' })
+  outcome: AuditOutcome;
+
+  @ApiProperty({ nullable: true, example: { id: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a', email: 'admin@example.com', role: 'admin' } })
+  actor: AuditActor | null;
+
+  @ApiProperty({ nullable: true, example: { type: 'User', id: '8a1d7c2b-0e4f-4b9a-8c3d-2e5f6a7b8c9d' } })
+  target: AuditTarget | null;
+
+  @ApiProperty({ nullable: true, example: { role: { before: 'user', after: 'moderator' } } })
+  changes: AuditChanges | null;
+
+  @ApiProperty({ type: String, nullable: true, example: null })
+  reason: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: '203.0.113.7' })
+  ip: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a' })
+  requestId: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: 'Mozilla/5.0' })
+  userAgent: string | null;
+}
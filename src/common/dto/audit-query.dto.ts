@@ -0,0 +1,121 @@
+import { IsOptional, IsInt, IsDate, IsIn, IsString, IsUUID, Min, Max, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { AUDIT_ACTIONS, AuditAction, AuditOutcome } from '../types/audit.types';
+
+export class AuditFilterDto {
+  @ApiProperty({
+    description: 'Filter by event type',
+    enum: AUDIT_ACTIONS,
+    example: 'auth.login.failed',
+    required: false
+  })
+  @IsOptional()
+  @IsIn(AUDIT_ACTIONS)
+  action?: AuditAction;
+
+  @ApiProperty({
+    description: 'Filter by outcome',
+    enum: ['success', 'failure'],
+    required: false
+  })
+  @IsOptional()
+  @IsIn(['success', 'failure'])
+  outcome?: AuditOutcome;
+
+  @ApiProperty({
+    description: 'Only events performed by this user',
+    required: false
+  })
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  @ApiProperty({
+    description: 'Filter by target type, e.g. User, Role or Route',
+    example: 'User',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  targetType?: string;
+
+  @ApiProperty({
+    description: 'Only events on this target',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  targetId?: string;
+
+  @ApiProperty({
+    description: 'Only events recorded while handling this X-Request-Id',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  requestId?: string;
+
+  @ApiProperty({
+    description: 'Only events at or after this date',
+    example: '2024-01-01T00:00:00.000Z',
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiProperty({
+    description: 'Only events at or before this date',
+    example: '2024-12-31T23:59:59.999Z',
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+}
+
+export class ListAuditQueryDto extends AuditFilterDto {
+  @ApiProperty({
+    description: 'Page number',
+    example: 1,
+    minimum: 1,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 50,
+    minimum: 1,
+    maximum: 200,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class ExportAuditQueryDto extends AuditFilterDto {
+  @ApiProperty({
+    description: 'Export format',
+    enum: ['ndjson', 'csv'],
+    example: 'csv',
+    required: false
+  })
+  @IsOptional()
+  @IsIn(['ndjson', 'csv'])
+  format?: 'ndjson' | 'csv';
+}
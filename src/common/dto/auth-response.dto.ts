@@ -0,0 +1,77 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AuthUserDto {
+  @ApiProperty({ example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a' })
+  id: string;
+
+  @ApiProperty({ example: 'admin@example.com' })
+  email: string;
+
+  @ApiProperty({ example: 'admin' })
+  username: string;
+
+  @ApiProperty({ example: 'admin' })
+  role: string;
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+}
+
+export class AuthTokensDto {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  access_token: string;
+
+  @ApiProperty({ example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a.kQ2p9y...' })
+  refresh_token: string;
+
+  @ApiProperty({ type: AuthUserDto })
+  user: AuthUserDto;
+}
+
+export class MfaSecretDto {
+  @ApiProperty({ example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP' })
+  secret: string;
+
+  @ApiProperty({ example: 'otpauth://totp/NestJS%20Advanced%20Features%3Aadmin%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=NestJS+Advanced+Features&algorithm=SHA1&digits=6&period=30' })
+  otpauthUri: string;
+}
+
+export class RecoveryCodesDto {
+  @ApiProperty({ example: ['k3j9d-x8q2m', 'p0w7e-r5t1y'], description: 'Shown only once' })
+  recovery_codes: string[];
+}
+
+export class MfaEnrollmentResultDto extends AuthTokensDto {
+  @ApiProperty({ example: ['k3j9d-x8q2m', 'p0w7e-r5t1y'], description: 'Shown only once' })
+  recovery_codes: string[];
+}
+
+export class OidcAuthorizationUrlDto {
+  @ApiProperty({ example: 'https://accounts.example.com/authorize?response_type=code&client_id=my-app&state=...' })
+  authorizationUrl: string;
+}
+
+export class ImpersonatorDto {
+  @ApiProperty({ example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a' })
+  sub: string;
+
+  @ApiProperty({ example: 'admin@example.com' })
+  email: string;
+
+  @ApiProperty({ example: 'admin' })
+  role: string;
+}
+
+export class ImpersonationTokenDto {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  access_token: string;
+
+  @ApiProperty({ example: 900, description: 'Seconds until the token expires; it cannot be refreshed' })
+  expires_in: number;
+
+  @ApiProperty({ type: AuthUserDto, description: 'The impersonated user' })
+  user: AuthUserDto;
+
+  @ApiProperty({ type: ImpersonatorDto, description: 'The admin, also found in the token\'s act claim' })
+  act: ImpersonatorDto;
+}
@@ -0,0 +1,45 @@
+import { IsString, IsOptional, IsArray, ArrayUnique, IsIn, IsInt, IsUUID, Min, Max, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission, PERMISSIONS } from '../types/role.types';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'What the key is used for',
+    example: 'CI user sync'
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Permissions the key may use. The owner\'s role must grant each of them. Without scopes, the key can only reach the owner\'s own profile',
+    example: ['users:read'],
+    enum: PERMISSIONS,
+    isArray: true
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(PERMISSIONS, { each: true })
+  scopes: Permission[];
+
+  @ApiProperty({
+    description: 'Days until the key expires. Defaults to API_KEY_TTL_DAYS',
+    example: 30,
+    required: false
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  expiresInDays?: number;
+
+  @ApiProperty({
+    description: 'Owner of the key, e.g. a service account. Defaults to the caller; other users need the api-keys:manage permission',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false
+  })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+}
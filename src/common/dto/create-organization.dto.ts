@@ -0,0 +1,23 @@
+import { IsString, Matches, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateOrganizationDto {
+  @ApiProperty({
+    description: 'Display name',
+    example: 'Acme Corp.'
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Used in the X-Tenant header and as the subdomain: lowercase letters, digits and dashes',
+    example: 'acme'
+  })
+  @IsString()
+  @Matches(/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/, {
+    message: 'slug must be 1-63 lowercase letters, digits or dashes, not starting or ending with a dash',
+  })
+  slug: string;
+}
@@ -0,0 +1,34 @@
+import { IsString, IsOptional, IsArray, ArrayUnique, Matches, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PERMISSIONS } from '../types/role.types';
+
+export class CreateRoleDto {
+  @ApiProperty({
+    description: 'Role name: lowercase letters, digits and dashes',
+    example: 'support'
+  })
+  @IsString()
+  @Matches(/^[a-z][a-z0-9-]{1,31}$/, { message: 'name must be 2-32 lowercase letters, digits or dashes, starting with a letter' })
+  name: string;
+
+  @ApiProperty({
+    description: 'What the role is for',
+    example: 'Helps users who are locked out',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Granted permissions. `resource:*` grants all permissions on a resource',
+    example: ['users:read', 'users:unlock'],
+    enum: PERMISSIONS,
+    isArray: true
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  permissions: string[];
+}
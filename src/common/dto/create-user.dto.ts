@@ -1,6 +1,7 @@
-import { IsEmail, IsString, IsOptional, IsEnum, MinLength, MaxLength } from 'class-validator';
+import { IsEmail, IsString, IsOptional, IsEnum, IsIn, MinLength, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { UserRole } from '../types/user.types';
+import { Locale, SUPPORTED_LOCALES } from '../types/i18n.types';
 
 export class CreateUserDto {
   @ApiProperty({
@@ -32,12 +33,23 @@ export class CreateUserDto {
   password: string;
 
   @ApiProperty({
-    description: 'User role',
+    description: 'Ignored; self-registered accounts always get the user role',
     enum: UserRole,
     example: UserRole.USER,
-    required: false
+    required: false,
+    deprecated: true
   })
   @IsOptional()
   @IsEnum(UserRole)
   role?: UserRole;
+
+  @ApiProperty({
+    description: 'Preferred language for messages; defaults to the Accept-Language header',
+    enum: SUPPORTED_LOCALES,
+    example: 'de',
+    required: false
+  })
+  @IsOptional()
+  @IsIn(SUPPORTED_LOCALES)
+  locale?: Locale;
 }
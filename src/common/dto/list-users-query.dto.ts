@@ -0,0 +1,100 @@
+import { IsOptional, IsInt, IsBoolean, IsDate, IsString, Matches, Min, Max, MaxLength } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole, USER_SORT_FIELDS } from '../types/user.types';
+
+const SORT_PATTERN = new RegExp(`^(${USER_SORT_FIELDS.join('|')}):(asc|desc)$`);
+
+export class ListUsersQueryDto {
+  @ApiProperty({
+    description: 'Page number (ignored when a cursor is given)',
+    example: 1,
+    minimum: 1,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 20,
+    minimum: 1,
+    maximum: 100,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiProperty({
+    description: 'Opaque cursor returned as meta.nextCursor by the previous page; only valid with the same sort',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({
+    description: 'Filter by role, built-in or custom',
+    example: UserRole.MODERATOR,
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  role?: string;
+
+  @ApiProperty({
+    description: 'Filter by account status (defaults to active users only)',
+    example: true,
+    required: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiProperty({
+    description: 'Only users created at or after this date',
+    example: '2024-01-01T00:00:00.000Z',
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date;
+
+  @ApiProperty({
+    description: 'Only users created at or before this date',
+    example: '2024-12-31T23:59:59.999Z',
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdTo?: Date;
+
+  @ApiProperty({
+    description: 'Case-insensitive search over email and username',
+    example: 'admin',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  q?: string;
+
+  @ApiProperty({
+    description: `Sort order as field:direction, field one of ${USER_SORT_FIELDS.join(', ')}`,
+    example: 'createdAt:desc',
+    required: false
+  })
+  @IsOptional()
+  @Matches(SORT_PATTERN, { message: `sort must be one of ${USER_SORT_FIELDS.join(', ')} followed by :asc or :desc` })
+  sort?: string;
+}
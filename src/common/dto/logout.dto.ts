@@ -0,0 +1,14 @@
+import { IsString, IsOptional, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LogoutDto {
+  @ApiProperty({
+    description: 'Refresh token of the session to revoke together with the access token',
+    example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a.kQ2p9y...',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  refresh_token?: string;
+}
@@ -0,0 +1,33 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MfaCodeDto {
+  @ApiProperty({
+    description: 'Six-digit code from the authenticator app, or a recovery code',
+    example: '123456'
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
+
+export class MfaTokenDto {
+  @ApiProperty({
+    description: 'Short-lived mfa_token returned by /auth/login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...'
+  })
+  @IsString()
+  @IsNotEmpty()
+  mfa_token: string;
+}
+
+export class MfaVerifyDto extends MfaCodeDto {
+  @ApiProperty({
+    description: 'Short-lived mfa_token returned by /auth/login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...'
+  })
+  @IsString()
+  @IsNotEmpty()
+  mfa_token: string;
+}
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class OrganizationResponseDto {
+  @ApiProperty({ example: '0d6c1a4e-7a2b-4f8e-9c1d-3b5a7e9f1c2d' })
+  id: string;
+
+  @ApiProperty({ example: 'acme' })
+  slug: string;
+
+  @ApiProperty({ example: 'Acme Corp.' })
+  name: string;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  updatedAt: Date;
+}
+
+export class MembershipResponseDto {
+  @ApiProperty({ example: '0d6c1a4e-7a2b-4f8e-9c1d-3b5a7e9f1c2d' })
+  organizationId: string;
+
+  @ApiProperty({ example: '8a1d7c2b-0e4f-4b9a-8c3d-2e5f6a7b8c9d' })
+  userId: string;
+
+  @ApiProperty({ example: 'admin', description: 'Replaces the user\'s own role within the organization' })
+  role: string;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  updatedAt: Date;
+}
+
+export class UserOrganizationResponseDto {
+  @ApiProperty({ example: '0d6c1a4e-7a2b-4f8e-9c1d-3b5a7e9f1c2d' })
+  id: string;
+
+  @ApiProperty({ example: 'acme' })
+  slug: string;
+
+  @ApiProperty({ example: 'Acme Corp.' })
+  name: string;
+
+  @ApiProperty({ example: 'admin', description: 'The user\'s role in the organization' })
+  role: string;
+}
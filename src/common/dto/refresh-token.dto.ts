@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token issued by /auth/login or a previous /auth/refresh',
+    example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a.kQ2p9y...'
+  })
+  @IsString()
+  @IsNotEmpty()
+  refresh_token: string;
+}
@@ -0,0 +1,12 @@
+import { IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResendVerificationDto {
+  @ApiProperty({
+    description: 'Email address the account was registered with',
+    example: 'newuser@example.com',
+    format: 'email'
+  })
+  @IsEmail()
+  email: string;
+}
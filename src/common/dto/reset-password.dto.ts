@@ -0,0 +1,21 @@
+import { IsString, IsNotEmpty, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Reset token from the password reset email',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...'
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description: 'New password',
+    example: 'newpassword123',
+    minLength: 6
+  })
+  @IsString()
+  @MinLength(6)
+  password: string;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RoleResponseDto {
+  @ApiProperty({ example: 'support' })
+  name: string;
+
+  @ApiProperty({ example: 'Helps users who are locked out', required: false })
+  description?: string;
+
+  @ApiProperty({ example: ['users:read', 'users:unlock'] })
+  permissions: string[];
+
+  @ApiProperty({ example: false, description: 'Defined by the permissions policy' })
+  builtIn: boolean;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z', required: false })
+  createdAt?: Date;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z', required: false })
+  updatedAt?: Date;
+}
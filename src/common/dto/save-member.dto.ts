@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SaveMemberDto {
+  @ApiProperty({
+    description: 'The role the user holds in the organization: a built-in or custom role',
+    example: 'admin'
+  })
+  @IsString()
+  @IsNotEmpty()
+  role: string;
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DeviceType } from '../types/session.types';
+
+export class SessionResponseDto {
+  @ApiProperty({ example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a', description: 'The sid claim of the session\'s tokens' })
+  id: string;
+
+  @ApiProperty({ example: '8a1d7c2b-0e4f-4b9a-8c3d-2e5f6a7b8c9d' })
+  userId: string;
+
+  @ApiProperty({ enum: ['desktop', 'mobile', 'tablet', 'bot', 'unknown'], example: 'desktop' })
+  device: DeviceType;
+
+  @ApiProperty({ type: String, nullable: true, example: 'Firefox 128' })
+  browser: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: 'Linux' })
+  os: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0' })
+  userAgent: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: '203.0.113.7' })
+  ip: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: null, description: 'The organization logged in to' })
+  organizationId: string | null;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-02T00:00:00.000Z' })
+  lastSeenAt: Date;
+
+  @ApiProperty({ example: true, description: 'The session this request was made with' })
+  current: boolean;
+}
@@ -0,0 +1,28 @@
+import { IsString, IsOptional, IsArray, ArrayUnique, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PERMISSIONS } from '../types/role.types';
+
+export class UpdateRoleDto {
+  @ApiProperty({
+    description: 'What the role is for',
+    example: 'Helps users who are locked out',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Replaces the granted permissions',
+    example: ['users:read'],
+    enum: PERMISSIONS,
+    isArray: true,
+    required: false
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  permissions?: string[];
+}
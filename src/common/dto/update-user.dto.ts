@@ -1,6 +1,7 @@
-import { IsEmail, IsString, IsOptional, IsEnum, IsBoolean, MinLength, MaxLength } from 'class-validator';
+import { IsEmail, IsString, IsOptional, IsBoolean, IsIn, MinLength, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { UserRole } from '../types/user.types';
+import { Locale, SUPPORTED_LOCALES } from '../types/i18n.types';
 
 export class UpdateUserDto {
   @ApiProperty({
@@ -27,14 +28,13 @@ export class UpdateUserDto {
   username?: string;
 
   @ApiProperty({
-    description: 'User role',
-    enum: UserRole,
+    description: 'User role: a built-in role or the name of a custom role',
     example: UserRole.MODERATOR,
     required: false
   })
   @IsOptional()
-  @IsEnum(UserRole)
-  role?: UserRole;
+  @IsString()
+  role?: string;
 
   @ApiProperty({
     description: 'Whether the user account is active',
@@ -44,4 +44,14 @@ export class UpdateUserDto {
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
+
+  @ApiProperty({
+    description: 'Preferred language for messages',
+    enum: SUPPORTED_LOCALES,
+    example: 'es',
+    required: false
+  })
+  @IsOptional()
+  @IsIn(SUPPORTED_LOCALES)
+  locale?: Locale;
 }
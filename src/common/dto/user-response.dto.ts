@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole, UserStatus } from '../types/user.types';
+import { SUPPORTED_LOCALES } from '../types/i18n.types';
+
+export class UserResponseDto {
+  @ApiProperty({ example: '3f0c9a9e-5d1b-4c8e-9a57-1f6f0b1d2c3a' })
+  id: string;
+
+  @ApiProperty({ example: 'user@example.com' })
+  email: string;
+
+  @ApiProperty({ example: 'johndoe' })
+  username: string;
+
+  @ApiProperty({ example: UserRole.USER, description: 'A built-in or custom role' })
+  role: string;
+
+  @ApiProperty({ enum: UserStatus, example: UserStatus.ACTIVE })
+  status: UserStatus;
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiProperty({ example: false })
+  mfaEnabled: boolean;
+
+  @ApiProperty({ type: String, nullable: true, enum: SUPPORTED_LOCALES, example: 'de' })
+  locale: string | null;
+
+  @ApiProperty({ example: 0 })
+  failedLoginAttempts: number;
+
+  @ApiProperty({ example: 0 })
+  lockoutCount: number;
+
+  @ApiProperty({ type: Date, nullable: true, example: null })
+  lockedUntil: Date | null;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  updatedAt: Date;
+}
@@ -0,0 +1,101 @@
+import { HttpStatus } from '@nestjs/common';
+import { DomainException } from './domain.exception';
+import { ErrorCode } from '../types/error.types';
+
+/** A guard ran on a route without an authenticated user */
+export class NotAuthenticatedException extends DomainException {
+  constructor() {
+    super(ErrorCode.ACCESS_DENIED_UNAUTHENTICATED, 'User not authenticated', HttpStatus.FORBIDDEN);
+  }
+}
+
+export class MissingRoleException extends DomainException {
+  constructor(roles: string[], role: string) {
+    super(
+      ErrorCode.ACCESS_DENIED_MISSING_ROLE,
+      `Access denied. Required roles: ${roles.join(', ')}. Your role: ${role}`,
+      HttpStatus.FORBIDDEN,
+      { roles, role },
+    );
+  }
+}
+
+export class MissingPermissionsException extends DomainException {
+  constructor(permissions: string[]) {
+    super(
+      ErrorCode.ACCESS_DENIED_MISSING_PERMISSIONS,
+      `Access denied. Missing permissions: ${permissions.join(', ')}`,
+      HttpStatus.FORBIDDEN,
+      { permissions },
+    );
+  }
+}
+
+/** An API key lacks scopes the route requires */
+export class MissingScopesException extends DomainException {
+  constructor(scopes: string[]) {
+    super(
+      ErrorCode.ACCESS_DENIED_MISSING_SCOPES,
+      `Access denied. The API key is missing the scopes: ${scopes.join(', ')}`,
+      HttpStatus.FORBIDDEN,
+      { scopes },
+    );
+  }
+}
+
+/** Account and session changes need the user, not a key acting for them */
+export class SessionRequiredException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.ACCESS_DENIED_SESSION_REQUIRED,
+      'This action requires a signed-in session; API keys cannot perform it',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
+
+/** Impersonated sessions may look around, but not change what only the user should */
+export class ImpersonatedSessionException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.ACCESS_DENIED_IMPERSONATED,
+      'This action is not allowed while impersonating a user',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
+
+/** The request names an organization the user does not belong to */
+export class OrganizationAccessDeniedException extends DomainException {
+  constructor() {
+    super(ErrorCode.ACCESS_DENIED_ORGANIZATION, 'You are not a member of this organization', HttpStatus.FORBIDDEN);
+  }
+}
+
+/** A token stays in the organization it was issued in */
+export class OrganizationMismatchException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.ACCESS_DENIED_ORGANIZATION_MISMATCH,
+      'The token was issued for another organization',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
+
+/** Settings shared by all organizations cannot be changed from within one */
+export class OrganizationScopedException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.ACCESS_DENIED_ORGANIZATION_SCOPED,
+      'This action is not available within an organization',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
+
+export class AccessDeniedException extends DomainException {
+  constructor() {
+    super(ErrorCode.ACCESS_DENIED, 'You are not allowed to perform this action', HttpStatus.FORBIDDEN);
+  }
+}
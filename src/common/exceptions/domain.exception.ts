@@ -0,0 +1,45 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { STATUS_CODES } from 'http';
+import { ErrorCode } from '../types/error.types';
+import { TranslationParams } from '../types/i18n.types';
+
+/**
+ * Domain Exception
+ * Base class for errors raised by the services. Each one carries a stable
+ * ErrorCode that clients can branch on, next to the English message. The
+ * exception filters translate the message from the `errors.<code>` entry
+ * of the catalogues, filling its placeholders from `params`.
+ */
+export class DomainException extends HttpException {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    status: number,
+    readonly params: TranslationParams = {},
+  ) {
+    super(
+      { statusCode: status, message, error: STATUS_CODES[status], code, ...params },
+      status,
+    );
+  }
+}
+
+/** Code for exceptions that do not carry one, such as those thrown by guards and pipes */
+export function errorCodeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case HttpStatus.BAD_REQUEST:
+      return ErrorCode.BAD_REQUEST;
+    case HttpStatus.UNAUTHORIZED:
+      return ErrorCode.UNAUTHENTICATED;
+    case HttpStatus.FORBIDDEN:
+      return ErrorCode.ACCESS_DENIED;
+    case HttpStatus.NOT_FOUND:
+      return ErrorCode.NOT_FOUND;
+    case HttpStatus.CONFLICT:
+      return ErrorCode.CONFLICT;
+    case HttpStatus.TOO_MANY_REQUESTS:
+      return ErrorCode.RATE_LIMITED;
+    default:
+      return status < 500 ? ErrorCode.BAD_REQUEST : ErrorCode.INTERNAL_ERROR;
+  }
+}
@@ -0,0 +1,78 @@
+import { plainToInstance, Type } from 'class-transformer';
+import { IsEmail, IsString, MinLength, ValidateNested, validateSync } from 'class-validator';
+import { toConstraintViolations, validationExceptionFactory } from './validation-failed.exception';
+import { ErrorCode } from '../types/error.types';
+
+class AddressDto {
+  @IsString()
+  street: string;
+}
+
+class ContactDto {
+  @IsEmail()
+  email: string;
+
+  @MinLength(6)
+  password: string;
+
+  @ValidateNested()
+  @Type(() => AddressDto)
+  address: AddressDto;
+
+  @ValidateNested({ each: true })
+  @Type(() => AddressDto)
+  previousAddresses: AddressDto[];
+}
+
+describe('validationExceptionFactory', () => {
+  const validate = (plain: object) => validateSync(plainToInstance(ContactDto, plain));
+
+  const valid = {
+    email: 'user@example.com',
+    password: 'password123',
+    address: { street: 'Main Street' },
+    previousAddresses: [],
+  };
+
+  it('should return one entry per failed constraint with the rejected value', () => {
+    const errors = toConstraintViolations(validate({ ...valid, email: 'not-an-email' }));
+
+    expect(errors).toEqual([{
+      field: 'email',
+      constraint: 'isEmail',
+      message: 'email must be an email',
+      value: 'not-an-email',
+      args: [undefined],
+    }]);
+  });
+
+  it('should build paths for nested objects and arrays', () => {
+    const errors = toConstraintViolations(validate({
+      ...valid,
+      address: { street: 42 },
+      previousAddresses: [{ street: 'Old Street' }, { street: null }],
+    }));
+
+    expect(errors.map(error => error.field)).toEqual(['address.street', 'previousAddresses[1].street']);
+    expect(errors[0]).toEqual(expect.objectContaining({ constraint: 'isString', value: 42 }));
+  });
+
+  it('should never echo sensitive values', () => {
+    const errors = toConstraintViolations(validate({ ...valid, password: '123' }));
+
+    expect(errors).toEqual([{
+      field: 'password',
+      constraint: 'minLength',
+      message: 'password must be longer than or equal to 6 characters',
+      args: [6],
+    }]);
+  });
+
+  it('should wrap the entries in a ValidationFailedException', () => {
+    const exception = validationExceptionFactory(validate({ ...valid, email: 'nope' }));
+
+    expect(exception.getStatus()).toBe(400);
+    expect(exception.code).toBe(ErrorCode.VALIDATION_FAILED);
+    expect(exception.violations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { HttpStatus } from '@nestjs/common';
+import { getMetadataStorage, ValidationError } from 'class-validator';
+import { DomainException } from './domain.exception';
+import { ErrorCode, FieldError } from '../types/error.types';
+import { isSensitiveKey, redact } from '../../logger/redact';
+
+/** A FieldError with the arguments of its constraint, e.g. [6] for @MinLength(6) */
+export interface ConstraintViolation extends FieldError {
+  args: unknown[];
+}
+
+/**
+ * Validation Failed Exception
+ * Thrown by the ValidationPipe with one entry per failed constraint. The
+ * arguments stay on the exception so the filters can localize the messages.
+ */
+export class ValidationFailedException extends DomainException {
+  constructor(readonly violations: ConstraintViolation[]) {
+    super(ErrorCode.VALIDATION_FAILED, 'Validation failed', HttpStatus.BAD_REQUEST);
+  }
+}
+
+/** exceptionFactory for the global ValidationPipe */
+export function validationExceptionFactory(errors: ValidationError[]): ValidationFailedException {
+  return new ValidationFailedException(toConstraintViolations(errors));
+}
+
+/**
+ * Flattens class-validator errors into one entry per constraint, walking
+ * nested objects and arrays. Values of sensitive fields are never echoed.
+ */
+export function toConstraintViolations(errors: ValidationError[], parentPath = ''): ConstraintViolation[] {
+  return errors.flatMap(error => {
+    const field = fieldPath(parentPath, error.property);
+    const echoValue = error.value !== undefined && !field.split(/[.[\]]+/).some(isSensitiveKey);
+
+    const own = Object.entries(error.constraints ?? {}).map(([constraint, message]) => ({
+      field,
+      constraint,
+      message,
+      ...(echoValue && { value: redact(error.value) }),
+      args: constraintArgs(error, constraint),
+    }));
+
+    return [...own, ...toConstraintViolations(error.children ?? [], field)];
+  });
+}
+
+function fieldPath(parentPath: string, property: string): string {
+  if (!parentPath) {
+    return property;
+  }
+
+  return /^\d+$/.test(property) ? `${parentPath}[${property}]` : `${parentPath}.${property}`;
+}
+
+/** Looks up the decorator arguments, which ValidationError does not carry */
+function constraintArgs(error: ValidationError, constraint: string): unknown[] {
+  if (!error.target) {
+    return [];
+  }
+
+  const metadata = getMetadataStorage()
+    .getTargetValidationMetadatas(error.target.constructor, undefined, true, false)
+    .find(meta => meta.propertyName === error.property && (meta.name ?? meta.type) === constraint);
+
+  return metadata?.constraints ?? [];
+}
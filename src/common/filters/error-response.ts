@@ -0,0 +1,89 @@
+import { HttpException } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { ApiError, ProblemDetails } from '../types/api-response.types';
+import { ErrorCode, FieldError } from '../types/error.types';
+import { DEFAULT_LOCALE } from '../types/i18n.types';
+import { DomainException, errorCodeForStatus } from '../exceptions/domain.exception';
+import { ConstraintViolation, ValidationFailedException } from '../exceptions/validation-failed.exception';
+import { RequestContext } from '../context/request-context';
+import { I18nService } from '../../i18n/i18n.service';
+
+export const PROBLEM_JSON_MEDIA_TYPE = 'application/problem+json';
+
+/** Builds the ApiError body from what the exception carries, in the locale of the request */
+export function toApiError(exception: HttpException, request: Request, i18n: I18nService): ApiError {
+  const status = exception.getStatus();
+  const exceptionResponse = exception.getResponse();
+  const body = typeof exceptionResponse === 'string' ? { message: exceptionResponse } : (exceptionResponse as any);
+  const code: ErrorCode = body.code || errorCodeForStatus(status);
+
+  return {
+    statusCode: status,
+    message: localizeMessage(exception, body.message || exception.message, code, i18n),
+    error: body.error || exception.name,
+    code,
+    ...(exception instanceof ValidationFailedException && {
+      errors: exception.violations.map(violation => localizeViolation(violation, i18n)),
+    }),
+    timestamp: new Date().toISOString(),
+    path: request.url,
+    requestId: RequestContext.requestId(),
+  };
+}
+
+export function toProblemDetails(error: ApiError): ProblemDetails {
+  return {
+    type: `urn:problem-type:${error.code}`,
+    title: error.error,
+    status: error.statusCode,
+    detail: Array.isArray(error.message) ? error.message.join('; ') : error.message,
+    instance: error.path,
+    code: error.code,
+    ...(error.errors && { errors: error.errors }),
+    timestamp: error.timestamp,
+    requestId: error.requestId,
+  };
+}
+
+/**
+ * Writes the error as application/problem+json when the Accept header
+ * prefers it, and as a plain ApiError otherwise
+ */
+export function sendError(request: Request, response: Response, error: ApiError): void {
+  response.status(error.statusCode);
+
+  if (request.accepts(['application/json', PROBLEM_JSON_MEDIA_TYPE]) === PROBLEM_JSON_MEDIA_TYPE) {
+    response.type(PROBLEM_JSON_MEDIA_TYPE).json(toProblemDetails(error));
+    return;
+  }
+
+  response.json(error);
+}
+
+function localizeMessage(
+  exception: HttpException,
+  message: string | string[],
+  code: ErrorCode,
+  i18n: I18nService,
+): string | string[] {
+  if (exception instanceof DomainException) {
+    return i18n.translate(`errors.${code}`, exception.params, exception.message);
+  }
+
+  // Framework exceptions ("Cannot GET /nowhere") keep their more specific
+  // English text; other locales get the generic message for the code
+  return i18n.currentLocale() === DEFAULT_LOCALE ? message : i18n.translate(`errors.${code}`);
+}
+
+function localizeViolation({ args, ...fieldError }: ConstraintViolation, i18n: I18nService): FieldError {
+  const params = {
+    property: fieldError.field,
+    value: fieldError.value,
+    ...Object.fromEntries(args.map((arg, index) => [`constraint${index + 1}`, arg])),
+  };
+
+  return {
+    ...fieldError,
+    message: i18n.translate(`validation.${fieldError.constraint}`, params, fieldError.message),
+  };
+}
@@ -0,0 +1,124 @@
+import { ArgumentsHost, ForbiddenException, Logger } from '@nestjs/common';
+import { GlobalExceptionFilter } from './global-exception.filter';
+import { ErrorCode } from '../types/error.types';
+import { ValidationFailedException } from '../exceptions/validation-failed.exception';
+import { AccountLockedException, InvalidCredentialsException } from '../../auth/auth.exceptions';
+import { UnknownRoleException } from '../../users/users.exceptions';
+import { RequestContext } from '../context/request-context';
+import { I18nService } from '../../i18n/i18n.service';
+
+describe('GlobalExceptionFilter', () => {
+  let filter: GlobalExceptionFilter;
+  let mockRequest: any;
+  let mockResponse: any;
+  let mockHost: ArgumentsHost;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    filter = new GlobalExceptionFilter(new I18nService());
+
+    mockRequest = {
+      method: 'POST',
+      url: '/auth/login',
+      accepts: jest.fn().mockReturnValue('application/json'),
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      type: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+    };
+    mockHost = {
+      switchToHttp: () => ({
+        getRequest: () => mockRequest,
+        getResponse: () => mockResponse,
+      }),
+    } as unknown as ArgumentsHost;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the error code of domain exceptions', () => {
+    filter.catch(new InvalidCredentialsException(), mockHost);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      statusCode: 401,
+      message: 'Invalid credentials',
+      error: 'Unauthorized',
+      code: ErrorCode.AUTH_INVALID_CREDENTIALS,
+      path: '/auth/login',
+    }));
+  });
+
+  it('should derive a code from the status for other exceptions', () => {
+    filter.catch(new ForbiddenException('Access denied'), mockHost);
+
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      code: ErrorCode.ACCESS_DENIED,
+    }));
+  });
+
+  it('should hide unexpected errors behind INTERNAL_ERROR', () => {
+    filter.catch(new Error('database is on fire'), mockHost);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(500);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Internal server error',
+      code: ErrorCode.INTERNAL_ERROR,
+    }));
+  });
+
+  it('should send Retry-After for lockouts', () => {
+    filter.catch(new AccountLockedException(30), mockHost);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(423);
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+  });
+
+  it('should write problem+json when the client asks for it', () => {
+    mockRequest.accepts.mockReturnValue('application/problem+json');
+
+    filter.catch(new ValidationFailedException([
+      { field: 'email', constraint: 'isEmail', message: 'email must be an email', args: [] },
+    ]), mockHost);
+
+    expect(mockResponse.type).toHaveBeenCalledWith('application/problem+json');
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      type: 'urn:problem-type:VALIDATION_FAILED',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Validation failed',
+      instance: '/auth/login',
+      code: ErrorCode.VALIDATION_FAILED,
+      errors: [{ field: 'email', constraint: 'isEmail', message: 'email must be an email' }],
+      timestamp: expect.any(String),
+      requestId: undefined,
+    });
+  });
+
+  it('should translate the message into the locale of the request', () => {
+    RequestContext.run({ requestId: 'req-1', locale: 'de' }, () => {
+      filter.catch(new UnknownRoleException('auditor'), mockHost);
+    });
+
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Unbekannte Rolle: auditor',
+      code: ErrorCode.USER_UNKNOWN_ROLE,
+    }));
+  });
+
+  it('should translate validation messages with their constraint arguments', () => {
+    RequestContext.run({ requestId: 'req-1', locale: 'de' }, () => {
+      filter.catch(new ValidationFailedException([
+        { field: 'password', constraint: 'minLength', message: 'password must be longer than or equal to 6 characters', args: [6] },
+      ]), mockHost);
+    });
+
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      errors: [{ field: 'password', constraint: 'minLength', message: 'password muss mindestens 6 Zeichen lang sein' }],
+    }));
+  });
+});
@@ -8,40 +8,49 @@ import {
 } from '@nestjs/common';
 import { Request, Response } from 'express';
 import { ApiError } from '../types/api-response.types';
+import { ErrorCode } from '../types/error.types';
+import { RequestContext } from '../context/request-context';
+import { sendError, toApiError } from './error-response';
+import { I18nService } from '../../i18n/i18n.service';
 
 /**
  * Global Exception Filter
- * This filter catches all exceptions and returns consistent, structured error responses
+ * This filter catches all exceptions and returns consistent, structured error responses,
+ * as RFC 7807 problem details when the client asks for application/problem+json.
+ * Messages are translated into the locale of the request.
  */
 @Catch()
 export class GlobalExceptionFilter implements ExceptionFilter {
   private readonly logger = new Logger(GlobalExceptionFilter.name);
 
+  constructor(private readonly i18n: I18nService) {}
+
   catch(exception: unknown, host: ArgumentsHost): void {
     const ctx = host.switchToHttp();
     const response = ctx.getResponse<Response>();
     const request = ctx.getRequest<Request>();
 
-    let status: number;
-    let message: string | string[];
-    let error: string;
+    let errorResponse: ApiError;
 
     if (exception instanceof HttpException) {
-      status = exception.getStatus();
-      const exceptionResponse = exception.getResponse();
-      
-      if (typeof exceptionResponse === 'string') {
-        message = exceptionResponse;
-        error = exception.name;
-      } else {
-        message = (exceptionResponse as any).message || exception.message;
-        error = (exceptionResponse as any).error || exception.name;
+      errorResponse = toApiError(exception, request, this.i18n);
+
+      // Lockouts tell the client when to try again
+      const retryAfter = (exception.getResponse() as any)?.retryAfter;
+      if (typeof retryAfter === 'number') {
+        response.setHeader('Retry-After', String(retryAfter));
       }
     } else {
       // Handle unexpected errors
-      status = HttpStatus.INTERNAL_SERVER_ERROR;
-      message = 'Internal server error';
-      error = 'InternalServerError';
+      errorResponse = {
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: this.i18n.translate('errors.INTERNAL_ERROR'),
+        error: 'Internal Server Error',
+        code: ErrorCode.INTERNAL_ERROR,
+        timestamp: new Date().toISOString(),
+        path: request.url,
+        requestId: RequestContext.requestId(),
+      };
       
       // Log unexpected errors
       this.logger.error(
@@ -50,20 +59,13 @@ export class GlobalExceptionFilter implements ExceptionFilter {
       );
     }
 
-    const errorResponse: ApiError = {
-      statusCode: status,
-      message,
-      error,
-      timestamp: new Date().toISOString(),
-      path: request.url,
-    };
-
-    // Log the error
+    // Log the error, in English whatever the client's locale
+    const logMessage = exception instanceof HttpException ? exception.message : 'Internal server error';
     this.logger.error(
-      `${request.method} ${request.url} - ${status} - ${message}`,
+      `${request.method} ${request.url} - ${errorResponse.statusCode} - ${logMessage}`,
       exception instanceof Error ? exception.stack : undefined,
     );
 
-    response.status(status).json(errorResponse);
+    sendError(request, response, errorResponse);
   }
 }
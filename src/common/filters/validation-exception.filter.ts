@@ -6,46 +6,35 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
-import { ApiError } from '../types/api-response.types';
+import { ValidationFailedException } from '../exceptions/validation-failed.exception';
+import { sendError, toApiError } from './error-response';
+import { I18nService } from '../../i18n/i18n.service';
 
 /**
  * Validation Exception Filter
- * This filter provides detailed validation error responses
+ * This filter provides detailed validation error responses, with one entry per failed field
  */
-@Catch(BadRequestException)
+@Catch(BadRequestException, ValidationFailedException)
 export class ValidationExceptionFilter implements ExceptionFilter {
   private readonly logger = new Logger(ValidationExceptionFilter.name);
 
-  catch(exception: BadRequestException, host: ArgumentsHost): void {
+  constructor(private readonly i18n: I18nService) {}
+
+  catch(exception: BadRequestException | ValidationFailedException, host: ArgumentsHost): void {
     const ctx = host.switchToHttp();
     const response = ctx.getResponse<Response>();
     const request = ctx.getRequest<Request>();
-    const status = exception.getStatus();
-    const exceptionResponse = exception.getResponse();
-
-    let message: string | string[];
-    let error: string;
-
-    if (typeof exceptionResponse === 'string') {
-      message = exceptionResponse;
-      error = 'ValidationError';
-    } else {
-      message = (exceptionResponse as any).message || exception.message;
-      error = (exceptionResponse as any).error || 'ValidationError';
-    }
 
-    const errorResponse: ApiError = {
-      statusCode: status,
-      message,
-      error,
-      timestamp: new Date().toISOString(),
-      path: request.url,
-    };
+    const errorResponse = toApiError(exception, request, this.i18n);
 
+    // Field and constraint only; rejected values stay out of the logs
+    const details = errorResponse.errors
+      ? errorResponse.errors.map(error => `${error.field}:${error.constraint}`)
+      : errorResponse.message;
     this.logger.warn(
-      `Validation error: ${request.method} ${request.url} - ${JSON.stringify(message)}`,
+      `Validation error: ${request.method} ${request.url} - ${JSON.stringify(details)}`,
     );
 
-    response.status(status).json(errorResponse);
+    sendError(request, response, errorResponse);
   }
 }
@@ -2,27 +2,66 @@ import { Injectable, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { IS_SESSION_ONLY_KEY } from '../decorators/session-only.decorator';
+import { IS_NO_IMPERSONATION_KEY } from '../decorators/no-impersonation.decorator';
+import { IS_NO_ORGANIZATION_KEY } from '../decorators/no-organization.decorator';
+import { UserPayload } from '../types/user.types';
+import { DomainException } from '../exceptions/domain.exception';
+import {
+  ImpersonatedSessionException,
+  OrganizationScopedException,
+  SessionRequiredException,
+} from '../exceptions/access.exceptions';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
 
 /**
  * JWT Authentication Guard
- * This guard extends the Passport JWT strategy and handles public routes
+ * This guard authenticates with a JWT or an X-API-Key header, whichever the
+ * request carries, and handles public, session-only, no-impersonation and
+ * no-organization routes. Denials of the latter three are audited and counted.
  */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
-  constructor(private reflector: Reflector) {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+    private metricsService: MetricsService,
+  ) {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
-    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
-      context.getHandler(),
-      context.getClass(),
-    ]);
-    
-    if (isPublic) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (this.hasMetadata(context, IS_PUBLIC_KEY)) {
       return true;
     }
-    
-    return super.canActivate(context);
+
+    const activated = (await super.canActivate(context)) as boolean;
+    const request = context.switchToHttp().getRequest();
+    const user = request.user as UserPayload;
+
+    if (user?.apiKeyId && this.hasMetadata(context, IS_SESSION_ONLY_KEY)) {
+      this.deny(request, new SessionRequiredException());
+    }
+
+    if (user?.act && this.hasMetadata(context, IS_NO_IMPERSONATION_KEY)) {
+      this.deny(request, new ImpersonatedSessionException());
+    }
+
+    if (user?.organization && this.hasMetadata(context, IS_NO_ORGANIZATION_KEY)) {
+      this.deny(request, new OrganizationScopedException());
+    }
+
+    return activated;
+  }
+
+  private hasMetadata(context: ExecutionContext, key: string): boolean {
+    return !!this.reflector.getAllAndOverride<boolean>(key, [context.getHandler(), context.getClass()]);
+  }
+
+  private deny(request: any, exception: DomainException): never {
+    void this.auditService.recordAccessDenied(request, exception.message);
+    this.metricsService.recordGuardDenial(JwtAuthGuard.name);
+    throw exception;
   }
 }
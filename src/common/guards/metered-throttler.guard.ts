@@ -0,0 +1,22 @@
+import { ExecutionContext, Inject, Injectable } from '@nestjs/common';
+import { ThrottlerGuard, ThrottlerLimitDetail } from '@nestjs/throttler';
+import { MetricsService } from '../../metrics/metrics.service';
+import { routeTemplate } from '../../metrics/metrics.middleware';
+
+/**
+ * Metered Throttler Guard
+ * The global ThrottlerGuard, counting every request it rejects by route
+ */
+@Injectable()
+export class MeteredThrottlerGuard extends ThrottlerGuard {
+  // Property injection keeps ThrottlerGuard's own constructor untouched
+  @Inject(MetricsService) private readonly metricsService: MetricsService;
+
+  protected async throwThrottlingException(
+    context: ExecutionContext,
+    throttlerLimitDetail: ThrottlerLimitDetail,
+  ): Promise<void> {
+    this.metricsService.recordThrottled(routeTemplate(context.switchToHttp().getRequest()));
+    return super.throwThrottlingException(context, throttlerLimitDetail);
+  }
+}
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { UserRole } from '../types/user.types';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { MissingPermissionsException, NotAuthenticatedException } from '../exceptions/access.exceptions';
+
+describe('PermissionsGuard', () => {
+  let guard: PermissionsGuard;
+  let reflector: jest.Mocked<Reflector>;
+  let auditService: { recordAccessDenied: jest.Mock };
+  let mockContext: jest.Mocked<ExecutionContext>;
+  let mockRequest: any;
+
+  beforeEach(async () => {
+    const mockReflector = {
+      getAllAndOverride: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsGuard,
+        {
+          provide: AuditService,
+          useValue: { recordAccessDenied: jest.fn().mockResolvedValue(undefined) },
+        },
+        MetricsService,
+        {
+          provide: Reflector,
+          useValue: mockReflector,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<PermissionsGuard>(PermissionsGuard);
+    reflector = module.get(Reflector);
+    auditService = module.get(AuditService);
+
+    mockRequest = {
+      user: {
+        sub: '1',
+        email: 'test@example.com',
+        role: UserRole.MODERATOR,
+        permissions: ['users:read'],
+      },
+    };
+
+    mockContext = {
+      switchToHttp: jest.fn().mockReturnValue({
+        getRequest: jest.fn().mockReturnValue(mockRequest),
+      }),
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+    } as any;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('canActivate', () => {
+    it('should return true when no permissions are required', () => {
+      reflector.getAllAndOverride.mockReturnValue(undefined);
+
+      expect(guard.canActivate(mockContext)).toBe(true);
+    });
+
+    it('should return true when every required permission is granted', () => {
+      reflector.getAllAndOverride.mockReturnValue(['users:read']);
+
+      expect(guard.canActivate(mockContext)).toBe(true);
+    });
+
+    it('should list the missing permissions', () => {
+      reflector.getAllAndOverride.mockReturnValue(['users:read', 'users:delete']);
+
+      expect(() => guard.canActivate(mockContext)).toThrow('Missing permissions: users:delete');
+    });
+
+    it('should audit denials', () => {
+      reflector.getAllAndOverride.mockReturnValue(['users:delete']);
+
+      expect(() => guard.canActivate(mockContext)).toThrow(MissingPermissionsException);
+      expect(auditService.recordAccessDenied).toHaveBeenCalledWith(
+        mockRequest,
+        'Access denied. Missing permissions: users:delete',
+      );
+    });
+
+    it('should honour resource and global wildcards', () => {
+      reflector.getAllAndOverride.mockReturnValue(['users:delete']);
+
+      mockRequest.user.permissions = ['users:*'];
+      expect(guard.canActivate(mockContext)).toBe(true);
+
+      mockRequest.user.permissions = ['*'];
+      expect(guard.canActivate(mockContext)).toBe(true);
+
+      mockRequest.user.permissions = ['roles:*'];
+      expect(() => guard.canActivate(mockContext)).toThrow(MissingPermissionsException);
+    });
+
+    it('should deny users without resolved permissions', () => {
+      reflector.getAllAndOverride.mockReturnValue(['users:read']);
+      delete mockRequest.user.permissions;
+
+      expect(() => guard.canActivate(mockContext)).toThrow(MissingPermissionsException);
+    });
+
+    it('should throw NotAuthenticatedException when user is not authenticated', () => {
+      reflector.getAllAndOverride.mockReturnValue(['users:read']);
+      mockRequest.user = undefined;
+
+      expect(() => guard.canActivate(mockContext)).toThrow(NotAuthenticatedException);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { grantsPermission, Permission } from '../types/role.types';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { MissingPermissionsException, NotAuthenticatedException } from '../exceptions/access.exceptions';
+
+/**
+ * Permissions Guard
+ * This guard checks the permissions resolved for the user's role against
+ * the ones required by @RequirePermissions. Denials are audited and counted.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+    private metricsService: MetricsService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredPermissions) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const { user } = request;
+
+    if (!user) {
+      throw new NotAuthenticatedException();
+    }
+
+    const granted: string[] = user.permissions || [];
+    const missing = requiredPermissions.filter(permission => !grantsPermission(granted, permission));
+
+    if (missing.length) {
+      const exception = new MissingPermissionsException(missing);
+      // Recording cannot fail, so the guard does not have to wait for it
+      void this.auditService.recordAccessDenied(request, exception.message);
+      this.metricsService.recordGuardDenial(PermissionsGuard.name);
+      throw exception;
+    }
+
+    return true;
+  }
+}
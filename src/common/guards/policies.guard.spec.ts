@@ -0,0 +1,109 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PoliciesGuard } from './policies.guard';
+import { AbilityFactory } from '../policies/ability.factory';
+import { subject } from '../policies/ability';
+import { CHECK_POLICIES_KEY, PolicyHandler } from '../decorators/check-policies.decorator';
+import { POLICY_RESOURCE_KEY } from '../decorators/policy-resource.decorator';
+import { ResourceLoader } from '../policies/resource-loader';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { AccessDeniedException, NotAuthenticatedException } from '../exceptions/access.exceptions';
+
+@Injectable()
+class TestResourceLoader implements ResourceLoader {
+  load = jest.fn(async () => subject('User', { id: '2' }));
+}
+
+describe('PoliciesGuard', () => {
+  let guard: PoliciesGuard;
+  let loader: TestResourceLoader;
+  let auditService: { recordAccessDenied: jest.Mock };
+  let metadata: Record<string, unknown>;
+  let mockContext: jest.Mocked<ExecutionContext>;
+  let mockRequest: any;
+
+  beforeEach(async () => {
+    metadata = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoliciesGuard,
+        AbilityFactory,
+        TestResourceLoader,
+        {
+          provide: AuditService,
+          useValue: { recordAccessDenied: jest.fn().mockResolvedValue(undefined) },
+        },
+        MetricsService,
+        {
+          provide: Reflector,
+          useValue: { getAllAndOverride: jest.fn((key: string) => metadata[key]) },
+        },
+      ],
+    }).compile();
+
+    guard = module.get<PoliciesGuard>(PoliciesGuard);
+    loader = module.get<TestResourceLoader>(TestResourceLoader);
+    auditService = module.get(AuditService);
+
+    mockRequest = {
+      user: { sub: '1', email: 'test@example.com', role: 'user', permissions: [] },
+      params: { id: '2' },
+      body: {},
+    };
+
+    mockContext = {
+      switchToHttp: jest.fn().mockReturnValue({
+        getRequest: jest.fn().mockReturnValue(mockRequest),
+      }),
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+    } as any;
+  });
+
+  const readPolicy: PolicyHandler = (ability, resource) => ability.can('read', resource);
+
+  it('should return true when no policies are attached', async () => {
+    await expect(guard.canActivate(mockContext)).resolves.toBe(true);
+  });
+
+  it('should evaluate policies against the loaded resource', async () => {
+    metadata[CHECK_POLICIES_KEY] = [readPolicy];
+    metadata[POLICY_RESOURCE_KEY] = TestResourceLoader;
+
+    await expect(guard.canActivate(mockContext)).rejects.toThrow(AccessDeniedException);
+    expect(loader.load).toHaveBeenCalledWith(mockRequest);
+
+    mockRequest.user.sub = '2';
+    await expect(guard.canActivate(mockContext)).resolves.toBe(true);
+  });
+
+  it('should audit denials against the loaded resource', async () => {
+    metadata[CHECK_POLICIES_KEY] = [readPolicy];
+    metadata[POLICY_RESOURCE_KEY] = TestResourceLoader;
+
+    await expect(guard.canActivate(mockContext)).rejects.toThrow(AccessDeniedException);
+    expect(auditService.recordAccessDenied).toHaveBeenCalledWith(
+      mockRequest,
+      'You are not allowed to perform this action',
+      { type: 'User', id: '2' },
+    );
+  });
+
+  it('should use the permissions resolved for the user', async () => {
+    metadata[CHECK_POLICIES_KEY] = [readPolicy];
+    metadata[POLICY_RESOURCE_KEY] = TestResourceLoader;
+    mockRequest.user.permissions = ['users:read'];
+
+    await expect(guard.canActivate(mockContext)).resolves.toBe(true);
+  });
+
+  it('should throw NotAuthenticatedException when user is not authenticated', async () => {
+    metadata[CHECK_POLICIES_KEY] = [readPolicy];
+    mockRequest.user = undefined;
+
+    await expect(guard.canActivate(mockContext)).rejects.toThrow(NotAuthenticatedException);
+  });
+});
@@ -0,0 +1,68 @@
+import { Injectable, CanActivate, ExecutionContext, Type } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { CHECK_POLICIES_KEY, PolicyHandler } from '../decorators/check-policies.decorator';
+import { POLICY_RESOURCE_KEY } from '../decorators/policy-resource.decorator';
+import { AbilityFactory } from '../policies/ability.factory';
+import { ResourceLoader } from '../policies/resource-loader';
+import { subjectTypeOf } from '../policies/ability';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { AccessDeniedException, NotAuthenticatedException } from '../exceptions/access.exceptions';
+
+/**
+ * Policies Guard
+ * This guard loads the targeted resource, if the route names a loader, and
+ * lets the request through only when every @CheckPolicies handler allows it.
+ * Denials are counted and audited against the loaded resource.
+ */
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private abilityFactory: AbilityFactory,
+    private moduleRef: ModuleRef,
+    private auditService: AuditService,
+    private metricsService: MetricsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const handlers = this.reflector.getAllAndOverride<PolicyHandler[]>(CHECK_POLICIES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!handlers) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+
+    if (!request.user) {
+      throw new NotAuthenticatedException();
+    }
+
+    const loaderType = this.reflector.getAllAndOverride<Type<ResourceLoader>>(POLICY_RESOURCE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const resource = loaderType
+      ? await this.moduleRef.get(loaderType, { strict: false }).load(request)
+      : undefined;
+
+    const ability = this.abilityFactory.createForUser(request.user);
+
+    if (!handlers.every(handler => handler(ability, resource, request))) {
+      const exception = new AccessDeniedException();
+      const type = subjectTypeOf(resource);
+      await this.auditService.recordAccessDenied(
+        request,
+        exception.message,
+        type ? { type, id: (resource as any).id ?? null } : undefined,
+      );
+      this.metricsService.recordGuardDenial(PoliciesGuard.name);
+      throw exception;
+    }
+
+    return true;
+  }
+}
@@ -1,8 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { RolesGuard } from './roles.guard';
 import { UserRole } from '../types/user.types';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { MissingRoleException, NotAuthenticatedException } from '../exceptions/access.exceptions';
 
 describe('RolesGuard', () => {
   let guard: RolesGuard;
@@ -18,6 +21,11 @@ describe('RolesGuard', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         RolesGuard,
+        {
+          provide: AuditService,
+          useValue: { recordAccessDenied: jest.fn().mockResolvedValue(undefined) },
+        },
+        MetricsService,
         {
           provide: Reflector,
           useValue: mockReflector,
@@ -66,19 +74,19 @@ describe('RolesGuard', () => {
       expect(result).toBe(true);
     });
 
-    it('should throw ForbiddenException when user does not have required role', () => {
+    it('should throw MissingRoleException when user does not have required role', () => {
       reflector.getAllAndOverride.mockReturnValue([UserRole.ADMIN]);
 
       expect(() => guard.canActivate(mockContext))
-        .toThrow(ForbiddenException);
+        .toThrow(MissingRoleException);
     });
 
-    it('should throw ForbiddenException when user is not authenticated', () => {
+    it('should throw NotAuthenticatedException when user is not authenticated', () => {
       reflector.getAllAndOverride.mockReturnValue([UserRole.USER]);
       mockRequest.user = null;
 
       expect(() => guard.canActivate(mockContext))
-        .toThrow(ForbiddenException);
+        .toThrow(NotAuthenticatedException);
     });
 
     it('should include role information in error message', () => {
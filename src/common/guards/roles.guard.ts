@@ -1,15 +1,23 @@
-import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { UserRole } from '../types/user.types';
 import { ROLES_KEY } from '../decorators/roles.decorator';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { MissingRoleException, NotAuthenticatedException } from '../exceptions/access.exceptions';
 
 /**
  * Roles Guard
- * This guard checks if the user has the required roles to access a route
+ * This guard checks if the user has the required roles to access a route.
+ * Denials are audited and counted.
  */
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+    private metricsService: MetricsService,
+  ) {}
 
   canActivate(context: ExecutionContext): boolean {
     const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
@@ -21,18 +29,20 @@ export class RolesGuard implements CanActivate {
       return true;
     }
     
-    const { user } = context.switchToHttp().getRequest();
+    const request = context.switchToHttp().getRequest();
+    const { user } = request;
     
     if (!user) {
-      throw new ForbiddenException('User not authenticated');
+      throw new NotAuthenticatedException();
     }
     
     const hasRole = requiredRoles.some((role) => user.role === role);
     
     if (!hasRole) {
-      throw new ForbiddenException(
-        `Access denied. Required roles: ${requiredRoles.join(', ')}. Your role: ${user.role}`
-      );
+      const exception = new MissingRoleException(requiredRoles, user.role);
+      void this.auditService.recordAccessDenied(request, exception.message);
+      this.metricsService.recordGuardDenial(RolesGuard.name);
+      throw exception;
     }
     
     return true;
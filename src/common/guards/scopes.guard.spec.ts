@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ScopesGuard } from './scopes.guard';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { MissingScopesException, NotAuthenticatedException } from '../exceptions/access.exceptions';
+
+describe('ScopesGuard', () => {
+  let guard: ScopesGuard;
+  let reflector: jest.Mocked<Reflector>;
+  let auditService: { recordAccessDenied: jest.Mock };
+  let mockContext: jest.Mocked<ExecutionContext>;
+  let mockRequest: any;
+
+  beforeEach(async () => {
+    auditService = { recordAccessDenied: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScopesGuard,
+        { provide: AuditService, useValue: auditService },
+        MetricsService,
+        { provide: Reflector, useValue: { getAllAndOverride: jest.fn() } },
+      ],
+    }).compile();
+
+    guard = module.get<ScopesGuard>(ScopesGuard);
+    reflector = module.get(Reflector);
+
+    mockRequest = {
+      user: { sub: '1', email: 'test@example.com', role: 'user', apiKeyId: 'key-1', scopes: ['users:read'] },
+    };
+
+    mockContext = {
+      switchToHttp: jest.fn().mockReturnValue({
+        getRequest: jest.fn().mockReturnValue(mockRequest),
+      }),
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+    } as any;
+  });
+
+  it('should return true when no scopes are required', () => {
+    reflector.getAllAndOverride.mockReturnValue(undefined);
+
+    expect(guard.canActivate(mockContext)).toBe(true);
+  });
+
+  it('should return true when the API key has the scopes', () => {
+    reflector.getAllAndOverride.mockReturnValue(['users:read']);
+
+    expect(guard.canActivate(mockContext)).toBe(true);
+  });
+
+  it('should not restrict requests authenticated with a JWT', () => {
+    reflector.getAllAndOverride.mockReturnValue(['api-keys:manage']);
+    mockRequest.user = { sub: '1', email: 'test@example.com', role: 'user' };
+
+    expect(guard.canActivate(mockContext)).toBe(true);
+  });
+
+  it('should throw MissingScopesException and audit when the API key lacks a scope', () => {
+    reflector.getAllAndOverride.mockReturnValue(['users:read', 'api-keys:manage']);
+
+    expect(() => guard.canActivate(mockContext)).toThrow(MissingScopesException);
+    expect(auditService.recordAccessDenied).toHaveBeenCalledWith(
+      mockRequest,
+      expect.stringContaining('api-keys:manage'),
+    );
+  });
+
+  it('should throw NotAuthenticatedException when user is not authenticated', () => {
+    reflector.getAllAndOverride.mockReturnValue(['users:read']);
+    mockRequest.user = null;
+
+    expect(() => guard.canActivate(mockContext)).toThrow(NotAuthenticatedException);
+  });
+});
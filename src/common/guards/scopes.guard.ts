@@ -0,0 +1,55 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { grantsPermission, Permission } from '../types/role.types';
+import { SCOPES_KEY } from '../decorators/scopes.decorator';
+import { AuditService } from '../../audit/audit.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { MissingScopesException, NotAuthenticatedException } from '../exceptions/access.exceptions';
+
+/**
+ * Scopes Guard
+ * This guard checks the scopes of an API key against the ones required by
+ * @RequireScopes. Requests authenticated with a JWT pass. Denials are
+ * audited and counted.
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+    private metricsService: MetricsService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredScopes = this.reflector.getAllAndOverride<Permission[]>(SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredScopes) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const { user } = request;
+
+    if (!user) {
+      throw new NotAuthenticatedException();
+    }
+
+    if (!user.apiKeyId) {
+      return true;
+    }
+
+    const missing = requiredScopes.filter(scope => !grantsPermission(user.scopes || [], scope));
+
+    if (missing.length) {
+      const exception = new MissingScopesException(missing);
+      void this.auditService.recordAccessDenied(request, exception.message);
+      this.metricsService.recordGuardDenial(ScopesGuard.name);
+      throw exception;
+    }
+
+    return true;
+  }
+}
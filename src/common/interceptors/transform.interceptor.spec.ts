@@ -0,0 +1,84 @@
+import { CallHandler, ExecutionContext, StreamableFile } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import { TransformInterceptor } from './transform.interceptor';
+import { RESPONSE_MESSAGE_KEY } from '../decorators/response-message.decorator';
+import { RAW_RESPONSE_KEY } from '../decorators/raw-response.decorator';
+import { RequestContext } from '../context/request-context';
+import { I18nService } from '../../i18n/i18n.service';
+
+describe('TransformInterceptor', () => {
+  let interceptor: TransformInterceptor;
+  let metadata: Record<string, unknown>;
+  let mockContext: ExecutionContext;
+
+  const intercept = (result: unknown, locale: 'en' | 'de' = 'en') => {
+    const next: CallHandler = { handle: () => of(result) };
+    return RequestContext.run({ requestId: 'req-1', locale }, () => lastValueFrom(interceptor.intercept(mockContext, next)));
+  };
+
+  beforeEach(() => {
+    metadata = {};
+    const reflector = { getAllAndOverride: jest.fn((key: string) => metadata[key]) } as unknown as Reflector;
+    interceptor = new TransformInterceptor(reflector, new I18nService());
+
+    mockContext = {
+      getType: () => 'http',
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+      switchToHttp: () => ({ getRequest: () => ({ originalUrl: '/users?page=2' }) }),
+    } as unknown as ExecutionContext;
+  });
+
+  it('should wrap the result with the message, path and request ID', async () => {
+    metadata[RESPONSE_MESSAGE_KEY] = 'responses.users.retrieved';
+
+    await expect(intercept({ id: '1' })).resolves.toEqual({
+      success: true,
+      message: 'User retrieved successfully',
+      data: { id: '1' },
+      meta: undefined,
+      timestamp: expect.any(String),
+      path: '/users?page=2',
+      requestId: 'req-1',
+    });
+  });
+
+  it('should translate the message into the locale of the request', async () => {
+    metadata[RESPONSE_MESSAGE_KEY] = 'responses.users.retrieved';
+
+    await expect(intercept({ id: '1' }, 'de')).resolves.toEqual(expect.objectContaining({
+      message: 'Benutzer erfolgreich abgerufen',
+    }));
+  });
+
+  it('should move pagination into meta', async () => {
+    const meta = { total: 1, limit: 20, nextCursor: null };
+
+    const response: any = await intercept({ items: [{ id: '1' }], meta });
+
+    expect(response.data).toEqual([{ id: '1' }]);
+    expect(response.meta).toBe(meta);
+  });
+
+  it('should derive the message from the result when given a function', async () => {
+    metadata[RESPONSE_MESSAGE_KEY] = (result: { mfa_token?: string }) => (result.mfa_token ? 'Challenge' : 'Done');
+
+    await expect(intercept({ mfa_token: 'x' })).resolves.toEqual(expect.objectContaining({ message: 'Challenge' }));
+  });
+
+  it('should omit data for handlers without a result', async () => {
+    const response: any = await intercept(undefined);
+
+    expect(response.data).toBeUndefined();
+    expect(response.message).toBe('Request completed successfully');
+  });
+
+  it('should leave raw and streamed responses alone', async () => {
+    const file = new StreamableFile(Buffer.from('a,b'));
+    await expect(intercept(file)).resolves.toBe(file);
+
+    metadata[RAW_RESPONSE_KEY] = true;
+    await expect(intercept('plain text')).resolves.toBe('plain text');
+  });
+});
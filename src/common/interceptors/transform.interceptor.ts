@@ -0,0 +1,62 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, StreamableFile } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Observable, map } from 'rxjs';
+import { ApiResponse, Paginated } from '../types/api-response.types';
+import { RequestContext } from '../context/request-context';
+import { RESPONSE_MESSAGE_KEY, ResponseMessageOption } from '../decorators/response-message.decorator';
+import { RAW_RESPONSE_KEY } from '../decorators/raw-response.decorator';
+import { I18nService } from '../../i18n/i18n.service';
+
+const DEFAULT_MESSAGE_KEY = 'responses.default';
+
+function isPaginated(value: unknown): value is Paginated<unknown> {
+  return typeof value === 'object' && value !== null
+    && Array.isArray((value as Paginated<unknown>).items)
+    && typeof (value as Paginated<unknown>).meta === 'object';
+}
+
+/**
+ * Transform Interceptor
+ * Wraps whatever a handler returns into an ApiResponse with the translated
+ * message from @ResponseMessage and the real path, time and request ID. A Paginated result
+ * becomes `data` plus `meta`. Routes marked @RawResponse are left alone.
+ */
+@Injectable()
+export class TransformInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private i18n: I18nService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (context.getType() !== 'http' || this.reflector.getAllAndOverride<boolean>(RAW_RESPONSE_KEY, targets)) {
+      return next.handle();
+    }
+
+    const message = this.reflector.getAllAndOverride<ResponseMessageOption>(RESPONSE_MESSAGE_KEY, targets);
+    const request = context.switchToHttp().getRequest<Request>();
+
+    return next.handle().pipe(
+      map(result => {
+        if (result instanceof StreamableFile) {
+          return result;
+        }
+
+        const response: ApiResponse = {
+          success: true,
+          message: this.i18n.translate(typeof message === 'function' ? message(result) : message ?? DEFAULT_MESSAGE_KEY),
+          data: isPaginated(result) ? result.items : result ?? undefined,
+          meta: isPaginated(result) ? result.meta : undefined,
+          timestamp: new Date().toISOString(),
+          path: request.originalUrl,
+          requestId: RequestContext.requestId(),
+        };
+
+        return response;
+      }),
+    );
+  }
+}
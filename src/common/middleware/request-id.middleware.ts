@@ -0,0 +1,25 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { RequestContext } from '../context/request-context';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Caller-supplied IDs end up in logs and responses, so only plain tokens are accepted
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Request ID Middleware
+ * Accepts the caller's X-Request-Id or generates one, echoes it in the
+ * response and runs the rest of the request inside its RequestContext
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction): void {
+    const header = req.headers[REQUEST_ID_HEADER.toLowerCase()];
+    const requestId = typeof header === 'string' && VALID_REQUEST_ID.test(header) ? header : randomUUID();
+
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    RequestContext.run({ requestId }, () => next());
+  }
+}
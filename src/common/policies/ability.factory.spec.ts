@@ -0,0 +1,92 @@
+import { AbilityFactory } from './ability.factory';
+import { AbilityBuilder, subject } from './ability';
+import { UserPayload, UserRole } from '../types/user.types';
+
+describe('AbilityFactory', () => {
+  const factory = new AbilityFactory();
+
+  const payload = (permissions: string[], role: string = UserRole.USER): UserPayload => ({
+    sub: 'me',
+    email: 'me@example.com',
+    username: 'me',
+    role,
+    permissions,
+  });
+
+  const user = (id: string) => subject('User', { id, email: `${id}@example.com`, role: UserRole.USER });
+
+  it('should let users read and edit their own account only', () => {
+    const ability = factory.createForUser(payload([]));
+
+    expect(ability.can('read', user('me'))).toBe(true);
+    expect(ability.can('update', user('me'), 'username')).toBe(true);
+    expect(ability.can('update', user('me'), 'locale')).toBe(true);
+    expect(ability.can('read', user('other'))).toBe(false);
+    expect(ability.can('update', user('other'), 'username')).toBe(false);
+  });
+
+  it('should not let users change their own role or status', () => {
+    const ability = factory.createForUser(payload([]));
+
+    expect(ability.can('update', user('me'), 'role')).toBe(false);
+    expect(ability.can('update', user('me'), 'isActive')).toBe(false);
+  });
+
+  it('should let users:read read any account', () => {
+    const ability = factory.createForUser(payload(['users:read'], UserRole.MODERATOR));
+
+    expect(ability.can('read', user('other'))).toBe(true);
+    expect(ability.can('update', user('other'))).toBe(false);
+  });
+
+  it('should reserve role changes for users:assign-role', () => {
+    const editor = factory.createForUser(payload(['users:update']));
+    const admin = factory.createForUser(payload(['*'], UserRole.ADMIN));
+
+    expect(editor.can('update', user('other'), 'isActive')).toBe(true);
+    expect(editor.can('update', user('other'), 'role')).toBe(false);
+    expect(admin.can('update', user('other'), 'role')).toBe(true);
+  });
+
+  it('should only let organization admins assign the role held there', () => {
+    const organization = { id: 'org-1', slug: 'acme', name: 'Acme', role: UserRole.ADMIN };
+    const admin = factory.createForUser({ ...payload(['*'], UserRole.ADMIN), organization });
+
+    expect(admin.can('update', user('other'), 'role')).toBe(true);
+    expect(admin.can('update', user('other'), 'isActive')).toBe(false);
+    expect(admin.can('update', user('other'), 'email')).toBe(false);
+    expect(admin.can('update', user('me'), 'username')).toBe(true);
+  });
+
+  it('should answer type-level checks', () => {
+    const ability = factory.createForUser(payload([]));
+
+    expect(ability.can('read', 'User')).toBe(true);
+    expect(ability.can('delete', 'User')).toBe(false);
+    expect(ability.can('manage', 'Role')).toBe(false);
+  });
+});
+
+describe('Ability', () => {
+  it('should let later rules override earlier ones', () => {
+    const { can, cannot, build } = new AbilityBuilder();
+    can('manage', 'all');
+    cannot('delete', 'User', { id: 'root' });
+    const ability = build();
+
+    expect(ability.can('delete', subject('User', { id: 'someone' }))).toBe(true);
+    expect(ability.can('delete', subject('User', { id: 'root' }))).toBe(false);
+    expect(ability.can('delete', 'User')).toBe(true);
+  });
+
+  it('should deny objects without a subject type', () => {
+    const { can, build } = new AbilityBuilder();
+    can('manage', 'all');
+
+    expect(build().can('read', { id: '1' })).toBe(false);
+  });
+
+  it('should keep the subject tag out of serialized objects', () => {
+    expect(JSON.stringify(subject('User', { id: '1' }))).toBe('{"id":"1"}');
+  });
+});
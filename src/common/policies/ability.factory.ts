@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { UserPayload } from '../types/user.types';
+import { grantsPermission, Permission } from '../types/role.types';
+import { Ability, AbilityBuilder } from './ability';
+
+/**
+ * Ability Factory
+ * Turns the permissions resolved for a user's role into ability rules and
+ * adds what every user may do with their own account
+ */
+@Injectable()
+export class AbilityFactory {
+  createForUser(user: UserPayload): Ability {
+    const { can, build } = new AbilityBuilder();
+    const has = (permission: Permission) => grantsPermission(user.permissions || [], permission);
+
+    // Own account: readable, and editable except for role and status
+    can('read', 'User', { id: user.sub });
+    can('update', 'User', ['email', 'username', 'locale'], { id: user.sub });
+
+    if (has('users:read')) can('read', 'User');
+    // Accounts are shared by organizations, so within one only the role held there is assigned
+    if (has('users:update') && !user.organization) can('update', 'User', ['email', 'username', 'locale', 'isActive']);
+    if (has('users:assign-role')) can('update', 'User', ['role']);
+    if (has('users:delete')) can('delete', 'User');
+    if (has('users:unlock')) can('unlock', 'User');
+    if (has('roles:read')) can('read', 'Role');
+    if (has('roles:manage')) can('manage', 'Role');
+
+    return build();
+  }
+}
@@ -0,0 +1,133 @@
+export type Action = 'manage' | 'create' | 'read' | 'update' | 'delete' | 'unlock';
+
+export type SubjectType = 'User' | 'Role' | 'all';
+
+/** Plain equality match on the subject's properties, e.g. `{ id: user.sub }` */
+export type Conditions = Record<string, unknown>;
+
+export interface Rule {
+  action: Action;
+  subject: SubjectType;
+  fields?: string[];
+  conditions?: Conditions;
+  inverted: boolean;
+}
+
+const SUBJECT_TYPE = '__subjectType';
+
+/**
+ * Tags a plain object with its subject type so rules for that type apply to
+ * it. The tag is not enumerable and never shows up in responses.
+ */
+export function subject<T extends object>(type: SubjectType, object: T): T {
+  if (!Object.prototype.hasOwnProperty.call(object, SUBJECT_TYPE)) {
+    Object.defineProperty(object, SUBJECT_TYPE, { value: type, enumerable: false });
+  }
+  return object;
+}
+
+/** The subject type an object was tagged with, if any */
+export function subjectTypeOf(object: unknown): SubjectType | undefined {
+  return object && typeof object === 'object' ? (object as any)[SUBJECT_TYPE] : undefined;
+}
+
+/**
+ * Ability
+ * A small CASL-style rule set. Later rules take precedence over earlier
+ * ones, `manage` matches every action and `all` matches every subject.
+ */
+export class Ability {
+  constructor(readonly rules: Rule[]) {}
+
+  /**
+   * Checks an action on a subject type (`'User'`) or a tagged object. For a
+   * type, a rule counts if it could apply to some object of that type.
+   */
+  can(action: Action, target: SubjectType | object, field?: string): boolean {
+    const isInstance = typeof target === 'object';
+    const type = isInstance ? (target as any)[SUBJECT_TYPE] as SubjectType | undefined : target;
+
+    if (!type) {
+      return false;
+    }
+
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const rule = this.rules[i];
+
+      if (!this.matchesActionAndSubject(rule, action, type) || !this.matchesField(rule, field)) {
+        continue;
+      }
+
+      // Denying some fields does not deny the action as a whole
+      if (rule.inverted && rule.fields && !field) {
+        continue;
+      }
+
+      if (rule.conditions) {
+        if (!isInstance) {
+          // Conditional denials cannot be decided without the object
+          if (rule.inverted) continue;
+          return true;
+        }
+        if (!this.matchesConditions(rule.conditions, target)) {
+          continue;
+        }
+      }
+
+      return !rule.inverted;
+    }
+
+    return false;
+  }
+
+  cannot(action: Action, target: SubjectType | object, field?: string): boolean {
+    return !this.can(action, target, field);
+  }
+
+  private matchesActionAndSubject(rule: Rule, action: Action, type: SubjectType): boolean {
+    return (rule.action === action || rule.action === 'manage')
+      && (rule.subject === type || rule.subject === 'all');
+  }
+
+  private matchesField(rule: Rule, field?: string): boolean {
+    return !field || !rule.fields || rule.fields.includes(field);
+  }
+
+  private matchesConditions(conditions: Conditions, target: object): boolean {
+    return Object.entries(conditions).every(([key, value]) => (target as any)[key] === value);
+  }
+}
+
+/**
+ * Collects rules with `can` and `cannot`, then builds an Ability from them
+ */
+export class AbilityBuilder {
+  private readonly rules: Rule[] = [];
+
+  can = (action: Action, subjectType: SubjectType, fieldsOrConditions?: string[] | Conditions, conditions?: Conditions): void => {
+    this.rules.push(this.createRule(false, action, subjectType, fieldsOrConditions, conditions));
+  };
+
+  cannot = (action: Action, subjectType: SubjectType, fieldsOrConditions?: string[] | Conditions, conditions?: Conditions): void => {
+    this.rules.push(this.createRule(true, action, subjectType, fieldsOrConditions, conditions));
+  };
+
+  build = (): Ability => new Ability([...this.rules]);
+
+  private createRule(
+    inverted: boolean,
+    action: Action,
+    subjectType: SubjectType,
+    fieldsOrConditions?: string[] | Conditions,
+    conditions?: Conditions,
+  ): Rule {
+    const fields = Array.isArray(fieldsOrConditions) ? fieldsOrConditions : undefined;
+    return {
+      action,
+      subject: subjectType,
+      fields,
+      conditions: fields ? conditions : (fieldsOrConditions as Conditions | undefined) ?? conditions,
+      inverted,
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { Request } from 'express';
+
+/**
+ * Fetches the resource a request targets so PoliciesGuard can evaluate
+ * conditions against it. Loaders are resolved from the module's injector.
+ */
+export interface ResourceLoader<T = unknown> {
+  load(request: Request): Promise<T>;
+}
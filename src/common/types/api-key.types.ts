@@ -0,0 +1,27 @@
+/**
+ * A key a machine client authenticates with through the X-API-Key header.
+ * The plaintext is shown once at creation; only its SHA-256 hash is stored.
+ */
+export interface ApiKey {
+  id: string;
+  /** Owner: a person or a service account. The key acts as this user. */
+  userId: string;
+  name: string;
+  /** Permissions the key may use; never more than the owner's role grants */
+  scopes: string[];
+  // The organization the key was created in, which it stays confined to
+  organizationId: string | null;
+  keyHash: string;
+  createdAt: Date;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt?: Date;
+}
+
+/** What the API returns about a key; the hash never leaves the server */
+export type ApiKeyView = Omit<ApiKey, 'keyHash'>;
+
+/** Returned once, on creation: the only time the plaintext key is available */
+export interface CreatedApiKey extends ApiKeyView {
+  key: string;
+}
@@ -1,16 +1,53 @@
+import { FieldError } from './error.types';
+
+export interface PaginationMeta {
+  total: number;
+  limit: number;
+  page?: number;
+  totalPages?: number;
+  nextCursor: string | null;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  meta: PaginationMeta;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   message: string;
   data?: T;
+  meta?: PaginationMeta;
   error?: string;
   timestamp: string;
   path: string;
+  // X-Request-Id of the request, for correlating with server logs
+  requestId?: string;
 }
 
 export interface ApiError {
   statusCode: number;
   message: string | string[];
+  // HTTP reason phrase, e.g. "Unauthorized"
   error: string;
+  // Stable, machine-readable ErrorCode to branch on
+  code: string;
+  // Per-field details of validation failures
+  errors?: FieldError[];
   timestamp: string;
   path: string;
+  requestId?: string;
+}
+
+/** RFC 7807 problem details, sent when the client accepts application/problem+json */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: string;
+  errors?: FieldError[];
+  timestamp: string;
+  requestId?: string;
 }
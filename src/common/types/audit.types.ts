@@ -0,0 +1,92 @@
+export const AUDIT_ACTIONS = [
+  'auth.login.succeeded',
+  'auth.login.failed',
+  'user.created',
+  'user.updated',
+  'user.deleted',
+  'user.role_changed',
+  'user.identity_linked',
+  'user.impersonated',
+  'api_key.created',
+  'api_key.revoked',
+  'session.revoked',
+  'organization.created',
+  'organization.member_added',
+  'organization.member_removed',
+  'role.created',
+  'role.updated',
+  'role.deleted',
+  'access.denied',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditActor {
+  id: string;
+  email: string;
+  role: string;
+  // The admin who acted as this user, when impersonating
+  impersonatorId?: string;
+  // The organization the actor acted in, whose role `role` is
+  organizationId?: string;
+}
+
+export interface AuditTarget {
+  type: string;
+  id: string | null;
+}
+
+/** Changed fields only, with their value before and after the change */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * Who is acting and from where, taken from the request that triggered the
+ * event. Everything is optional so services can also record events outside
+ * of a request.
+ */
+export interface AuditContext {
+  actor?: AuditActor | null;
+  ip?: string | null;
+  requestId?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  actor: AuditActor | null;
+  target: AuditTarget | null;
+  changes: AuditChanges | null;
+  // Free-form details, e.g. why a login failed or which permission was missing
+  reason: string | null;
+  ip: string | null;
+  requestId: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditSearchCriteria {
+  action?: AuditAction;
+  outcome?: AuditOutcome;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+  // Omitted for exports, which return every match
+  offset?: number;
+  limit?: number;
+}
+
+/** What a service reports; AuditService fills in id, time and context */
+export interface AuditEvent {
+  action: AuditAction;
+  outcome?: AuditOutcome;
+  target?: AuditTarget | null;
+  changes?: AuditChanges | null;
+  reason?: string | null;
+}
@@ -0,0 +1,20 @@
+export interface RefreshToken {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+export interface AuthTokens {
+  access_token: string;
+  refresh_token: string;
+}
+
+export interface MfaChallenge {
+  mfa_required?: boolean;
+  mfa_enrollment_required?: boolean;
+  mfa_token: string;
+}
@@ -0,0 +1,86 @@
+/**
+ * Machine-readable error codes
+ * Returned as `code` in every error response. They are part of the API
+ * contract: add new ones freely, but never rename or reuse an existing one.
+ */
+export enum ErrorCode {
+  // Generic codes, derived from the status when nothing more specific applies
+  BAD_REQUEST = 'BAD_REQUEST',
+  UNAUTHENTICATED = 'UNAUTHENTICATED',
+  ACCESS_DENIED = 'ACCESS_DENIED',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  RATE_LIMITED = 'RATE_LIMITED',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  INVALID_CURSOR = 'INVALID_CURSOR',
+  ACCESS_DENIED_UNAUTHENTICATED = 'ACCESS_DENIED_UNAUTHENTICATED',
+  ACCESS_DENIED_MISSING_ROLE = 'ACCESS_DENIED_MISSING_ROLE',
+  ACCESS_DENIED_MISSING_PERMISSIONS = 'ACCESS_DENIED_MISSING_PERMISSIONS',
+  ACCESS_DENIED_MISSING_SCOPES = 'ACCESS_DENIED_MISSING_SCOPES',
+  ACCESS_DENIED_SESSION_REQUIRED = 'ACCESS_DENIED_SESSION_REQUIRED',
+  ACCESS_DENIED_IMPERSONATED = 'ACCESS_DENIED_IMPERSONATED',
+  ACCESS_DENIED_ORGANIZATION = 'ACCESS_DENIED_ORGANIZATION',
+  ACCESS_DENIED_ORGANIZATION_MISMATCH = 'ACCESS_DENIED_ORGANIZATION_MISMATCH',
+  ACCESS_DENIED_ORGANIZATION_SCOPED = 'ACCESS_DENIED_ORGANIZATION_SCOPED',
+  METRICS_ACCESS_DENIED = 'METRICS_ACCESS_DENIED',
+
+  AUTH_INVALID_CREDENTIALS = 'AUTH_INVALID_CREDENTIALS',
+  AUTH_ACCOUNT_DEACTIVATED = 'AUTH_ACCOUNT_DEACTIVATED',
+  AUTH_EMAIL_NOT_VERIFIED = 'AUTH_EMAIL_NOT_VERIFIED',
+  AUTH_ACCOUNT_LOCKED = 'AUTH_ACCOUNT_LOCKED',
+  AUTH_TOO_MANY_LOGIN_ATTEMPTS = 'AUTH_TOO_MANY_LOGIN_ATTEMPTS',
+  AUTH_INVALID_MFA_CODE = 'AUTH_INVALID_MFA_CODE',
+  AUTH_TOKEN_REVOKED = 'AUTH_TOKEN_REVOKED',
+  AUTH_TOKEN_INVALID = 'AUTH_TOKEN_INVALID',
+  AUTH_REFRESH_TOKEN_INVALID = 'AUTH_REFRESH_TOKEN_INVALID',
+  AUTH_REFRESH_TOKEN_REUSED = 'AUTH_REFRESH_TOKEN_REUSED',
+  AUTH_REFRESH_TOKEN_EXPIRED = 'AUTH_REFRESH_TOKEN_EXPIRED',
+  AUTH_CURRENT_PASSWORD_INCORRECT = 'AUTH_CURRENT_PASSWORD_INCORRECT',
+  AUTH_RESET_TOKEN_INVALID = 'AUTH_RESET_TOKEN_INVALID',
+  AUTH_MFA_TOKEN_INVALID = 'AUTH_MFA_TOKEN_INVALID',
+  AUTH_OIDC_UNKNOWN_PROVIDER = 'AUTH_OIDC_UNKNOWN_PROVIDER',
+  AUTH_OIDC_INVALID_STATE = 'AUTH_OIDC_INVALID_STATE',
+  AUTH_OIDC_LOGIN_FAILED = 'AUTH_OIDC_LOGIN_FAILED',
+  AUTH_OIDC_ACCOUNT_NOT_LINKED = 'AUTH_OIDC_ACCOUNT_NOT_LINKED',
+  AUTH_OIDC_IDENTITY_IN_USE = 'AUTH_OIDC_IDENTITY_IN_USE',
+  AUTH_API_KEY_INVALID = 'AUTH_API_KEY_INVALID',
+  AUTH_API_KEY_EXPIRED = 'AUTH_API_KEY_EXPIRED',
+  AUTH_IMPERSONATION_NOT_ALLOWED = 'AUTH_IMPERSONATION_NOT_ALLOWED',
+  API_KEY_NOT_FOUND = 'API_KEY_NOT_FOUND',
+  SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
+  API_KEY_SCOPES_NOT_ALLOWED = 'API_KEY_SCOPES_NOT_ALLOWED',
+
+  MFA_ALREADY_ENABLED = 'MFA_ALREADY_ENABLED',
+  MFA_NOT_ENABLED = 'MFA_NOT_ENABLED',
+  MFA_SETUP_NOT_STARTED = 'MFA_SETUP_NOT_STARTED',
+  MFA_INVALID_CODE = 'MFA_INVALID_CODE',
+  MFA_REQUIRED_FOR_ADMINS = 'MFA_REQUIRED_FOR_ADMINS',
+
+  USER_NOT_FOUND = 'USER_NOT_FOUND',
+  USER_EMAIL_TAKEN = 'USER_EMAIL_TAKEN',
+  USER_UNKNOWN_ROLE = 'USER_UNKNOWN_ROLE',
+  USER_REFRESH_TOKEN_NOT_FOUND = 'USER_REFRESH_TOKEN_NOT_FOUND',
+  USER_VERIFICATION_TOKEN_INVALID = 'USER_VERIFICATION_TOKEN_INVALID',
+
+  ROLE_NOT_FOUND = 'ROLE_NOT_FOUND',
+  ROLE_ALREADY_EXISTS = 'ROLE_ALREADY_EXISTS',
+  ROLE_IN_USE = 'ROLE_IN_USE',
+  ROLE_BUILT_IN = 'ROLE_BUILT_IN',
+  ROLE_UNKNOWN_PERMISSIONS = 'ROLE_UNKNOWN_PERMISSIONS',
+
+  ORGANIZATION_NOT_FOUND = 'ORGANIZATION_NOT_FOUND',
+  ORGANIZATION_SLUG_TAKEN = 'ORGANIZATION_SLUG_TAKEN',
+  ORGANIZATION_MEMBER_NOT_FOUND = 'ORGANIZATION_MEMBER_NOT_FOUND',
+}
+
+/** One failed constraint of a request field */
+export interface FieldError {
+  // Path of the field, e.g. "address.street" or "items[0].name"
+  field: string;
+  // class-validator constraint name, e.g. "isEmail"; the key for localized messages
+  constraint: string;
+  message: string;
+  // The rejected value; left out for passwords, tokens and other secrets
+  value?: unknown;
+}
@@ -0,0 +1,27 @@
+export type HealthStatus = 'up' | 'down';
+
+/**
+ * A single check reported by /health/live and /health/ready. Modules
+ * register their own through HealthService.register().
+ */
+export interface HealthIndicator {
+  /** Key of the check in the report, e.g. "userStore" */
+  readonly name: string;
+  /** Liveness checks only look at the process itself; readiness runs every check */
+  readonly liveness?: boolean;
+  /** Resolves with optional details when healthy, and throws when not */
+  check(): Promise<Record<string, unknown> | void>;
+}
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  durationMs: number;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: Record<string, HealthCheckResult>;
+  timestamp: string;
+}
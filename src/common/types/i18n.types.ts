@@ -0,0 +1,8 @@
+export const SUPPORTED_LOCALES = ['en', 'de', 'es'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Values for the `{name}` placeholders of a message */
+export type TranslationParams = Record<string, unknown>;
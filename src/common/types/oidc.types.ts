@@ -0,0 +1,55 @@
+/** An OpenID Connect provider users can log in with, e.g. "google" */
+export interface OidcProviderConfig {
+  /** Path segment of /auth/oidc/:provider */
+  name: string;
+  /** Issuer URL; its /.well-known/openid-configuration is the discovery document */
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+}
+
+/** The parts of a discovery document the authorization-code flow needs */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+/** Claims of a verified ID token that identity linking relies on */
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+/** Link between a user and their account at an OIDC provider */
+export interface UserIdentity {
+  provider: string;
+  /** The provider's `sub` claim, stable per provider */
+  subject: string;
+  userId: string;
+  /** Email the provider reported when the identity was linked */
+  email?: string;
+  linkedAt: Date;
+}
+
+/** Where to send the browser, and the state its callback has to carry */
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  state: string;
+}
+
+/** A started authorization-code flow, kept until its callback arrives */
+export interface OidcAuthorizationRequest {
+  provider: string;
+  /** PKCE verifier; only its S256 challenge went to the provider */
+  codeVerifier: string;
+  nonce: string;
+  /** Set when a signed-in user links the identity instead of logging in */
+  linkUserId?: string;
+  expiresAt: number;
+}
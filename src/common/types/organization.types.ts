@@ -0,0 +1,29 @@
+/**
+ * A customer organization, the tenant users and role assignments belong to.
+ * The slug names it in the X-Tenant header and in subdomains.
+ */
+export interface Organization {
+  id: string;
+  slug: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A user's role in one organization, which replaces their own role there */
+export interface Membership {
+  organizationId: string;
+  userId: string;
+  // A built-in UserRole or the name of a custom role
+  role: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** An organization as one of its members sees it */
+export interface UserOrganization {
+  id: string;
+  slug: string;
+  name: string;
+  role: string;
+}
@@ -0,0 +1,37 @@
+export const PERMISSIONS = [
+  'users:read',
+  'users:update',
+  'users:delete',
+  'users:unlock',
+  'users:assign-role',
+  'roles:read',
+  'roles:manage',
+  'audit:read',
+  'sessions:read',
+  'sessions:revoke',
+  'organizations:read',
+  'organizations:manage',
+  'api-keys:manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * A role and the permissions it grants. Besides the names in PERMISSIONS,
+ * `resource:*` grants every permission on a resource and `*` grants all.
+ */
+export interface RoleDefinition {
+  name: string;
+  description?: string;
+  permissions: string[];
+  // Defined by the policy file rather than through the roles API
+  builtIn: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/** Whether the granted permissions cover one, directly or through a wildcard */
+export function grantsPermission(granted: string[], permission: string): boolean {
+  const [resource] = permission.split(':');
+  return granted.includes(permission) || granted.includes(`${resource}:*`) || granted.includes('*');
+}
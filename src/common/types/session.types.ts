@@ -0,0 +1,29 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+
+/** What a User-Agent header says about the client */
+export interface UserAgentInfo {
+  device: DeviceType;
+  browser: string | null;
+  os: string | null;
+}
+
+/**
+ * A login on one device. The id is the `sid` claim of the access tokens and
+ * the family of the refresh tokens issued for it.
+ */
+export interface Session extends UserAgentInfo {
+  id: string;
+  userId: string;
+  userAgent: string | null;
+  ip: string | null;
+  // The organization logged in to, which the session's tokens stay in
+  organizationId: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  revokedAt?: Date;
+}
+
+export interface SessionView extends Omit<Session, 'revokedAt'> {
+  // The session the request was made with
+  current: boolean;
+}
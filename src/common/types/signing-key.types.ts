@@ -0,0 +1,26 @@
+import { JsonWebKey, KeyObject } from 'crypto';
+import { JwtAlgorithm } from '../../config/env.validation';
+
+export type AsymmetricJwtAlgorithm = Exclude<JwtAlgorithm, 'HS256'>;
+
+/** A key pair that signs access tokens, identified by the `kid` header */
+export interface SigningKey {
+  kid: string;
+  algorithm: AsymmetricJwtAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  createdAt: Date;
+  /** Set once a newer key took over; the key then only verifies tokens */
+  retiredAt?: Date;
+}
+
+/** Public half of a signing key, as published in /.well-known/jwks.json */
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: AsymmetricJwtAlgorithm;
+  use: 'sig';
+}
+
+export interface Jwks {
+  keys: PublicJwk[];
+}
@@ -1,26 +1,74 @@
+import { UserOrganization } from './organization.types';
+
 export enum UserRole {
   ADMIN = 'admin',
   MODERATOR = 'moderator',
   USER = 'user',
 }
 
+export enum UserStatus {
+  PENDING_VERIFICATION = 'pending_verification',
+  ACTIVE = 'active',
+}
+
 export interface User {
   id: string;
   email: string;
   username: string;
-  role: UserRole;
+  // A built-in UserRole or the name of a custom role
+  role: string;
+  status: UserStatus;
   isActive: boolean;
+  mfaEnabled: boolean;
+  // Preferred language for messages; null uses the Accept-Language header
+  locale: string | null;
+  // Failed password attempts since the last successful login or lockout
+  failedLoginAttempts: number;
+  // Lockouts in a row; each one doubles the next lockout duration
+  lockoutCount: number;
+  lockedUntil: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type UserLockState = Pick<User, 'failedLoginAttempts' | 'lockoutCount' | 'lockedUntil'>;
+
+export const USER_SORT_FIELDS = ['email', 'username', 'role', 'createdAt', 'updatedAt'] as const;
+
+export type UserSortField = typeof USER_SORT_FIELDS[number];
+
+export type SortDirection = 'asc' | 'desc';
+
+/** The admin acting as another user, the `act` claim of RFC 8693 */
+export interface ImpersonationActor {
+  sub: string;
+  email: string;
+  role: string;
+}
+
 export interface UserPayload {
   sub: string;
   email: string;
   username: string;
-  role: UserRole;
+  role: string;
+  // Resolved from the role on every request, never taken from the token
+  permissions?: string[];
+  // Preferred language, also looked up on every request
+  locale?: string | null;
+  jti?: string;
+  // The session the token belongs to; see SessionsService
+  sid?: string;
   iat?: number;
   exp?: number;
+  // Set when the request authenticated with an API key instead of a JWT
+  apiKeyId?: string;
+  scopes?: string[];
+  // Set while an admin impersonates the user; sub and the rest stay the user's
+  act?: ImpersonationActor;
+  // The organization the token was issued in, when the login named one
+  org?: string;
+  // The organization the request acts in; role and permissions are the user's there
+  organization?: UserOrganization;
 }
 
 export interface CreateUserDto {
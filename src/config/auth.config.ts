@@ -0,0 +1,36 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { validatedEnv } from './env.validation';
+
+/**
+ * Auth Config
+ * Access token signing and the purpose-specific token secrets. Each purpose
+ * gets its own secret, derived from JWT_SECRET unless set, so a token issued
+ * for one purpose can never pass as another. Also holds the login lockout
+ * limits and the permissions policy file.
+ */
+export const authConfig = registerAs('auth', () => {
+  const env = validatedEnv();
+
+  return {
+    jwtSecret: env.JWT_SECRET,
+    jwtAlgorithm: env.JWT_ALGORITHM,
+    jwtKeysDir: env.JWT_KEYS_DIR,
+    jwtKeyRotationMs: env.JWT_KEY_ROTATION_HOURS * 60 * 60 * 1000,
+    refreshTokenTtlMs: env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+    apiKeyTtlMs: env.API_KEY_TTL_DAYS * 24 * 60 * 60 * 1000,
+    mfaTokenSecret: env.MFA_TOKEN_SECRET || `${env.JWT_SECRET}:mfa`,
+    mfaIssuer: env.MFA_ISSUER,
+    mfaRequiredForAdmins: env.MFA_REQUIRED_FOR_ADMINS,
+    passwordResetSecret: env.PASSWORD_RESET_SECRET || `${env.JWT_SECRET}:password-reset`,
+    passwordResetTtl: env.PASSWORD_RESET_TTL,
+    emailVerificationSecret: env.EMAIL_VERIFICATION_SECRET || `${env.JWT_SECRET}:email-verification`,
+    emailVerificationTtl: env.EMAIL_VERIFICATION_TTL,
+    loginMaxAttempts: env.LOGIN_MAX_ATTEMPTS,
+    loginIpMaxAttempts: env.LOGIN_IP_MAX_ATTEMPTS,
+    loginLockoutMs: env.LOGIN_LOCKOUT_SECONDS * 1000,
+    loginLockoutMaxMs: env.LOGIN_LOCKOUT_MAX_SECONDS * 1000,
+    permissionsPolicyFile: env.PERMISSIONS_POLICY_FILE,
+  };
+});
+
+export type AuthConfig = ConfigType<typeof authConfig>;
@@ -0,0 +1,99 @@
+import 'reflect-metadata';
+import { DEFAULT_JWT_SECRET, loadEnv, validateEnv } from './env.validation';
+import { httpConfig } from './http.config';
+import { oidcConfig } from './oidc.config';
+
+describe('validateEnv', () => {
+  const productionSecrets = {
+    NODE_ENV: 'production',
+    JWT_SECRET: 'a-long-random-jwt-secret',
+    COOKIE_SECRET: 'a-long-random-cookie-secret',
+  };
+
+  it('should fill in defaults and convert types', () => {
+    const env = validateEnv({ PORT: '8080', CORS_CREDENTIALS: 'false', MFA_REQUIRED_FOR_ADMINS: 'true' });
+
+    expect(env.PORT).toBe(8080);
+    expect(env.CORS_CREDENTIALS).toBe(false);
+    expect(env.MFA_REQUIRED_FOR_ADMINS).toBe(true);
+    expect(env.RATE_LIMIT_MAX).toBe(100);
+    expect(env.JWT_SECRET).toBe(DEFAULT_JWT_SECRET);
+  });
+
+  it('should list every invalid value', () => {
+    expect(() => validateEnv({ PORT: 'eighty', RATE_LIMIT_MAX: '0', NODE_ENV: 'staging' })).toThrow(
+      /NODE_ENV must be one of[\s\S]*PORT must be an integer number[\s\S]*RATE_LIMIT_MAX must not be less than 1/,
+    );
+  });
+
+  it('should only accept the known stores, transports and log levels', () => {
+    expect(() => validateEnv({ USER_STORE: 'postgres', AUDIT_STORE: 'syslog', MAIL_TRANSPORT: 'smtp', LOG_LEVEL: 'trace' })).toThrow(
+      /USER_STORE must be one of[\s\S]*AUDIT_STORE must be one of[\s\S]*MAIL_TRANSPORT must be one of[\s\S]*LOG_LEVEL must be one of/,
+    );
+    expect(() => validateEnv({ LOGIN_MAX_ATTEMPTS: '0', HEALTH_MAX_RSS_MB: 'lots' })).toThrow(
+      /LOGIN_MAX_ATTEMPTS must not be less than 1[\s\S]*HEALTH_MAX_RSS_MB must be an integer number/,
+    );
+  });
+
+  it('should accept the defaults outside production', () => {
+    expect(() => validateEnv({ NODE_ENV: 'development' })).not.toThrow();
+  });
+
+  it('should require secrets in production', () => {
+    expect(() => validateEnv({ NODE_ENV: 'production' })).toThrow(
+      /JWT_SECRET must be set in production[\s\S]*COOKIE_SECRET must be set in production/,
+    );
+  });
+
+  it('should reject default and example secrets in production', () => {
+    expect(() => validateEnv({ ...productionSecrets, JWT_SECRET: DEFAULT_JWT_SECRET })).toThrow(
+      'JWT_SECRET must not use a default or example value in production',
+    );
+    expect(() => validateEnv({ ...productionSecrets, MFA_TOKEN_SECRET: 'change-this-mfa-token-secret' })).toThrow(
+      'MFA_TOKEN_SECRET must not use a default or example value in production',
+    );
+  });
+
+  it('should accept explicit secrets in production', () => {
+    expect(validateEnv(productionSecrets).NODE_ENV).toBe('production');
+  });
+
+  it('should require an issuer URL and a client id for every OIDC provider', () => {
+    expect(() => validateEnv({ OIDC_PROVIDERS: 'my-idp', OIDC_MY_IDP_ISSUER: 'not a url' })).toThrow(
+      /OIDC_MY_IDP_ISSUER must be the URL[\s\S]*OIDC_MY_IDP_CLIENT_ID must be set/,
+    );
+    expect(() => validateEnv({ OIDC_PROVIDERS: 'Google' })).toThrow('OIDC_PROVIDERS must be a comma-separated list');
+    expect(() => validateEnv({
+      OIDC_PROVIDERS: 'my-idp',
+      OIDC_MY_IDP_ISSUER: 'https://idp.example.com',
+      OIDC_MY_IDP_CLIENT_ID: 'app',
+    })).not.toThrow();
+  });
+});
+
+describe('loadEnv', () => {
+  it('should read process.env by default', () => {
+    process.env.RATE_LIMIT_TTL = '30';
+
+    expect(loadEnv().RATE_LIMIT_TTL).toBe(30);
+    delete process.env.RATE_LIMIT_TTL;
+  });
+});
+
+describe('config namespaces', () => {
+  it('should be built from what the validate hook produced, not from process.env', () => {
+    process.env.RATE_LIMIT_TTL = '30';
+    validateEnv({
+      RATE_LIMIT_TTL: '45',
+      OIDC_PROVIDERS: 'my-idp',
+      OIDC_MY_IDP_ISSUER: 'https://idp.example.com',
+      OIDC_MY_IDP_CLIENT_ID: 'app',
+    });
+
+    expect(httpConfig().rateLimitTtlMs).toBe(45000);
+    expect(oidcConfig().providers).toEqual([
+      expect.objectContaining({ name: 'my-idp', issuer: 'https://idp.example.com', clientId: 'app' }),
+    ]);
+    delete process.env.RATE_LIMIT_TTL;
+  });
+});
@@ -0,0 +1,301 @@
+import { plainToInstance, Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsInt, IsOptional, IsString, isURL, Matches, Max, Min, MinLength, validateSync } from 'class-validator';
+
+export const DEFAULT_JWT_SECRET = 'your-secret-key';
+export const DEFAULT_COOKIE_SECRET = 'cookie-secret';
+
+export const JWT_ALGORITHMS = ['HS256', 'RS256', 'ES256'] as const;
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+export const NODE_ENVIRONMENTS = ['development', 'production', 'test'] as const;
+export type NodeEnvironment = (typeof NODE_ENVIRONMENTS)[number];
+
+export const USER_STORES = ['memory', 'sqlite'] as const;
+export type UserStoreKind = (typeof USER_STORES)[number];
+
+export const FILE_STORES = ['memory', 'file'] as const;
+export type FileStoreKind = (typeof FILE_STORES)[number];
+
+export const MAIL_TRANSPORTS = ['console', 'file'] as const;
+export type MailTransport = (typeof MAIL_TRANSPORTS)[number];
+
+// From most to least verbose
+export const LOG_LEVELS = ['verbose', 'debug', 'log', 'warn', 'error', 'fatal'] as const;
+export type LogLevelName = (typeof LOG_LEVELS)[number];
+
+/** Secrets that must be set explicitly in production */
+const REQUIRED_SECRETS = ['JWT_SECRET', 'COOKIE_SECRET'] as const;
+/** Secrets that fall back to a derived value, but must not be placeholders when set */
+const OPTIONAL_SECRETS = ['MFA_TOKEN_SECRET', 'PASSWORD_RESET_SECRET', 'EMAIL_VERIFICATION_SECRET', 'METRICS_TOKEN'] as const;
+/** The built-in defaults and the values shipped in env.example */
+const PLACEHOLDER_SECRETS = [DEFAULT_JWT_SECRET, DEFAULT_COOKIE_SECRET, 'your-super-secret-jwt-key-here'];
+
+// Reads the raw value, since implicit conversion would turn 'false' into true
+const toBoolean = ({ obj, key }: { obj: Record<string, unknown>; key: string }) =>
+  typeof obj[key] === 'string' ? obj[key] === 'true' : obj[key];
+
+/**
+ * Environment Variables
+ * Schema of the variables behind the typed configs in this directory.
+ * Field initializers are the defaults used when a variable is unset.
+ */
+export class EnvironmentVariables {
+  // Variables without a field of their own, such as the OIDC_<NAME>_* settings of each provider
+  [variable: string]: unknown;
+
+  @IsIn(NODE_ENVIRONMENTS)
+  NODE_ENV: NodeEnvironment = 'development';
+
+  @IsInt()
+  @Min(0)
+  @Max(65535)
+  PORT: number = 3000;
+
+  @IsString()
+  APP_URL: string = 'http://localhost:3000';
+
+  /** Domain whose subdomains name organizations, as in acme.app.example.com */
+  @IsOptional()
+  @IsString()
+  TENANT_BASE_DOMAIN?: string;
+
+  @IsString()
+  @MinLength(1)
+  JWT_SECRET: string = DEFAULT_JWT_SECRET;
+
+  @IsIn(JWT_ALGORITHMS)
+  JWT_ALGORITHM: JwtAlgorithm = 'HS256';
+
+  @IsOptional()
+  @IsString()
+  JWT_KEYS_DIR?: string;
+
+  @IsInt()
+  @Min(0)
+  JWT_KEY_ROTATION_HOURS: number = 0;
+
+  @IsInt()
+  @Min(1)
+  REFRESH_TOKEN_TTL_DAYS: number = 7;
+
+  /** Lifetime of an API key created without expiresInDays */
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  API_KEY_TTL_DAYS: number = 90;
+
+  @IsOptional()
+  @IsString()
+  MFA_TOKEN_SECRET?: string;
+
+  @IsString()
+  MFA_ISSUER: string = 'NestJS Advanced Features';
+
+  @Transform(toBoolean)
+  @IsBoolean()
+  MFA_REQUIRED_FOR_ADMINS: boolean = false;
+
+  /** Failed logins (or two-factor codes) that lock an account */
+  @IsInt()
+  @Min(1)
+  LOGIN_MAX_ATTEMPTS: number = 5;
+
+  @IsInt()
+  @Min(1)
+  LOGIN_IP_MAX_ATTEMPTS: number = 20;
+
+  /** First lockout period; it doubles with every lockout in a row */
+  @IsInt()
+  @Min(1)
+  LOGIN_LOCKOUT_SECONDS: number = 60;
+
+  @IsInt()
+  @Min(1)
+  LOGIN_LOCKOUT_MAX_SECONDS: number = 86400;
+
+  /** JSON file that replaces the built-in role permissions */
+  @IsOptional()
+  @IsString()
+  PERMISSIONS_POLICY_FILE?: string;
+
+  @IsOptional()
+  @IsString()
+  PASSWORD_RESET_SECRET?: string;
+
+  @IsString()
+  PASSWORD_RESET_TTL: string = '30m';
+
+  @IsOptional()
+  @IsString()
+  EMAIL_VERIFICATION_SECRET?: string;
+
+  @IsString()
+  EMAIL_VERIFICATION_TTL: string = '24h';
+
+  @IsOptional()
+  @IsString()
+  METRICS_TOKEN?: string;
+
+  /** Comma-separated addresses that may scrape metrics without the token */
+  @IsString()
+  METRICS_ALLOWED_IPS: string = '127.0.0.1,::1';
+
+  /** Comma-separated provider names; each one reads OIDC_<NAME>_* variables */
+  @Matches(/^([a-z0-9-]+(,[a-z0-9-]+)*)?$/, { message: 'OIDC_PROVIDERS must be a comma-separated list of lowercase names' })
+  OIDC_PROVIDERS: string = '';
+
+  @IsInt()
+  @Min(1)
+  OIDC_STATE_TTL_SECONDS: number = 600;
+
+  @IsString()
+  @MinLength(1)
+  COOKIE_SECRET: string = DEFAULT_COOKIE_SECRET;
+
+  @IsString()
+  CORS_ORIGIN: string = 'http://localhost:3000';
+
+  @Transform(toBoolean)
+  @IsBoolean()
+  CORS_CREDENTIALS: boolean = true;
+
+  @IsString()
+  CSRF_COOKIE_NAME: string = 'XSRF-TOKEN';
+
+  @IsString()
+  CSRF_HEADER_NAME: string = 'X-XSRF-TOKEN';
+
+  @IsInt()
+  @Min(1)
+  RATE_LIMIT_TTL: number = 60;
+
+  @IsInt()
+  @Min(1)
+  RATE_LIMIT_MAX: number = 100;
+
+  @IsIn(USER_STORES)
+  USER_STORE: UserStoreKind = 'memory';
+
+  @IsString()
+  SQLITE_PATH: string = 'data/app.sqlite';
+
+  @IsIn(FILE_STORES)
+  TOKEN_REVOCATION_STORE: FileStoreKind = 'memory';
+
+  @IsString()
+  TOKEN_REVOCATION_FILE: string = 'data/revoked-tokens.json';
+
+  @IsIn(FILE_STORES)
+  AUDIT_STORE: FileStoreKind = 'memory';
+
+  @IsString()
+  AUDIT_LOG_FILE: string = 'data/audit.ndjson';
+
+  @IsIn(MAIL_TRANSPORTS)
+  MAIL_TRANSPORT: MailTransport = 'console';
+
+  @IsString()
+  MAIL_OUTBOX_DIR: string = 'data/outbox';
+
+  @IsIn(LOG_LEVELS)
+  LOG_LEVEL: LogLevelName = 'log';
+
+  /** How long a single health check may take before it counts as failed */
+  @IsInt()
+  @Min(1)
+  HEALTH_CHECK_TIMEOUT_MS: number = 1000;
+
+  @IsInt()
+  @Min(1)
+  HEALTH_MAX_EVENT_LOOP_LAG_MS: number = 200;
+
+  @IsInt()
+  @Min(1)
+  HEALTH_MAX_RSS_MB: number = 1024;
+}
+
+/** Converts raw variables to their declared types, filling in defaults */
+export function loadEnv(config: Record<string, unknown> = process.env): EnvironmentVariables {
+  return plainToInstance(EnvironmentVariables, config, { enableImplicitConversion: true });
+}
+
+// What ConfigModule's validate hook produced, for the config namespaces to read
+let validated: EnvironmentVariables | undefined;
+
+/**
+ * Validation hook for ConfigModule. Throws one error listing every problem,
+ * so a misconfigured deployment fails at startup instead of on first use.
+ * The result is kept for validatedEnv().
+ */
+export function validateEnv(config: Record<string, unknown>): EnvironmentVariables {
+  const env = loadEnv(config);
+  const problems = validateSync(env).flatMap(error => Object.values(error.constraints ?? {}));
+  problems.push(...oidcProviderProblems(env, config));
+
+  if (env.NODE_ENV === 'production') {
+    problems.push(...insecureSecrets(env, config));
+  }
+
+  if (problems.length) {
+    throw new Error(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+  validated = env;
+  return env;
+}
+
+/**
+ * The environment as ConfigModule validated it, which the registerAs
+ * factories build their namespaces from. Outside the module, e.g. when a
+ * unit test calls a factory directly, process.env is validated on first use.
+ */
+export function validatedEnv(): EnvironmentVariables {
+  return validated ?? validateEnv(process.env);
+}
+
+/** Provider names listed in OIDC_PROVIDERS */
+export function oidcProviderNames(env: EnvironmentVariables): string[] {
+  return env.OIDC_PROVIDERS ? env.OIDC_PROVIDERS.split(',') : [];
+}
+
+/** Prefix of the variables of one provider, e.g. OIDC_MY_IDP_ for "my-idp" */
+export function oidcEnvPrefix(provider: string): string {
+  return `OIDC_${provider.toUpperCase().replace(/-/g, '_')}_`;
+}
+
+function oidcProviderProblems(env: EnvironmentVariables, config: Record<string, unknown>): string[] {
+  return oidcProviderNames(env).flatMap(provider => {
+    const prefix = oidcEnvPrefix(provider);
+    const issuer = config[`${prefix}ISSUER`];
+    const problems: string[] = [];
+
+    if (typeof issuer !== 'string' || !isURL(issuer, { require_tld: false, require_protocol: true })) {
+      problems.push(`${prefix}ISSUER must be the URL of the "${provider}" issuer`);
+    }
+    if (!config[`${prefix}CLIENT_ID`]) {
+      problems.push(`${prefix}CLIENT_ID must be set for the "${provider}" provider`);
+    }
+    return problems;
+  });
+}
+
+function insecureSecrets(env: EnvironmentVariables, config: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  const oidcSecrets = oidcProviderNames(env).map(provider => `${oidcEnvPrefix(provider)}CLIENT_SECRET`);
+
+  for (const name of [...REQUIRED_SECRETS, ...OPTIONAL_SECRETS, ...oidcSecrets]) {
+    const value = config[name];
+
+    if (value === undefined || value === '') {
+      if ((REQUIRED_SECRETS as readonly string[]).includes(name)) {
+        problems.push(`${name} must be set in production`);
+      }
+    } else if (isPlaceholder(String(value))) {
+      problems.push(`${name} must not use a default or example value in production`);
+    }
+  }
+  return problems;
+}
+
+function isPlaceholder(value: string): boolean {
+  return PLACEHOLDER_SECRETS.includes(value) || value.startsWith('change-this-');
+}
@@ -0,0 +1,17 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { validatedEnv } from './env.validation';
+
+/** HTTP Config: listening port, public URL, tenant domain and rate limits */
+export const httpConfig = registerAs('http', () => {
+  const env = validatedEnv();
+
+  return {
+    port: env.PORT,
+    appUrl: env.APP_URL,
+    tenantBaseDomain: env.TENANT_BASE_DOMAIN?.toLowerCase(),
+    rateLimitTtlMs: env.RATE_LIMIT_TTL * 1000,
+    rateLimitMax: env.RATE_LIMIT_MAX,
+  };
+});
+
+export type HttpConfig = ConfigType<typeof httpConfig>;
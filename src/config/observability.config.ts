@@ -0,0 +1,18 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { validatedEnv } from './env.validation';
+
+/** Observability Config: log level, health check limits and metrics access */
+export const observabilityConfig = registerAs('observability', () => {
+  const env = validatedEnv();
+
+  return {
+    logLevel: env.LOG_LEVEL,
+    healthCheckTimeoutMs: env.HEALTH_CHECK_TIMEOUT_MS,
+    healthMaxEventLoopLagMs: env.HEALTH_MAX_EVENT_LOOP_LAG_MS,
+    healthMaxRssMb: env.HEALTH_MAX_RSS_MB,
+    metricsToken: env.METRICS_TOKEN,
+    metricsAllowedIps: env.METRICS_ALLOWED_IPS.split(',').map(ip => ip.trim()).filter(Boolean),
+  };
+});
+
+export type ObservabilityConfig = ConfigType<typeof observabilityConfig>;
@@ -0,0 +1,36 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { oidcEnvPrefix, oidcProviderNames, validatedEnv } from './env.validation';
+import { OidcProviderConfig } from '../common/types/oidc.types';
+
+const DEFAULT_SCOPES = 'openid email profile';
+
+/**
+ * OIDC Config
+ * Providers listed in OIDC_PROVIDERS, each configured through its own
+ * OIDC_<NAME>_ISSUER, _CLIENT_ID, _CLIENT_SECRET and _SCOPES variables
+ */
+export const oidcConfig = registerAs('oidc', () => {
+  const env = validatedEnv();
+  const setting = (name: string): string | undefined => {
+    const value = env[name];
+    return typeof value === 'string' && value ? value : undefined;
+  };
+
+  const providers: OidcProviderConfig[] = oidcProviderNames(env).map(name => {
+    const prefix = oidcEnvPrefix(name);
+    return {
+      name,
+      issuer: setting(`${prefix}ISSUER`),
+      clientId: setting(`${prefix}CLIENT_ID`),
+      clientSecret: setting(`${prefix}CLIENT_SECRET`),
+      scopes: (setting(`${prefix}SCOPES`) || DEFAULT_SCOPES).split(/[\s,]+/).filter(Boolean),
+    };
+  });
+
+  return {
+    providers,
+    stateTtlMs: env.OIDC_STATE_TTL_SECONDS * 1000,
+  };
+});
+
+export type OidcConfig = ConfigType<typeof oidcConfig>;
@@ -0,0 +1,18 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { validatedEnv } from './env.validation';
+
+/** Security Config: cookie signing, CSRF and CORS */
+export const securityConfig = registerAs('security', () => {
+  const env = validatedEnv();
+
+  return {
+    cookieSecret: env.COOKIE_SECRET,
+    secureCookies: env.NODE_ENV === 'production',
+    csrfCookieName: env.CSRF_COOKIE_NAME,
+    csrfHeaderName: env.CSRF_HEADER_NAME,
+    corsOrigins: env.CORS_ORIGIN.split(',').map(origin => origin.trim()),
+    corsCredentials: env.CORS_CREDENTIALS,
+  };
+});
+
+export type SecurityConfig = ConfigType<typeof securityConfig>;
@@ -0,0 +1,20 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { validatedEnv } from './env.validation';
+
+/** Storage Config: where users, revoked tokens, audit entries and outgoing mail go */
+export const storageConfig = registerAs('storage', () => {
+  const env = validatedEnv();
+
+  return {
+    userStore: env.USER_STORE,
+    sqlitePath: env.SQLITE_PATH,
+    tokenRevocationStore: env.TOKEN_REVOCATION_STORE,
+    tokenRevocationFile: env.TOKEN_REVOCATION_FILE,
+    auditStore: env.AUDIT_STORE,
+    auditLogFile: env.AUDIT_LOG_FILE,
+    mailTransport: env.MAIL_TRANSPORT,
+    mailOutboxDir: env.MAIL_OUTBOX_DIR,
+  };
+});
+
+export type StorageConfig = ConfigType<typeof storageConfig>;
@@ -0,0 +1,63 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Response } from 'express';
+import { HealthService } from './health.service';
+import { HealthReport } from '../common/types/health.types';
+import { Public } from '../common/decorators/public.decorator';
+import { RawResponse } from '../common/decorators/raw-response.decorator';
+
+const REPORT_EXAMPLE: HealthReport = {
+  status: 'up',
+  checks: {
+    eventLoop: { status: 'up', durationMs: 0.42, details: { lagMs: 0.4, maxLagMs: 200 } },
+    memory: { status: 'up', durationMs: 0.05, details: { rssMb: 96, heapUsedMb: 41, heapTotalMb: 64, maxRssMb: 1024 } },
+    uptime: { status: 'up', durationMs: 0.02, details: { uptimeSeconds: 3600, startedAt: '2024-01-01T00:00:00.000Z' } },
+    userStore: { status: 'up', durationMs: 0.31 },
+    tokenRevocationStore: { status: 'up', durationMs: 0.12 },
+  },
+  timestamp: '2024-01-01T01:00:00.000Z',
+};
+
+/**
+ * Health Controller
+ * Probes for load balancers and orchestrators. They are public, never rate
+ * limited, and answer 503 as soon as one check is down.
+ */
+@ApiTags('Health')
+@Controller('health')
+@Public()
+@SkipThrottle()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  @RawResponse()
+  @ApiOperation({
+    summary: 'Liveness probe',
+    description: 'Checks the process itself: event-loop lag, memory and uptime. A failure means the process should be restarted.',
+  })
+  @ApiResponse({ status: 200, description: 'The process is healthy', schema: { example: REPORT_EXAMPLE } })
+  @ApiResponse({ status: 503, description: 'At least one check is down' })
+  async live(@Res({ passthrough: true }) res: Response): Promise<HealthReport> {
+    return this.send(res, await this.healthService.checkLiveness());
+  }
+
+  @Get('ready')
+  @RawResponse()
+  @ApiOperation({
+    summary: 'Readiness probe',
+    description: 'Runs every check, including the user store and the token revocation store. A failure means no traffic should be routed here.',
+  })
+  @ApiResponse({ status: 200, description: 'Ready to serve traffic', schema: { example: REPORT_EXAMPLE } })
+  @ApiResponse({ status: 503, description: 'At least one check is down' })
+  async ready(@Res({ passthrough: true }) res: Response): Promise<HealthReport> {
+    return this.send(res, await this.healthService.checkReadiness());
+  }
+
+  private send(res: Response, report: HealthReport): HealthReport {
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(report.status === 'up' ? HttpStatus.OK : HttpStatus.SERVICE_UNAVAILABLE);
+    return report;
+  }
+}
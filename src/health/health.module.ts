@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+import { EventLoopIndicator } from './indicators/event-loop.indicator';
+import { MemoryIndicator } from './indicators/memory.indicator';
+import { UptimeIndicator } from './indicators/uptime.indicator';
+
+// Global so any module can register its own indicators with HealthService
+@Global()
+@Module({
+  providers: [HealthService, EventLoopIndicator, MemoryIndicator, UptimeIndicator],
+  controllers: [HealthController],
+  exports: [HealthService],
+})
+export class HealthModule {}
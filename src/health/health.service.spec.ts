@@ -0,0 +1,70 @@
+import { Logger } from '@nestjs/common';
+import { HealthService } from './health.service';
+import { HealthIndicator } from '../common/types/health.types';
+import { observabilityConfig } from '../config/observability.config';
+
+describe('HealthService', () => {
+  let service: HealthService;
+
+  const indicator = (name: string, check: HealthIndicator['check'], liveness = false): HealthIndicator =>
+    ({ name, liveness, check });
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    service = new HealthService({ ...observabilityConfig(), healthCheckTimeoutMs: 50 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report up with the details of every check', async () => {
+    service.register(indicator('uptime', async () => ({ uptimeSeconds: 5 }), true));
+    service.register(indicator('userStore', async () => undefined));
+
+    const report = await service.checkReadiness();
+
+    expect(report.status).toBe('up');
+    expect(report.checks).toEqual({
+      uptime: { status: 'up', durationMs: expect.any(Number), details: { uptimeSeconds: 5 } },
+      userStore: { status: 'up', durationMs: expect.any(Number) },
+    });
+  });
+
+  it('should report down when a check throws', async () => {
+    service.register(indicator('userStore', async () => {
+      throw new Error('database is locked');
+    }));
+
+    const report = await service.checkReadiness();
+
+    expect(report.status).toBe('down');
+    expect(report.checks.userStore).toEqual(expect.objectContaining({ status: 'down', error: 'database is locked' }));
+  });
+
+  it('should fail checks that do not answer in time', async () => {
+    service.register(indicator('slow', () => new Promise(resolve => setTimeout(resolve, 1000).unref())));
+
+    const report = await service.checkReadiness();
+
+    expect(report.checks.slow).toEqual(expect.objectContaining({ status: 'down', error: 'Timed out after 50ms' }));
+  });
+
+  it('should only run liveness checks for the liveness probe', async () => {
+    service.register(indicator('memory', async () => undefined, true));
+    service.register(indicator('userStore', async () => {
+      throw new Error('unreachable');
+    }));
+
+    const report = await service.checkLiveness();
+
+    expect(report.status).toBe('up');
+    expect(Object.keys(report.checks)).toEqual(['memory']);
+  });
+
+  it('should refuse two indicators with the same name', () => {
+    service.register(indicator('userStore', async () => undefined));
+
+    expect(() => service.register(indicator('userStore', async () => undefined))).toThrow('already registered');
+  });
+});
@@ -0,0 +1,71 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { performance } from 'perf_hooks';
+import { HealthCheckResult, HealthIndicator, HealthReport } from '../common/types/health.types';
+import { observabilityConfig, ObservabilityConfig } from '../config/observability.config';
+
+/**
+ * Health Service
+ * Keeps the registered health indicators and runs them in parallel, each
+ * with a timeout, so a hanging dependency shows up as a failed check
+ * instead of a hanging probe.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+  private readonly indicators = new Map<string, HealthIndicator>();
+
+  constructor(@Inject(observabilityConfig.KEY) private readonly observability: ObservabilityConfig) {}
+
+  register(indicator: HealthIndicator): void {
+    if (this.indicators.has(indicator.name)) {
+      throw new Error(`Health indicator "${indicator.name}" is already registered`);
+    }
+    this.indicators.set(indicator.name, indicator);
+  }
+
+  /** Checks of the process itself: event loop, memory and uptime */
+  checkLiveness(): Promise<HealthReport> {
+    return this.run([...this.indicators.values()].filter(indicator => indicator.liveness));
+  }
+
+  /** Every check, including the stores the application depends on */
+  checkReadiness(): Promise<HealthReport> {
+    return this.run([...this.indicators.values()]);
+  }
+
+  private async run(indicators: HealthIndicator[]): Promise<HealthReport> {
+    const results = await Promise.all(indicators.map(indicator => this.runOne(indicator)));
+    const checks = Object.fromEntries(indicators.map((indicator, index) => [indicator.name, results[index]]));
+
+    return {
+      status: results.every(result => result.status === 'up') ? 'up' : 'down',
+      checks,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async runOne(indicator: HealthIndicator): Promise<HealthCheckResult> {
+    const start = performance.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${this.observability.healthCheckTimeoutMs}ms`)), this.observability.healthCheckTimeoutMs);
+      });
+      const details = await Promise.race([indicator.check(), timeout]);
+
+      return { status: 'up', durationMs: elapsed(start), ...(details && { details }) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Health check ${indicator.name} failed: ${message}`);
+
+      return { status: 'down', durationMs: elapsed(start), error: message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 100) / 100;
+}
@@ -0,0 +1,36 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { performance } from 'perf_hooks';
+import { HealthIndicator } from '../../common/types/health.types';
+import { HealthService } from '../health.service';
+import { observabilityConfig, ObservabilityConfig } from '../../config/observability.config';
+
+/**
+ * Event Loop Indicator
+ * Measures how long a callback queued with setImmediate waits to run. A
+ * long wait means something is blocking the loop and requests stall.
+ */
+@Injectable()
+export class EventLoopIndicator implements HealthIndicator, OnModuleInit {
+  readonly name = 'eventLoop';
+  readonly liveness = true;
+  constructor(
+    private readonly healthService: HealthService,
+    @Inject(observabilityConfig.KEY) private readonly observability: ObservabilityConfig,
+  ) {}
+
+  onModuleInit(): void {
+    this.healthService.register(this);
+  }
+
+  async check(): Promise<Record<string, unknown>> {
+    const start = performance.now();
+    await new Promise(resolve => setImmediate(resolve));
+    const lagMs = Math.round((performance.now() - start) * 100) / 100;
+
+    if (lagMs > this.observability.healthMaxEventLoopLagMs) {
+      throw new Error(`Event loop lag of ${lagMs}ms exceeds ${this.observability.healthMaxEventLoopLagMs}ms`);
+    }
+
+    return { lagMs, maxLagMs: this.observability.healthMaxEventLoopLagMs };
+  }
+}
@@ -0,0 +1,41 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { HealthIndicator } from '../../common/types/health.types';
+import { HealthService } from '../health.service';
+import { observabilityConfig, ObservabilityConfig } from '../../config/observability.config';
+
+const MB = 1024 * 1024;
+
+/**
+ * Memory Indicator
+ * Fails once the resident set size passes HEALTH_MAX_RSS_MB, so the
+ * orchestrator restarts a leaking process before the kernel kills it.
+ */
+@Injectable()
+export class MemoryIndicator implements HealthIndicator, OnModuleInit {
+  readonly name = 'memory';
+  readonly liveness = true;
+  constructor(
+    private readonly healthService: HealthService,
+    @Inject(observabilityConfig.KEY) private readonly observability: ObservabilityConfig,
+  ) {}
+
+  onModuleInit(): void {
+    this.healthService.register(this);
+  }
+
+  async check(): Promise<Record<string, unknown>> {
+    const { rss, heapUsed, heapTotal } = process.memoryUsage();
+    const rssMb = Math.round(rss / MB);
+
+    if (rssMb > this.observability.healthMaxRssMb) {
+      throw new Error(`Resident set size of ${rssMb}MB exceeds ${this.observability.healthMaxRssMb}MB`);
+    }
+
+    return {
+      rssMb,
+      heapUsedMb: Math.round(heapUsed / MB),
+      heapTotalMb: Math.round(heapTotal / MB),
+      maxRssMb: this.observability.healthMaxRssMb,
+    };
+  }
+}
@@ -0,0 +1,25 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { HealthIndicator } from '../../common/types/health.types';
+import { HealthService } from '../health.service';
+
+/** Reports how long the process has been running; never fails */
+@Injectable()
+export class UptimeIndicator implements HealthIndicator, OnModuleInit {
+  readonly name = 'uptime';
+  readonly liveness = true;
+
+  constructor(private readonly healthService: HealthService) {}
+
+  onModuleInit(): void {
+    this.healthService.register(this);
+  }
+
+  async check(): Promise<Record<string, unknown>> {
+    const uptimeSeconds = Math.round(process.uptime());
+
+    return {
+      uptimeSeconds,
+      startedAt: new Date(Date.now() - uptimeSeconds * 1000).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { I18nService } from './i18n.service';
+import { RequestContext } from '../common/context/request-context';
+import { ErrorCode } from '../common/types/error.types';
+import { SUPPORTED_LOCALES } from '../common/types/i18n.types';
+
+describe('I18nService', () => {
+  let service: I18nService;
+
+  beforeEach(() => {
+    service = new I18nService();
+  });
+
+  describe('negotiate', () => {
+    it('should pick the supported locale with the highest quality', () => {
+      expect(service.negotiate('fr;q=1, es;q=0.5, de;q=0.8')).toBe('de');
+    });
+
+    it('should match on the primary subtag', () => {
+      expect(service.negotiate('de-AT')).toBe('de');
+    });
+
+    it('should return nothing for unsupported or missing headers', () => {
+      expect(service.negotiate('fr, it')).toBeUndefined();
+      expect(service.negotiate(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('translate', () => {
+    it('should use the locale of the current request', () => {
+      const message = RequestContext.run({ requestId: 'req-1', locale: 'es' }, () =>
+        service.translate('errors.USER_NOT_FOUND'),
+      );
+
+      expect(message).toBe('Usuario no encontrado');
+    });
+
+    it('should fill in placeholders and join arrays', () => {
+      expect(service.translate('errors.ACCESS_DENIED_MISSING_ROLE', { roles: ['admin', 'moderator'], role: 'user' }))
+        .toBe('Access denied. Required roles: admin, moderator. Your role: user');
+    });
+
+    it('should fall back to the fallback text, then to the key', () => {
+      expect(service.translate('validation.isEmail', {}, 'email must be an email', 'en')).toBe('email must be an email');
+      expect(service.translate('errors.NOT_A_CODE')).toBe('errors.NOT_A_CODE');
+    });
+
+    it('should have a message for every error code in every locale', () => {
+      for (const locale of SUPPORTED_LOCALES) {
+        const catalogue = JSON.parse(fs.readFileSync(path.join(__dirname, 'locales', `${locale}.json`), 'utf8'));
+
+        expect(Object.keys(catalogue.errors).sort()).toEqual(Object.values(ErrorCode).sort());
+      }
+    });
+  });
+
+  describe('applyUserPreference', () => {
+    it('should switch the request to the preferred locale', () => {
+      const locale = RequestContext.run({ requestId: 'req-1', locale: 'en' }, () => {
+        service.applyUserPreference('de');
+        return service.currentLocale();
+      });
+
+      expect(locale).toBe('de');
+    });
+
+    it('should not override a locale chosen with ?lang=', () => {
+      const locale = RequestContext.run({ requestId: 'req-1', locale: 'es', localeFromQuery: true }, () => {
+        service.applyUserPreference('de');
+        return service.currentLocale();
+      });
+
+      expect(locale).toBe('es');
+    });
+  });
+});
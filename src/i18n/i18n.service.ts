@@ -0,0 +1,107 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RequestContext } from '../common/context/request-context';
+import { DEFAULT_LOCALE, Locale, SUPPORTED_LOCALES, TranslationParams } from '../common/types/i18n.types';
+
+type Catalogue = { [key: string]: string | Catalogue };
+
+const LOCALES_DIR = path.join(__dirname, 'locales');
+
+/**
+ * I18n Service
+ * Translates message keys such as `errors.USER_NOT_FOUND` from the JSON
+ * catalogues in `locales/`, into the locale of the current request. Missing
+ * entries fall back to English and then to the given fallback text.
+ */
+@Injectable()
+export class I18nService {
+  private readonly logger = new Logger(I18nService.name);
+  private readonly catalogues = new Map<Locale, Catalogue>();
+
+  constructor() {
+    for (const locale of SUPPORTED_LOCALES) {
+      this.catalogues.set(locale, this.loadCatalogue(locale));
+    }
+  }
+
+  /** The locale of the request being handled, or English outside of one */
+  currentLocale(): Locale {
+    return RequestContext.current()?.locale ?? DEFAULT_LOCALE;
+  }
+
+  translate(key: string, params: TranslationParams = {}, fallback?: string, locale = this.currentLocale()): string {
+    const template = this.lookup(locale, key) ?? this.lookup(DEFAULT_LOCALE, key) ?? fallback ?? key;
+    return interpolate(template, params);
+  }
+
+  isSupported(locale: unknown): locale is Locale {
+    return SUPPORTED_LOCALES.includes(locale as Locale);
+  }
+
+  /**
+   * Picks the supported locale with the highest quality from an
+   * Accept-Language header, matching on the primary subtag ("de-AT" is "de")
+   */
+  negotiate(acceptLanguage?: string): Locale | undefined {
+    if (!acceptLanguage) {
+      return undefined;
+    }
+
+    return acceptLanguage
+      .split(',')
+      .map((range, index) => {
+        const [tag, ...options] = range.trim().split(';');
+        const quality = options.map(option => option.trim()).find(option => option.startsWith('q='));
+        return { tag: tag.toLowerCase().split('-')[0], quality: quality ? Number(quality.slice(2)) : 1, index };
+      })
+      .filter(({ tag, quality }) => quality > 0 && this.isSupported(tag))
+      .sort((a, b) => b.quality - a.quality || a.index - b.index)
+      .map(({ tag }) => tag as Locale)[0];
+  }
+
+  /**
+   * Switches the current request to the user's preferred locale, unless
+   * the client asked for one explicitly with ?lang=
+   */
+  applyUserPreference(locale: string | null | undefined): void {
+    const context = RequestContext.current();
+
+    if (context && !context.localeFromQuery && this.isSupported(locale)) {
+      context.locale = locale;
+    }
+  }
+
+  private lookup(locale: Locale, key: string): string | undefined {
+    let node: string | Catalogue | undefined = this.catalogues.get(locale);
+
+    for (const part of key.split('.')) {
+      if (!node || typeof node === 'string') {
+        return undefined;
+      }
+      node = node[part];
+    }
+
+    return typeof node === 'string' ? node : undefined;
+  }
+
+  private loadCatalogue(locale: Locale): Catalogue {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, `${locale}.json`), 'utf8'));
+    } catch (error) {
+      this.logger.error(`Could not load the ${locale} catalogue: ${(error as Error).message}`);
+      return {};
+    }
+  }
+}
+
+/** Replaces `{name}` placeholders; arrays are joined with commas */
+function interpolate(template: string, params: TranslationParams): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
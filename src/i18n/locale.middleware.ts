@@ -0,0 +1,33 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { RequestContext } from '../common/context/request-context';
+import { DEFAULT_LOCALE } from '../common/types/i18n.types';
+import { I18nService } from './i18n.service';
+
+/**
+ * Locale Middleware
+ * Resolves the locale of the request from ?lang= or Accept-Language.
+ * JwtStrategy may still switch it to the signed-in user's preference.
+ * Runs after RequestIdMiddleware, inside the request context. The lang
+ * parameter is removed, so query DTOs do not reject it as unknown.
+ */
+@Injectable()
+export class LocaleMiddleware implements NestMiddleware {
+  constructor(private readonly i18n: I18nService) {}
+
+  use(req: Request, res: Response, next: NextFunction): void {
+    const context = RequestContext.current();
+
+    if (context) {
+      const lang = req.query.lang;
+      context.localeFromQuery = this.i18n.isSupported(lang);
+      context.locale = this.i18n.isSupported(lang)
+        ? lang
+        : this.i18n.negotiate(req.headers['accept-language']) ?? DEFAULT_LOCALE;
+    }
+
+    delete req.query.lang;
+
+    next();
+  }
+}
@@ -0,0 +1,97 @@
+import { Logger } from '@nestjs/common';
+import { JsonLogger } from './json-logger.service';
+import { REDACTED, redact } from './redact';
+import { RequestContext } from '../common/context/request-context';
+import { LogLevelName } from '../config/env.validation';
+import { observabilityConfig } from '../config/observability.config';
+
+describe('JsonLogger', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  const createLogger = (level?: LogLevelName) =>
+    new JsonLogger({ ...observabilityConfig(), ...(level && { logLevel: level }) });
+
+  const lines = (spy: jest.SpyInstance) => spy.mock.calls.map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write one JSON object per line with context and request ID', () => {
+    const logger = createLogger();
+
+    RequestContext.run({ requestId: 'req-1' }, () => logger.log('User created', 'UsersService'));
+
+    expect(lines(stdout)).toEqual([expect.objectContaining({
+      level: 'log',
+      context: 'UsersService',
+      requestId: 'req-1',
+      message: 'User created',
+      timestamp: expect.any(String),
+    })]);
+  });
+
+  it('should drop entries below LOG_LEVEL', () => {
+    const logger = createLogger('warn');
+
+    logger.log('ignored');
+    logger.debug('ignored');
+    logger.warn('kept');
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(lines(stderr).map(entry => entry.message)).toEqual(['kept']);
+  });
+
+  it('should separate the stack trace from the context of errors', () => {
+    const logger = createLogger();
+
+    logger.error('Boom', 'Error: Boom\n    at handler (app.js:1:1)', 'GlobalExceptionFilter');
+
+    expect(lines(stderr)[0]).toEqual(expect.objectContaining({
+      level: 'error',
+      context: 'GlobalExceptionFilter',
+      stack: 'Error: Boom\n    at handler (app.js:1:1)',
+    }));
+  });
+
+  it('should receive the calls of Nest loggers', () => {
+    Logger.overrideLogger(createLogger());
+
+    new Logger('AuditService').warn('Could not write audit entry');
+
+    expect(lines(stderr)[0]).toEqual(expect.objectContaining({ context: 'AuditService', level: 'warn' }));
+    Logger.overrideLogger(true);
+  });
+
+  it('should redact secrets in logged objects', () => {
+    const logger = createLogger();
+
+    logger.log({ email: 'user@example.com', password: 'password123' }, 'AuthService');
+
+    expect(lines(stdout)[0].data).toEqual({ email: 'user@example.com', password: REDACTED });
+  });
+});
+
+describe('redact', () => {
+  it('should mask sensitive keys at any depth', () => {
+    expect(redact({
+      body: { password: 'secret', refresh_token: 'abc', mfa_token: 'x', code: '123456', email: 'a@b.c' },
+      headers: [{ authorization: 'Bearer abc' }],
+    })).toEqual({
+      body: { password: REDACTED, refresh_token: REDACTED, mfa_token: REDACTED, code: REDACTED, email: 'a@b.c' },
+      headers: [{ authorization: REDACTED }],
+    });
+  });
+
+  it('should mask bearer credentials and JWTs inside strings', () => {
+    expect(redact('Authorization: Bearer abc.def-ghi')).toBe(`Authorization: Bearer ${REDACTED}`);
+    expect(redact('token eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig was rejected'))
+      .toBe(`token ${REDACTED} was rejected`);
+  });
+});
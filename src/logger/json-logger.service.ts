@@ -0,0 +1,85 @@
+import { Inject, Injectable, LoggerService, LogLevel } from '@nestjs/common';
+import { RequestContext } from '../common/context/request-context';
+import { redact } from './redact';
+import { observabilityConfig, ObservabilityConfig } from '../config/observability.config';
+
+// From most to least verbose
+const LOG_LEVELS: LogLevel[] = ['verbose', 'debug', 'log', 'warn', 'error', 'fatal'];
+const STACK_TRACE = /^.+\n\s+at .+:\d+:\d+/;
+
+/**
+ * JSON Logger
+ * Writes one JSON object per line with the level, context and ID of the
+ * request being handled. Secrets are redacted. Entries below LOG_LEVEL are
+ * dropped.
+ */
+@Injectable()
+export class JsonLogger implements LoggerService {
+  private minLevel: number;
+
+  constructor(@Inject(observabilityConfig.KEY) observability: ObservabilityConfig) {
+    this.minLevel = Math.max(LOG_LEVELS.indexOf(observability.logLevel), 0);
+  }
+
+  verbose(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('verbose', message, optionalParams);
+  }
+
+  debug(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('debug', message, optionalParams);
+  }
+
+  log(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('log', message, optionalParams);
+  }
+
+  warn(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('warn', message, optionalParams);
+  }
+
+  error(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('error', message, optionalParams);
+  }
+
+  fatal(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('fatal', message, optionalParams);
+  }
+
+  /** Called by Nest for `logger` options; keeps the least verbose level given */
+  setLogLevels(levels: LogLevel[]): void {
+    this.minLevel = Math.min(...levels.map(level => LOG_LEVELS.indexOf(level)).filter(index => index >= 0));
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= this.minLevel;
+  }
+
+  private write(level: LogLevel, message: unknown, optionalParams: unknown[]): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    // Like Nest's ConsoleLogger: the context comes last, and errors may
+    // carry a stack trace before it
+    const params = [...optionalParams];
+    const stack = (level === 'error' || level === 'fatal')
+      && (params.length === 2 || (params.length === 1 && STACK_TRACE.test(String(params[0]))))
+      ? params.shift()
+      : undefined;
+    const context = typeof params[params.length - 1] === 'string' ? params.pop() : undefined;
+
+    const entry = redact({
+      timestamp: new Date().toISOString(),
+      level,
+      context,
+      requestId: RequestContext.requestId(),
+      message: typeof message === 'string' ? message : undefined,
+      data: typeof message === 'string' ? undefined : message,
+      stack: stack ?? undefined,
+      params: params.length ? params : undefined,
+    });
+
+    const stream = level === 'error' || level === 'fatal' || level === 'warn' ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  }
+}
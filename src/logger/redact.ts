@@ -0,0 +1,44 @@
+export const REDACTED = '[REDACTED]';
+
+// Keys whose values never belong in a log line
+const SENSITIVE_KEY = /pass(word)?|secret|token|authorization|cookie|api[-_]?key|recovery[-_]?codes?|^code$/i;
+const BEARER = /\b(Bearer)\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const JWT = /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const MAX_DEPTH = 10;
+
+export function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEY.test(key);
+}
+
+/**
+ * Copies a value with secrets masked: values under sensitive keys, bearer
+ * credentials and anything that looks like a JWT
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.replace(BEARER, `$1 ${REDACTED}`).replace(JWT, REDACTED);
+  }
+
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message), stack: redact(value.stack) };
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      isSensitiveKey(key) && item !== null && item !== undefined ? REDACTED : redact(item, depth + 1),
+    ]),
+  );
+}
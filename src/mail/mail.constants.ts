@@ -0,0 +1 @@
+export const MAILER = 'MAILER';
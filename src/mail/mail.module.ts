@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MAILER } from './mail.constants';
+import { ConsoleMailer } from './transports/console.mailer';
+import { FileMailer } from './transports/file.mailer';
+import { storageConfig, StorageConfig } from '../config/storage.config';
+
+@Module({
+  providers: [
+    {
+      provide: MAILER,
+      inject: [storageConfig.KEY],
+      useFactory: (storage: StorageConfig) =>
+        storage.mailTransport === 'file'
+          ? new FileMailer(storage.mailOutboxDir)
+          : new ConsoleMailer(),
+    },
+  ],
+  exports: [MAILER],
+})
+export class MailModule {}
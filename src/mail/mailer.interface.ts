@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Mailer
+ * Transport-agnostic outgoing mail port. Inject it with the MAILER token.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,14 @@
+import { Logger } from '@nestjs/common';
+import { Mailer, MailMessage } from '../mailer.interface';
+
+/**
+ * Console Mailer
+ * Writes outgoing mail to the application log instead of sending it
+ */
+export class ConsoleMailer implements Mailer {
+  private readonly logger = new Logger(ConsoleMailer.name);
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
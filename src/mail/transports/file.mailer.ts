@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Mailer, MailMessage } from '../mailer.interface';
+
+/**
+ * File Mailer
+ * Drops every outgoing mail as a JSON file into an outbox directory
+ */
+export class FileMailer implements Mailer {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    await fs.promises.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+      'utf8',
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NestFactory } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { Logger, ValidationPipe } from '@nestjs/common';
 import helmet from 'helmet';
 import * as cookieParser from 'cookie-parser';
 import * as csurf from 'csurf';
@@ -8,9 +8,21 @@ import { Reflector } from '@nestjs/core';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { GlobalExceptionFilter } from './common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from './common/filters/validation-exception.filter';
+import { I18nService } from './i18n/i18n.service';
+import { validationExceptionFactory } from './common/exceptions/validation-failed.exception';
+import { JsonLogger } from './logger/json-logger.service';
+import { securityConfig, SecurityConfig } from './config/security.config';
+import { httpConfig, HttpConfig } from './config/http.config';
+import { TENANT_HEADER } from './users/users.constants';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Startup logs are held back until the JSON logger takes over
+  const app = await NestFactory.create(AppModule, { bufferLogs: true });
+  app.useLogger(app.get(JsonLogger));
+  const logger = new Logger('Bootstrap');
+  const security = app.get<SecurityConfig>(securityConfig.KEY);
+  const http = app.get<HttpConfig>(httpConfig.KEY);
   
   // Security: Helmet (sensible security headers)
   app.use(helmet({
@@ -18,40 +30,40 @@ async function bootstrap() {
     contentSecurityPolicy: false, // adapt if you maintain CSP
   }));
 
-  // Security: CORS from environment
-  const corsOrigin = process.env.CORS_ORIGIN?.split(',').map(o => o.trim()) || ['http://localhost:3000'];
-  const corsCredentials = (process.env.CORS_CREDENTIALS || 'true') === 'true';
+  // Security: CORS from the security config
   app.enableCors({
-    origin: corsOrigin,
-    credentials: corsCredentials,
+    origin: security.corsOrigins,
+    credentials: security.corsCredentials,
     methods: ['GET','POST','PUT','PATCH','DELETE','OPTIONS'],
-    allowedHeaders: ['Content-Type','Authorization','X-Requested-With', process.env.CSRF_HEADER_NAME || 'X-XSRF-TOKEN'],
-    exposedHeaders: ['Authorization'],
+    allowedHeaders: ['Content-Type','Authorization','X-Requested-With','X-Request-Id', TENANT_HEADER, security.csrfHeaderName],
+    exposedHeaders: ['Authorization','X-Request-Id'],
   });
 
   // Cookies for CSRF token and session-like features
-  app.use(cookieParser(process.env.COOKIE_SECRET || 'cookie-secret'));
+  app.use(cookieParser(security.cookieSecret));
 
   // Global validation pipe
   app.useGlobalPipes(new ValidationPipe({
     whitelist: true,
     forbidNonWhitelisted: true,
     transform: true,
+    exceptionFactory: validationExceptionFactory,
   }));
   
-  // Global exception filter
-  app.useGlobalFilters(new GlobalExceptionFilter());
+  // Global exception filters; the one registered last is tried first, so
+  // validation errors reach ValidationExceptionFilter before the catch-all
+  const i18n = app.get(I18nService);
+  app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
   
   // CSRF Protection (for browser-based clients using cookies)
   // Uses double-submit cookie strategy; send header with value from cookie
-  const csrfCookieName = process.env.CSRF_COOKIE_NAME || 'XSRF-TOKEN';
-  const csrfHeaderName = process.env.CSRF_HEADER_NAME || 'X-XSRF-TOKEN';
+  const { csrfCookieName, csrfHeaderName } = security;
   app.use(csurf({
     cookie: {
       key: csrfCookieName,
       httpOnly: false, // readable by JS to set header
       sameSite: 'lax',
-      secure: process.env.NODE_ENV === 'production',
+      secure: security.secureCookies,
     },
     value: (req: any) => req.headers[csrfHeaderName.toLowerCase()] as string,
   }));
@@ -64,7 +76,7 @@ async function bootstrap() {
       res.cookie(csrfCookieName, token, {
         httpOnly: false,
         sameSite: 'lax',
-        secure: process.env.NODE_ENV === 'production',
+        secure: security.secureCookies,
       });
     }
     next();
@@ -89,6 +101,9 @@ async function bootstrap() {
       - **moderator**: Can view all users
       - **user**: Can only access own resources
       
+      ## Organizations
+      Name an organization in the \`X-Tenant\` header (id or slug) or as a subdomain of \`TENANT_BASE_DOMAIN\`. Within it, users are its members and hold the role assigned there; tokens issued there stay there.
+      
       ## Pre-configured Test Users
       - **Admin**: \`admin@example.com\` / \`password123\`
       - **User**: \`user@example.com\` / \`password123\`
@@ -105,9 +120,30 @@ async function bootstrap() {
       },
       'JWT-auth',
     )
+    .addBearerAuth(
+      {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'Enter the METRICS_TOKEN value',
+        in: 'header',
+      },
+      'metrics-token',
+    )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        name: 'X-API-Key',
+        description: 'Enter an API key created at POST /api-keys',
+        in: 'header',
+      },
+      'api-key',
+    )
     .addTag('Authentication', 'User authentication and authorization')
     .addTag('Users', 'User management operations')
-    .addTag('Health', 'Application health check')
+    .addTag('Health', 'Application info, liveness and readiness probes')
+    .addTag('Metrics', 'Prometheus metrics for scrapers')
+    .addTag('API Keys', 'Scoped keys for machine clients')
+    .addTag('Organizations', 'Tenants with their own members and role assignments')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -125,12 +161,10 @@ async function bootstrap() {
     `,
   });
   
-  const port = parseInt(process.env.PORT || '3000', 10);
+  const { port } = http;
   await app.listen(port);
-  console.log(`🚀 Application is running on: http://localhost:${port}`);
-  console.log(`📚 Swagger UI is available at: http://localhost:${port}/api`);
-  console.log('🔐 Test Users:');
-  console.log('   Admin: admin@example.com / password123');
-  console.log('   User:  user@example.com / password123');
+  logger.log(`Application is running on: http://localhost:${port}`);
+  logger.log(`Swagger UI is available at: http://localhost:${port}/api`);
+  logger.log('Test users: admin@example.com and user@example.com, both with password123');
 }
 bootstrap();
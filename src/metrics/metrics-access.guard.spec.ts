@@ -0,0 +1,42 @@
+import { ExecutionContext } from '@nestjs/common';
+import { MetricsAccessGuard } from './metrics-access.guard';
+import { MetricsAccessDeniedException } from './metrics.exceptions';
+import { observabilityConfig, ObservabilityConfig } from '../config/observability.config';
+
+describe('MetricsAccessGuard', () => {
+  const contextFor = (ip: string, authorization?: string): ExecutionContext =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ ip, headers: { authorization } }) }),
+    }) as unknown as ExecutionContext;
+
+  const createGuard = (overrides: Partial<ObservabilityConfig> = {}) =>
+    new MetricsAccessGuard({ ...observabilityConfig(), ...overrides });
+
+  it('should allow loopback clients by default', () => {
+    const guard = createGuard();
+
+    expect(guard.canActivate(contextFor('127.0.0.1'))).toBe(true);
+    expect(guard.canActivate(contextFor('::ffff:127.0.0.1'))).toBe(true);
+    expect(guard.canActivate(contextFor('::1'))).toBe(true);
+  });
+
+  it('should reject other addresses without a token', () => {
+    const guard = createGuard();
+
+    expect(() => guard.canActivate(contextFor('10.0.0.5'))).toThrow(MetricsAccessDeniedException);
+  });
+
+  it('should allow any address with the metrics token', () => {
+    const guard = createGuard({ metricsToken: 'scrape-secret', metricsAllowedIps: [] });
+
+    expect(guard.canActivate(contextFor('10.0.0.5', 'Bearer scrape-secret'))).toBe(true);
+    expect(() => guard.canActivate(contextFor('10.0.0.5', 'Bearer wrong'))).toThrow(MetricsAccessDeniedException);
+    expect(() => guard.canActivate(contextFor('127.0.0.1'))).toThrow(MetricsAccessDeniedException);
+  });
+
+  it('should use the configured allow-list', () => {
+    const guard = createGuard({ metricsAllowedIps: ['10.0.0.5', '10.0.0.6'] });
+
+    expect(guard.canActivate(contextFor('10.0.0.6'))).toBe(true);
+  });
+});
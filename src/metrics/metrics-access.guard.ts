@@ -0,0 +1,47 @@
+import { CanActivate, ExecutionContext, Inject, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { MetricsAccessDeniedException } from './metrics.exceptions';
+import { observabilityConfig, ObservabilityConfig } from '../config/observability.config';
+
+/**
+ * Metrics Access Guard
+ * Scrapers authenticate with `Authorization: Bearer <METRICS_TOKEN>` or by
+ * connecting from an address in METRICS_ALLOWED_IPS (loopback by default).
+ * User JWTs play no part, so a leaked user token never exposes metrics.
+ */
+@Injectable()
+export class MetricsAccessGuard implements CanActivate {
+  constructor(@Inject(observabilityConfig.KEY) private readonly observability: ObservabilityConfig) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    if (this.hasValidToken(request) || this.observability.metricsAllowedIps.includes(normalizeIp(request.ip))) {
+      return true;
+    }
+
+    throw new MetricsAccessDeniedException();
+  }
+
+  private hasValidToken(request: Request): boolean {
+    const [scheme, credentials] = (request.headers.authorization ?? '').split(' ');
+    const token = this.observability.metricsToken;
+
+    if (!token || scheme !== 'Bearer' || !credentials) {
+      return false;
+    }
+
+    // Hashing first gives equal lengths, which timingSafeEqual requires
+    return timingSafeEqual(sha256(credentials), sha256(token));
+  }
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/** IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d */
+function normalizeIp(ip: string | undefined): string {
+  return ip?.startsWith('::ffff:') ? ip.slice('::ffff:'.length) : ip ?? '';
+}
@@ -0,0 +1,32 @@
+import { Controller, Get, Header, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiProduces, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { MetricsService, PROMETHEUS_CONTENT_TYPE } from './metrics.service';
+import { MetricsAccessGuard } from './metrics-access.guard';
+import { Public } from '../common/decorators/public.decorator';
+import { RawResponse } from '../common/decorators/raw-response.decorator';
+
+@ApiTags('Metrics')
+@ApiBearerAuth('metrics-token')
+@Controller('metrics')
+@Public()
+@SkipThrottle()
+@UseGuards(MetricsAccessGuard)
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @RawResponse()
+  @Header('Content-Type', PROMETHEUS_CONTENT_TYPE)
+  @Header('Cache-Control', 'no-store')
+  @ApiOperation({
+    summary: 'Prometheus metrics',
+    description: 'Request durations, login outcomes, rate-limit rejections, guard denials and active users in the Prometheus text format. Requires the METRICS_TOKEN bearer token or an address from METRICS_ALLOWED_IPS.',
+  })
+  @ApiProduces(PROMETHEUS_CONTENT_TYPE)
+  @ApiResponse({ status: 200, description: 'Metrics in the Prometheus text format' })
+  @ApiResponse({ status: 403, description: 'Neither the metrics token nor an allowed address' })
+  scrape(): Promise<string> {
+    return this.metricsService.render();
+  }
+}
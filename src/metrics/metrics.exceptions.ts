@@ -0,0 +1,13 @@
+import { HttpStatus } from '@nestjs/common';
+import { DomainException } from '../common/exceptions/domain.exception';
+import { ErrorCode } from '../common/types/error.types';
+
+export class MetricsAccessDeniedException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.METRICS_ACCESS_DENIED,
+      'Metrics are only available with the metrics token or from an allowed address',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
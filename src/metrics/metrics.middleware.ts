@@ -0,0 +1,31 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { MetricsService } from './metrics.service';
+
+// Requests that match no route share one label, so scanners cannot blow up the series count
+export const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * Metrics Middleware
+ * Times every request and records it under the route template, such as
+ * /users/:id, rather than the concrete URL
+ */
+@Injectable()
+export class MetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(req: Request, res: Response, next: NextFunction): void {
+    const start = process.hrtime.bigint();
+
+    res.on('finish', () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.metricsService.observeRequest(req.method, routeTemplate(req), res.statusCode, seconds);
+    });
+
+    next();
+  }
+}
+
+export function routeTemplate(req: Request): string {
+  return req.route?.path ?? UNMATCHED_ROUTE;
+}
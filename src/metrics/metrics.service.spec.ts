@@ -0,0 +1,60 @@
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(() => {
+    service = new MetricsService();
+  });
+
+  it('should render counters with their help and type lines', async () => {
+    service.recordLoginFailure('AUTH_INVALID_CREDENTIALS');
+    service.recordLoginFailure('AUTH_INVALID_CREDENTIALS');
+    service.recordLoginFailure('AUTH_ACCOUNT_LOCKED');
+
+    const output = await service.render();
+
+    expect(output).toContain('# HELP auth_login_failure_total Rejected login attempts by error code');
+    expect(output).toContain('# TYPE auth_login_failure_total counter');
+    expect(output).toContain('auth_login_failure_total{code="AUTH_INVALID_CREDENTIALS"} 2');
+    expect(output).toContain('auth_login_failure_total{code="AUTH_ACCOUNT_LOCKED"} 1');
+    expect(output.endsWith('\n')).toBe(true);
+  });
+
+  it('should render cumulative histogram buckets per route template', async () => {
+    service.observeRequest('GET', '/users/:id', 200, 0.02);
+    service.observeRequest('GET', '/users/:id', 200, 0.3);
+
+    const output = await service.render();
+    const labels = 'method="GET",route="/users/:id",status="200"';
+
+    expect(output).toContain(`http_request_duration_seconds_bucket{${labels},le="0.01"} 0`);
+    expect(output).toContain(`http_request_duration_seconds_bucket{${labels},le="0.025"} 1`);
+    expect(output).toContain(`http_request_duration_seconds_bucket{${labels},le="0.5"} 2`);
+    expect(output).toContain(`http_request_duration_seconds_bucket{${labels},le="+Inf"} 2`);
+    expect(output).toContain(`http_request_duration_seconds_sum{${labels}} 0.32`);
+    expect(output).toContain(`http_request_duration_seconds_count{${labels}} 2`);
+  });
+
+  it('should escape quotes and backslashes in label values', async () => {
+    service.recordThrottled('/files/"a\\b"');
+
+    expect(await service.render()).toContain('http_throttled_requests_total{route="/files/\\"a\\\\b\\""} 1');
+  });
+
+  it('should read registered gauges on every scrape', async () => {
+    let active = 3;
+    service.registerGauge('users_active', 'Active accounts', async () => active);
+
+    expect(await service.render()).toContain('users_active 3');
+    active = 4;
+    expect(await service.render()).toContain('users_active 4');
+  });
+
+  it('should refuse two metrics with the same name', () => {
+    const read = async () => 0;
+    service.registerGauge('users_active', 'Active accounts', read);
+
+    expect(() => service.registerGauge('users_active', 'Active accounts', read)).toThrow('already registered');
+  });
+});
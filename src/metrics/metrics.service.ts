@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { Counter, Gauge, Histogram, Metric } from './prometheus';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Metrics Service
+ * Holds the application metrics and renders them for /metrics. Modules
+ * record events through the methods below, and add scrape-time gauges
+ * with registerGauge().
+ */
+@Injectable()
+export class MetricsService {
+  private readonly metrics = new Map<string, Metric>();
+
+  private readonly requestDuration = this.register(new Histogram(
+    'http_request_duration_seconds',
+    'Duration of HTTP requests by route template and status',
+    ['method', 'route', 'status'],
+  ));
+  private readonly loginSuccesses = this.register(new Counter(
+    'auth_login_success_total',
+    'Completed logins, including the second step of two-factor logins',
+  ));
+  private readonly loginFailures = this.register(new Counter(
+    'auth_login_failure_total',
+    'Rejected login attempts by error code',
+    ['code'],
+  ));
+  private readonly throttled = this.register(new Counter(
+    'http_throttled_requests_total',
+    'Requests rejected by the rate limiter',
+    ['route'],
+  ));
+  private readonly guardDenials = this.register(new Counter(
+    'guard_denials_total',
+    'Requests denied by an authorization guard',
+    ['guard'],
+  ));
+
+  observeRequest(method: string, route: string, status: number, seconds: number): void {
+    this.requestDuration.observe({ method, route, status }, seconds);
+  }
+
+  recordLoginSuccess(): void {
+    this.loginSuccesses.inc();
+  }
+
+  recordLoginFailure(code: string): void {
+    this.loginFailures.inc({ code });
+  }
+
+  recordThrottled(route: string): void {
+    this.throttled.inc({ route });
+  }
+
+  recordGuardDenial(guard: string): void {
+    this.guardDenials.inc({ guard });
+  }
+
+  registerGauge(name: string, help: string, read: () => Promise<number>): void {
+    this.register(new Gauge(name, help, read));
+  }
+
+  async render(): Promise<string> {
+    const blocks = await Promise.all([...this.metrics.values()].map(metric => metric.render()));
+    return `${blocks.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric "${metric.name}" is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
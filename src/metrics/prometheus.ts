@@ -0,0 +1,132 @@
+/**
+ * Minimal Prometheus primitives
+ * Counters, gauges and histograms that render themselves in the text
+ * exposition format (version 0.0.4). Labels are fixed per metric.
+ */
+
+export type LabelValues<L extends string> = Record<L, string | number>;
+
+export interface Metric {
+  readonly name: string;
+  render(): Promise<string>;
+}
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+abstract class LabelledMetric<L extends string, V> implements Metric {
+  protected readonly series = new Map<string, { labels: LabelValues<L>; value: V }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram',
+    protected readonly labelNames: readonly L[] = [],
+  ) {}
+
+  async render(): Promise<string> {
+    await this.collect();
+
+    const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.samples(labels, value));
+    }
+    return lines.join('\n');
+  }
+
+  /** Hook for metrics whose value is read at scrape time */
+  protected async collect(): Promise<void> {}
+
+  protected abstract samples(labels: LabelValues<L>, value: V): string[];
+
+  protected entry(labels: LabelValues<L>, initial: () => V): { labels: LabelValues<L>; value: V } {
+    const key = this.labelNames.map(name => String(labels[name])).join('\u0000');
+    let entry = this.series.get(key);
+
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter<L extends string = never> extends LabelledMetric<L, number> {
+  constructor(name: string, help: string, labelNames: readonly L[] = []) {
+    super(name, help, 'counter', labelNames);
+  }
+
+  inc(labels: LabelValues<L> = {} as LabelValues<L>, amount = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  protected samples(labels: LabelValues<L>, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+/** A gauge whose value is read on every scrape */
+export class Gauge extends LabelledMetric<never, number> {
+  constructor(name: string, help: string, private readonly read: () => Promise<number>) {
+    super(name, help, 'gauge');
+  }
+
+  protected async collect(): Promise<void> {
+    this.entry({}, () => 0).value = await this.read();
+  }
+
+  protected samples(labels: LabelValues<never>, value: number): string[] {
+    return [`${this.name} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram<L extends string = never> extends LabelledMetric<L, HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly L[] = [],
+    private readonly buckets: number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, 'histogram', labelNames);
+  }
+
+  observe(labels: LabelValues<L>, value: number): void {
+    const entry = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.value.buckets[index]++;
+      }
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  protected samples(labels: LabelValues<L>, value: HistogramValue): string[] {
+    return [
+      ...this.buckets.map((bound, index) =>
+        `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+function formatLabels(labels: Record<string, string | number>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(String(value))}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,20 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { MetricsService } from '../metrics/metrics.service';
+import { UsersService } from './users.service';
+
+/** Publishes the number of active accounts as the users_active gauge */
+@Injectable()
+export class ActiveUsersGauge implements OnModuleInit {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.metricsService.registerGauge(
+      'users_active',
+      'Accounts that have not been deactivated',
+      () => this.usersService.countActive(),
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { EmailVerificationService } from './email-verification.service';
+import { UsersService } from './users.service';
+import { RolesService } from './roles.service';
+import { OrganizationsService } from './organizations.service';
+import { USER_REPOSITORY } from './users.constants';
+import { InvalidVerificationTokenException } from './users.exceptions';
+import { InMemoryUserRepository } from './repositories/in-memory-user.repository';
+import { MAILER } from '../mail/mail.constants';
+import { UserStatus } from '../common/types/user.types';
+import { AuditService } from '../audit/audit.service';
+import { AUDIT_STORE } from '../audit/audit.constants';
+import { InMemoryAuditStore } from '../audit/stores/in-memory-audit.store';
+import { authConfig } from '../config/auth.config';
+import { httpConfig } from '../config/http.config';
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+  let usersService: UsersService;
+  let jwtService: JwtService;
+  let mailer: { send: jest.Mock };
+
+  const tokenFromLastMail = (): string => {
+    const { text } = mailer.send.mock.calls[mailer.send.mock.calls.length - 1][0];
+    return text.match(/token=([^\s]+)/)[1];
+  };
+
+  const createPendingUser = () => usersService.create({
+    email: 'pending@example.com',
+    username: 'pending',
+    password: 'password123',
+  });
+
+  beforeEach(async () => {
+    mailer = { send: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: AUDIT_STORE,
+          useValue: new InMemoryAuditStore(),
+        },
+        EmailVerificationService,
+        UsersService,
+        RolesService,
+        OrganizationsService,
+        {
+          provide: USER_REPOSITORY,
+          useValue: new InMemoryUserRepository(),
+        },
+        {
+          provide: JwtService,
+          useValue: new JwtService({}),
+        },
+        {
+          provide: MAILER,
+          useValue: mailer,
+        },
+        {
+          provide: authConfig.KEY,
+          useValue: authConfig(),
+        },
+        {
+          provide: httpConfig.KEY,
+          useValue: httpConfig(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<EmailVerificationService>(EmailVerificationService);
+    usersService = module.get<UsersService>(UsersService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should mail a verification link to the user', async () => {
+      const user = await createPendingUser();
+
+      await service.sendVerificationEmail(user);
+
+      expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'pending@example.com' }));
+      expect(tokenFromLastMail()).toBeDefined();
+    });
+  });
+
+  describe('verify', () => {
+    it('should activate the account for a valid token', async () => {
+      const user = await createPendingUser();
+      await service.sendVerificationEmail(user);
+
+      const result = await service.verify(tokenFromLastMail());
+
+      expect(result.status).toBe(UserStatus.ACTIVE);
+      expect((result as any).password).toBeUndefined();
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const user = await createPendingUser();
+      const forged = jwtService.sign(
+        { sub: user.id, email: user.email, purpose: 'email-verification' },
+        { secret: 'another-secret' },
+      );
+
+      await expect(service.verify(forged)).rejects.toThrow(InvalidVerificationTokenException);
+    });
+
+    it('should reject the token once the email address changed', async () => {
+      const user = await createPendingUser();
+      await service.sendVerificationEmail(user);
+      await usersService.update(user.id, { email: 'changed@example.com' });
+
+      await expect(service.verify(tokenFromLastMail())).rejects.toThrow(InvalidVerificationTokenException);
+    });
+
+    it('should only accept the latest link', async () => {
+      const user = await createPendingUser();
+      await service.sendVerificationEmail(user);
+      const earlierToken = tokenFromLastMail();
+      await service.sendVerificationEmail(user);
+
+      await expect(service.verify(earlierToken)).rejects.toThrow(InvalidVerificationTokenException);
+      await expect(service.verify(tokenFromLastMail())).resolves.toEqual(expect.objectContaining({ status: UserStatus.ACTIVE }));
+    });
+  });
+
+  describe('resend', () => {
+    it('should resend for pending accounts', async () => {
+      await createPendingUser();
+
+      await service.resend('pending@example.com');
+
+      expect(mailer.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should silently ignore unknown and verified accounts', async () => {
+      await service.resend('nobody@example.com');
+      await service.resend('admin@example.com');
+
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+  });
+});
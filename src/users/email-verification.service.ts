@@ -0,0 +1,93 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+import { User, UserStatus } from '../common/types/user.types';
+import { MAILER } from '../mail/mail.constants';
+import { Mailer } from '../mail/mailer.interface';
+import { UsersService } from './users.service';
+import { toUser } from './repositories/user.repository';
+import { InvalidVerificationTokenException } from './users.exceptions';
+import { authConfig, AuthConfig } from '../config/auth.config';
+import { httpConfig, HttpConfig } from '../config/http.config';
+
+const EMAIL_VERIFICATION_PURPOSE = 'email-verification';
+
+interface EmailVerificationPayload {
+  sub: string;
+  email: string;
+  purpose: string;
+  /** Matches the user's current nonce only for the latest link */
+  nonce: string;
+}
+
+/**
+ * Email Verification Service
+ * Issues signed, expiring verification tokens for self-registered accounts
+ * and activates the account once the token comes back
+ */
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    private usersService: UsersService,
+    private jwtService: JwtService,
+    @Inject(MAILER) private mailer: Mailer,
+    @Inject(authConfig.KEY) private auth: AuthConfig,
+    @Inject(httpConfig.KEY) private http: HttpConfig,
+  ) {}
+
+  async sendVerificationEmail(user: User): Promise<void> {
+    const nonce = randomBytes(16).toString('base64url');
+    await this.usersService.setEmailVerificationNonce(user.id, nonce);
+
+    const payload: EmailVerificationPayload = {
+      sub: user.id,
+      email: user.email,
+      purpose: EMAIL_VERIFICATION_PURPOSE,
+      nonce,
+    };
+    const token = this.jwtService.sign(payload, { secret: this.auth.emailVerificationSecret, expiresIn: this.auth.emailVerificationTtl });
+    const link = `${this.http.appUrl}/verify-email?token=${token}`;
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Hi ${user.username},\n\nPlease confirm your email address by opening the link below:\n\n${link}\n\nThe link expires in ${this.auth.emailVerificationTtl}.`,
+    });
+  }
+
+  async verify(token: string): Promise<User> {
+    let payload: EmailVerificationPayload;
+    try {
+      payload = this.jwtService.verify<EmailVerificationPayload>(token, { secret: this.auth.emailVerificationSecret });
+    } catch {
+      throw new InvalidVerificationTokenException();
+    }
+
+    const user = payload.purpose === EMAIL_VERIFICATION_PURPOSE
+      ? await this.usersService.findById(payload.sub)
+      : null;
+
+    // The token is bound to the address it was sent to, and only the latest one counts
+    if (!user || user.email !== payload.email || !payload.nonce || user.emailVerificationNonce !== payload.nonce) {
+      throw new InvalidVerificationTokenException();
+    }
+
+    if (user.status !== UserStatus.PENDING_VERIFICATION) {
+      return toUser(user);
+    }
+
+    return this.usersService.markEmailVerified(user.id);
+  }
+
+  /**
+   * Sends a fresh verification email. Silently does nothing for unknown or
+   * already verified addresses so the endpoint cannot be used to probe accounts.
+   */
+  async resend(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+
+    if (user && user.isActive && user.status === UserStatus.PENDING_VERIFICATION) {
+      await this.sendVerificationEmail(user);
+    }
+  }
+}
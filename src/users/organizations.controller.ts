@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiSecurity } from '@nestjs/swagger';
+import { OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto } from '../common/dto/create-organization.dto';
+import { SaveMemberDto } from '../common/dto/save-member.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { NoImpersonation } from '../common/decorators/no-impersonation.decorator';
+import { NoOrganization } from '../common/decorators/no-organization.decorator';
+import { RequestAuditContext } from '../common/decorators/audit-context.decorator';
+import { ResponseMessage } from '../common/decorators/response-message.decorator';
+import { ApiOkResponseEnvelope } from '../common/decorators/api-ok-response-envelope.decorator';
+import { AuditContext } from '../common/types/audit.types';
+import { MembershipResponseDto, OrganizationResponseDto } from '../common/dto/organization-response.dto';
+
+@ApiTags('Organizations')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
+@Controller('organizations')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @RequirePermissions('organizations:manage')
+  @NoOrganization()
+  @Post()
+  @ResponseMessage('responses.organizations.created')
+  @ApiOkResponseEnvelope(OrganizationResponseDto, { status: 201 })
+  async create(@Body() createOrganizationDto: CreateOrganizationDto, @RequestAuditContext() context: AuditContext) {
+    return this.organizationsService.create(createOrganizationDto, context);
+  }
+
+  @RequirePermissions('organizations:read')
+  @Get()
+  @ResponseMessage('responses.organizations.listed')
+  @ApiOkResponseEnvelope(OrganizationResponseDto, { isArray: true })
+  async findAll() {
+    return this.organizationsService.findAll();
+  }
+
+  @RequirePermissions('organizations:read')
+  @Get(':id')
+  @ResponseMessage('responses.organizations.retrieved')
+  @ApiOkResponseEnvelope(OrganizationResponseDto)
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.organizationsService.findOne(id);
+  }
+
+  @RequirePermissions('organizations:read')
+  @Get(':id/members')
+  @ResponseMessage('responses.organizations.members_listed')
+  @ApiOkResponseEnvelope(MembershipResponseDto, { isArray: true })
+  async findMembers(@Param('id', ParseUUIDPipe) id: string) {
+    return this.organizationsService.findMembers(id);
+  }
+
+  @RequirePermissions('organizations:manage')
+  @NoImpersonation()
+  @Put(':id/members/:userId')
+  @ResponseMessage('responses.organizations.member_saved')
+  @ApiOkResponseEnvelope(MembershipResponseDto)
+  async saveMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() saveMemberDto: SaveMemberDto,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    return this.organizationsService.saveMember(id, userId, saveMemberDto.role, context);
+  }
+
+  @RequirePermissions('organizations:manage')
+  @NoImpersonation()
+  @Delete(':id/members/:userId')
+  @ResponseMessage('responses.organizations.member_removed')
+  @ApiOkResponseEnvelope()
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    await this.organizationsService.removeMember(id, userId, context);
+  }
+}
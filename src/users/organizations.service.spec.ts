@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OrganizationsService } from './organizations.service';
+import { RolesService } from './roles.service';
+import { USER_REPOSITORY } from './users.constants';
+import { InMemoryUserRepository } from './repositories/in-memory-user.repository';
+import { UserRole } from '../common/types/user.types';
+import { Organization } from '../common/types/organization.types';
+import { RequestContext, RequestContextStore } from '../common/context/request-context';
+import { AuditService } from '../audit/audit.service';
+import { AUDIT_STORE } from '../audit/audit.constants';
+import { InMemoryAuditStore } from '../audit/stores/in-memory-audit.store';
+import { authConfig } from '../config/auth.config';
+import { OrganizationAccessDeniedException, OrganizationMismatchException } from '../common/exceptions/access.exceptions';
+import {
+  MemberNotFoundException,
+  OrganizationNotFoundException,
+  OrganizationSlugTakenException,
+  UnknownRoleException,
+  UserNotFoundException,
+} from './users.exceptions';
+
+describe('OrganizationsService', () => {
+  let service: OrganizationsService;
+  let auditService: AuditService;
+  let acme: Organization;
+  let globex: Organization;
+  let userId: string;
+
+  const inOrganization = <T>(organizationId: string | undefined, callback: () => T): T =>
+    RequestContext.run({ requestId: 'req-1', organizationId }, callback);
+
+  beforeEach(async () => {
+    const repository = new InMemoryUserRepository();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: AUDIT_STORE,
+          useValue: new InMemoryAuditStore(),
+        },
+        OrganizationsService,
+        RolesService,
+        {
+          provide: USER_REPOSITORY,
+          useValue: repository,
+        },
+        {
+          provide: authConfig.KEY,
+          useValue: authConfig(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationsService>(OrganizationsService);
+    auditService = module.get<AuditService>(AuditService);
+    acme = await service.create({ name: 'Acme', slug: 'acme' });
+    globex = await service.create({ name: 'Globex', slug: 'globex' });
+    userId = (await repository.findByEmail('user@example.com')).id;
+  });
+
+  describe('create', () => {
+    it('should audit the new organization', async () => {
+      const { items } = await auditService.find({ action: 'organization.created', limit: 10 });
+
+      expect(items.map(entry => entry.target.id)).toEqual(expect.arrayContaining([acme.id, globex.id]));
+    });
+
+    it('should refuse a slug that is taken', async () => {
+      await expect(service.create({ name: 'Acme 2', slug: 'acme' })).rejects.toThrow(OrganizationSlugTakenException);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should hide other organizations from within one', async () => {
+      await expect(inOrganization(acme.id, () => service.findOne(acme.id))).resolves.toEqual(acme);
+      await expect(inOrganization(acme.id, () => service.findOne(globex.id)))
+        .rejects.toThrow(OrganizationNotFoundException);
+      expect(await inOrganization(acme.id, () => service.findAll())).toEqual([acme]);
+      expect(await service.findAll()).toHaveLength(2);
+    });
+  });
+
+  it('should find an organization by id or slug', async () => {
+    expect(await service.findByReference(acme.id)).toEqual(acme);
+    expect(await service.findByReference('globex')).toEqual(globex);
+    expect(await service.findByReference('initech')).toBeNull();
+  });
+
+  describe('saveMember', () => {
+    it('should add a member and later change their role', async () => {
+      await service.saveMember(acme.id, userId, UserRole.USER);
+      const membership = await service.saveMember(acme.id, userId, UserRole.ADMIN);
+
+      expect(membership).toEqual(expect.objectContaining({ organizationId: acme.id, userId, role: UserRole.ADMIN }));
+      expect(await service.findMembers(acme.id)).toEqual([membership]);
+      const { items } = await auditService.find({ targetId: userId, limit: 10 });
+      expect(items.map(entry => entry.action)).toEqual(['user.role_changed', 'organization.member_added']);
+    });
+
+    it('should refuse unknown users and roles', async () => {
+      await expect(service.saveMember(acme.id, 'missing', UserRole.USER)).rejects.toThrow(UserNotFoundException);
+      await expect(service.saveMember(acme.id, userId, 'nonexistent')).rejects.toThrow(UnknownRoleException);
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should remove a member once', async () => {
+      await service.saveMember(acme.id, userId, UserRole.USER);
+
+      await service.removeMember(acme.id, userId);
+
+      expect(await service.findMembers(acme.id)).toEqual([]);
+      await expect(service.removeMember(acme.id, userId)).rejects.toThrow(MemberNotFoundException);
+    });
+  });
+
+  it('should list the organizations of a user with their role in each', async () => {
+    await service.saveMember(acme.id, userId, UserRole.ADMIN);
+    await service.saveMember(globex.id, userId, UserRole.USER);
+
+    expect(await service.findForUser(userId)).toEqual([
+      { id: acme.id, slug: 'acme', name: 'Acme', role: UserRole.ADMIN },
+      { id: globex.id, slug: 'globex', name: 'Globex', role: UserRole.USER },
+    ]);
+  });
+
+  describe('enter', () => {
+    beforeEach(async () => {
+      await service.saveMember(acme.id, userId, UserRole.ADMIN);
+    });
+
+    it('should enter the organization the request names', async () => {
+      const store: RequestContextStore = { requestId: 'req-1', organizationId: acme.id };
+
+      const organization = await RequestContext.run(store, () => service.enter(userId));
+
+      expect(organization).toEqual({ id: acme.id, slug: 'acme', name: 'Acme', role: UserRole.ADMIN });
+    });
+
+    it('should fall back to the organization the token was issued in', async () => {
+      const store: RequestContextStore = { requestId: 'req-1' };
+
+      const organization = await RequestContext.run(store, () => service.enter(userId, acme.id));
+
+      expect(organization.id).toBe(acme.id);
+      expect(store.organizationId).toBe(acme.id);
+    });
+
+    it('should stay outside organizations when neither names one', async () => {
+      expect(await inOrganization(undefined, () => service.enter(userId))).toBeUndefined();
+    });
+
+    it('should refuse non-members and a token from another organization', async () => {
+      await expect(inOrganization(globex.id, () => service.enter(userId)))
+        .rejects.toThrow(OrganizationAccessDeniedException);
+      await expect(inOrganization(globex.id, () => service.enter(userId, acme.id)))
+        .rejects.toThrow(OrganizationMismatchException);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { isUUID } from 'class-validator';
+import { Membership, Organization, UserOrganization } from '../common/types/organization.types';
+import { CreateOrganizationDto } from '../common/dto/create-organization.dto';
+import { RequestContext } from '../common/context/request-context';
+import { USER_REPOSITORY } from './users.constants';
+import { UserRepository } from './repositories/user.repository';
+import { RolesService } from './roles.service';
+import { AuditService, diffFields } from '../audit/audit.service';
+import { AuditContext } from '../common/types/audit.types';
+import { OrganizationAccessDeniedException, OrganizationMismatchException } from '../common/exceptions/access.exceptions';
+import {
+  MemberNotFoundException,
+  OrganizationNotFoundException,
+  OrganizationSlugTakenException,
+  UnknownRoleException,
+  UserNotFoundException,
+} from './users.exceptions';
+
+/**
+ * Organizations Service
+ * Organizations are the tenants. Users belong to them through memberships
+ * that carry the role they hold there. A request acts in at most one
+ * organization, kept in the RequestContext; from within it, every other
+ * organization looks missing.
+ */
+@Injectable()
+export class OrganizationsService {
+  constructor(
+    @Inject(USER_REPOSITORY) private readonly userRepository: UserRepository,
+    private readonly rolesService: RolesService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async findAll(): Promise<Organization[]> {
+    const activeId = RequestContext.organizationId();
+    return activeId ? [await this.findOne(activeId)] : this.userRepository.findOrganizations();
+  }
+
+  async findOne(id: string): Promise<Organization> {
+    const activeId = RequestContext.organizationId();
+    const organization = !activeId || activeId === id ? await this.userRepository.findOrganization(id) : null;
+
+    if (!organization) {
+      throw new OrganizationNotFoundException();
+    }
+
+    return organization;
+  }
+
+  /** Looks an organization up by id or slug, the way the X-Tenant header and subdomains name it */
+  async findByReference(reference: string): Promise<Organization | null> {
+    const organization = isUUID(reference) ? await this.userRepository.findOrganization(reference) : null;
+    return organization ?? this.userRepository.findOrganizationBySlug(reference);
+  }
+
+  /** Every organization the user belongs to, with their role in each */
+  async findForUser(userId: string): Promise<UserOrganization[]> {
+    const memberships = await this.userRepository.findMemberships({ userId });
+    const organizations = await Promise.all(
+      memberships.map(membership => this.userRepository.findOrganization(membership.organizationId)),
+    );
+
+    return memberships.flatMap((membership, index) =>
+      organizations[index] ? [toUserOrganization(organizations[index], membership)] : []);
+  }
+
+  async create(createOrganizationDto: CreateOrganizationDto, context: AuditContext = {}): Promise<Organization> {
+    if (await this.userRepository.findOrganizationBySlug(createOrganizationDto.slug)) {
+      throw new OrganizationSlugTakenException();
+    }
+
+    const now = new Date();
+    const organization = await this.userRepository.saveOrganization({
+      id: randomUUID(),
+      slug: createOrganizationDto.slug,
+      name: createOrganizationDto.name,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await this.auditService.record({
+      action: 'organization.created',
+      target: { type: 'Organization', id: organization.id },
+      changes: diffFields(null, organization, ['slug', 'name']),
+    }, context);
+
+    return organization;
+  }
+
+  async findMembers(id: string): Promise<Membership[]> {
+    await this.findOne(id);
+    return this.userRepository.findMemberships({ organizationId: id });
+  }
+
+  /**
+   * Adds a user to the organization, or changes the role they hold there.
+   * Role changes are audited like any other role assignment.
+   */
+  async saveMember(id: string, userId: string, role: string, context: AuditContext = {}): Promise<Membership> {
+    const organization = await this.findOne(id);
+    const user = await this.userRepository.findById(userId);
+
+    if (!user || !user.isActive) {
+      throw new UserNotFoundException();
+    }
+
+    if (!(await this.rolesService.exists(role))) {
+      throw new UnknownRoleException(role);
+    }
+
+    const existing = await this.userRepository.findMembership(id, userId);
+    const now = new Date();
+    const membership = await this.userRepository.saveMembership({
+      organizationId: id,
+      userId,
+      role,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+
+    if (!existing || existing.role !== role) {
+      await this.auditService.record({
+        action: existing ? 'user.role_changed' : 'organization.member_added',
+        target: { type: 'User', id: userId },
+        changes: diffFields(existing, membership, ['role']),
+        reason: `Organization ${organization.slug}`,
+      }, context);
+    }
+
+    return membership;
+  }
+
+  async removeMember(id: string, userId: string, context: AuditContext = {}): Promise<void> {
+    const organization = await this.findOne(id);
+
+    if (!(await this.userRepository.deleteMembership(id, userId))) {
+      throw new MemberNotFoundException();
+    }
+
+    await this.auditService.record({
+      action: 'organization.member_removed',
+      target: { type: 'User', id: userId },
+      reason: `Organization ${organization.slug}`,
+    }, context);
+  }
+
+  /**
+   * Puts the request in the organization it names, or else in the one its
+   * token was issued in, once the user turns out to be a member there.
+   * Returns that organization with the user's role in it; nothing when the
+   * request acts outside organizations.
+   */
+  async enter(userId: string, claimedId?: string): Promise<UserOrganization | undefined> {
+    const context = RequestContext.current();
+    const requestedId = context?.organizationId;
+
+    if (requestedId && claimedId && requestedId !== claimedId) {
+      throw new OrganizationMismatchException();
+    }
+
+    const organizationId = requestedId ?? claimedId;
+    if (!organizationId) {
+      return undefined;
+    }
+
+    const [organization, membership] = await Promise.all([
+      this.userRepository.findOrganization(organizationId),
+      this.userRepository.findMembership(organizationId, userId),
+    ]);
+
+    if (!organization || !membership) {
+      throw new OrganizationAccessDeniedException();
+    }
+
+    if (context) {
+      context.organizationId = organizationId;
+    }
+
+    return toUserOrganization(organization, membership);
+  }
+}
+
+function toUserOrganization(organization: Organization, membership: Membership): UserOrganization {
+  return { id: organization.id, slug: organization.slug, name: organization.name, role: membership.role };
+}
@@ -0,0 +1,298 @@
+import { User } from '../../common/types/user.types';
+import { RefreshToken } from '../../common/types/auth.types';
+import { UserIdentity } from '../../common/types/oidc.types';
+import { ApiKey } from '../../common/types/api-key.types';
+import { Session } from '../../common/types/session.types';
+import { RoleDefinition } from '../../common/types/role.types';
+import { Membership, Organization } from '../../common/types/organization.types';
+import {
+  ApiKeyChanges,
+  MembershipCriteria,
+  RefreshTokenCriteria,
+  SessionChanges,
+  toUser,
+  UserRecord,
+  UserRepository,
+  UserSearchCriteria,
+  UserSearchResult,
+} from './user.repository';
+import { buildSeedUsers } from './seed';
+
+// Binary comparison, matching SQLite's default collation
+const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const identityKey = (provider: string, subject: string) => `${provider}\u0000${subject}`;
+
+const membershipKey = (organizationId: string, userId: string) => `${organizationId}\u0000${userId}`;
+
+/**
+ * In-memory User Repository
+ * Data lives for the lifetime of the process; used for tests and quick demos
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private users: Map<string, UserRecord> = new Map();
+  private refreshTokens: Map<string, RefreshToken> = new Map();
+  private sessions: Map<string, Session> = new Map();
+  // Keyed by provider and subject
+  private identities: Map<string, UserIdentity> = new Map();
+  private apiKeys: Map<string, ApiKey> = new Map();
+  private roles: Map<string, RoleDefinition> = new Map();
+  private organizations: Map<string, Organization> = new Map();
+  // Keyed by organization and user
+  private memberships: Map<string, Membership> = new Map();
+
+  constructor(seed: UserRecord[] = buildSeedUsers()) {
+    seed.forEach(user => this.users.set(user.id, { ...user }));
+  }
+
+  async ping(): Promise<void> {
+    // Nothing to reach
+  }
+
+  async findAll(): Promise<User[]> {
+    return [...this.users.values()].map(user => this.toUser(user));
+  }
+
+  async findMany(criteria: UserSearchCriteria): Promise<UserSearchResult> {
+    const q = criteria.q?.toLowerCase();
+    const matching = this.usersIn(criteria.organizationId).filter(user =>
+      (criteria.role === undefined || user.role === criteria.role)
+      && (criteria.isActive === undefined || user.isActive === criteria.isActive)
+      && (!criteria.createdFrom || user.createdAt >= criteria.createdFrom)
+      && (!criteria.createdTo || user.createdAt <= criteria.createdTo)
+      && (!q || user.email.toLowerCase().includes(q) || user.username.toLowerCase().includes(q)),
+    );
+
+    const { field, direction } = criteria.sort;
+    const sign = direction === 'asc' ? 1 : -1;
+    const key = (user: UserRecord) => this.sortValue(user, field);
+    const compare = (a: UserRecord, b: UserRecord) =>
+      sign * (compareStrings(key(a), key(b)) || compareStrings(a.id, b.id));
+
+    const sorted = matching.sort(compare);
+    const after = criteria.after;
+    const remaining = after
+      ? sorted.filter(user => sign * (compareStrings(key(user), after.value) || compareStrings(user.id, after.id)) > 0)
+      : sorted;
+
+    const offset = criteria.offset || 0;
+    return {
+      items: remaining.slice(offset, offset + criteria.limit).map(user => this.toUser(user)),
+      total: matching.length,
+    };
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const user = [...this.users.values()].find(u => u.email === email);
+    return user ? { ...user } : null;
+  }
+
+  async create(user: UserRecord): Promise<User> {
+    this.users.set(user.id, { ...user });
+    return this.toUser(user);
+  }
+
+  async update(id: string, changes: Partial<UserRecord>): Promise<User | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+
+    const updatedUser = { ...user, ...changes, id };
+    this.users.set(id, updatedUser);
+    return this.toUser(updatedUser);
+  }
+
+  async saveRefreshToken(token: RefreshToken): Promise<RefreshToken> {
+    this.refreshTokens.set(token.id, { ...token });
+    return token;
+  }
+
+  async findRefreshToken(id: string): Promise<RefreshToken | null> {
+    const token = this.refreshTokens.get(id);
+    return token ? { ...token } : null;
+  }
+
+  async findRefreshTokens(userId: string): Promise<RefreshToken[]> {
+    return [...this.refreshTokens.values()]
+      .filter(token => token.userId === userId)
+      .map(token => ({ ...token }));
+  }
+
+  async revokeRefreshTokens(criteria: RefreshTokenCriteria, revokedAt: Date): Promise<number> {
+    let revoked = 0;
+    for (const token of this.refreshTokens.values()) {
+      const matches = (!criteria.id || token.id === criteria.id)
+        && (!criteria.familyId || token.familyId === criteria.familyId)
+        && (!criteria.userId || token.userId === criteria.userId);
+
+      if (matches && !token.revokedAt) {
+        token.revokedAt = revokedAt;
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  async findIdentity(provider: string, subject: string): Promise<UserIdentity | null> {
+    const identity = this.identities.get(identityKey(provider, subject));
+    return identity ? { ...identity } : null;
+  }
+
+  async findIdentities(userId: string): Promise<UserIdentity[]> {
+    return [...this.identities.values()]
+      .filter(identity => identity.userId === userId)
+      .map(identity => ({ ...identity }));
+  }
+
+  async saveIdentity(identity: UserIdentity): Promise<UserIdentity> {
+    const key = identityKey(identity.provider, identity.subject);
+    if (this.identities.has(key)) {
+      throw new Error(`Identity ${identity.provider}:${identity.subject} is already linked`);
+    }
+    this.identities.set(key, { ...identity });
+    return identity;
+  }
+
+  async saveSession(session: Session): Promise<Session> {
+    this.sessions.set(session.id, { ...session });
+    return session;
+  }
+
+  async findSession(id: string): Promise<Session | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async findSessions(userId: string): Promise<Session[]> {
+    return [...this.sessions.values()]
+      .filter(session => session.userId === userId)
+      .map(session => ({ ...session }));
+  }
+
+  async updateSession(id: string, changes: SessionChanges): Promise<Session | null> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return null;
+    }
+    Object.assign(session, changes);
+    return this.findSession(id);
+  }
+
+  async saveApiKey(key: ApiKey): Promise<ApiKey> {
+    this.apiKeys.set(key.id, { ...key, scopes: [...key.scopes] });
+    return key;
+  }
+
+  async findApiKey(id: string): Promise<ApiKey | null> {
+    const key = this.apiKeys.get(id);
+    return key ? { ...key, scopes: [...key.scopes] } : null;
+  }
+
+  async findApiKeys(userId: string): Promise<ApiKey[]> {
+    return [...this.apiKeys.values()]
+      .filter(key => key.userId === userId)
+      .map(key => ({ ...key, scopes: [...key.scopes] }));
+  }
+
+  async updateApiKey(id: string, changes: ApiKeyChanges): Promise<ApiKey | null> {
+    const key = this.apiKeys.get(id);
+    if (!key) {
+      return null;
+    }
+    Object.assign(key, changes);
+    return this.findApiKey(id);
+  }
+
+  async findRoles(): Promise<RoleDefinition[]> {
+    return [...this.roles.values()]
+      .sort((a, b) => compareStrings(a.name, b.name))
+      .map(role => ({ ...role, permissions: [...role.permissions] }));
+  }
+
+  async findRole(name: string): Promise<RoleDefinition | null> {
+    const role = this.roles.get(name);
+    return role ? { ...role, permissions: [...role.permissions] } : null;
+  }
+
+  async saveRole(role: RoleDefinition): Promise<RoleDefinition> {
+    this.roles.set(role.name, { ...role, permissions: [...role.permissions] });
+    return role;
+  }
+
+  async deleteRole(name: string): Promise<boolean> {
+    return this.roles.delete(name);
+  }
+
+  async findOrganizations(): Promise<Organization[]> {
+    return [...this.organizations.values()]
+      .sort((a, b) => compareStrings(a.slug, b.slug))
+      .map(organization => ({ ...organization }));
+  }
+
+  async findOrganization(id: string): Promise<Organization | null> {
+    const organization = this.organizations.get(id);
+    return organization ? { ...organization } : null;
+  }
+
+  async findOrganizationBySlug(slug: string): Promise<Organization | null> {
+    const organization = [...this.organizations.values()].find(o => o.slug === slug);
+    return organization ? { ...organization } : null;
+  }
+
+  async saveOrganization(organization: Organization): Promise<Organization> {
+    const existing = await this.findOrganizationBySlug(organization.slug);
+    if (existing && existing.id !== organization.id) {
+      throw new Error(`Organization slug ${organization.slug} is taken`);
+    }
+    this.organizations.set(organization.id, { ...organization });
+    return organization;
+  }
+
+  async findMembership(organizationId: string, userId: string): Promise<Membership | null> {
+    const membership = this.memberships.get(membershipKey(organizationId, userId));
+    return membership ? { ...membership } : null;
+  }
+
+  async findMemberships(criteria: MembershipCriteria): Promise<Membership[]> {
+    return [...this.memberships.values()]
+      .filter(membership =>
+        (!criteria.organizationId || membership.organizationId === criteria.organizationId)
+        && (!criteria.userId || membership.userId === criteria.userId)
+        && (!criteria.role || membership.role === criteria.role))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(membership => ({ ...membership }));
+  }
+
+  async saveMembership(membership: Membership): Promise<Membership> {
+    this.memberships.set(membershipKey(membership.organizationId, membership.userId), { ...membership });
+    return membership;
+  }
+
+  async deleteMembership(organizationId: string, userId: string): Promise<boolean> {
+    return this.memberships.delete(membershipKey(organizationId, userId));
+  }
+
+  /** All users, or the members of an organization with the role they hold there */
+  private usersIn(organizationId?: string): UserRecord[] {
+    if (!organizationId) {
+      return [...this.users.values()];
+    }
+
+    return [...this.memberships.values()]
+      .filter(membership => membership.organizationId === organizationId && this.users.has(membership.userId))
+      .map(membership => ({ ...this.users.get(membership.userId), role: membership.role }));
+  }
+
+  private sortValue(user: UserRecord, field: UserSearchCriteria['sort']['field']): string {
+    const value = user[field];
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
+  private toUser(record: UserRecord): User {
+    return toUser(record);
+  }
+}
@@ -0,0 +1,47 @@
+import { randomUUID } from 'crypto';
+import { UserRole, UserStatus } from '../../common/types/user.types';
+import { UserRecord } from './user.repository';
+
+const DEMO_PASSWORD_HASH = '$2b$10$ZIFKxlbPSTLJ.LJdBq7ZMOjnO5M4uUnKkEL2AmhVDkEsW22SSizSe'; // password123
+
+/**
+ * Demo accounts seeded into an empty user store
+ */
+export function buildSeedUsers(): UserRecord[] {
+  const now = new Date();
+
+  return [
+    {
+      id: randomUUID(),
+      email: 'admin@example.com',
+      username: 'admin',
+      role: UserRole.ADMIN,
+      status: UserStatus.ACTIVE,
+      isActive: true,
+      mfaEnabled: false,
+      locale: null,
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null,
+      password: DEMO_PASSWORD_HASH,
+      createdAt: now,
+      updatedAt: now,
+    },
+    {
+      id: randomUUID(),
+      email: 'user@example.com',
+      username: 'user',
+      role: UserRole.USER,
+      status: UserStatus.ACTIVE,
+      isActive: true,
+      mfaEnabled: false,
+      locale: null,
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null,
+      password: DEMO_PASSWORD_HASH,
+      createdAt: now,
+      updatedAt: now,
+    },
+  ];
+}
@@ -0,0 +1,253 @@
+import * as Database from 'better-sqlite3';
+import { UserRole, UserStatus } from '../../common/types/user.types';
+import { SqliteUserRepository } from './sqlite-user.repository';
+import { migrations, runMigrations } from './sqlite/migrations';
+
+describe('SqliteUserRepository', () => {
+  let repository: SqliteUserRepository;
+
+  beforeEach(() => {
+    repository = new SqliteUserRepository(':memory:');
+  });
+
+  afterEach(() => {
+    repository.onModuleDestroy();
+  });
+
+  it('should seed the demo accounts into an empty database', async () => {
+    const users = await repository.findAll();
+
+    expect(users.map(user => user.email)).toEqual(['admin@example.com', 'user@example.com']);
+    expect(users.every(user => !('password' in user))).toBe(true);
+  });
+
+  it('should round-trip a user record', async () => {
+    const createdAt = new Date('2024-01-01T00:00:00.000Z');
+    await repository.create({
+      id: '6f1c1f3e-2b9a-4a51-9a63-0c6f2f6c8b11',
+      email: 'sqlite@example.com',
+      username: 'sqlite',
+      role: UserRole.MODERATOR,
+      status: UserStatus.PENDING_VERIFICATION,
+      isActive: true,
+      mfaEnabled: false,
+      locale: 'de',
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null,
+      password: 'hash',
+      createdAt,
+      updatedAt: createdAt,
+    });
+
+    const result = await repository.findByEmail('sqlite@example.com');
+
+    expect(result).toEqual({
+      id: '6f1c1f3e-2b9a-4a51-9a63-0c6f2f6c8b11',
+      email: 'sqlite@example.com',
+      username: 'sqlite',
+      role: UserRole.MODERATOR,
+      status: UserStatus.PENDING_VERIFICATION,
+      isActive: true,
+      mfaEnabled: false,
+      locale: 'de',
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null,
+      password: 'hash',
+      mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: [],
+      mfaLastUsedStep: null,
+      emailVerificationNonce: null,
+      createdAt,
+      updatedAt: createdAt,
+    });
+  });
+
+  it('should persist two-factor settings', async () => {
+    const admin = await repository.findByEmail('admin@example.com');
+
+    await repository.update(admin.id, {
+      mfaEnabled: true,
+      mfaSecret: 'JBSWY3DPEHPK3PXP',
+      mfaRecoveryCodes: ['a', 'b'],
+      mfaLastUsedStep: 42,
+    });
+    const result = await repository.findById(admin.id);
+
+    expect(result).toEqual(expect.objectContaining({
+      mfaEnabled: true,
+      mfaSecret: 'JBSWY3DPEHPK3PXP',
+      mfaRecoveryCodes: ['a', 'b'],
+      mfaLastUsedStep: 42,
+    }));
+  });
+
+  it('should update only the given fields', async () => {
+    const admin = await repository.findByEmail('admin@example.com');
+
+    const result = await repository.update(admin.id, { username: 'root', isActive: false });
+
+    expect(result.username).toBe('root');
+    expect(result.isActive).toBe(false);
+    expect(result.email).toBe('admin@example.com');
+  });
+
+  it('should fail the ping once the database is closed', async () => {
+    await expect(repository.ping()).resolves.toBeUndefined();
+
+    repository.onModuleDestroy();
+    await expect(repository.ping()).rejects.toThrow();
+    repository = new SqliteUserRepository(':memory:');
+  });
+
+  it('should return null when updating a missing user', async () => {
+    const result = await repository.update('missing', { username: 'ghost' });
+
+    expect(result).toBeNull();
+  });
+
+  describe('findMany', () => {
+    const baseCriteria = {
+      sort: { field: 'email' as const, direction: 'asc' as const },
+      limit: 10,
+    };
+
+    it('should filter, sort and count matching users', async () => {
+      const result = await repository.findMany({ ...baseCriteria, role: UserRole.USER });
+
+      expect(result.total).toBe(1);
+      expect(result.items.map(user => user.email)).toEqual(['user@example.com']);
+    });
+
+    it('should treat LIKE wildcards in the search term literally', async () => {
+      const result = await repository.findMany({ ...baseCriteria, q: '%' });
+
+      expect(result.total).toBe(0);
+    });
+
+    it('should continue after a keyset position', async () => {
+      const result = await repository.findMany({
+        ...baseCriteria,
+        sort: { field: 'email', direction: 'desc' },
+        after: { value: 'user@example.com', id: '' },
+      });
+
+      expect(result.items.map(user => user.email)).toEqual(['admin@example.com']);
+      expect(result.total).toBe(2);
+    });
+  });
+
+  it('should revoke refresh tokens matching the criteria', async () => {
+    const user = await repository.findByEmail('user@example.com');
+    const token = {
+      userId: user.id,
+      tokenHash: 'hash',
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+    };
+    await repository.saveRefreshToken({ ...token, id: 'a', familyId: 'family-1' });
+    await repository.saveRefreshToken({ ...token, id: 'b', familyId: 'family-2' });
+
+    const revoked = await repository.revokeRefreshTokens({ familyId: 'family-1' }, new Date());
+
+    expect(revoked).toBe(1);
+    expect((await repository.findRefreshToken('a')).revokedAt).toBeInstanceOf(Date);
+    expect((await repository.findRefreshToken('b')).revokedAt).toBeUndefined();
+  });
+
+  it('should link an identity to one user only', async () => {
+    const user = await repository.findByEmail('user@example.com');
+    const identity = { provider: 'google', subject: '1234', userId: user.id, email: 'user@gmail.com', linkedAt: new Date() };
+
+    await repository.saveIdentity(identity);
+
+    expect(await repository.findIdentity('google', '1234')).toEqual(identity);
+    expect(await repository.findIdentities(user.id)).toEqual([identity]);
+    await expect(repository.saveIdentity({ ...identity, userId: 'other' })).rejects.toThrow();
+  });
+
+  it('should store sessions and record their activity and revocation', async () => {
+    const user = await repository.findByEmail('user@example.com');
+    const session = {
+      id: 'session-1',
+      userId: user.id,
+      device: 'desktop' as const,
+      browser: 'Firefox 128',
+      os: 'Linux',
+      userAgent: 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0',
+      ip: '203.0.113.7',
+      organizationId: null,
+      createdAt: new Date(0),
+      lastSeenAt: new Date(0),
+    };
+
+    await repository.saveSession(session);
+    await repository.updateSession('session-1', { ip: '203.0.113.8', lastSeenAt: new Date(1) });
+    const revoked = await repository.updateSession('session-1', { revokedAt: new Date(2) });
+
+    expect(revoked).toEqual({ ...session, ip: '203.0.113.8', lastSeenAt: new Date(1), revokedAt: new Date(2) });
+    expect(await repository.findSessions(user.id)).toEqual([revoked]);
+    expect(await repository.updateSession('missing', { revokedAt: new Date() })).toBeNull();
+  });
+
+  it('should store API keys and record their use and revocation', async () => {
+    const user = await repository.findByEmail('user@example.com');
+    const key = {
+      id: 'key-1',
+      userId: user.id,
+      name: 'ci',
+      scopes: ['users:read'],
+      organizationId: null,
+      keyHash: 'hash',
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+      lastUsedAt: null,
+    };
+
+    await repository.saveApiKey(key);
+    await repository.updateApiKey('key-1', { lastUsedAt: new Date(0) });
+    const revoked = await repository.updateApiKey('key-1', { revokedAt: new Date(1) });
+
+    expect(revoked).toEqual({ ...key, lastUsedAt: new Date(0), revokedAt: new Date(1) });
+    expect(await repository.findApiKeys(user.id)).toEqual([revoked]);
+    expect(await repository.updateApiKey('missing', { revokedAt: new Date() })).toBeNull();
+  });
+
+  it('should store organizations and the role each member holds there', async () => {
+    const user = await repository.findByEmail('user@example.com');
+    const now = new Date(0);
+    const organization = { id: 'org-1', slug: 'acme', name: 'Acme', createdAt: now, updatedAt: now };
+    const membership = { organizationId: 'org-1', userId: user.id, role: UserRole.ADMIN, createdAt: now, updatedAt: now };
+
+    await repository.saveOrganization(organization);
+    await repository.saveMembership({ ...membership, role: UserRole.USER });
+    await repository.saveMembership(membership);
+
+    expect(await repository.findOrganizationBySlug('acme')).toEqual(organization);
+    await expect(repository.saveOrganization({ ...organization, id: 'org-2' })).rejects.toThrow();
+    expect(await repository.findMemberships({ userId: user.id })).toEqual([membership]);
+    const { items, total } = await repository.findMany({
+      organizationId: 'org-1',
+      sort: { field: 'email', direction: 'asc' },
+      limit: 10,
+    });
+    expect(total).toBe(1);
+    expect(items.map(member => [member.email, member.role])).toEqual([['user@example.com', UserRole.ADMIN]]);
+
+    expect(await repository.deleteMembership('org-1', user.id)).toBe(true);
+    expect(await repository.findMembership('org-1', user.id)).toBeNull();
+  });
+
+  describe('runMigrations', () => {
+    it('should only apply pending migrations', () => {
+      const db = new Database(':memory:');
+
+      expect(runMigrations(db)).toEqual(migrations.map(migration => migration.id));
+      expect(runMigrations(db)).toEqual([]);
+
+      db.close();
+    });
+  });
+});
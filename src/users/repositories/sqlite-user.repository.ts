@@ -0,0 +1,696 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import * as Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { User, UserStatus } from '../../common/types/user.types';
+import { RefreshToken } from '../../common/types/auth.types';
+import { UserIdentity } from '../../common/types/oidc.types';
+import { ApiKey } from '../../common/types/api-key.types';
+import { DeviceType, Session } from '../../common/types/session.types';
+import { RoleDefinition } from '../../common/types/role.types';
+import { Membership, Organization } from '../../common/types/organization.types';
+import {
+  ApiKeyChanges,
+  MembershipCriteria,
+  RefreshTokenCriteria,
+  SessionChanges,
+  toUser,
+  UserRecord,
+  UserRepository,
+  UserSearchCriteria,
+  UserSearchResult,
+} from './user.repository';
+import { runMigrations } from './sqlite/migrations';
+import { buildSeedUsers } from './seed';
+
+interface UserRow {
+  id: string;
+  email: string;
+  username: string;
+  role: string;
+  status: string;
+  is_active: number;
+  mfa_enabled: number;
+  locale: string | null;
+  failed_login_attempts: number;
+  lockout_count: number;
+  locked_until: string | null;
+  password_hash: string;
+  mfa_secret: string | null;
+  mfa_pending_secret: string | null;
+  mfa_recovery_codes: string;
+  mfa_last_used_step: number | null;
+  email_verification_nonce: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RoleRow {
+  name: string;
+  description: string | null;
+  permissions: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RefreshTokenRow {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  created_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+interface IdentityRow {
+  provider: string;
+  subject: string;
+  user_id: string;
+  email: string | null;
+  linked_at: string;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  device: string;
+  browser: string | null;
+  os: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  organization_id: string | null;
+  created_at: string;
+  last_seen_at: string;
+  revoked_at: string | null;
+}
+
+interface OrganizationRow {
+  id: string;
+  slug: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MembershipRow {
+  organization_id: string;
+  user_id: string;
+  role: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  name: string;
+  scopes: string;
+  organization_id: string | null;
+  key_hash: string;
+  created_at: string;
+  expires_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+const USER_COLUMNS: Record<keyof UserRecord, keyof UserRow> = {
+  id: 'id',
+  email: 'email',
+  username: 'username',
+  role: 'role',
+  status: 'status',
+  isActive: 'is_active',
+  mfaEnabled: 'mfa_enabled',
+  locale: 'locale',
+  failedLoginAttempts: 'failed_login_attempts',
+  lockoutCount: 'lockout_count',
+  lockedUntil: 'locked_until',
+  password: 'password_hash',
+  mfaSecret: 'mfa_secret',
+  mfaPendingSecret: 'mfa_pending_secret',
+  mfaRecoveryCodes: 'mfa_recovery_codes',
+  mfaLastUsedStep: 'mfa_last_used_step',
+  emailVerificationNonce: 'email_verification_nonce',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+/**
+ * SQLite User Repository
+ * Stores users in a local SQLite file. Migrations run and the demo accounts
+ * are seeded when the repository is created.
+ */
+export class SqliteUserRepository implements UserRepository, OnModuleDestroy {
+  private readonly logger = new Logger(SqliteUserRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+
+    const applied = runMigrations(this.db);
+    if (applied.length) {
+      this.logger.log(`Applied migrations: ${applied.join(', ')}`);
+    }
+
+    this.seed();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async ping(): Promise<void> {
+    this.db.prepare('SELECT 1').get();
+  }
+
+  async findAll(): Promise<User[]> {
+    const rows = this.db.prepare('SELECT * FROM users ORDER BY created_at').all() as UserRow[];
+    return rows.map(row => this.toUser(row));
+  }
+
+  async findMany(criteria: UserSearchCriteria): Promise<UserSearchResult> {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+    let source = 'users';
+
+    // Within an organization, members carry the role they hold there
+    if (criteria.organizationId) {
+      const columns = Object.values(USER_COLUMNS).map(column => (column === 'role' ? 'm.role AS role' : `u.${column}`));
+      source = `(
+        SELECT ${columns.join(', ')}
+        FROM users u JOIN memberships m ON m.user_id = u.id AND m.organization_id = @organizationId
+      ) AS users`;
+      params.organizationId = criteria.organizationId;
+    }
+
+    if (criteria.role !== undefined) {
+      conditions.push('role = @role');
+      params.role = criteria.role;
+    }
+    if (criteria.isActive !== undefined) {
+      conditions.push('is_active = @isActive');
+      params.isActive = criteria.isActive ? 1 : 0;
+    }
+    if (criteria.createdFrom) {
+      conditions.push('created_at >= @createdFrom');
+      params.createdFrom = criteria.createdFrom.toISOString();
+    }
+    if (criteria.createdTo) {
+      conditions.push('created_at <= @createdTo');
+      params.createdTo = criteria.createdTo.toISOString();
+    }
+    if (criteria.q) {
+      conditions.push(`(LOWER(email) LIKE @q ESCAPE '\\' OR LOWER(username) LIKE @q ESCAPE '\\')`);
+      params.q = `%${criteria.q.toLowerCase().replace(/[\\%_]/g, char => `\\${char}`)}%`;
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM ${source} ${where}`)
+      .get(params) as { total: number };
+
+    const column = USER_COLUMNS[criteria.sort.field];
+    const direction = criteria.sort.direction === 'asc' ? 'ASC' : 'DESC';
+    const pageConditions = [...conditions];
+
+    if (criteria.after) {
+      const operator = criteria.sort.direction === 'asc' ? '>' : '<';
+      pageConditions.push(`(${column} ${operator} @afterValue OR (${column} = @afterValue AND id ${operator} @afterId))`);
+      params.afterValue = criteria.after.value;
+      params.afterId = criteria.after.id;
+    }
+
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM ${source}
+        ${pageConditions.length ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+        ORDER BY ${column} ${direction}, id ${direction}
+        LIMIT @limit OFFSET @offset
+      `)
+      .all({ ...params, limit: criteria.limit, offset: criteria.offset || 0 }) as UserRow[];
+
+    return { items: rows.map(row => this.toUser(row)), total };
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+    return row ? this.toUserRecord(row) : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE email = ?').get(email) as UserRow | undefined;
+    return row ? this.toUserRecord(row) : null;
+  }
+
+  async create(user: UserRecord): Promise<User> {
+    const row = this.toRow(user);
+    const columns = Object.keys(row);
+
+    this.db
+      .prepare(`INSERT INTO users (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`)
+      .run(row);
+
+    return toUser(user);
+  }
+
+  async update(id: string, changes: Partial<UserRecord>): Promise<User | null> {
+    const { id: _, ...rest } = changes;
+    const row = this.toRow(rest);
+    const columns = Object.keys(row);
+
+    if (columns.length) {
+      this.db
+        .prepare(`UPDATE users SET ${columns.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`)
+        .run({ ...row, id });
+    }
+
+    const updated = await this.findById(id);
+    return updated ? toUser(updated) : null;
+  }
+
+  async saveRefreshToken(token: RefreshToken): Promise<RefreshToken> {
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO refresh_tokens (id, user_id, family_id, token_hash, created_at, expires_at, revoked_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        token.id,
+        token.userId,
+        token.familyId,
+        token.tokenHash,
+        token.createdAt.toISOString(),
+        token.expiresAt.toISOString(),
+        token.revokedAt ? token.revokedAt.toISOString() : null,
+      );
+    return token;
+  }
+
+  async findRefreshToken(id: string): Promise<RefreshToken | null> {
+    const row = this.db.prepare('SELECT * FROM refresh_tokens WHERE id = ?').get(id) as RefreshTokenRow | undefined;
+    return row ? this.toRefreshToken(row) : null;
+  }
+
+  async findRefreshTokens(userId: string): Promise<RefreshToken[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM refresh_tokens WHERE user_id = ? ORDER BY created_at')
+      .all(userId) as RefreshTokenRow[];
+    return rows.map(row => this.toRefreshToken(row));
+  }
+
+  async revokeRefreshTokens(criteria: RefreshTokenCriteria, revokedAt: Date): Promise<number> {
+    const conditions = ['revoked_at IS NULL'];
+    if (criteria.id) conditions.push('id = @id');
+    if (criteria.familyId) conditions.push('family_id = @familyId');
+    if (criteria.userId) conditions.push('user_id = @userId');
+
+    const result = this.db
+      .prepare(`UPDATE refresh_tokens SET revoked_at = @revokedAt WHERE ${conditions.join(' AND ')}`)
+      .run({ ...criteria, revokedAt: revokedAt.toISOString() });
+
+    return result.changes;
+  }
+
+  async findIdentity(provider: string, subject: string): Promise<UserIdentity | null> {
+    const row = this.db
+      .prepare('SELECT * FROM user_identities WHERE provider = ? AND subject = ?')
+      .get(provider, subject) as IdentityRow | undefined;
+    return row ? this.toIdentity(row) : null;
+  }
+
+  async findIdentities(userId: string): Promise<UserIdentity[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM user_identities WHERE user_id = ? ORDER BY linked_at')
+      .all(userId) as IdentityRow[];
+    return rows.map(row => this.toIdentity(row));
+  }
+
+  async saveIdentity(identity: UserIdentity): Promise<UserIdentity> {
+    this.db
+      .prepare(`
+        INSERT INTO user_identities (provider, subject, user_id, email, linked_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(identity.provider, identity.subject, identity.userId, identity.email ?? null, identity.linkedAt.toISOString());
+    return identity;
+  }
+
+  async saveSession(session: Session): Promise<Session> {
+    this.db
+      .prepare(`
+        INSERT INTO sessions (
+          id, user_id, device, browser, os, user_agent, ip, organization_id, created_at, last_seen_at, revoked_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        session.id,
+        session.userId,
+        session.device,
+        session.browser,
+        session.os,
+        session.userAgent,
+        session.ip,
+        session.organizationId,
+        session.createdAt.toISOString(),
+        session.lastSeenAt.toISOString(),
+        session.revokedAt ? session.revokedAt.toISOString() : null,
+      );
+    return session;
+  }
+
+  async findSession(id: string): Promise<Session | null> {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE id = ?').get(id) as SessionRow | undefined;
+    return row ? this.toSession(row) : null;
+  }
+
+  async findSessions(userId: string): Promise<Session[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM sessions WHERE user_id = ? ORDER BY created_at')
+      .all(userId) as SessionRow[];
+    return rows.map(row => this.toSession(row));
+  }
+
+  async updateSession(id: string, changes: SessionChanges): Promise<Session | null> {
+    const assignments: string[] = [];
+    if (changes.ip !== undefined) assignments.push('ip = @ip');
+    if (changes.lastSeenAt !== undefined) assignments.push('last_seen_at = @lastSeenAt');
+    if (changes.revokedAt !== undefined) assignments.push('revoked_at = @revokedAt');
+
+    if (assignments.length) {
+      this.db
+        .prepare(`UPDATE sessions SET ${assignments.join(', ')} WHERE id = @id`)
+        .run({
+          id,
+          ip: changes.ip ?? null,
+          lastSeenAt: changes.lastSeenAt ? changes.lastSeenAt.toISOString() : null,
+          revokedAt: changes.revokedAt ? changes.revokedAt.toISOString() : null,
+        });
+    }
+    return this.findSession(id);
+  }
+
+  async saveApiKey(key: ApiKey): Promise<ApiKey> {
+    this.db
+      .prepare(`
+        INSERT INTO api_keys (id, user_id, name, scopes, organization_id, key_hash, created_at, expires_at, last_used_at, revoked_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        key.id,
+        key.userId,
+        key.name,
+        JSON.stringify(key.scopes),
+        key.organizationId,
+        key.keyHash,
+        key.createdAt.toISOString(),
+        key.expiresAt.toISOString(),
+        key.lastUsedAt ? key.lastUsedAt.toISOString() : null,
+        key.revokedAt ? key.revokedAt.toISOString() : null,
+      );
+    return key;
+  }
+
+  async findApiKey(id: string): Promise<ApiKey | null> {
+    const row = this.db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+    return row ? this.toApiKey(row) : null;
+  }
+
+  async findApiKeys(userId: string): Promise<ApiKey[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at')
+      .all(userId) as ApiKeyRow[];
+    return rows.map(row => this.toApiKey(row));
+  }
+
+  async updateApiKey(id: string, changes: ApiKeyChanges): Promise<ApiKey | null> {
+    const assignments: string[] = [];
+    if (changes.lastUsedAt !== undefined) assignments.push('last_used_at = @lastUsedAt');
+    if (changes.revokedAt !== undefined) assignments.push('revoked_at = @revokedAt');
+
+    if (assignments.length) {
+      this.db
+        .prepare(`UPDATE api_keys SET ${assignments.join(', ')} WHERE id = @id`)
+        .run({
+          id,
+          lastUsedAt: changes.lastUsedAt ? changes.lastUsedAt.toISOString() : null,
+          revokedAt: changes.revokedAt ? changes.revokedAt.toISOString() : null,
+        });
+    }
+    return this.findApiKey(id);
+  }
+
+  async findRoles(): Promise<RoleDefinition[]> {
+    const rows = this.db.prepare('SELECT * FROM roles ORDER BY name').all() as RoleRow[];
+    return rows.map(row => this.toRole(row));
+  }
+
+  async findRole(name: string): Promise<RoleDefinition | null> {
+    const row = this.db.prepare('SELECT * FROM roles WHERE name = ?').get(name) as RoleRow | undefined;
+    return row ? this.toRole(row) : null;
+  }
+
+  async saveRole(role: RoleDefinition): Promise<RoleDefinition> {
+    const now = new Date().toISOString();
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO roles (name, description, permissions, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(
+        role.name,
+        role.description ?? null,
+        JSON.stringify(role.permissions),
+        role.createdAt ? role.createdAt.toISOString() : now,
+        role.updatedAt ? role.updatedAt.toISOString() : now,
+      );
+    return role;
+  }
+
+  async deleteRole(name: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM roles WHERE name = ?').run(name).changes > 0;
+  }
+
+  async findOrganizations(): Promise<Organization[]> {
+    const rows = this.db.prepare('SELECT * FROM organizations ORDER BY slug').all() as OrganizationRow[];
+    return rows.map(row => this.toOrganization(row));
+  }
+
+  async findOrganization(id: string): Promise<Organization | null> {
+    const row = this.db.prepare('SELECT * FROM organizations WHERE id = ?').get(id) as OrganizationRow | undefined;
+    return row ? this.toOrganization(row) : null;
+  }
+
+  async findOrganizationBySlug(slug: string): Promise<Organization | null> {
+    const row = this.db.prepare('SELECT * FROM organizations WHERE slug = ?').get(slug) as OrganizationRow | undefined;
+    return row ? this.toOrganization(row) : null;
+  }
+
+  async saveOrganization(organization: Organization): Promise<Organization> {
+    this.db
+      .prepare(`
+        INSERT INTO organizations (id, slug, name, created_at, updated_at)
+        VALUES (@id, @slug, @name, @createdAt, @updatedAt)
+        ON CONFLICT (id) DO UPDATE SET slug = @slug, name = @name, updated_at = @updatedAt
+      `)
+      .run({
+        ...organization,
+        createdAt: organization.createdAt.toISOString(),
+        updatedAt: organization.updatedAt.toISOString(),
+      });
+    return organization;
+  }
+
+  async findMembership(organizationId: string, userId: string): Promise<Membership | null> {
+    const row = this.db
+      .prepare('SELECT * FROM memberships WHERE organization_id = ? AND user_id = ?')
+      .get(organizationId, userId) as MembershipRow | undefined;
+    return row ? this.toMembership(row) : null;
+  }
+
+  async findMemberships(criteria: MembershipCriteria): Promise<Membership[]> {
+    const conditions = ['1 = 1'];
+    if (criteria.organizationId) conditions.push('organization_id = @organizationId');
+    if (criteria.userId) conditions.push('user_id = @userId');
+    if (criteria.role) conditions.push('role = @role');
+
+    const rows = this.db
+      .prepare(`SELECT * FROM memberships WHERE ${conditions.join(' AND ')} ORDER BY created_at`)
+      .all(criteria) as MembershipRow[];
+    return rows.map(row => this.toMembership(row));
+  }
+
+  async saveMembership(membership: Membership): Promise<Membership> {
+    this.db
+      .prepare(`
+        INSERT INTO memberships (organization_id, user_id, role, created_at, updated_at)
+        VALUES (@organizationId, @userId, @role, @createdAt, @updatedAt)
+        ON CONFLICT (organization_id, user_id) DO UPDATE SET role = @role, updated_at = @updatedAt
+      `)
+      .run({
+        ...membership,
+        createdAt: membership.createdAt.toISOString(),
+        updatedAt: membership.updatedAt.toISOString(),
+      });
+    return membership;
+  }
+
+  async deleteMembership(organizationId: string, userId: string): Promise<boolean> {
+    return this.db
+      .prepare('DELETE FROM memberships WHERE organization_id = ? AND user_id = ?')
+      .run(organizationId, userId).changes > 0;
+  }
+
+  private seed(): void {
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number };
+    if (count > 0) {
+      return;
+    }
+
+    const insertAll = this.db.transaction((users: UserRecord[]) => {
+      users.forEach(user => this.create(user));
+    });
+    insertAll(buildSeedUsers());
+    this.logger.log('Seeded demo users');
+  }
+
+  private toRow(user: Partial<UserRecord>): Partial<UserRow> {
+    const row: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(user)) {
+      const column = USER_COLUMNS[key as keyof UserRecord];
+      if (!column || value === undefined) continue;
+
+      if (value instanceof Date) {
+        row[column] = value.toISOString();
+      } else if (Array.isArray(value)) {
+        row[column] = JSON.stringify(value);
+      } else if (typeof value === 'boolean') {
+        row[column] = value ? 1 : 0;
+      } else {
+        row[column] = value;
+      }
+    }
+
+    return row as Partial<UserRow>;
+  }
+
+  private toUserRecord(row: UserRow): UserRecord {
+    return {
+      id: row.id,
+      email: row.email,
+      username: row.username,
+      role: row.role,
+      status: row.status as UserStatus,
+      isActive: row.is_active === 1,
+      mfaEnabled: row.mfa_enabled === 1,
+      locale: row.locale,
+      failedLoginAttempts: row.failed_login_attempts,
+      lockoutCount: row.lockout_count,
+      lockedUntil: row.locked_until ? new Date(row.locked_until) : null,
+      password: row.password_hash,
+      mfaSecret: row.mfa_secret,
+      mfaPendingSecret: row.mfa_pending_secret,
+      mfaRecoveryCodes: JSON.parse(row.mfa_recovery_codes),
+      mfaLastUsedStep: row.mfa_last_used_step,
+      emailVerificationNonce: row.email_verification_nonce,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toUser(row: UserRow): User {
+    return toUser(this.toUserRecord(row));
+  }
+
+  private toRole(row: RoleRow): RoleDefinition {
+    return {
+      name: row.name,
+      description: row.description ?? undefined,
+      permissions: JSON.parse(row.permissions),
+      builtIn: false,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toIdentity(row: IdentityRow): UserIdentity {
+    return {
+      provider: row.provider,
+      subject: row.subject,
+      userId: row.user_id,
+      email: row.email ?? undefined,
+      linkedAt: new Date(row.linked_at),
+    };
+  }
+
+  private toSession(row: SessionRow): Session {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      device: row.device as DeviceType,
+      browser: row.browser,
+      os: row.os,
+      userAgent: row.user_agent,
+      ip: row.ip,
+      organizationId: row.organization_id,
+      createdAt: new Date(row.created_at),
+      lastSeenAt: new Date(row.last_seen_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    };
+  }
+
+  private toOrganization(row: OrganizationRow): Organization {
+    return {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toMembership(row: MembershipRow): Membership {
+    return {
+      organizationId: row.organization_id,
+      userId: row.user_id,
+      role: row.role,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toApiKey(row: ApiKeyRow): ApiKey {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      scopes: JSON.parse(row.scopes),
+      organizationId: row.organization_id,
+      keyHash: row.key_hash,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    };
+  }
+
+  private toRefreshToken(row: RefreshTokenRow): RefreshToken {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      familyId: row.family_id,
+      tokenHash: row.token_hash,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    };
+  }
+}
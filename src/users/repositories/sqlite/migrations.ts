@@ -0,0 +1,216 @@
+import { Database } from 'better-sqlite3';
+
+export interface Migration {
+  id: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Schema migrations, applied in order. Never edit a migration that has
+ * shipped; append a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'create_users',
+    up: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        username TEXT NOT NULL,
+        role TEXT NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        password_hash TEXT NOT NULL DEFAULT '',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    id: 2,
+    name: 'create_refresh_tokens',
+    up: `
+      CREATE TABLE refresh_tokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        family_id TEXT NOT NULL,
+        token_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT
+      );
+      CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+      CREATE INDEX idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+    `,
+  },
+  {
+    id: 3,
+    name: 'add_users_status',
+    up: `
+      ALTER TABLE users ADD COLUMN status TEXT NOT NULL DEFAULT 'active';
+    `,
+  },
+  {
+    id: 4,
+    name: 'add_users_mfa',
+    up: `
+      ALTER TABLE users ADD COLUMN mfa_enabled INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN mfa_secret TEXT;
+      ALTER TABLE users ADD COLUMN mfa_pending_secret TEXT;
+      ALTER TABLE users ADD COLUMN mfa_recovery_codes TEXT NOT NULL DEFAULT '[]';
+      ALTER TABLE users ADD COLUMN mfa_last_used_step INTEGER;
+    `,
+  },
+  {
+    id: 5,
+    name: 'add_users_lockout',
+    up: `
+      ALTER TABLE users ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN lockout_count INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN locked_until TEXT;
+    `,
+  },
+  {
+    id: 6,
+    name: 'create_roles',
+    up: `
+      CREATE TABLE roles (
+        name TEXT PRIMARY KEY,
+        description TEXT,
+        permissions TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    id: 7,
+    name: 'add_users_locale',
+    up: `
+      ALTER TABLE users ADD COLUMN locale TEXT;
+    `,
+  },
+  {
+    id: 8,
+    name: 'create_user_identities',
+    up: `
+      CREATE TABLE user_identities (
+        provider TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        email TEXT,
+        linked_at TEXT NOT NULL,
+        PRIMARY KEY (provider, subject)
+      );
+      CREATE INDEX idx_user_identities_user_id ON user_identities(user_id);
+    `,
+  },
+  {
+    id: 9,
+    name: 'create_api_keys',
+    up: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        name TEXT NOT NULL,
+        scopes TEXT NOT NULL DEFAULT '[]',
+        key_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT
+      );
+      CREATE INDEX idx_api_keys_user_id ON api_keys(user_id);
+    `,
+  },
+  {
+    id: 10,
+    name: 'create_sessions',
+    up: `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        device TEXT NOT NULL,
+        browser TEXT,
+        os TEXT,
+        user_agent TEXT,
+        ip TEXT,
+        created_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        revoked_at TEXT
+      );
+      CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+    `,
+  },
+  {
+    id: 11,
+    name: 'create_organizations',
+    up: `
+      CREATE TABLE organizations (
+        id TEXT PRIMARY KEY,
+        slug TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE memberships (
+        organization_id TEXT NOT NULL REFERENCES organizations(id),
+        user_id TEXT NOT NULL REFERENCES users(id),
+        role TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (organization_id, user_id)
+      );
+      CREATE INDEX idx_memberships_user_id ON memberships(user_id);
+      ALTER TABLE sessions ADD COLUMN organization_id TEXT REFERENCES organizations(id);
+    `,
+  },
+  {
+    id: 12,
+    name: 'add_users_email_verification_nonce',
+    up: `
+      ALTER TABLE users ADD COLUMN email_verification_nonce TEXT;
+    `,
+  },
+  {
+    id: 13,
+    name: 'add_api_keys_organization',
+    up: `
+      ALTER TABLE api_keys ADD COLUMN organization_id TEXT REFERENCES organizations(id);
+    `,
+  },
+];
+
+/**
+ * Applies every migration that is not recorded in `schema_migrations` yet.
+ * Each migration runs in its own transaction.
+ */
+export function runMigrations(db: Database, pending: Migration[] = migrations): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const applied = new Set(
+    db.prepare('SELECT id FROM schema_migrations').all().map((row: { id: number }) => row.id),
+  );
+  const record = db.prepare('INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)');
+  const appliedNow: number[] = [];
+
+  [...pending]
+    .sort((a, b) => a.id - b.id)
+    .filter(migration => !applied.has(migration.id))
+    .forEach(migration => {
+      db.transaction(() => {
+        db.exec(migration.up);
+        record.run(migration.id, migration.name, new Date().toISOString());
+      })();
+      appliedNow.push(migration.id);
+    });
+
+  return appliedNow;
+}
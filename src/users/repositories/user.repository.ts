@@ -0,0 +1,136 @@
+import { SortDirection, User, UserSortField } from '../../common/types/user.types';
+import { RoleDefinition } from '../../common/types/role.types';
+import { RefreshToken } from '../../common/types/auth.types';
+import { UserIdentity } from '../../common/types/oidc.types';
+import { ApiKey } from '../../common/types/api-key.types';
+import { Session } from '../../common/types/session.types';
+import { Membership, Organization } from '../../common/types/organization.types';
+
+/**
+ * Secrets stored alongside a user. They never leave the users/auth services;
+ * use `toUser` before returning a record to a client.
+ */
+export interface UserCredentials {
+  password: string;
+  /** Base32 TOTP secret, set once enrollment is confirmed */
+  mfaSecret?: string | null;
+  /** Secret handed out by setup and waiting for its first code */
+  mfaPendingSecret?: string | null;
+  /** SHA-256 hashes of the unused recovery codes */
+  mfaRecoveryCodes?: string[];
+  /** Last accepted TOTP time step, so a code cannot be replayed */
+  mfaLastUsedStep?: number | null;
+  /** Nonce of the latest verification link; mailing a new link voids the older ones */
+  emailVerificationNonce?: string | null;
+}
+
+export type UserRecord = User & UserCredentials;
+
+export function toUser(record: UserRecord): User {
+  const {
+    password: _password,
+    mfaSecret: _mfaSecret,
+    mfaPendingSecret: _mfaPendingSecret,
+    mfaRecoveryCodes: _mfaRecoveryCodes,
+    mfaLastUsedStep: _mfaLastUsedStep,
+    emailVerificationNonce: _emailVerificationNonce,
+    ...user
+  } = record;
+  return { ...user };
+}
+
+export interface RefreshTokenCriteria {
+  id?: string;
+  familyId?: string;
+  userId?: string;
+}
+
+/** The fields of an API key that change after it has been created */
+export type ApiKeyChanges = Partial<Pick<ApiKey, 'lastUsedAt' | 'revokedAt'>>;
+
+/** The fields of a session that change after the login */
+export type SessionChanges = Partial<Pick<Session, 'ip' | 'lastSeenAt' | 'revokedAt'>>;
+
+export interface MembershipCriteria {
+  organizationId?: string;
+  userId?: string;
+  role?: string;
+}
+
+export interface UserSearchCriteria {
+  /** Only members of the organization, with the role they hold there */
+  organizationId?: string;
+  role?: string;
+  isActive?: boolean;
+  createdFrom?: Date;
+  createdTo?: Date;
+  q?: string;
+  sort: { field: UserSortField; direction: SortDirection };
+  /** Keyset position: only users sorted strictly after this (value, id) pair */
+  after?: { value: string; id: string };
+  offset?: number;
+  limit: number;
+}
+
+export interface UserSearchResult {
+  items: User[];
+  /** Number of users matching the filters, regardless of paging */
+  total: number;
+}
+
+/**
+ * User Repository
+ * Persistence port for users, their refresh tokens, sessions, linked identities, API keys and
+ * organizations. UsersService only talks to this interface, so storage adapters can be swapped
+ * through configuration.
+ */
+export interface UserRepository {
+  findAll(): Promise<User[]>;
+  findMany(criteria: UserSearchCriteria): Promise<UserSearchResult>;
+  findById(id: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  create(user: UserRecord): Promise<User>;
+  update(id: string, changes: Partial<UserRecord>): Promise<User | null>;
+
+  saveRefreshToken(token: RefreshToken): Promise<RefreshToken>;
+  findRefreshToken(id: string): Promise<RefreshToken | null>;
+  findRefreshTokens(userId: string): Promise<RefreshToken[]>;
+  /** Revokes every matching token that is not revoked yet and returns how many were */
+  revokeRefreshTokens(criteria: RefreshTokenCriteria, revokedAt: Date): Promise<number>;
+
+  saveSession(session: Session): Promise<Session>;
+  findSession(id: string): Promise<Session | null>;
+  findSessions(userId: string): Promise<Session[]>;
+  updateSession(id: string, changes: SessionChanges): Promise<Session | null>;
+
+  findIdentity(provider: string, subject: string): Promise<UserIdentity | null>;
+  findIdentities(userId: string): Promise<UserIdentity[]>;
+  /** Fails when the provider account is already linked */
+  saveIdentity(identity: UserIdentity): Promise<UserIdentity>;
+
+  saveApiKey(key: ApiKey): Promise<ApiKey>;
+  findApiKey(id: string): Promise<ApiKey | null>;
+  findApiKeys(userId: string): Promise<ApiKey[]>;
+  updateApiKey(id: string, changes: ApiKeyChanges): Promise<ApiKey | null>;
+
+  /** Custom roles only; built-in roles come from the permissions policy */
+  findRoles(): Promise<RoleDefinition[]>;
+  findRole(name: string): Promise<RoleDefinition | null>;
+  saveRole(role: RoleDefinition): Promise<RoleDefinition>;
+  deleteRole(name: string): Promise<boolean>;
+
+  findOrganizations(): Promise<Organization[]>;
+  findOrganization(id: string): Promise<Organization | null>;
+  findOrganizationBySlug(slug: string): Promise<Organization | null>;
+  /** Fails when the slug is taken */
+  saveOrganization(organization: Organization): Promise<Organization>;
+
+  findMembership(organizationId: string, userId: string): Promise<Membership | null>;
+  findMemberships(criteria: MembershipCriteria): Promise<Membership[]>;
+  /** Adds the member, or changes their role when they already are one */
+  saveMembership(membership: Membership): Promise<Membership>;
+  deleteMembership(organizationId: string, userId: string): Promise<boolean>;
+
+  /** Throws when the store cannot be reached; used by the readiness probe */
+  ping(): Promise<void>;
+}
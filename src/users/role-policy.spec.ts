@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_ROLE_POLICY, isValidPermission, loadRolePolicy } from './role-policy';
+
+describe('loadRolePolicy', () => {
+  let dir: string;
+
+  const writePolicy = (policy: unknown): string => {
+    const file = path.join(dir, 'permissions.json');
+    fs.writeFileSync(file, JSON.stringify(policy));
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'role-policy-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fall back to the default policy', () => {
+    expect(loadRolePolicy()).toBe(DEFAULT_ROLE_POLICY);
+  });
+
+  it('should read roles from a JSON file', () => {
+    const file = writePolicy({ roles: { admin: { permissions: ['*'] }, auditor: { permissions: ['users:read'] } } });
+
+    expect(Object.keys(loadRolePolicy(file).roles)).toEqual(['admin', 'auditor']);
+  });
+
+  it('should reject unknown permissions', () => {
+    const file = writePolicy({ roles: { admin: { permissions: ['everything'] } } });
+
+    expect(() => loadRolePolicy(file)).toThrow('unknown permissions: everything');
+  });
+
+  it('should accept resource wildcards only for known resources', () => {
+    expect(isValidPermission('roles:*')).toBe(true);
+    expect(isValidPermission('billing:*')).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import { UserRole } from '../common/types/user.types';
+import { PERMISSIONS } from '../common/types/role.types';
+
+export interface RolePolicy {
+  roles: Record<string, { description?: string; permissions: string[] }>;
+}
+
+/** Used when no policy file is configured */
+export const DEFAULT_ROLE_POLICY: RolePolicy = {
+  roles: {
+    [UserRole.ADMIN]: { description: 'Full access', permissions: ['*'] },
+    [UserRole.MODERATOR]: { description: 'Can list and view users', permissions: ['users:read'] },
+    [UserRole.USER]: { description: 'Own profile only', permissions: [] },
+  },
+};
+
+const RESOURCES = new Set(PERMISSIONS.map(permission => permission.split(':')[0]));
+
+/** A permission from PERMISSIONS, `resource:*` for a known resource, or `*` */
+export function isValidPermission(permission: string): boolean {
+  if (permission === '*' || (PERMISSIONS as readonly string[]).includes(permission)) {
+    return true;
+  }
+
+  const [resource, action] = permission.split(':');
+  return action === '*' && RESOURCES.has(resource);
+}
+
+/**
+ * Reads the role policy from a JSON file. The file replaces the default
+ * policy entirely, so it has to define the built-in roles as well.
+ */
+export function loadRolePolicy(file?: string): RolePolicy {
+  if (!file) {
+    return DEFAULT_ROLE_POLICY;
+  }
+
+  const policy = JSON.parse(fs.readFileSync(file, 'utf8')) as RolePolicy;
+  const roles = policy && typeof policy.roles === 'object' ? Object.entries(policy.roles) : [];
+
+  if (!roles.length) {
+    throw new Error(`Permissions policy ${file} does not define any roles`);
+  }
+
+  for (const [name, role] of roles) {
+    if (!Array.isArray(role?.permissions)) {
+      throw new Error(`Role "${name}" in ${file} needs a permissions array`);
+    }
+    const unknown = role.permissions.filter(permission => !isValidPermission(permission));
+    if (unknown.length) {
+      throw new Error(`Role "${name}" in ${file} has unknown permissions: ${unknown.join(', ')}`);
+    }
+  }
+
+  return policy;
+}
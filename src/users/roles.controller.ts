@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiSecurity } from '@nestjs/swagger';
+import { RolesService } from './roles.service';
+import { CreateRoleDto } from '../common/dto/create-role.dto';
+import { UpdateRoleDto } from '../common/dto/update-role.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { NoOrganization } from '../common/decorators/no-organization.decorator';
+import { RequestAuditContext } from '../common/decorators/audit-context.decorator';
+import { ResponseMessage } from '../common/decorators/response-message.decorator';
+import { ApiOkResponseEnvelope } from '../common/decorators/api-ok-response-envelope.decorator';
+import { AuditContext } from '../common/types/audit.types';
+import { RoleResponseDto } from '../common/dto/role-response.dto';
+
+@ApiTags('Roles')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
+@Controller('roles')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @RequirePermissions('roles:read')
+  @Get()
+  @ResponseMessage('responses.roles.listed')
+  @ApiOkResponseEnvelope(RoleResponseDto, { isArray: true })
+  async findAll() {
+    return this.rolesService.findAll();
+  }
+
+  @RequirePermissions('roles:read')
+  @Get(':name')
+  @ResponseMessage('responses.roles.retrieved')
+  @ApiOkResponseEnvelope(RoleResponseDto)
+  async findOne(@Param('name') name: string) {
+    return this.rolesService.findOne(name);
+  }
+
+  @RequirePermissions('roles:manage')
+  @NoOrganization()
+  @Post()
+  @ResponseMessage('responses.roles.created')
+  @ApiOkResponseEnvelope(RoleResponseDto, { status: 201 })
+  async create(@Body() createRoleDto: CreateRoleDto, @RequestAuditContext() context: AuditContext) {
+    return this.rolesService.create(createRoleDto, context);
+  }
+
+  @RequirePermissions('roles:manage')
+  @NoOrganization()
+  @Patch(':name')
+  @ResponseMessage('responses.roles.updated')
+  @ApiOkResponseEnvelope(RoleResponseDto)
+  async update(
+    @Param('name') name: string,
+    @Body() updateRoleDto: UpdateRoleDto,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    return this.rolesService.update(name, updateRoleDto, context);
+  }
+
+  @RequirePermissions('roles:manage')
+  @NoOrganization()
+  @Delete(':name')
+  @ResponseMessage('responses.roles.deleted')
+  @ApiOkResponseEnvelope()
+  async remove(@Param('name') name: string, @RequestAuditContext() context: AuditContext) {
+    await this.rolesService.remove(name, context);
+  }
+}
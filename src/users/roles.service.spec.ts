@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RolesService } from './roles.service';
+import { USER_REPOSITORY } from './users.constants';
+import {
+  BuiltInRoleException,
+  RoleAlreadyExistsException,
+  RoleInUseException,
+  RoleNotFoundException,
+} from './users.exceptions';
+import { InMemoryUserRepository } from './repositories/in-memory-user.repository';
+import { UserRole } from '../common/types/user.types';
+import { AuditService } from '../audit/audit.service';
+import { AUDIT_STORE } from '../audit/audit.constants';
+import { InMemoryAuditStore } from '../audit/stores/in-memory-audit.store';
+import { authConfig } from '../config/auth.config';
+
+describe('RolesService', () => {
+  let service: RolesService;
+  let repository: InMemoryUserRepository;
+
+  beforeEach(async () => {
+    repository = new InMemoryUserRepository();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: AUDIT_STORE,
+          useValue: new InMemoryAuditStore(),
+        },
+        RolesService,
+        {
+          provide: USER_REPOSITORY,
+          useValue: repository,
+        },
+        {
+          provide: authConfig.KEY,
+          useValue: authConfig(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<RolesService>(RolesService);
+  });
+
+  describe('resolvePermissions', () => {
+    it('should resolve built-in roles from the default policy', async () => {
+      expect(await service.resolvePermissions(UserRole.ADMIN)).toEqual(['*']);
+      expect(await service.resolvePermissions(UserRole.MODERATOR)).toEqual(['users:read']);
+      expect(await service.resolvePermissions(UserRole.USER)).toEqual([]);
+    });
+
+    it('should resolve custom roles', async () => {
+      await service.create({ name: 'support', permissions: ['users:read', 'users:unlock'] });
+
+      expect(await service.resolvePermissions('support')).toEqual(['users:read', 'users:unlock']);
+    });
+
+    it('should grant nothing for unknown roles', async () => {
+      expect(await service.resolvePermissions('constructor')).toEqual([]);
+    });
+  });
+
+  describe('create', () => {
+    it('should list the new role next to the built-in ones', async () => {
+      await service.create({ name: 'support', description: 'Helpdesk', permissions: ['users:*'] });
+
+      const roles = await service.findAll();
+
+      expect(roles.map(role => role.name)).toEqual(['admin', 'moderator', 'user', 'support']);
+      expect(roles.find(role => role.name === 'support')).toEqual(expect.objectContaining({
+        builtIn: false,
+        description: 'Helpdesk',
+      }));
+    });
+
+    it('should reject names that are already taken', async () => {
+      await expect(service.create({ name: UserRole.ADMIN, permissions: [] }))
+        .rejects.toThrow(RoleAlreadyExistsException);
+    });
+
+    it('should reject unknown permissions', async () => {
+      await expect(service.create({ name: 'support', permissions: ['users:fly', 'billing:*'] }))
+        .rejects.toThrow('Unknown permissions: users:fly, billing:*');
+    });
+  });
+
+  describe('update', () => {
+    it('should replace the permissions of a custom role', async () => {
+      await service.create({ name: 'support', permissions: ['users:read'] });
+
+      const role = await service.update('support', { permissions: ['users:unlock'] });
+
+      expect(role.permissions).toEqual(['users:unlock']);
+      expect(await service.resolvePermissions('support')).toEqual(['users:unlock']);
+    });
+
+    it('should not change built-in roles', async () => {
+      await expect(service.update(UserRole.USER, { permissions: ['*'] }))
+        .rejects.toThrow(BuiltInRoleException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete an unused custom role', async () => {
+      await service.create({ name: 'support', permissions: [] });
+
+      await service.remove('support');
+
+      await expect(service.findOne('support')).rejects.toThrow(RoleNotFoundException);
+    });
+
+    it('should refuse to delete a role that is still assigned', async () => {
+      await service.create({ name: 'support', permissions: [] });
+      const user = await repository.findByEmail('user@example.com');
+      await repository.update(user.id, { role: 'support' });
+
+      await expect(service.remove('support')).rejects.toThrow(RoleInUseException);
+    });
+
+    it('should refuse to delete a role held in an organization', async () => {
+      await service.create({ name: 'support', permissions: [] });
+      const user = await repository.findByEmail('user@example.com');
+      const now = new Date();
+      await repository.saveMembership({ organizationId: 'org-1', userId: user.id, role: 'support', createdAt: now, updatedAt: now });
+
+      await expect(service.remove('support')).rejects.toThrow(RoleInUseException);
+    });
+  });
+});
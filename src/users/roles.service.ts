@@ -0,0 +1,172 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { RoleDefinition } from '../common/types/role.types';
+import { CreateRoleDto } from '../common/dto/create-role.dto';
+import { UpdateRoleDto } from '../common/dto/update-role.dto';
+import { USER_REPOSITORY } from './users.constants';
+import { UserRepository } from './repositories/user.repository';
+import { isValidPermission, loadRolePolicy, RolePolicy } from './role-policy';
+import { AuditService, diffFields } from '../audit/audit.service';
+import { AuditContext } from '../common/types/audit.types';
+import { authConfig, AuthConfig } from '../config/auth.config';
+import {
+  BuiltInRoleException,
+  RoleAlreadyExistsException,
+  RoleInUseException,
+  RoleNotFoundException,
+  UnknownPermissionsException,
+} from './users.exceptions';
+
+const AUDITED_FIELDS: (keyof RoleDefinition)[] = ['description', 'permissions'];
+
+/**
+ * Roles Service
+ * Built-in roles come from the permissions policy; custom roles are stored
+ * alongside users and managed through the roles API
+ */
+@Injectable()
+export class RolesService {
+  private readonly policy: RolePolicy;
+
+  constructor(
+    @Inject(USER_REPOSITORY) private readonly userRepository: UserRepository,
+    private readonly auditService: AuditService,
+    @Inject(authConfig.KEY) auth: AuthConfig,
+  ) {
+    this.policy = loadRolePolicy(auth.permissionsPolicyFile);
+  }
+
+  async findAll(): Promise<RoleDefinition[]> {
+    return [...this.builtInRoles(), ...(await this.userRepository.findRoles())];
+  }
+
+  async findOne(name: string): Promise<RoleDefinition> {
+    const role = this.builtInRoles().find(builtIn => builtIn.name === name)
+      ?? (await this.userRepository.findRole(name));
+
+    if (!role) {
+      throw new RoleNotFoundException();
+    }
+
+    return role;
+  }
+
+  async exists(name: string): Promise<boolean> {
+    return this.isBuiltIn(name) || (await this.userRepository.findRole(name)) !== null;
+  }
+
+  /**
+   * Permissions granted by a role. Unknown roles, e.g. a custom role that has
+   * been deleted, grant nothing.
+   */
+  async resolvePermissions(name: string): Promise<string[]> {
+    if (this.isBuiltIn(name)) {
+      return [...this.policy.roles[name].permissions];
+    }
+
+    const role = await this.userRepository.findRole(name);
+    return role ? role.permissions : [];
+  }
+
+  async create(createRoleDto: CreateRoleDto, context: AuditContext = {}): Promise<RoleDefinition> {
+    if (await this.exists(createRoleDto.name)) {
+      throw new RoleAlreadyExistsException();
+    }
+
+    this.assertValidPermissions(createRoleDto.permissions);
+    const now = new Date();
+
+    const role = await this.userRepository.saveRole({
+      name: createRoleDto.name,
+      description: createRoleDto.description,
+      permissions: createRoleDto.permissions,
+      builtIn: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await this.auditService.record({
+      action: 'role.created',
+      target: { type: 'Role', id: role.name },
+      changes: diffFields(null, role, AUDITED_FIELDS),
+    }, context);
+
+    return role;
+  }
+
+  async update(name: string, updateRoleDto: UpdateRoleDto, context: AuditContext = {}): Promise<RoleDefinition> {
+    const role = await this.findCustomRole(name);
+
+    if (updateRoleDto.permissions) {
+      this.assertValidPermissions(updateRoleDto.permissions);
+    }
+
+    const updatedRole = await this.userRepository.saveRole({
+      ...role,
+      ...updateRoleDto,
+      updatedAt: new Date(),
+    });
+
+    await this.auditService.record({
+      action: 'role.updated',
+      target: { type: 'Role', id: name },
+      changes: diffFields(role, updatedRole, AUDITED_FIELDS),
+    }, context);
+
+    return updatedRole;
+  }
+
+  async remove(name: string, context: AuditContext = {}): Promise<void> {
+    await this.findCustomRole(name);
+
+    const { total } = await this.userRepository.findMany({
+      role: name,
+      isActive: true,
+      sort: { field: 'createdAt', direction: 'asc' },
+      limit: 1,
+    });
+
+    if (total > 0 || (await this.userRepository.findMemberships({ role: name })).length > 0) {
+      throw new RoleInUseException();
+    }
+
+    await this.userRepository.deleteRole(name);
+
+    await this.auditService.record({
+      action: 'role.deleted',
+      target: { type: 'Role', id: name },
+    }, context);
+  }
+
+  private async findCustomRole(name: string): Promise<RoleDefinition> {
+    if (this.isBuiltIn(name)) {
+      throw new BuiltInRoleException();
+    }
+
+    const role = await this.userRepository.findRole(name);
+    if (!role) {
+      throw new RoleNotFoundException();
+    }
+
+    return role;
+  }
+
+  private isBuiltIn(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.policy.roles, name);
+  }
+
+  private builtInRoles(): RoleDefinition[] {
+    return Object.entries(this.policy.roles).map(([name, role]) => ({
+      name,
+      description: role.description,
+      permissions: [...role.permissions],
+      builtIn: true,
+    }));
+  }
+
+  private assertValidPermissions(permissions: string[]): void {
+    const unknown = permissions.filter(permission => !isValidPermission(permission));
+    if (unknown.length) {
+      throw new UnknownPermissionsException(unknown);
+    }
+  }
+}
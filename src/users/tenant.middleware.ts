@@ -0,0 +1,55 @@
+import { Inject, Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { RequestContext } from '../common/context/request-context';
+import { httpConfig, HttpConfig } from '../config/http.config';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationNotFoundException } from './users.exceptions';
+import { TENANT_HEADER } from './users.constants';
+
+/**
+ * Tenant Middleware
+ * Resolves the organization a request names, by id or slug, in the X-Tenant
+ * header or else as the subdomain of TENANT_BASE_DOMAIN. The authentication
+ * strategies then check the user's membership, or fall back to the
+ * organization in the token. Runs inside the request context.
+ */
+@Injectable()
+export class TenantMiddleware implements NestMiddleware {
+  constructor(
+    private readonly organizationsService: OrganizationsService,
+    @Inject(httpConfig.KEY) private readonly http: HttpConfig,
+  ) {}
+
+  async use(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const reference = this.referenceOf(req);
+    const context = RequestContext.current();
+
+    if (reference && context) {
+      const organization = await this.organizationsService.findByReference(reference);
+      if (!organization) {
+        throw new OrganizationNotFoundException();
+      }
+
+      context.organizationId = organization.id;
+    }
+
+    next();
+  }
+
+  private referenceOf(req: Request): string | undefined {
+    const header = req.headers[TENANT_HEADER.toLowerCase()];
+    if (typeof header === 'string' && header) {
+      return header;
+    }
+
+    const baseDomain = this.http.tenantBaseDomain;
+    const hostname = req.hostname?.toLowerCase();
+    if (baseDomain && hostname?.endsWith(`.${baseDomain}`)) {
+      const subdomain = hostname.slice(0, -baseDomain.length - 1);
+      // Only a single label names an organization, not www.app.example.com
+      return subdomain.includes('.') ? undefined : subdomain;
+    }
+
+    return undefined;
+  }
+}
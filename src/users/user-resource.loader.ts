@@ -0,0 +1,32 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Request } from 'express';
+import { isUUID } from 'class-validator';
+import { User } from '../common/types/user.types';
+import { subject } from '../common/policies/ability';
+import { ResourceLoader } from '../common/policies/resource-loader';
+import { UsersService } from './users.service';
+import { UserNotFoundException } from './users.exceptions';
+
+/**
+ * Loads the user addressed by the `:id` route parameter for policy checks
+ */
+@Injectable()
+export class UserResourceLoader implements ResourceLoader<User> {
+  constructor(private readonly usersService: UsersService) {}
+
+  async load(request: Request): Promise<User> {
+    const { id } = request.params;
+
+    // Guards run before pipes, so ParseUUIDPipe has not checked the id yet
+    if (!isUUID(id)) {
+      throw new BadRequestException('Validation failed (uuid is expected)');
+    }
+
+    const user = await this.usersService.findProfile(id);
+    if (!user) {
+      throw new UserNotFoundException();
+    }
+
+    return subject('User', user);
+  }
+}
@@ -0,0 +1,24 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { HealthIndicator } from '../common/types/health.types';
+import { HealthService } from '../health/health.service';
+import { USER_REPOSITORY } from './users.constants';
+import { UserRepository } from './repositories/user.repository';
+
+/** Readiness check that the user store answers queries */
+@Injectable()
+export class UserStoreIndicator implements HealthIndicator, OnModuleInit {
+  readonly name = 'userStore';
+
+  constructor(
+    @Inject(USER_REPOSITORY) private readonly userRepository: UserRepository,
+    private readonly healthService: HealthService,
+  ) {}
+
+  onModuleInit(): void {
+    this.healthService.register(this);
+  }
+
+  async check(): Promise<void> {
+    await this.userRepository.ping();
+  }
+}
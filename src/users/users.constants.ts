@@ -0,0 +1,4 @@
+export const USER_REPOSITORY = 'USER_REPOSITORY';
+
+/** Names the organization a request is made for, by slug or id */
+export const TENANT_HEADER = 'X-Tenant';
@@ -6,124 +6,187 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   UseGuards,
   ParseUUIDPipe,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse as SwaggerApiResponse, ApiBody, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse as SwaggerApiResponse, ApiBody, ApiBearerAuth, ApiSecurity, ApiParam } from '@nestjs/swagger';
 import { UsersService } from './users.service';
-import { UserRole } from '../common/types/user.types';
+import { EmailVerificationService } from './email-verification.service';
+import { AuthService } from '../auth/auth.service';
+import { SessionsService } from '../auth/sessions/sessions.service';
+import { OrganizationsService } from './organizations.service';
+import { UserPayload, UserStatus } from '../common/types/user.types';
 import { CreateUserDto } from '../common/dto/create-user.dto';
 import { UpdateUserDto } from '../common/dto/update-user.dto';
+import { ListUsersQueryDto } from '../common/dto/list-users-query.dto';
+import { ChangePasswordDto } from '../common/dto/change-password.dto';
+import { UserResponseDto } from '../common/dto/user-response.dto';
+import { SessionResponseDto } from '../common/dto/session-response.dto';
+import { UserOrganizationResponseDto } from '../common/dto/organization-response.dto';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
-import { RolesGuard } from '../common/guards/roles.guard';
-import { OwnershipGuard } from '../common/guards/ownership.guard';
-import { Roles } from '../common/decorators/roles.decorator';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { PoliciesGuard } from '../common/guards/policies.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { CheckPolicies } from '../common/decorators/check-policies.decorator';
+import { PolicyResource } from '../common/decorators/policy-resource.decorator';
+import { UserResourceLoader } from './user-resource.loader';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
-import { RequestMetadata } from '../common/decorators/request-metadata.decorator';
+import { RequestAuditContext } from '../common/decorators/audit-context.decorator';
+import { ResponseMessage } from '../common/decorators/response-message.decorator';
+import { ApiOkResponseEnvelope } from '../common/decorators/api-ok-response-envelope.decorator';
 import { Public } from '../common/decorators/public.decorator';
-import { ApiResponse } from '../common/types/api-response.types';
+import { SessionOnly } from '../common/decorators/session-only.decorator';
+import { NoImpersonation } from '../common/decorators/no-impersonation.decorator';
+import { AuditContext } from '../common/types/audit.types';
 
 @ApiTags('Users')
 @ApiBearerAuth('JWT-auth')
+@ApiSecurity('api-key')
 @Controller('users')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly organizationsService: OrganizationsService,
+  ) {}
 
   @Public()
   @Post()
-  async create(@Body() createUserDto: CreateUserDto, @RequestMetadata() metadata: any) {
-    const user = await this.usersService.create(createUserDto);
-    
-    const response: ApiResponse = {
-      success: true,
-      message: 'User created successfully',
-      data: user,
-      timestamp: new Date().toISOString(),
-      path: '/users',
-    };
+  @ResponseMessage('responses.users.created')
+  @ApiOkResponseEnvelope(UserResponseDto, { status: 201 })
+  async create(@Body() createUserDto: CreateUserDto, @RequestAuditContext() context: AuditContext) {
+    const user = await this.usersService.create(createUserDto, context);
+    await this.emailVerificationService.sendVerificationEmail(user);
 
-    return response;
+    return user;
   }
 
-  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @RequirePermissions('users:read')
   @Get()
-  async findAll(@CurrentUser() currentUser: any) {
-    const users = await this.usersService.findAll();
-    
-    const response: ApiResponse = {
-      success: true,
-      message: 'Users retrieved successfully',
-      data: users,
-      timestamp: new Date().toISOString(),
-      path: '/users',
-    };
-
-    return response;
+  @ResponseMessage('responses.users.listed')
+  @ApiOkResponseEnvelope(UserResponseDto, { paginated: true })
+  async findAll(@Query() query: ListUsersQueryDto) {
+    return this.usersService.findPaginated(query);
   }
 
   @Get('profile')
+  @ResponseMessage('responses.users.profile')
+  @ApiOkResponseEnvelope(UserResponseDto)
   async getProfile(@CurrentUser() currentUser: any) {
-    const user = await this.usersService.findById(currentUser.sub);
-    
-    const response: ApiResponse = {
-      success: true,
-      message: 'Profile retrieved successfully',
-      data: user,
-      timestamp: new Date().toISOString(),
-      path: '/users/profile',
-    };
+    return this.usersService.findProfile(currentUser.sub);
+  }
 
-    return response;
+  @SessionOnly()
+  @NoImpersonation()
+  @Patch('profile/password')
+  @ResponseMessage('responses.users.password_changed')
+  @ApiOkResponseEnvelope()
+  async changePassword(@CurrentUser() currentUser: UserPayload, @Body() changePasswordDto: ChangePasswordDto) {
+    await this.authService.changePassword(
+      currentUser,
+      changePasswordDto.currentPassword,
+      changePasswordDto.newPassword,
+    );
   }
 
-  @Get(':id')
-  @UseGuards(OwnershipGuard)
-  async findOne(@Param('id') id: string) {
-    const user = await this.usersService.findById(id);
-    
-    const response: ApiResponse = {
-      success: true,
-      message: 'User retrieved successfully',
-      data: user,
-      timestamp: new Date().toISOString(),
-      path: `/users/${id}`,
-    };
+  @Get('profile/sessions')
+  @ResponseMessage('responses.users.sessions_listed')
+  @ApiOkResponseEnvelope(SessionResponseDto, { isArray: true })
+  async getSessions(@CurrentUser() currentUser: UserPayload) {
+    return this.sessionsService.findActive(currentUser.sub, currentUser.sid);
+  }
 
-    return response;
+  @SessionOnly()
+  @NoImpersonation()
+  @Delete('profile/sessions/:sid')
+  @ResponseMessage('responses.users.session_revoked')
+  @ApiOkResponseEnvelope()
+  async revokeSession(
+    @CurrentUser('sub') userId: string,
+    @Param('sid', ParseUUIDPipe) sid: string,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    await this.sessionsService.revoke(userId, sid, context);
   }
 
+  @Get('profile/organizations')
+  @ResponseMessage('responses.users.organizations_listed')
+  @ApiOkResponseEnvelope(UserOrganizationResponseDto, { isArray: true })
+  async getOrganizations(@CurrentUser('sub') userId: string) {
+    return this.organizationsService.findForUser(userId);
+  }
+
+  @Get(':id')
+  @UseGuards(PoliciesGuard)
+  @PolicyResource(UserResourceLoader)
+  @CheckPolicies((ability, user) => ability.can('read', user))
+  @ResponseMessage('responses.users.retrieved')
+  @ApiOkResponseEnvelope(UserResponseDto)
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.findProfile(id);
+  }
+
+  @NoImpersonation()
   @Patch(':id')
-  @UseGuards(OwnershipGuard)
+  @UseGuards(PoliciesGuard)
+  @PolicyResource(UserResourceLoader)
+  @CheckPolicies((ability, user, request) =>
+    ability.can('update', user)
+    && Object.keys(request.body || {}).every(field => ability.can('update', user, field)))
+  @ResponseMessage('responses.users.updated')
+  @ApiOkResponseEnvelope(UserResponseDto)
   async update(
-    @Param('id') id: string,
+    @Param('id', ParseUUIDPipe) id: string,
     @Body() updateUserDto: UpdateUserDto,
+    @RequestAuditContext() context: AuditContext,
   ) {
-    const user = await this.usersService.update(id, updateUserDto);
-    
-    const response: ApiResponse = {
-      success: true,
-      message: 'User updated successfully',
-      data: user,
-      timestamp: new Date().toISOString(),
-      path: `/users/${id}`,
-    };
+    const user = await this.usersService.update(id, updateUserDto, context);
+    // A changed address is confirmed the same way as the one given at registration
+    if (updateUserDto.email && user.status === UserStatus.PENDING_VERIFICATION) {
+      await this.emailVerificationService.sendVerificationEmail(user);
+    }
+    return user;
+  }
 
-    return response;
+  @RequirePermissions('users:unlock')
+  @Post(':id/unlock')
+  @ResponseMessage('responses.users.unlocked')
+  @ApiOkResponseEnvelope(UserResponseDto, { status: 201 })
+  async unlock(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.unlock(id);
   }
 
-  @Roles(UserRole.ADMIN)
-  @Delete(':id')
-  async remove(@Param('id') id: string) {
-    await this.usersService.remove(id);
-    
-    const response: ApiResponse = {
-      success: true,
-      message: 'User deleted successfully',
-      timestamp: new Date().toISOString(),
-      path: `/users/${id}`,
-    };
+  @RequirePermissions('sessions:read')
+  @Get(':id/sessions')
+  @ResponseMessage('responses.users.sessions_listed')
+  @ApiOkResponseEnvelope(SessionResponseDto, { isArray: true })
+  async findSessions(@Param('id', ParseUUIDPipe) id: string) {
+    return this.sessionsService.findActive(id);
+  }
 
-    return response;
+  @RequirePermissions('sessions:revoke')
+  @NoImpersonation()
+  @Delete(':id/sessions/:sid')
+  @ResponseMessage('responses.users.session_revoked')
+  @ApiOkResponseEnvelope()
+  async revokeUserSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('sid', ParseUUIDPipe) sid: string,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    await this.sessionsService.revoke(id, sid, context);
+  }
+
+  @NoImpersonation()
+  @RequirePermissions('users:delete')
+  @Delete(':id')
+  @ResponseMessage('responses.users.deleted')
+  @ApiOkResponseEnvelope()
+  async remove(@Param('id', ParseUUIDPipe) id: string, @RequestAuditContext() context: AuditContext) {
+    await this.usersService.remove(id, context);
   }
 }
@@ -0,0 +1,104 @@
+import { HttpStatus } from '@nestjs/common';
+import { DomainException } from '../common/exceptions/domain.exception';
+import { ErrorCode } from '../common/types/error.types';
+
+export class UserNotFoundException extends DomainException {
+  constructor() {
+    super(ErrorCode.USER_NOT_FOUND, 'User not found', HttpStatus.NOT_FOUND);
+  }
+}
+
+export class EmailTakenException extends DomainException {
+  constructor() {
+    super(ErrorCode.USER_EMAIL_TAKEN, 'User with this email already exists', HttpStatus.CONFLICT);
+  }
+}
+
+export class UnknownRoleException extends DomainException {
+  constructor(role: string) {
+    super(ErrorCode.USER_UNKNOWN_ROLE, `Unknown role: ${role}`, HttpStatus.BAD_REQUEST, { role });
+  }
+}
+
+export class RefreshTokenNotFoundException extends DomainException {
+  constructor() {
+    super(ErrorCode.USER_REFRESH_TOKEN_NOT_FOUND, 'Refresh token not found', HttpStatus.NOT_FOUND);
+  }
+}
+
+export class InvalidCursorException extends DomainException {
+  constructor() {
+    super(ErrorCode.INVALID_CURSOR, 'Invalid cursor', HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class InvalidVerificationTokenException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.USER_VERIFICATION_TOKEN_INVALID,
+      'Invalid or expired verification token',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class RoleNotFoundException extends DomainException {
+  constructor() {
+    super(ErrorCode.ROLE_NOT_FOUND, 'Role not found', HttpStatus.NOT_FOUND);
+  }
+}
+
+export class RoleAlreadyExistsException extends DomainException {
+  constructor() {
+    super(ErrorCode.ROLE_ALREADY_EXISTS, 'Role already exists', HttpStatus.CONFLICT);
+  }
+}
+
+export class RoleInUseException extends DomainException {
+  constructor() {
+    super(ErrorCode.ROLE_IN_USE, 'Role is still assigned to users', HttpStatus.CONFLICT);
+  }
+}
+
+export class BuiltInRoleException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.ROLE_BUILT_IN,
+      'Built-in roles are defined by the permissions policy and cannot be changed here',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class UnknownPermissionsException extends DomainException {
+  constructor(permissions: string[]) {
+    super(
+      ErrorCode.ROLE_UNKNOWN_PERMISSIONS,
+      `Unknown permissions: ${permissions.join(', ')}`,
+      HttpStatus.BAD_REQUEST,
+      { permissions },
+    );
+  }
+}
+
+export class OrganizationNotFoundException extends DomainException {
+  constructor() {
+    super(ErrorCode.ORGANIZATION_NOT_FOUND, 'Organization not found', HttpStatus.NOT_FOUND);
+  }
+}
+
+export class OrganizationSlugTakenException extends DomainException {
+  constructor() {
+    super(ErrorCode.ORGANIZATION_SLUG_TAKEN, 'An organization with this slug already exists', HttpStatus.CONFLICT);
+  }
+}
+
+export class MemberNotFoundException extends DomainException {
+  constructor() {
+    super(
+      ErrorCode.ORGANIZATION_MEMBER_NOT_FOUND,
+      'The user is not a member of this organization',
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
@@ -1,10 +1,44 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MailModule } from '../mail/mail.module';
+import { AuthModule } from '../auth/auth.module';
 import { UsersService } from './users.service';
+import { EmailVerificationService } from './email-verification.service';
 import { UsersController } from './users.controller';
+import { RolesService } from './roles.service';
+import { RolesController } from './roles.controller';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationsController } from './organizations.controller';
+import { UserResourceLoader } from './user-resource.loader';
+import { UserStoreIndicator } from './user-store.indicator';
+import { ActiveUsersGauge } from './active-users.gauge';
+import { AbilityFactory } from '../common/policies/ability.factory';
+import { USER_REPOSITORY } from './users.constants';
+import { InMemoryUserRepository } from './repositories/in-memory-user.repository';
+import { SqliteUserRepository } from './repositories/sqlite-user.repository';
+import { storageConfig, StorageConfig } from '../config/storage.config';
 
 @Module({
-  providers: [UsersService],
-  controllers: [UsersController],
-  exports: [UsersService],
+  imports: [JwtModule.register({}), MailModule, forwardRef(() => AuthModule)],
+  providers: [
+    UsersService,
+    EmailVerificationService,
+    RolesService,
+    OrganizationsService,
+    AbilityFactory,
+    UserResourceLoader,
+    UserStoreIndicator,
+    ActiveUsersGauge,
+    {
+      provide: USER_REPOSITORY,
+      inject: [storageConfig.KEY],
+      useFactory: (storage: StorageConfig) =>
+        storage.userStore === 'sqlite'
+          ? new SqliteUserRepository(storage.sqlitePath)
+          : new InMemoryUserRepository(),
+    },
+  ],
+  controllers: [UsersController, RolesController, OrganizationsController],
+  exports: [UsersService, EmailVerificationService, RolesService, OrganizationsService],
 })
 export class UsersModule {}
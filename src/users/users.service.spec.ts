@@ -1,8 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { ConflictException, NotFoundException } from '@nestjs/common';
 import { UsersService } from './users.service';
-import { UserRole } from '../common/types/user.types';
+import { RolesService } from './roles.service';
+import { OrganizationsService } from './organizations.service';
+import { UserRole, UserStatus } from '../common/types/user.types';
+import { USER_REPOSITORY } from './users.constants';
+import { InMemoryUserRepository } from './repositories/in-memory-user.repository';
 import * as bcrypt from 'bcrypt';
+import { AuditService } from '../audit/audit.service';
+import { AUDIT_STORE } from '../audit/audit.constants';
+import { InMemoryAuditStore } from '../audit/stores/in-memory-audit.store';
+import { RequestContext } from '../common/context/request-context';
+import { authConfig } from '../config/auth.config';
+import {
+  EmailTakenException,
+  InvalidCursorException,
+  RefreshTokenNotFoundException,
+  UnknownRoleException,
+  UserNotFoundException,
+} from './users.exceptions';
 
 // Mock bcrypt
 jest.mock('bcrypt');
@@ -10,13 +25,38 @@ const mockedBcrypt = bcrypt as jest.Mocked<typeof bcrypt>;
 
 describe('UsersService', () => {
   let service: UsersService;
+  let auditService: AuditService;
+  let organizationsService: OrganizationsService;
+  let adminId: string;
+  let userId: string;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UsersService],
+      providers: [
+        AuditService,
+        {
+          provide: AUDIT_STORE,
+          useValue: new InMemoryAuditStore(),
+        },
+        UsersService,
+        RolesService,
+        OrganizationsService,
+        {
+          provide: USER_REPOSITORY,
+          useValue: new InMemoryUserRepository(),
+        },
+        {
+          provide: authConfig.KEY,
+          useValue: authConfig(),
+        },
+      ],
     }).compile();
 
     service = module.get<UsersService>(UsersService);
+    auditService = module.get<AuditService>(AuditService);
+    organizationsService = module.get<OrganizationsService>(OrganizationsService);
+    adminId = (await service.findByEmail('admin@example.com')).id;
+    userId = (await service.findByEmail('user@example.com')).id;
   });
 
   afterEach(() => {
@@ -32,17 +72,108 @@ describe('UsersService', () => {
     });
   });
 
+  describe('findPaginated', () => {
+    const createUsers = async (count: number) => {
+      mockedBcrypt.hash.mockResolvedValue('hashed-password' as never);
+      for (let i = 0; i < count; i++) {
+        const user = await service.create({
+          email: `member${i}@example.com`,
+          username: `member${i}`,
+          password: 'password123',
+        });
+        if (i % 2) {
+          await service.update(user.id, { role: UserRole.MODERATOR });
+        }
+      }
+    };
+
+    it('should return the first page with pagination meta', async () => {
+      await createUsers(3);
+
+      const result = await service.findPaginated({ page: 1, limit: 2 });
+
+      expect(result.items).toHaveLength(2);
+      expect(result.meta).toEqual({
+        total: 5,
+        limit: 2,
+        page: 1,
+        totalPages: 3,
+        nextCursor: expect.any(String),
+      });
+    });
+
+    it('should walk every user exactly once with cursors', async () => {
+      await createUsers(3);
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await service.findPaginated({ limit: 2, cursor, sort: 'email:desc' });
+        seen.push(...result.items.map(user => user.email));
+        cursor = result.meta.nextCursor || undefined;
+      } while (cursor);
+
+      expect(seen).toEqual([...seen].sort().reverse());
+      expect(new Set(seen).size).toBe(5);
+    });
+
+    it('should filter by role and search over email and username', async () => {
+      await createUsers(4);
+
+      const moderators = await service.findPaginated({ role: UserRole.MODERATOR });
+      expect(moderators.items.every(user => user.role === UserRole.MODERATOR)).toBe(true);
+      expect(moderators.meta.total).toBe(2);
+
+      const search = await service.findPaginated({ q: 'MEMBER1' });
+      expect(search.items.map(user => user.username)).toEqual(['member1']);
+    });
+
+    it('should only include inactive users when requested', async () => {
+      await service.remove(userId);
+
+      const active = await service.findPaginated({});
+      const inactive = await service.findPaginated({ isActive: false });
+
+      expect(active.items.map(user => user.id)).not.toContain(userId);
+      expect(inactive.items.map(user => user.id)).toEqual([userId]);
+    });
+
+    it('should filter by creation date range', async () => {
+      const result = await service.findPaginated({ createdTo: new Date('2000-01-01') });
+
+      expect(result.items).toEqual([]);
+      expect(result.meta.nextCursor).toBeNull();
+    });
+
+    it('should throw InvalidCursorException for a malformed cursor', async () => {
+      await expect(service.findPaginated({ cursor: 'not-a-cursor' }))
+        .rejects.toThrow(InvalidCursorException);
+    });
+
+    it('should only accept a cursor for the sort it was issued for', async () => {
+      await createUsers(3);
+      const { meta } = await service.findPaginated({ limit: 2, sort: 'email:asc' });
+
+      await expect(service.findPaginated({ limit: 2, cursor: meta.nextCursor, sort: 'createdAt:asc' }))
+        .rejects.toThrow(InvalidCursorException);
+      await expect(service.findPaginated({ limit: 2, cursor: meta.nextCursor, sort: 'email:desc' }))
+        .rejects.toThrow(InvalidCursorException);
+      await expect(service.findPaginated({ limit: 2, cursor: meta.nextCursor, sort: 'email:asc' }))
+        .resolves.toBeDefined();
+    });
+  });
+
   describe('findById', () => {
     it('should return user with password when user exists', async () => {
-      const result = await service.findById('1');
+      const result = await service.findById(adminId);
       
       expect(result).toBeDefined();
-      expect(result.id).toBe('1');
+      expect(result.id).toBe(adminId);
       expect(result.password).toBeDefined();
     });
 
     it('should return null when user does not exist', async () => {
-      const result = await service.findById('999');
+      const result = await service.findById('00000000-0000-4000-8000-000000000000');
       
       expect(result).toBeNull();
     });
@@ -81,10 +212,25 @@ describe('UsersService', () => {
       expect(result.username).toBe(createUserDto.username);
       expect(result.role).toBe(UserRole.USER);
       expect(result.isActive).toBe(true);
+      expect(result.status).toBe(UserStatus.PENDING_VERIFICATION);
       expect(mockedBcrypt.hash).toHaveBeenCalledWith('password123', 10);
     });
 
-    it('should throw ConflictException when email already exists', async () => {
+    it('should assign a UUID that never collides with existing users', async () => {
+      mockedBcrypt.hash.mockResolvedValue('hashed-password' as never);
+
+      await service.remove(userId);
+      const result = await service.create({
+        email: 'another@example.com',
+        username: 'another',
+        password: 'password123',
+      });
+
+      expect(result.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect([adminId, userId]).not.toContain(result.id);
+    });
+
+    it('should throw EmailTakenException when email already exists', async () => {
       const createUserDto = {
         email: 'admin@example.com', // existing email
         username: 'newuser',
@@ -92,7 +238,20 @@ describe('UsersService', () => {
       };
 
       await expect(service.create(createUserDto))
-        .rejects.toThrow(ConflictException);
+        .rejects.toThrow(EmailTakenException);
+    });
+
+    it('should ignore a requested role', async () => {
+      mockedBcrypt.hash.mockResolvedValue('hashed-password' as never);
+
+      const result = await service.create({
+        email: 'newadmin@example.com',
+        username: 'newadmin',
+        password: 'password123',
+        role: UserRole.ADMIN,
+      });
+
+      expect(result.role).toBe(UserRole.USER);
     });
 
     it('should default to USER role when not specified', async () => {
@@ -117,34 +276,209 @@ describe('UsersService', () => {
         role: UserRole.MODERATOR,
       };
 
-      const result = await service.update('1', updateDto);
+      const result = await service.update(adminId, updateDto);
       
       expect(result.username).toBe('updateduser');
       expect(result.role).toBe(UserRole.MODERATOR);
       expect(result.updatedAt).toBeInstanceOf(Date);
     });
 
-    it('should throw NotFoundException when user does not exist', async () => {
+    it('should audit the changed fields and the role change', async () => {
+      const context = { actor: { id: adminId, email: 'admin@example.com', role: 'admin' }, ip: '10.0.0.1' };
+
+      await service.update(userId, { username: 'renamed', role: UserRole.MODERATOR }, context);
+
+      const { items } = await auditService.find({ targetId: userId });
+      expect(items.map(entry => entry.action)).toEqual(['user.role_changed', 'user.updated']);
+      expect(items[1].changes).toEqual({
+        username: { before: 'user', after: 'renamed' },
+        role: { before: UserRole.USER, after: UserRole.MODERATOR },
+      });
+      expect(items[0].changes).toEqual({ role: { before: UserRole.USER, after: UserRole.MODERATOR } });
+      expect(items[0].actor?.id).toBe(adminId);
+      expect(items[0].ip).toBe('10.0.0.1');
+    });
+
+    it('should require verifying a changed email address again', async () => {
+      const result = await service.update(userId, { email: 'new-address@example.com' });
+
+      expect(result.email).toBe('new-address@example.com');
+      expect(result.status).toBe(UserStatus.PENDING_VERIFICATION);
+    });
+
+    it('should keep the status when the email address stays the same', async () => {
+      const result = await service.update(adminId, { email: 'admin@example.com', username: 'root' });
+
+      expect(result.status).toBe(UserStatus.ACTIVE);
+    });
+
+    it('should reject an email address that belongs to another user', async () => {
+      await expect(service.update(userId, { email: 'admin@example.com' }))
+        .rejects.toThrow(EmailTakenException);
+    });
+
+    it('should reject roles that do not exist', async () => {
+      await expect(service.update(userId, { role: 'wizard' }))
+        .rejects.toThrow(UnknownRoleException);
+    });
+
+    it('should throw UserNotFoundException when user does not exist', async () => {
       const updateDto = {
         username: 'updateduser',
       };
 
-      await expect(service.update('999', updateDto))
-        .rejects.toThrow(NotFoundException);
+      await expect(service.update('00000000-0000-4000-8000-000000000000', updateDto))
+        .rejects.toThrow(UserNotFoundException);
+    });
+  });
+
+  describe('setPassword', () => {
+    it('should store the hash of the new password', async () => {
+      mockedBcrypt.hash.mockResolvedValue('new-hash' as never);
+
+      await service.setPassword(userId, 'newpassword123');
+
+      expect(mockedBcrypt.hash).toHaveBeenCalledWith('newpassword123', 10);
+      expect((await service.findById(userId)).password).toBe('new-hash');
+    });
+
+    it('should throw UserNotFoundException when user does not exist', async () => {
+      await expect(service.setPassword('00000000-0000-4000-8000-000000000000', 'newpassword123'))
+        .rejects.toThrow(UserNotFoundException);
+    });
+  });
+
+  describe('markEmailVerified', () => {
+    it('should activate a pending account', async () => {
+      mockedBcrypt.hash.mockResolvedValue('hashed-password' as never);
+      const created = await service.create({
+        email: 'pending@example.com',
+        username: 'pending',
+        password: 'password123',
+      });
+
+      const result = await service.markEmailVerified(created.id);
+
+      expect(result.status).toBe(UserStatus.ACTIVE);
+    });
+
+    it('should throw UserNotFoundException when user does not exist', async () => {
+      await expect(service.markEmailVerified('00000000-0000-4000-8000-000000000000'))
+        .rejects.toThrow(UserNotFoundException);
     });
   });
 
   describe('remove', () => {
     it('should deactivate user successfully', async () => {
-      await service.remove('2');
+      await service.remove(userId);
       
-      const user = await service.findById('2');
+      const user = await service.findById(userId);
       expect(user.isActive).toBe(false);
     });
 
-    it('should throw NotFoundException when user does not exist', async () => {
-      await expect(service.remove('999'))
-        .rejects.toThrow(NotFoundException);
+    it('should throw UserNotFoundException when user does not exist', async () => {
+      await expect(service.remove('00000000-0000-4000-8000-000000000000'))
+        .rejects.toThrow(UserNotFoundException);
+    });
+  });
+
+  describe('within an organization', () => {
+    let organizationId: string;
+
+    const inOrganization = <T>(callback: () => T): T =>
+      RequestContext.run({ requestId: 'req-1', organizationId }, callback);
+
+    beforeEach(async () => {
+      organizationId = (await organizationsService.create({ name: 'Acme', slug: 'acme' })).id;
+      await organizationsService.saveMember(organizationId, userId, UserRole.ADMIN);
+    });
+
+    it('should only find members, with the role they hold there', async () => {
+      expect((await inOrganization(() => service.findById(userId))).role).toBe(UserRole.ADMIN);
+      expect(await inOrganization(() => service.findById(adminId))).toBeNull();
+      expect(await inOrganization(() => service.findByEmail('admin@example.com'))).toBeNull();
+      expect((await inOrganization(() => service.findAll())).map(user => user.id)).toEqual([userId]);
+      expect((await service.findById(userId)).role).toBe(UserRole.USER);
+    });
+
+    it('should only list members', async () => {
+      const result = await inOrganization(() => service.findPaginated({ sort: 'email:asc' }));
+
+      expect(result.items.map(user => user.email)).toEqual(['user@example.com']);
+      expect(result.items[0].role).toBe(UserRole.ADMIN);
+      expect(result.meta.total).toBe(1);
+    });
+
+    it('should change the role held there, not the account\'s own', async () => {
+      const updated = await inOrganization(() => service.update(userId, { role: UserRole.MODERATOR }));
+
+      expect(updated.role).toBe(UserRole.MODERATOR);
+      expect((await service.findById(userId)).role).toBe(UserRole.USER);
+      expect((await inOrganization(() => service.findById(userId))).role).toBe(UserRole.MODERATOR);
+    });
+
+    it('should not update users outside the organization', async () => {
+      await expect(inOrganization(() => service.update(adminId, { username: 'root' })))
+        .rejects.toThrow(UserNotFoundException);
+    });
+
+    it('should end the membership instead of deactivating the account', async () => {
+      await inOrganization(() => service.remove(userId));
+
+      expect(await inOrganization(() => service.findById(userId))).toBeNull();
+      expect((await service.findById(userId)).isActive).toBe(true);
+    });
+  });
+
+  describe('refresh tokens', () => {
+    const buildToken = (id: string, familyId: string, ownerId?: string) => ({
+      id,
+      userId: ownerId || userId,
+      familyId,
+      tokenHash: 'hash',
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+    });
+
+    it('should list refresh tokens per user', async () => {
+      await service.saveRefreshToken(buildToken('a', 'family-1'));
+      await service.saveRefreshToken(buildToken('b', 'family-2', adminId));
+
+      const result = await service.findRefreshTokens(userId);
+
+      expect(result.map(token => token.id)).toEqual(['a']);
+    });
+
+    it('should revoke every token in a family', async () => {
+      await service.saveRefreshToken(buildToken('a', 'family-1'));
+      await service.saveRefreshToken(buildToken('b', 'family-1'));
+      await service.saveRefreshToken(buildToken('c', 'family-2'));
+
+      await service.revokeRefreshTokenFamily('family-1');
+
+      expect((await service.findRefreshToken('a')).revokedAt).toBeInstanceOf(Date);
+      expect((await service.findRefreshToken('b')).revokedAt).toBeInstanceOf(Date);
+      expect((await service.findRefreshToken('c')).revokedAt).toBeUndefined();
+    });
+
+    it('should revoke refresh tokens when the user is removed', async () => {
+      await service.saveRefreshToken(buildToken('a', 'family-1'));
+
+      await service.remove(userId);
+
+      expect((await service.findRefreshToken('a')).revokedAt).toBeInstanceOf(Date);
+    });
+
+    it('should only report the first revocation of a token', async () => {
+      await service.saveRefreshToken(buildToken('a', 'family-1'));
+
+      expect(await service.revokeRefreshToken('a')).toBe(true);
+      expect(await service.revokeRefreshToken('a')).toBe(false);
+    });
+
+    it('should throw RefreshTokenNotFoundException when revoking an unknown token', async () => {
+      await expect(service.revokeRefreshToken('missing'))
+        .rejects.toThrow(RefreshTokenNotFoundException);
     });
   });
 });
@@ -1,105 +1,443 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
-import { User, UserRole } from '../common/types/user.types';
+import { Injectable, Inject } from '@nestjs/common';
+import { SortDirection, User, UserLockState, UserRole, UserSortField, UserStatus } from '../common/types/user.types';
+import { Paginated } from '../common/types/api-response.types';
+import { RefreshToken } from '../common/types/auth.types';
+import { UserIdentity } from '../common/types/oidc.types';
+import { ApiKey } from '../common/types/api-key.types';
+import { Session } from '../common/types/session.types';
 import { CreateUserDto } from '../common/dto/create-user.dto';
 import { UpdateUserDto } from '../common/dto/update-user.dto';
+import { ListUsersQueryDto } from '../common/dto/list-users-query.dto';
+import { USER_REPOSITORY } from './users.constants';
+import { RolesService } from './roles.service';
+import { OrganizationsService } from './organizations.service';
+import { RequestContext } from '../common/context/request-context';
+import { AuditService, diffFields } from '../audit/audit.service';
+import { AuditContext } from '../common/types/audit.types';
+import {
+  EmailTakenException,
+  InvalidCursorException,
+  RefreshTokenNotFoundException,
+  UnknownRoleException,
+  UserNotFoundException,
+} from './users.exceptions';
+import {
+  ApiKeyChanges,
+  SessionChanges,
+  toUser,
+  UserCredentials,
+  UserRecord,
+  UserRepository,
+  UserSearchCriteria,
+} from './repositories/user.repository';
 import * as bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
 
+// Fields whose changes end up in the audit log; never credentials
+const AUDITED_FIELDS: (keyof User)[] = ['email', 'username', 'role', 'status', 'isActive'];
+
+/**
+ * Users Service
+ * Within an organization, lookups only find its members and report the
+ * role they hold there; accounts themselves stay global.
+ */
 @Injectable()
 export class UsersService {
-  // In-memory storage for demo purposes
-  private users: User[] = [
-    {
-      id: '1',
-      email: 'admin@example.com',
-      username: 'admin',
-      role: UserRole.ADMIN,
-      isActive: true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    },
-    {
-      id: '2',
-      email: 'user@example.com',
-      username: 'user',
-      role: UserRole.USER,
-      isActive: true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    },
-  ];
-
-  private userPasswords: Map<string, string> = new Map([
-    ['1', '$2b$10$ZIFKxlbPSTLJ.LJdBq7ZMOjnO5M4uUnKkEL2AmhVDkEsW22SSizSe'], // password123
-    ['2', '$2b$10$ZIFKxlbPSTLJ.LJdBq7ZMOjnO5M4uUnKkEL2AmhVDkEsW22SSizSe'], // password123
-  ]);
+  constructor(
+    @Inject(USER_REPOSITORY) private readonly userRepository: UserRepository,
+    private readonly rolesService: RolesService,
+    private readonly organizationsService: OrganizationsService,
+    private readonly auditService: AuditService,
+  ) {}
 
   async findAll(): Promise<User[]> {
-    return this.users.filter(user => user.isActive);
+    const users = await Promise.all((await this.userRepository.findAll()).map(user => this.inOrganization(user)));
+    return users.filter(user => user?.isActive);
+  }
+
+  /**
+   * Lists users with filters, sorting and either page or cursor pagination.
+   * Inactive users are only included when `isActive=false` is requested.
+   */
+  async findPaginated(query: ListUsersQueryDto): Promise<Paginated<User>> {
+    const [field, direction] = (query.sort || 'createdAt:asc').split(':') as [UserSortField, SortDirection];
+    const limit = query.limit || 20;
+    const page = query.page || 1;
+
+    const criteria: UserSearchCriteria = {
+      role: query.role,
+      isActive: query.isActive ?? true,
+      createdFrom: query.createdFrom,
+      createdTo: query.createdTo,
+      q: query.q,
+      organizationId: RequestContext.organizationId(),
+      sort: { field, direction },
+      // Fetch one extra row to know whether another page follows
+      limit: limit + 1,
+    };
+
+    if (query.cursor) {
+      criteria.after = this.decodeCursor(query.cursor, field, direction);
+    } else {
+      criteria.offset = (page - 1) * limit;
+    }
+
+    const { items, total } = await this.userRepository.findMany(criteria);
+    const pageItems = items.slice(0, limit);
+    const last = pageItems[pageItems.length - 1];
+    const nextCursor = items.length > limit && last ? this.encodeCursor(last, field, direction) : null;
+
+    return {
+      items: pageItems,
+      meta: query.cursor
+        ? { total, limit, nextCursor }
+        : { total, limit, page, totalPages: Math.ceil(total / limit), nextCursor },
+    };
   }
 
-  async findById(id: string): Promise<User & { password: string } | null> {
-    const user = this.users.find(u => u.id === id);
-    if (!user) return null;
-    
-    const password = this.userPasswords.get(id);
-    return { ...user, password: password || '' };
+  async findById(id: string): Promise<UserRecord | null> {
+    return this.inOrganization(await this.userRepository.findById(id));
   }
 
-  async findByEmail(email: string): Promise<User & { password: string } | null> {
-    const user = this.users.find(u => u.email === email);
-    if (!user) return null;
-    
-    const password = this.userPasswords.get(user.id);
-    return { ...user, password: password || '' };
+  /**
+   * Same as findById, without credentials, for returning to clients
+   */
+  async findProfile(id: string): Promise<User | null> {
+    const user = await this.findById(id);
+    return user ? toUser(user) : null;
   }
 
-  async create(createUserDto: CreateUserDto): Promise<User> {
-    const existingUser = await this.findByEmail(createUserDto.email);
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    return this.inOrganization(await this.userRepository.findByEmail(email));
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return !!(await this.findById(id));
+  }
+
+  /** Accounts that have not been deactivated, whether verified or not */
+  async countActive(): Promise<number> {
+    const { total } = await this.userRepository.findMany({
+      isActive: true,
+      sort: { field: 'createdAt', direction: 'asc' },
+      limit: 0,
+    });
+    return total;
+  }
+
+  async create(createUserDto: CreateUserDto, context: AuditContext = {}): Promise<User> {
+    // Emails are unique across organizations
+    const existingUser = await this.userRepository.findByEmail(createUserDto.email);
     if (existingUser) {
-      throw new ConflictException('User with this email already exists');
+      throw new EmailTakenException();
     }
 
     const hashedPassword = await bcrypt.hash(createUserDto.password, 10);
-    const newUser: User = {
-      id: (this.users.length + 1).toString(),
+    const now = new Date();
+
+    const user = await this.userRepository.create({
+      id: randomUUID(),
       email: createUserDto.email,
       username: createUserDto.username,
-      role: createUserDto.role || UserRole.USER,
+      // Anyone can register, so only users:assign-role hands out other roles later
+      role: UserRole.USER,
+      status: UserStatus.PENDING_VERIFICATION,
       isActive: true,
-      createdAt: new Date(),
+      mfaEnabled: false,
+      locale: createUserDto.locale ?? null,
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null,
+      password: hashedPassword,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await this.auditService.record({
+      action: 'user.created',
+      target: { type: 'User', id: user.id },
+      changes: diffFields(null, user, AUDITED_FIELDS),
+    }, context);
+
+    return user;
+  }
+
+  /**
+   * Applies the changes and audits them. A role change is recorded a second
+   * time on its own, so role assignments are easy to filter for. Within an
+   * organization, the role changed is the one the user holds there. A new
+   * email address has to be verified again before the account can log in.
+   */
+  async update(id: string, updateUserDto: UpdateUserDto, context: AuditContext = {}): Promise<User> {
+    const { role, ...profileChanges } = updateUserDto;
+    if (role && !(await this.rolesService.exists(role))) {
+      throw new UnknownRoleException(role);
+    }
+
+    const organizationId = RequestContext.organizationId();
+    const existingUser = await this.findById(id);
+    const emailChanged = !!existingUser && !!updateUserDto.email && updateUserDto.email !== existingUser.email;
+    if (emailChanged) {
+      const owner = await this.userRepository.findByEmail(updateUserDto.email);
+      if (owner && owner.id !== id) {
+        throw new EmailTakenException();
+      }
+    }
+
+    let updatedUser = existingUser && await this.userRepository.update(id, {
+      ...(organizationId ? profileChanges : updateUserDto),
+      ...(emailChanged && { status: UserStatus.PENDING_VERIFICATION }),
       updatedAt: new Date(),
-    };
+    });
+
+    if (!existingUser || !updatedUser) {
+      throw new UserNotFoundException();
+    }
+
+    if (organizationId) {
+      if (role && role !== existingUser.role) {
+        const membership = await this.userRepository.findMembership(organizationId, id);
+        await this.userRepository.saveMembership({ ...membership, role, updatedAt: new Date() });
+      }
+      updatedUser = { ...updatedUser, role: role ?? existingUser.role };
+    }
 
-    this.users.push(newUser);
-    this.userPasswords.set(newUser.id, hashedPassword);
+    const target = { type: 'User', id };
+    await this.auditService.record({
+      action: 'user.updated',
+      target,
+      changes: diffFields<User>(existingUser, updatedUser, AUDITED_FIELDS),
+    }, context);
 
-    return newUser;
+    if (existingUser.role !== updatedUser.role) {
+      await this.auditService.record({
+        action: 'user.role_changed',
+        target,
+        changes: diffFields<User>(existingUser, updatedUser, ['role']),
+      }, context);
+    }
+
+    return updatedUser;
   }
 
-  async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
-    const userIndex = this.users.findIndex(u => u.id === id);
-    if (userIndex === -1) {
-      throw new NotFoundException('User not found');
+  async setPassword(id: string, password: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const updatedUser = await this.userRepository.update(id, {
+      password: hashedPassword,
+      updatedAt: new Date(),
+    });
+
+    if (!updatedUser) {
+      throw new UserNotFoundException();
     }
+  }
 
-    const user = this.users[userIndex];
-    const updatedUser = {
-      ...user,
-      ...updateUserDto,
+  async updateMfaSettings(
+    id: string,
+    settings: Partial<Pick<UserRecord, 'mfaEnabled'>> & Omit<Partial<UserCredentials>, 'password'>,
+  ): Promise<User> {
+    const updatedUser = await this.userRepository.update(id, {
+      ...settings,
       updatedAt: new Date(),
-    };
+    });
+
+    if (!updatedUser) {
+      throw new UserNotFoundException();
+    }
+
+    return updatedUser;
+  }
+
+  async updateLockState(id: string, state: UserLockState): Promise<User> {
+    const updatedUser = await this.userRepository.update(id, {
+      ...state,
+      updatedAt: new Date(),
+    });
+
+    if (!updatedUser) {
+      throw new UserNotFoundException();
+    }
 
-    this.users[userIndex] = updatedUser;
     return updatedUser;
   }
 
-  async remove(id: string): Promise<void> {
-    const userIndex = this.users.findIndex(u => u.id === id);
-    if (userIndex === -1) {
-      throw new NotFoundException('User not found');
+  async unlock(id: string): Promise<User> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new UserNotFoundException();
+    }
+
+    const unlockedUser = await this.updateLockState(id, { failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null });
+    return { ...unlockedUser, role: user.role };
+  }
+
+  async setEmailVerificationNonce(id: string, nonce: string): Promise<void> {
+    const updatedUser = await this.userRepository.update(id, {
+      emailVerificationNonce: nonce,
+      updatedAt: new Date(),
+    });
+
+    if (!updatedUser) {
+      throw new UserNotFoundException();
+    }
+  }
+
+  async markEmailVerified(id: string): Promise<User> {
+    const verifiedUser = await this.userRepository.update(id, {
+      status: UserStatus.ACTIVE,
+      emailVerificationNonce: null,
+      updatedAt: new Date(),
+    });
+
+    if (!verifiedUser) {
+      throw new UserNotFoundException();
+    }
+
+    return verifiedUser;
+  }
+
+  /**
+   * Deactivates the account. Within an organization, only the membership
+   * ends, since the account may belong to other organizations too.
+   */
+  async remove(id: string, context: AuditContext = {}): Promise<void> {
+    const organizationId = RequestContext.organizationId();
+    if (organizationId) {
+      return this.organizationsService.removeMember(organizationId, id, context);
+    }
+
+    const removedUser = await this.userRepository.update(id, {
+      isActive: false,
+      password: '',
+      updatedAt: new Date(),
+    });
+
+    if (!removedUser) {
+      throw new UserNotFoundException();
+    }
+
+    await this.revokeAllRefreshTokens(id);
+
+    await this.auditService.record({
+      action: 'user.deleted',
+      target: { type: 'User', id },
+    }, context);
+  }
+
+  async findByIdentity(provider: string, subject: string): Promise<UserRecord | null> {
+    const identity = await this.userRepository.findIdentity(provider, subject);
+    return identity ? this.userRepository.findById(identity.userId) : null;
+  }
+
+  async findIdentities(userId: string): Promise<UserIdentity[]> {
+    return this.userRepository.findIdentities(userId);
+  }
+
+  async linkIdentity(identity: UserIdentity, context: AuditContext = {}): Promise<UserIdentity> {
+    const linked = await this.userRepository.saveIdentity(identity);
+
+    await this.auditService.record({
+      action: 'user.identity_linked',
+      target: { type: 'User', id: identity.userId },
+      reason: `${identity.provider}:${identity.subject}`,
+    }, context);
+
+    return linked;
+  }
+
+  async saveRefreshToken(token: RefreshToken): Promise<RefreshToken> {
+    return this.userRepository.saveRefreshToken(token);
+  }
+
+  async findRefreshToken(id: string): Promise<RefreshToken | null> {
+    return this.userRepository.findRefreshToken(id);
+  }
+
+  async findRefreshTokens(userId: string): Promise<RefreshToken[]> {
+    return this.userRepository.findRefreshTokens(userId);
+  }
+
+  /**
+   * Revokes a single refresh token. Resolves to false when it had already
+   * been revoked, so only one of several concurrent callers wins.
+   */
+  async revokeRefreshToken(id: string): Promise<boolean> {
+    const token = await this.userRepository.findRefreshToken(id);
+    if (!token) {
+      throw new RefreshTokenNotFoundException();
+    }
+
+    return (await this.userRepository.revokeRefreshTokens({ id }, new Date())) > 0;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await this.userRepository.revokeRefreshTokens({ familyId }, new Date());
+  }
+
+  async revokeAllRefreshTokens(userId: string): Promise<void> {
+    await this.userRepository.revokeRefreshTokens({ userId }, new Date());
+  }
+
+  async saveSession(session: Session): Promise<Session> {
+    return this.userRepository.saveSession(session);
+  }
+
+  async findSession(id: string): Promise<Session | null> {
+    return this.userRepository.findSession(id);
+  }
+
+  async findSessions(userId: string): Promise<Session[]> {
+    return this.userRepository.findSessions(userId);
+  }
+
+  async updateSession(id: string, changes: SessionChanges): Promise<Session | null> {
+    return this.userRepository.updateSession(id, changes);
+  }
+
+  async saveApiKey(key: ApiKey): Promise<ApiKey> {
+    return this.userRepository.saveApiKey(key);
+  }
+
+  async findApiKey(id: string): Promise<ApiKey | null> {
+    return this.userRepository.findApiKey(id);
+  }
+
+  async findApiKeys(userId: string): Promise<ApiKey[]> {
+    return this.userRepository.findApiKeys(userId);
+  }
+
+  async updateApiKey(id: string, changes: ApiKeyChanges): Promise<ApiKey | null> {
+    return this.userRepository.updateApiKey(id, changes);
+  }
+
+  /** The user as a member of the active organization; null when they are not one */
+  private async inOrganization<T extends User>(user: T | null): Promise<T | null> {
+    const organizationId = RequestContext.organizationId();
+    if (!user || !organizationId) {
+      return user;
+    }
+
+    const membership = await this.userRepository.findMembership(organizationId, user.id);
+    return membership ? { ...user, role: membership.role } : null;
+  }
+
+  // The cursor names the sort it was issued for, since its value means nothing in another one
+  private encodeCursor(user: User, field: UserSortField, direction: SortDirection): string {
+    const value = user[field];
+    const sortValue = value instanceof Date ? value.toISOString() : String(value);
+    return Buffer.from(JSON.stringify([field, direction, sortValue, user.id])).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, field: UserSortField, direction: SortDirection): UserSearchCriteria['after'] {
+    try {
+      const [cursorField, cursorDirection, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (cursorField === field && cursorDirection === direction && typeof value === 'string' && typeof id === 'string') {
+        return { value, id };
+      }
+    } catch {
+      // fall through to the error below
     }
 
-    this.users[userIndex].isActive = false;
-    this.userPasswords.delete(id);
+    throw new InvalidCursorException();
   }
 }
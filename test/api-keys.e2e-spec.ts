@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+import { MAILER } from '../src/mail/mail.constants';
+
+describe('ApiKeysController (e2e)', () => {
+  let app: INestApplication;
+  let userToken: string;
+  let adminToken: string;
+
+  const login = async (email: string): Promise<string> => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'password123' })
+      .expect(201);
+    return response.body.data.access_token;
+  };
+
+  const createKey = async (token: string, body: object) => {
+    const response = await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body)
+      .expect(201);
+    return response.body.data;
+  };
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(MAILER)
+      .useValue({ send: jest.fn() })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+
+    userToken = await login('user@example.com');
+    adminToken = await login('admin@example.com');
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should show a new key once and authenticate requests with it', async () => {
+    const created = await createKey(adminToken, { name: 'sync', scopes: ['users:read'] });
+
+    expect(created.key).toMatch(/^ak_/);
+    expect(created.lastUsedAt).toBeNull();
+
+    const users = await request(app.getHttpServer())
+      .get('/users')
+      .set('X-API-Key', created.key)
+      .expect(200);
+    expect(users.body.data.length).toBeGreaterThan(0);
+
+    const listed = await request(app.getHttpServer())
+      .get('/api-keys')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(listed.body.data).toHaveLength(1);
+    expect(listed.body.data[0]).not.toHaveProperty('key');
+    expect(listed.body.data[0]).not.toHaveProperty('keyHash');
+    expect(listed.body.data[0].lastUsedAt).not.toBeNull();
+  });
+
+  it('should limit a key to its scopes', async () => {
+    const created = await createKey(adminToken, { name: 'read-only', scopes: ['users:read'] });
+
+    const denied = await request(app.getHttpServer())
+      .get('/roles')
+      .set('X-API-Key', created.key)
+      .expect(403);
+    expect(denied.body.code).toBe('ACCESS_DENIED_MISSING_PERMISSIONS');
+
+    const keys = await request(app.getHttpServer())
+      .get('/api-keys')
+      .set('X-API-Key', created.key)
+      .expect(403);
+    expect(keys.body.code).toBe('ACCESS_DENIED_MISSING_SCOPES');
+  });
+
+  it('should not let a key change account credentials', async () => {
+    const created = await createKey(userToken, { name: 'cli', scopes: [] });
+
+    const response = await request(app.getHttpServer())
+      .patch('/users/profile/password')
+      .set('X-API-Key', created.key)
+      .send({ currentPassword: 'password123', newPassword: 'newpassword123' })
+      .expect(403);
+    expect(response.body.code).toBe('ACCESS_DENIED_SESSION_REQUIRED');
+  });
+
+  it('should reject scopes the owner is not granted', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ name: 'too-much', scopes: ['users:delete'] })
+      .expect(403);
+
+    expect(response.body.code).toBe('API_KEY_SCOPES_NOT_ALLOWED');
+  });
+
+  it('should only let users with api-keys:manage create keys for others', async () => {
+    const profileOf = async (token: string): Promise<string> => {
+      const response = await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      return response.body.data.id;
+    };
+    const userId = await profileOf(userToken);
+    const adminId = await profileOf(adminToken);
+
+    const created = await createKey(adminToken, { name: 'service', scopes: [], userId });
+    expect(created.userId).toBe(userId);
+
+    const denied = await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ name: 'not-mine', scopes: [], userId: adminId })
+      .expect(403);
+    expect(denied.body.code).toBe('ACCESS_DENIED');
+  });
+
+  it('should reject revoked and unknown keys', async () => {
+    const created = await createKey(userToken, { name: 'temp', scopes: [] });
+
+    await request(app.getHttpServer())
+      .delete(`/api-keys/${created.id}`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    const revoked = await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('X-API-Key', created.key)
+      .expect(401);
+    expect(revoked.body.code).toBe('AUTH_API_KEY_INVALID');
+
+    await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('X-API-Key', 'ak_unknown.secret')
+      .expect(401);
+  });
+
+  it('should require authentication', async () => {
+    await request(app.getHttpServer())
+      .get('/api-keys')
+      .expect(401);
+  });
+});
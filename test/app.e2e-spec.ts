@@ -3,6 +3,9 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from '../src/app.module';
 import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
 
 describe('AppController (e2e)', () => {
   let app: INestApplication;
@@ -17,8 +20,10 @@ describe('AppController (e2e)', () => {
       whitelist: true,
       forbidNonWhitelisted: true,
       transform: true,
+      exceptionFactory: validationExceptionFactory,
     }));
-    app.useGlobalFilters(new GlobalExceptionFilter());
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
     await app.init();
   });
 
@@ -32,4 +37,110 @@ describe('AppController (e2e)', () => {
       .expect(200)
       .expect('NestJS Advanced Features Demo - User Management System');
   });
+
+  describe('request IDs', () => {
+    it('should generate an X-Request-Id and return it in the ApiResponse', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.body.requestId).toBe(response.headers['x-request-id']);
+    });
+
+    it('should keep a valid X-Request-Id sent by the client', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .set('X-Request-Id', 'client-trace-42')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+
+      expect(response.headers['x-request-id']).toBe('client-trace-42');
+      expect(response.body.requestId).toBe('client-trace-42');
+    });
+
+    it('should replace an X-Request-Id that is not a plain token', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/')
+        .set('X-Request-Id', 'bad id\twith spaces')
+        .expect(200);
+
+      expect(response.headers['x-request-id']).not.toContain(' ');
+    });
+
+    it('should include the request ID in errors', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('X-Request-Id', 'client-trace-43')
+        .expect(401);
+
+      expect(response.body.requestId).toBe('client-trace-43');
+    });
+  });
+
+  describe('localization', () => {
+    it('should translate errors into the Accept-Language locale', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .set('Accept-Language', 'de-DE,de;q=0.9,en;q=0.8')
+        .send({ email: 'user@example.com', password: 'wrongpassword' })
+        .expect(401);
+
+      expect(response.body.message).toBe('Ungültige Anmeldedaten');
+      expect(response.body.code).toBe('AUTH_INVALID_CREDENTIALS');
+    });
+
+    it('should prefer ?lang= over Accept-Language', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/login?lang=es')
+        .set('Accept-Language', 'de')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+
+      expect(response.body.message).toBe('Inicio de sesión correcto');
+    });
+
+    it('should translate validation messages', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/users')
+        .set('Accept-Language', 'de')
+        .send({ email: 'invalid-email', username: 'someone', password: '123' })
+        .expect(400);
+
+      expect(response.body.errors).toEqual(expect.arrayContaining([
+        expect.objectContaining({ field: 'email', message: 'email muss eine gültige E-Mail-Adresse sein' }),
+        expect.objectContaining({ field: 'password', message: 'password muss mindestens 6 Zeichen lang sein' }),
+      ]));
+    });
+
+    it('should use the locale saved for the signed-in user', async () => {
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+      const token = login.body.data.access_token;
+
+      await request(app.getHttpServer())
+        .patch(`/users/${login.body.data.user.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ locale: 'de' })
+        .expect(200);
+
+      const profile = await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(profile.body.message).toBe('Profil erfolgreich abgerufen');
+      expect(profile.body.data.locale).toBe('de');
+
+      const overridden = await request(app.getHttpServer())
+        .get('/users/profile?lang=en')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(overridden.body.message).toBe('Profile retrieved successfully');
+    });
+  });
 });
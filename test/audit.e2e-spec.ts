@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+
+describe('AuditController (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let userToken: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+
+    const adminLogin = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' });
+    adminToken = adminLogin.body.data.access_token;
+
+    const userLogin = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@example.com', password: 'password123' });
+    userToken = userLogin.body.data.access_token;
+    userId = userLogin.body.data.user.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('/audit (GET)', () => {
+    it('should record logins, failed or not', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .set('X-Request-Id', 'failed-login-1')
+        .send({ email: 'user@example.com', password: 'wrongpassword' })
+        .expect(401);
+
+      const failed = await request(app.getHttpServer())
+        .get('/audit?action=auth.login.failed')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(failed.body.meta.total).toBe(1);
+      expect(failed.body.data[0]).toEqual(expect.objectContaining({
+        outcome: 'failure',
+        actor: null,
+        target: { type: 'User', id: userId },
+        requestId: 'failed-login-1',
+        reason: 'Invalid credentials (user@example.com)',
+      }));
+
+      const succeeded = await request(app.getHttpServer())
+        .get(`/audit?action=auth.login.succeeded&actorId=${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(succeeded.body.meta.total).toBe(1);
+    });
+
+    it('should record role changes with the acting admin and the diff', async () => {
+      await request(app.getHttpServer())
+        .patch(`/users/${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'moderator' })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get(`/audit?action=user.role_changed&targetId=${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].actor.email).toBe('admin@example.com');
+      expect(response.body.data[0].changes).toEqual({ role: { before: 'user', after: 'moderator' } });
+    });
+
+    it('should record guard denials', async () => {
+      await request(app.getHttpServer())
+        .patch(`/users/${userId}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ role: 'admin' })
+        .expect(403);
+
+      await request(app.getHttpServer())
+        .get('/audit')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(403);
+
+      const response = await request(app.getHttpServer())
+        .get(`/audit?action=access.denied&actorId=${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.map(entry => entry.target)).toEqual([
+        { type: 'Route', id: 'GET /audit' },
+        { type: 'User', id: userId },
+      ]);
+    });
+
+    it('should reject unknown actions', async () => {
+      await request(app.getHttpServer())
+        .get('/audit?action=user.teleported')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('/audit/export (GET)', () => {
+    it('should export NDJSON by default', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/audit/export')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      const lines = response.text.trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(entry => entry.action)).toEqual(['auth.login.succeeded', 'auth.login.succeeded']);
+    });
+
+    it('should export CSV', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/audit/export?format=csv&action=auth.login.succeeded')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('audit-log.csv');
+      const [header, ...rows] = response.text.trim().split('\r\n');
+      expect(header.startsWith('id,timestamp,action,outcome')).toBe(true);
+      expect(rows).toHaveLength(2);
+    });
+  });
+});
@@ -3,24 +3,42 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from '../src/app.module';
 import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
 import { UserRole } from '../src/common/types/user.types';
+import { MAILER } from '../src/mail/mail.constants';
+import { generateTotp } from '../src/auth/mfa/totp';
+import { AuthConfig, authConfig } from '../src/config/auth.config';
 
 describe('AuthController (e2e)', () => {
   let app: INestApplication;
   let accessToken: string;
+  let mailer: { send: jest.Mock };
+  // Set by the blocks that need other auth settings
+  let authOverrides: Partial<AuthConfig> = {};
 
   beforeEach(async () => {
+    mailer = { send: jest.fn() };
+
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
-    }).compile();
+    })
+      .overrideProvider(MAILER)
+      .useValue(mailer)
+      .overrideProvider(authConfig.KEY)
+      .useValue({ ...authConfig(), ...authOverrides })
+      .compile();
 
     app = moduleFixture.createNestApplication();
     app.useGlobalPipes(new ValidationPipe({
       whitelist: true,
       forbidNonWhitelisted: true,
       transform: true,
+      exceptionFactory: validationExceptionFactory,
     }));
-    app.useGlobalFilters(new GlobalExceptionFilter());
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
     await app.init();
   });
 
@@ -60,6 +78,27 @@ describe('AuthController (e2e)', () => {
 
       expect(response.body.success).toBeUndefined();
       expect(response.body.message).toContain('Invalid credentials');
+      expect(response.body.code).toBe('AUTH_INVALID_CREDENTIALS');
+    });
+
+    it('should return problem details when the client accepts application/problem+json', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .set('Accept', 'application/problem+json')
+        .send({ email: 'admin@example.com', password: 'wrongpassword' })
+        .expect(401);
+
+      expect(response.headers['content-type']).toContain('application/problem+json');
+      expect(response.body).toEqual({
+        type: 'urn:problem-type:AUTH_INVALID_CREDENTIALS',
+        title: 'Unauthorized',
+        status: 401,
+        detail: 'Invalid credentials',
+        instance: '/auth/login',
+        code: 'AUTH_INVALID_CREDENTIALS',
+        timestamp: expect.any(String),
+        requestId: response.headers['x-request-id'],
+      });
     });
 
     it('should fail with validation errors', async () => {
@@ -73,7 +112,415 @@ describe('AuthController (e2e)', () => {
         .send(loginDto)
         .expect(400);
 
-      expect(response.body.message).toBeDefined();
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+      expect(response.body.errors).toEqual([
+        { field: 'email', constraint: 'isEmail', message: 'email must be an email', value: 'invalid-email' },
+        {
+          field: 'password',
+          constraint: 'minLength',
+          message: 'password must be longer than or equal to 6 characters',
+        },
+      ]);
+    });
+  });
+
+  describe('/auth/login (POST) lockout', () => {
+    const failLogins = async (email: string, times: number) => {
+      for (let i = 0; i < times; i++) {
+        await request(app.getHttpServer())
+          .post('/auth/login')
+          .send({ email, password: 'wrongpassword' })
+          .expect(401);
+      }
+    };
+
+    it('should lock the account after repeated failures', async () => {
+      await failLogins('user@example.com', 5);
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(423);
+
+      expect(response.body.code).toBe('AUTH_ACCOUNT_LOCKED');
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+    });
+
+    it('should answer the same way for unknown emails', async () => {
+      await failLogins('nobody@example.com', 5);
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'nobody@example.com', password: 'password123' })
+        .expect(423);
+
+      expect(response.body.message).toBe('Account is temporarily locked. Try again later');
+    });
+
+    it('should let an admin unlock the account', async () => {
+      const admin = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'admin@example.com', password: 'password123' })
+        .expect(201);
+      const users = await request(app.getHttpServer())
+        .get('/users?q=user@example.com')
+        .set('Authorization', `Bearer ${admin.body.data.access_token}`)
+        .expect(200);
+      const userId = users.body.data[0].id;
+
+      await failLogins('user@example.com', 5);
+
+      const unlocked = await request(app.getHttpServer())
+        .post(`/users/${userId}/unlock`)
+        .set('Authorization', `Bearer ${admin.body.data.access_token}`)
+        .expect(201);
+      expect(unlocked.body.data.lockedUntil).toBeNull();
+
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+    });
+  });
+
+  describe('/auth/refresh (POST)', () => {
+    const login = () => request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@example.com', password: 'password123' });
+
+    it('should rotate the refresh token', async () => {
+      const loginResponse = await login();
+      const refreshToken = loginResponse.body.data.refresh_token;
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: refreshToken })
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.access_token).toBeDefined();
+      expect(response.body.data.refresh_token).not.toBe(refreshToken);
+    });
+
+    it('should revoke the token family when a rotated-out token is reused', async () => {
+      const loginResponse = await login();
+      const firstToken = loginResponse.body.data.refresh_token;
+
+      const rotated = await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: firstToken })
+        .expect(201);
+      const secondToken = rotated.body.data.refresh_token;
+
+      const reuse = await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: firstToken })
+        .expect(401);
+      expect(reuse.body.message).toContain('Refresh token reuse detected');
+
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: secondToken })
+        .expect(401);
+    });
+
+    it('should fail with an unknown refresh token', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: 'unknown.token' })
+        .expect(401);
+    });
+  });
+
+  describe('/auth/logout (POST)', () => {
+    it('should revoke the access and refresh token of the session', async () => {
+      const loginResponse = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' });
+      const { access_token, refresh_token } = loginResponse.body.data;
+
+      await request(app.getHttpServer())
+        .post('/auth/logout')
+        .set('Authorization', `Bearer ${access_token}`)
+        .send({ refresh_token })
+        .expect(201);
+
+      const response = await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(401);
+      expect(response.body.message).toContain('Token has been revoked');
+
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token })
+        .expect(401);
+    });
+
+    it('should fail without authentication', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/logout')
+        .expect(401);
+    });
+  });
+
+  describe('/auth/logout-all (POST)', () => {
+    it('should revoke every session of the user', async () => {
+      const login = () => request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' });
+      const first = (await login()).body.data;
+      const second = (await login()).body.data;
+
+      await request(app.getHttpServer())
+        .post('/auth/logout-all')
+        .set('Authorization', `Bearer ${first.access_token}`)
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${second.access_token}`)
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: second.refresh_token })
+        .expect(401);
+    });
+  });
+
+  describe('/auth/verify-email (POST)', () => {
+    const register = () => request(app.getHttpServer())
+      .post('/users')
+      .send({ email: 'verify@example.com', username: 'verify', password: 'password123' })
+      .expect(201);
+    const login = () => request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'verify@example.com', password: 'password123' });
+    const lastMailedToken = () => mailer.send.mock.calls[mailer.send.mock.calls.length - 1][0].text.match(/token=([^\s]+)/)[1];
+
+    it('should block login until the email address is verified', async () => {
+      await register();
+
+      const blocked = await login().expect(401);
+      expect(blocked.body.code).toBe('AUTH_EMAIL_NOT_VERIFIED');
+
+      const verified = await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token: lastMailedToken() })
+        .expect(201);
+      expect(verified.body.data.status).toBe('active');
+
+      await login().expect(201);
+    });
+
+    it('should reject an invalid token', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token: 'invalid' })
+        .expect(400);
+    });
+
+    it('should rate-limit resending the verification email', async () => {
+      await register();
+      const resend = () => request(app.getHttpServer())
+        .post('/auth/verify-email/resend')
+        .send({ email: 'verify@example.com' });
+
+      for (let i = 0; i < 3; i++) {
+        await resend().expect(201);
+      }
+      await resend().expect(429);
+      expect(mailer.send).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('/auth/forgot-password and /auth/reset-password (POST)', () => {
+    it('should reset the password once and revoke existing sessions', async () => {
+      const before = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: 'user@example.com' })
+        .expect(201);
+      const token = mailer.send.mock.calls[0][0].text.match(/token=([^\s]+)/)[1];
+
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token, password: 'newpassword123' })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token, password: 'anotherpassword' })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${before.body.data.access_token}`)
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'newpassword123' })
+        .expect(201);
+    });
+
+    it('should not reveal whether the email exists', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/auth/mfa (POST)', () => {
+    it('should enroll and then require a second factor at login', async () => {
+      const credentials = { email: 'user@example.com', password: 'password123' };
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send(credentials)
+        .expect(201);
+      const auth = `Bearer ${login.body.data.access_token}`;
+
+      const setup = await request(app.getHttpServer())
+        .post('/auth/mfa/setup')
+        .set('Authorization', auth)
+        .expect(201);
+      expect(setup.body.data.otpauthUri).toContain('otpauth://totp/');
+      const code = generateTotp(setup.body.data.secret);
+
+      const confirm = await request(app.getHttpServer())
+        .post('/auth/mfa/confirm')
+        .set('Authorization', auth)
+        .send({ code })
+        .expect(201);
+      const [recoveryCode, otherRecoveryCode] = confirm.body.data.recovery_codes;
+
+      const challenge = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send(credentials)
+        .expect(201);
+      expect(challenge.body.data.access_token).toBeUndefined();
+      expect(challenge.body.data.mfa_required).toBe(true);
+      const mfaToken = challenge.body.data.mfa_token;
+
+      // The enrollment code has already been used
+      await request(app.getHttpServer())
+        .post('/auth/mfa/verify')
+        .send({ mfa_token: mfaToken, code })
+        .expect(401);
+
+      const verified = await request(app.getHttpServer())
+        .post('/auth/mfa/verify')
+        .send({ mfa_token: mfaToken, code: recoveryCode })
+        .expect(201);
+      expect(verified.body.data.access_token).toBeDefined();
+
+      await request(app.getHttpServer())
+        .post('/auth/mfa/verify')
+        .send({ mfa_token: mfaToken, code: recoveryCode })
+        .expect(401);
+
+      // The mfa_token is spent, even with a code that is still unused
+      const reused = await request(app.getHttpServer())
+        .post('/auth/mfa/verify')
+        .send({ mfa_token: mfaToken, code: otherRecoveryCode })
+        .expect(401);
+      expect(reused.body.message).toContain('Invalid or expired MFA token');
+    });
+
+    it('should lock the account after too many wrong codes', async () => {
+      const credentials = { email: 'user@example.com', password: 'password123' };
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send(credentials)
+        .expect(201);
+      const auth = `Bearer ${login.body.data.access_token}`;
+      const setup = await request(app.getHttpServer())
+        .post('/auth/mfa/setup')
+        .set('Authorization', auth)
+        .expect(201);
+      await request(app.getHttpServer())
+        .post('/auth/mfa/confirm')
+        .set('Authorization', auth)
+        .send({ code: generateTotp(setup.body.data.secret) })
+        .expect(201);
+
+      const challenge = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send(credentials)
+        .expect(201);
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await request(app.getHttpServer())
+          .post('/auth/mfa/verify')
+          .send({ mfa_token: challenge.body.data.mfa_token, code: 'wrong-code' })
+          .expect(401);
+      }
+
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send(credentials)
+        .expect(423);
+    });
+
+    it('should not accept an mfa_token as an access token', async () => {
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/mfa/verify')
+        .send({ mfa_token: login.body.data.access_token, code: '123456' })
+        .expect(401);
+
+      expect(response.body.message).toContain('Invalid or expired MFA token');
+    });
+  });
+
+  describe('/auth/mfa/enroll (POST) with 2FA required for admins', () => {
+    beforeAll(() => {
+      authOverrides = { mfaRequiredForAdmins: true };
+    });
+
+    afterAll(() => {
+      authOverrides = {};
+    });
+
+    it('should make admins enroll before issuing tokens', async () => {
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'admin@example.com', password: 'password123' })
+        .expect(201);
+      expect(login.body.data.access_token).toBeUndefined();
+      expect(login.body.data.mfa_enrollment_required).toBe(true);
+      const mfaToken = login.body.data.mfa_token;
+
+      const enroll = await request(app.getHttpServer())
+        .post('/auth/mfa/enroll')
+        .send({ mfa_token: mfaToken })
+        .expect(201);
+
+      const confirmed = await request(app.getHttpServer())
+        .post('/auth/mfa/enroll/confirm')
+        .send({ mfa_token: mfaToken, code: generateTotp(enroll.body.data.secret) })
+        .expect(201);
+      expect(confirmed.body.data.access_token).toBeDefined();
+      expect(confirmed.body.data.recovery_codes).toHaveLength(10);
+
+      await request(app.getHttpServer())
+        .post('/auth/mfa/disable')
+        .set('Authorization', `Bearer ${confirmed.body.data.access_token}`)
+        .send({ code: confirmed.body.data.recovery_codes[0] })
+        .expect(400);
     });
   });
 });
@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+import { USER_REPOSITORY } from '../src/users/users.constants';
+import { UserRepository } from '../src/users/repositories/user.repository';
+
+describe('HealthController (e2e)', () => {
+  let app: INestApplication;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should report the process checks without authentication', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/health/live')
+      .expect(200);
+
+    expect(response.body).toEqual({
+      status: 'up',
+      checks: {
+        eventLoop: expect.objectContaining({ status: 'up' }),
+        memory: expect.objectContaining({ status: 'up' }),
+        uptime: expect.objectContaining({ status: 'up' }),
+      },
+      timestamp: expect.any(String),
+    });
+    expect(response.headers['cache-control']).toBe('no-store');
+  });
+
+  it('should include the stores in the readiness report', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/health/ready')
+      .expect(200);
+
+    expect(response.body.checks).toEqual(expect.objectContaining({
+      userStore: expect.objectContaining({ status: 'up' }),
+      tokenRevocationStore: expect.objectContaining({ status: 'up' }),
+    }));
+  });
+
+  it('should answer 503 when a dependency is down', async () => {
+    jest.spyOn(app.get<UserRepository>(USER_REPOSITORY), 'ping').mockRejectedValue(new Error('database is locked'));
+
+    const response = await request(app.getHttpServer())
+      .get('/health/ready')
+      .expect(503);
+
+    expect(response.body.status).toBe('down');
+    expect(response.body.checks.userStore).toEqual(expect.objectContaining({
+      status: 'down',
+      error: 'database is locked',
+    }));
+
+    await request(app.getHttpServer()).get('/health/live').expect(200);
+  });
+
+  it('should not be rate limited', async () => {
+    const probe = await request(app.getHttpServer()).get('/health/live').expect(200);
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@example.com', password: 'password123' });
+
+    expect(login.headers['x-ratelimit-remaining']).toBeDefined();
+    expect(probe.headers['x-ratelimit-remaining']).toBeUndefined();
+  });
+});
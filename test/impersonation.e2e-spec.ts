@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+import { MAILER } from '../src/mail/mail.constants';
+
+describe('Impersonation (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let userToken: string;
+  let adminId: string;
+  let userId: string;
+
+  const login = async (email: string): Promise<string> => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'password123' })
+      .expect(201);
+    return response.body.data.access_token;
+  };
+
+  const profileId = async (token: string): Promise<string> => {
+    const response = await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    return response.body.data.id;
+  };
+
+  const impersonate = async (id: string): Promise<string> => {
+    const response = await request(app.getHttpServer())
+      .post(`/auth/impersonate/${id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(201);
+    return response.body.data.access_token;
+  };
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(MAILER)
+      .useValue({ send: jest.fn() })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+
+    adminToken = await login('admin@example.com');
+    userToken = await login('user@example.com');
+    adminId = await profileId(adminToken);
+    userId = await profileId(userToken);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should let an admin see what the user sees', async () => {
+    const response = await request(app.getHttpServer())
+      .post(`/auth/impersonate/${userId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(201);
+
+    expect(response.body.data).toEqual(expect.objectContaining({
+      expires_in: 900,
+      user: expect.objectContaining({ email: 'user@example.com' }),
+      act: { sub: adminId, email: 'admin@example.com', role: 'admin' },
+    }));
+    expect(response.body.data.refresh_token).toBeUndefined();
+
+    const profile = await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${response.body.data.access_token}`)
+      .expect(200);
+    expect(profile.body.data.email).toBe('user@example.com');
+  });
+
+  it('should only let admins impersonate', async () => {
+    const response = await request(app.getHttpServer())
+      .post(`/auth/impersonate/${adminId}`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(403);
+
+    expect(response.body.code).toBe('ACCESS_DENIED_MISSING_ROLE');
+  });
+
+  it('should not let an admin impersonate themselves', async () => {
+    const response = await request(app.getHttpServer())
+      .post(`/auth/impersonate/${adminId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+
+    expect(response.body.code).toBe('AUTH_IMPERSONATION_NOT_ALLOWED');
+  });
+
+  it('should not let an admin impersonate another admin', async () => {
+    const created = await request(app.getHttpServer())
+      .post('/users')
+      .send({ email: 'second-admin@example.com', username: 'second-admin', password: 'password123' })
+      .expect(201);
+    await request(app.getHttpServer())
+      .patch(`/users/${created.body.data.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ role: 'admin' })
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .post(`/auth/impersonate/${created.body.data.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+
+    expect(response.body.code).toBe('AUTH_IMPERSONATION_NOT_ALLOWED');
+  });
+
+  it('should block sensitive operations while impersonating', async () => {
+    const token = await impersonate(userId);
+
+    const password = await request(app.getHttpServer())
+      .patch('/users/profile/password')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ currentPassword: 'password123', newPassword: 'newpassword123' })
+      .expect(403);
+    expect(password.body.code).toBe('ACCESS_DENIED_IMPERSONATED');
+
+    await request(app.getHttpServer())
+      .delete(`/users/${userId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post(`/auth/impersonate/${adminId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+  });
+
+  it('should audit the impersonation and what the admin did as the user', async () => {
+    const token = await impersonate(userId);
+    await request(app.getHttpServer())
+      .patch('/users/profile/password')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ currentPassword: 'password123', newPassword: 'newpassword123' })
+      .expect(403);
+
+    const started = await request(app.getHttpServer())
+      .get(`/audit?action=user.impersonated&targetId=${userId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(started.body.meta.total).toBe(1);
+    expect(started.body.data[0].actor.id).toBe(adminId);
+
+    const denied = await request(app.getHttpServer())
+      .get(`/audit?action=access.denied&actorId=${adminId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(denied.body.data[0].actor).toEqual(expect.objectContaining({ id: userId, impersonatorId: adminId }));
+  });
+
+  it('should end impersonations when the admin logs out of all sessions', async () => {
+    const token = await impersonate(userId);
+
+    await request(app.getHttpServer())
+      .post('/auth/logout-all')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(401);
+  });
+});
@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey } from 'crypto';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+import { SigningKeyService } from '../src/auth/keys/signing-key.service';
+import { PublicJwk } from '../src/common/types/signing-key.types';
+import { AuthConfig, authConfig } from '../src/config/auth.config';
+
+describe('JWKS and asymmetric signing (e2e)', () => {
+  let app: INestApplication;
+  const jwtService = new JwtService({});
+
+  const createApp = async (overrides: Partial<AuthConfig> = {}) => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(authConfig.KEY)
+      .useValue({ ...authConfig(), ...overrides })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+  };
+
+  const login = async (): Promise<string> => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@example.com', password: 'password123' })
+      .expect(201);
+    return response.body.data.access_token;
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('with HS256', () => {
+    beforeEach(() => createApp());
+
+    it('should publish an empty key set', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/.well-known/jwks.json')
+        .expect(200);
+
+      expect(response.body).toEqual({ keys: [] });
+    });
+  });
+
+  describe('with ES256', () => {
+    beforeEach(() => createApp({ jwtAlgorithm: 'ES256' }));
+
+    it('should sign access tokens that verify against the published key', async () => {
+      const token = await login();
+      const { header } = jwtService.decode(token, { complete: true });
+
+      const response = await request(app.getHttpServer())
+        .get('/.well-known/jwks.json')
+        .expect(200);
+      const jwk: PublicJwk = response.body.keys.find((key: PublicJwk) => key.kid === header.kid);
+
+      expect(header.alg).toBe('ES256');
+      expect(response.headers['cache-control']).toBe('public, max-age=300');
+      expect(jwk).toEqual(expect.objectContaining({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' }));
+      expect(jwk).not.toHaveProperty('d');
+
+      const publicKey = createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' });
+      expect(jwtService.verify(token, { publicKey, algorithms: ['ES256'] })).toEqual(
+        expect.objectContaining({ email: 'user@example.com' }),
+      );
+    });
+
+    it('should accept tokens of a rotated-out key and sign new ones with the new key', async () => {
+      const oldToken = await login();
+
+      await app.get(SigningKeyService).rotate();
+      const newToken = await login();
+
+      expect(jwtService.decode(newToken, { complete: true }).header.kid)
+        .not.toBe(jwtService.decode(oldToken, { complete: true }).header.kid);
+      await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${oldToken}`)
+        .expect(200);
+      await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${newToken}`)
+        .expect(200);
+    });
+
+    it('should reject HS256 tokens signed with JWT_SECRET', async () => {
+      const forged = jwtService.sign(
+        { sub: '2', email: 'user@example.com', role: 'user' },
+        { secret: process.env.JWT_SECRET || 'your-secret-key', expiresIn: '1h' },
+      );
+
+      await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${forged}`)
+        .expect(401);
+    });
+
+    it('should reject tokens with an unknown kid', async () => {
+      const token = await login();
+      const [, payload, signature] = token.split('.');
+      const header = Buffer.from(JSON.stringify({ alg: 'ES256', typ: 'JWT', kid: 'unknown' })).toString('base64url');
+
+      await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${header}.${payload}.${signature}`)
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+import { ObservabilityConfig, observabilityConfig } from '../src/config/observability.config';
+
+describe('MetricsController (e2e)', () => {
+  let app: INestApplication;
+
+  const createApp = async (overrides: Partial<ObservabilityConfig> = {}) => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(observabilityConfig.KEY)
+      .useValue({ ...observabilityConfig(), ...overrides })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('from an allowed address', () => {
+    beforeEach(() => createApp());
+
+    it('should serve the Prometheus text format without the envelope', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/metrics')
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+      expect(response.headers['cache-control']).toBe('no-store');
+      expect(response.text).toContain('# TYPE http_request_duration_seconds histogram');
+      expect(response.text).toContain('# TYPE users_active gauge');
+      expect(response.text).toMatch(/^users_active \d+$/m);
+    });
+
+    it('should label request durations with the route template', async () => {
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'admin@example.com', password: 'password123' })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .get('/users/00000000-0000-4000-8000-000000000000')
+        .set('Authorization', `Bearer ${login.body.data.access_token}`)
+        .expect(404);
+
+      const response = await request(app.getHttpServer()).get('/metrics').expect(200);
+
+      expect(response.text).toContain('http_request_duration_seconds_count{method="GET",route="/users/:id",status="404"} 1');
+      expect(response.text).not.toContain('00000000-0000-4000-8000-000000000000');
+    });
+
+    it('should count logins by outcome', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'wrongpassword' })
+        .expect(401);
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+
+      const response = await request(app.getHttpServer()).get('/metrics').expect(200);
+
+      expect(response.text).toContain('auth_login_failure_total{code="AUTH_INVALID_CREDENTIALS"} 1');
+      expect(response.text).toContain('auth_login_success_total 1');
+    });
+
+    it('should count guard denials', async () => {
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${login.body.data.access_token}`)
+        .expect(403);
+
+      const response = await request(app.getHttpServer()).get('/metrics').expect(200);
+
+      expect(response.text).toMatch(/^guard_denials_total\{guard="\w+Guard"\} 1$/m);
+    });
+  });
+
+  describe('from another address', () => {
+    beforeEach(() => createApp({ metricsAllowedIps: ['10.0.0.5'], metricsToken: 'scrape-secret' }));
+
+    it('should reject scrapers without the token', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/metrics')
+        .expect(403);
+
+      expect(response.body.code).toBe('METRICS_ACCESS_DENIED');
+    });
+
+    it('should not accept a user JWT in place of the token', async () => {
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'admin@example.com', password: 'password123' })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .get('/metrics')
+        .set('Authorization', `Bearer ${login.body.data.access_token}`)
+        .expect(403);
+    });
+
+    it('should serve metrics with the token', async () => {
+      await request(app.getHttpServer())
+        .get('/metrics')
+        .set('Authorization', 'Bearer scrape-secret')
+        .expect(200);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { JwtService } from '@nestjs/jwt';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OidcClaims, OidcProviderConfig } from '../src/common/types/oidc.types';
+
+const KID = 'mock-key';
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: OidcClaims;
+}
+
+/**
+ * Mock OIDC Provider
+ * A local provider for e2e tests: discovery, an authorize endpoint that
+ * signs in `nextUser` at once, a token endpoint that checks the client and
+ * the PKCE verifier, and the JWKS its ID tokens verify with.
+ */
+export class MockOidcProvider {
+  readonly clientId = 'mock-client';
+  readonly clientSecret = 'mock-client-secret';
+  nextUser: OidcClaims = { sub: 'mock-user', email_verified: false };
+  // What /jwks serves: the real key set, a key that is not a valid JWK or a body that is not JSON
+  jwks: 'valid' | 'malformed-key' | 'not-json' = 'valid';
+
+  private server: Server;
+  private readonly codes = new Map<string, IssuedCode>();
+  private readonly keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private readonly jwtService = new JwtService({});
+
+  get issuer(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /** The app's configuration of this provider, registered as "mock" */
+  get providerConfig(): OidcProviderConfig {
+    return {
+      name: 'mock',
+      issuer: this.issuer,
+      clientId: this.clientId,
+      clientSecret: this.clientSecret,
+      scopes: ['openid', 'email', 'profile'],
+    };
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(error => this.send(res, 500, { error: String(error) }));
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  /** Follows an authorization URL the way a browser would, returning where the provider redirects to */
+  async authorize(authorizationUrl: string): Promise<URL> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    return new URL(response.headers.get('location'));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url, this.issuer);
+
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return this.send(res, 200, {
+          issuer: this.issuer,
+          authorization_endpoint: `${this.issuer}/authorize`,
+          token_endpoint: `${this.issuer}/token`,
+          jwks_uri: `${this.issuer}/jwks`,
+          response_types_supported: ['code'],
+          code_challenge_methods_supported: ['S256'],
+        });
+      case '/authorize':
+        return this.authorizeRequest(url.searchParams, res);
+      case '/token':
+        return this.token(new URLSearchParams(await readBody(req)), res);
+      case '/jwks':
+        return this.sendJwks(res);
+      default:
+        return this.send(res, 404, { error: 'not_found' });
+    }
+  }
+
+  private authorizeRequest(params: URLSearchParams, res: ServerResponse): void {
+    const redirect = new URL(params.get('redirect_uri'));
+
+    if (params.get('client_id') !== this.clientId || params.get('code_challenge_method') !== 'S256') {
+      redirect.searchParams.set('error', 'invalid_request');
+    } else {
+      const code = randomBytes(16).toString('hex');
+      this.codes.set(code, {
+        clientId: params.get('client_id'),
+        redirectUri: params.get('redirect_uri'),
+        codeChallenge: params.get('code_challenge'),
+        nonce: params.get('nonce'),
+        claims: this.nextUser,
+      });
+      redirect.searchParams.set('code', code);
+    }
+    redirect.searchParams.set('state', params.get('state'));
+
+    res.writeHead(302, { Location: redirect.toString() }).end();
+  }
+
+  private token(params: URLSearchParams, res: ServerResponse): void {
+    const issued = this.codes.get(params.get('code'));
+    this.codes.delete(params.get('code'));
+
+    const verifier = params.get('code_verifier') ?? '';
+    const valid = issued
+      && params.get('client_id') === issued.clientId
+      && params.get('client_secret') === this.clientSecret
+      && params.get('redirect_uri') === issued.redirectUri
+      && createHash('sha256').update(verifier).digest('base64url') === issued.codeChallenge;
+    if (!valid) {
+      return this.send(res, 400, { error: 'invalid_grant' });
+    }
+
+    const idToken = this.jwtService.sign(
+      { ...issued.claims, nonce: issued.nonce },
+      {
+        privateKey: this.keys.privateKey,
+        algorithm: 'RS256',
+        keyid: KID,
+        issuer: this.issuer,
+        audience: issued.clientId,
+        expiresIn: 300,
+      },
+    );
+    this.send(res, 200, { access_token: randomBytes(16).toString('hex'), token_type: 'Bearer', id_token: idToken });
+  }
+
+  private sendJwks(res: ServerResponse): void {
+    if (this.jwks === 'not-json') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('<html>Service Unavailable</html>');
+      return;
+    }
+
+    const key = this.jwks === 'malformed-key'
+      ? { kty: 'RSA', n: 'not-a-modulus' }
+      : this.keys.publicKey.export({ format: 'jwk' });
+    this.send(res, 200, { keys: [{ ...key, kid: KID, alg: 'RS256', use: 'sig' }] });
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body;
+}
@@ -0,0 +1,211 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as cookieParser from 'cookie-parser';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+import { MAILER } from '../src/mail/mail.constants';
+import { securityConfig, SecurityConfig } from '../src/config/security.config';
+import { oidcConfig } from '../src/config/oidc.config';
+import { MockOidcProvider } from './mock-oidc-provider';
+
+describe('OpenID Connect login (e2e)', () => {
+  let app: INestApplication;
+  // Keeps cookies between requests, like the browser that runs the flow
+  let browser: request.SuperAgentTest;
+  const provider = new MockOidcProvider();
+
+  /** Runs the browser side of a flow: app -> provider -> app callback */
+  const completeFlow = async (authorizationUrl: string, status: number) => {
+    const callback = await provider.authorize(authorizationUrl);
+    return browser
+      .get(`${callback.pathname}${callback.search}`)
+      .expect(status);
+  };
+
+  const startLogin = async (): Promise<string> => {
+    const response = await browser
+      .get('/auth/oidc/mock')
+      .expect(302);
+    return response.headers.location;
+  };
+
+  const login = async (email: string): Promise<string> => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'password123' })
+      .expect(201);
+    return response.body.data.access_token;
+  };
+
+  beforeAll(async () => {
+    await provider.start();
+  });
+
+  afterAll(async () => {
+    await provider.stop();
+  });
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(MAILER)
+      .useValue({ send: jest.fn() })
+      .overrideProvider(oidcConfig.KEY)
+      .useValue({ ...oidcConfig(), providers: [provider.providerConfig] })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.use(cookieParser(app.get<SecurityConfig>(securityConfig.KEY).cookieSecret));
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+    browser = request.agent(app.getHttpServer());
+  });
+
+  afterEach(async () => {
+    provider.jwks = 'valid';
+    await app.close();
+  });
+
+  it('should redirect to the provider with a PKCE challenge', async () => {
+    const location = new URL(await startLogin());
+
+    expect(location.origin).toBe(provider.issuer);
+    expect(location.pathname).toBe('/authorize');
+    expect(location.searchParams.get('client_id')).toBe(provider.clientId);
+    expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(location.searchParams.get('code_challenge')).toBeTruthy();
+    expect(location.searchParams.get('state')).toBeTruthy();
+    expect(location.searchParams.get('redirect_uri')).toMatch(/\/auth\/oidc\/mock\/callback$/);
+  });
+
+  it('should answer 404 for an unknown provider', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/auth/oidc/unknown')
+      .expect(404);
+
+    expect(response.body.code).toBe('AUTH_OIDC_UNKNOWN_PROVIDER');
+  });
+
+  it('should log in the account with the verified email and keep the identity linked', async () => {
+    provider.nextUser = { sub: 'verified-1', email: 'user@example.com', email_verified: true };
+
+    const first = await completeFlow(await startLogin(), 200);
+
+    expect(first.body.message).toBe('Login successful');
+    expect(first.body.data.user.email).toBe('user@example.com');
+    const profile = await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${first.body.data.access_token}`)
+      .expect(200);
+    expect(profile.body.data.email).toBe('user@example.com');
+
+    // The identity is now linked, so a changed email at the provider no longer matters
+    provider.nextUser = { sub: 'verified-1', email: 'renamed@example.com', email_verified: false };
+    const second = await completeFlow(await startLogin(), 200);
+    expect(second.body.data.user.email).toBe('user@example.com');
+  });
+
+  it.each(['malformed-key', 'not-json'] as const)('should fail the login when the provider serves a %s JWKS', async jwks => {
+    provider.jwks = jwks;
+    provider.nextUser = { sub: 'verified-1', email: 'user@example.com', email_verified: true };
+
+    const response = await completeFlow(await startLogin(), 401);
+
+    expect(response.body.code).toBe('AUTH_OIDC_LOGIN_FAILED');
+  });
+
+  it('should not log in by an unverified email', async () => {
+    provider.nextUser = { sub: 'unverified-1', email: 'user@example.com', email_verified: false };
+
+    const response = await completeFlow(await startLogin(), 401);
+
+    expect(response.body.code).toBe('AUTH_OIDC_ACCOUNT_NOT_LINKED');
+  });
+
+  it('should link an identity for a signed-in user and then log in with it', async () => {
+    const accessToken = await login('user@example.com');
+    provider.nextUser = { sub: 'linked-1', email: 'someone-else@example.org', email_verified: false };
+
+    const started = await browser
+      .post('/auth/oidc/mock/link')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(201);
+    const linked = await completeFlow(started.body.data.authorizationUrl, 200);
+
+    expect(linked.body.message).toBe('Identity linked successfully');
+    expect(linked.body.data).toEqual(expect.objectContaining({ provider: 'mock', subject: 'linked-1' }));
+
+    const loggedIn = await completeFlow(await startLogin(), 200);
+    expect(loggedIn.body.data.user.email).toBe('user@example.com');
+  });
+
+  it('should not link an identity that belongs to another account', async () => {
+    provider.nextUser = { sub: 'taken-1', email: 'admin@example.com', email_verified: true };
+    await completeFlow(await startLogin(), 200);
+
+    const accessToken = await login('user@example.com');
+    const started = await browser
+      .post('/auth/oidc/mock/link')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(201);
+    const response = await completeFlow(started.body.data.authorizationUrl, 409);
+
+    expect(response.body.code).toBe('AUTH_OIDC_IDENTITY_IN_USE');
+  });
+
+  it('should reject a callback with an unknown or reused state', async () => {
+    provider.nextUser = { sub: 'verified-2', email: 'user@example.com', email_verified: true };
+    const callback = await provider.authorize(await startLogin());
+    const path = `${callback.pathname}${callback.search}`;
+
+    await browser.get(path).expect(200);
+    const reused = await browser.get(path).expect(400);
+    expect(reused.body.code).toBe('AUTH_OIDC_INVALID_STATE');
+
+    await browser
+      .get('/auth/oidc/mock/callback?code=abc&state=forged')
+      .expect(400);
+  });
+
+  it('should set the state in a signed, httpOnly, SameSite cookie', async () => {
+    const response = await browser.get('/auth/oidc/mock').expect(302);
+    const state = new URL(response.headers.location).searchParams.get('state');
+    const cookie = response.headers['set-cookie'][0];
+
+    expect(cookie).toMatch(new RegExp(`^oidc_state=s%3A${state}\\.`));
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('SameSite=Lax');
+  });
+
+  it('should reject a callback in a browser that did not start the flow', async () => {
+    provider.nextUser = { sub: 'verified-3', email: 'user@example.com', email_verified: true };
+    const callback = await provider.authorize(await startLogin());
+    const path = `${callback.pathname}${callback.search}`;
+
+    // The attacker's own flow, finished in the victim's browser
+    const victim = request.agent(app.getHttpServer());
+    await victim.get('/auth/oidc/mock').expect(302);
+    const response = await victim.get(path).expect(400);
+    expect(response.body.code).toBe('AUTH_OIDC_INVALID_STATE');
+
+    await request(app.getHttpServer()).get(path).expect(400);
+  });
+
+  it('should require authentication to start a link', async () => {
+    await request(app.getHttpServer())
+      .post('/auth/oidc/mock/link')
+      .expect(401);
+  });
+});
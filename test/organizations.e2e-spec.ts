@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+import { MAILER } from '../src/mail/mail.constants';
+
+describe('Organizations (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let userId: string;
+  let acmeId: string;
+
+  const login = async (email: string, tenant?: string, status = 201) => {
+    const req = request(app.getHttpServer()).post('/auth/login');
+    if (tenant) {
+      req.set('X-Tenant', tenant);
+    }
+    const response = await req.send({ email, password: 'password123' }).expect(status);
+    return response.body.data as { access_token: string; refresh_token: string; user: { id: string; role: string } };
+  };
+
+  const claimsOf = (token: string) => JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+
+  const createOrganization = async (name: string, slug: string): Promise<string> => {
+    const response = await request(app.getHttpServer())
+      .post('/organizations')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name, slug })
+      .expect(201);
+    return response.body.data.id;
+  };
+
+  const saveMember = (organizationId: string, memberId: string, role: string) =>
+    request(app.getHttpServer())
+      .put(`/organizations/${organizationId}/members/${memberId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ role })
+      .expect(200);
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(MAILER)
+      .useValue({ send: jest.fn() })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+
+    // The user is an admin in Acme but only a user in Globex
+    adminToken = (await login('admin@example.com')).access_token;
+    userId = (await login('user@example.com')).user.id;
+    acmeId = await createOrganization('Acme', 'acme');
+    const globexId = await createOrganization('Globex', 'globex');
+    await saveMember(acmeId, userId, 'admin');
+    await saveMember(globexId, userId, 'user');
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should log in with the role held in the organization the request names', async () => {
+    const acme = await login('user@example.com', 'acme');
+    const globex = await login('user@example.com', 'globex');
+
+    expect(acme.user.role).toBe('admin');
+    expect(claimsOf(acme.access_token)).toEqual(expect.objectContaining({ org: acmeId, role: 'admin' }));
+    expect(globex.user.role).toBe('user');
+
+    const profile = await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${acme.access_token}`)
+      .expect(200);
+    expect(profile.body.data.role).toBe('admin');
+  });
+
+  it('should only show members within the organization', async () => {
+    const { access_token } = await login('user@example.com', 'acme');
+
+    const response = await request(app.getHttpServer())
+      .get('/users')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+
+    expect(response.body.data.map(user => user.email)).toEqual(['user@example.com']);
+    expect(response.body.meta.total).toBe(1);
+  });
+
+  it('should grant the role held in the organization and nothing more', async () => {
+    const { access_token } = await login('user@example.com', 'globex');
+
+    await request(app.getHttpServer())
+      .get('/users')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(403);
+  });
+
+  it('should refuse non-members and tokens used in another organization', async () => {
+    await login('admin@example.com', 'acme', 401);
+
+    const { access_token } = await login('user@example.com', 'acme');
+    const mismatch = await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${access_token}`)
+      .set('X-Tenant', 'globex')
+      .expect(403);
+    expect(mismatch.body.code).toBe('ACCESS_DENIED_ORGANIZATION_MISMATCH');
+
+    const notMember = await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .set('X-Tenant', 'acme')
+      .expect(403);
+    expect(notMember.body.code).toBe('ACCESS_DENIED_ORGANIZATION');
+  });
+
+  it('should answer 404 for an unknown organization', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .set('X-Tenant', 'initech')
+      .send({ email: 'user@example.com', password: 'password123' })
+      .expect(404);
+
+    expect(response.body.code).toBe('ORGANIZATION_NOT_FOUND');
+  });
+
+  it('should refuse platform-wide actions within an organization', async () => {
+    const { access_token } = await login('user@example.com', 'acme');
+
+    const response = await request(app.getHttpServer())
+      .post('/roles')
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ name: 'support', permissions: ['users:read'] })
+      .expect(403);
+    expect(response.body.code).toBe('ACCESS_DENIED_ORGANIZATION_SCOPED');
+
+    await request(app.getHttpServer())
+      .get('/audit')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(403);
+  });
+
+  it('should keep API keys in the organization they were created in', async () => {
+    const { access_token } = await login('user@example.com', 'acme');
+    const created = await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ name: 'acme-sync', scopes: ['users:read', 'audit:read'] })
+      .expect(201);
+    const key = created.body.data.key;
+    expect(created.body.data.organizationId).toBe(acmeId);
+
+    // Without X-Tenant the key still only sees Acme
+    const users = await request(app.getHttpServer())
+      .get('/users')
+      .set('X-API-Key', key)
+      .expect(200);
+    expect(users.body.data.map(user => user.email)).toEqual(['user@example.com']);
+
+    await request(app.getHttpServer())
+      .get('/audit')
+      .set('X-API-Key', key)
+      .expect(403);
+
+    const mismatch = await request(app.getHttpServer())
+      .get('/users')
+      .set('X-API-Key', key)
+      .set('X-Tenant', 'globex')
+      .expect(403);
+    expect(mismatch.body.code).toBe('ACCESS_DENIED_ORGANIZATION_MISMATCH');
+  });
+
+  it('should stay in the organization across refreshes', async () => {
+    const { refresh_token } = await login('user@example.com', 'acme');
+
+    const response = await request(app.getHttpServer())
+      .post('/auth/refresh')
+      .send({ refresh_token })
+      .expect(201);
+
+    expect(claimsOf(response.body.data.access_token)).toEqual(expect.objectContaining({ org: acmeId, role: 'admin' }));
+  });
+
+  it('should list the organizations of the current user', async () => {
+    const { access_token } = await login('user@example.com');
+
+    const response = await request(app.getHttpServer())
+      .get('/users/profile/organizations')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual([
+      { id: acmeId, slug: 'acme', name: 'Acme', role: 'admin' },
+      expect.objectContaining({ slug: 'globex', role: 'user' }),
+    ]);
+  });
+
+  it('should let organization admins remove members without deactivating them', async () => {
+    const { access_token } = await login('user@example.com', 'acme');
+    await saveMember(acmeId, (await login('admin@example.com')).user.id, 'user');
+    const members = await request(app.getHttpServer())
+      .get(`/organizations/${acmeId}/members`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+    const other = members.body.data.find(member => member.userId !== userId);
+
+    await request(app.getHttpServer())
+      .delete(`/users/${other.userId}`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+
+    await login('admin@example.com', 'acme', 401);
+    await login('admin@example.com');
+  });
+});
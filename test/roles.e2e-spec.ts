@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+
+describe('RolesController (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let userToken: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+
+    const adminLogin = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' });
+    adminToken = adminLogin.body.data.access_token;
+
+    const userLogin = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@example.com', password: 'password123' });
+    userToken = userLogin.body.data.access_token;
+    userId = userLogin.body.data.user.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('/roles (GET)', () => {
+    it('should list the built-in roles', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.map(role => role.name)).toEqual(['admin', 'moderator', 'user']);
+    });
+
+    it('should require the roles:read permission', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/roles')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(403);
+
+      expect(response.body.message).toContain('Missing permissions: roles:read');
+    });
+  });
+
+  describe('custom roles', () => {
+    const createSupportRole = () =>
+      request(app.getHttpServer())
+        .post('/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'support', description: 'Helpdesk', permissions: ['users:read', 'users:unlock'] })
+        .expect(201);
+
+    it('should grant the role permissions to users it is assigned to', async () => {
+      await createSupportRole();
+
+      await request(app.getHttpServer())
+        .patch(`/users/${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'support' })
+        .expect(200);
+
+      // Permissions are resolved per request, so the existing token picks them up
+      await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .delete(`/users/${userId}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(403);
+
+      await request(app.getHttpServer())
+        .delete('/roles/support')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+    });
+
+    it('should reject unknown roles and permissions', async () => {
+      await request(app.getHttpServer())
+        .patch(`/users/${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'support' })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .post('/roles')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'support', permissions: ['users:everything'] })
+        .expect(400);
+    });
+
+    it('should not let the API change built-in roles', async () => {
+      await request(app.getHttpServer())
+        .patch('/roles/user')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ permissions: ['*'] })
+        .expect(400);
+    });
+
+    it('should only let users with roles:manage create roles', async () => {
+      await request(app.getHttpServer())
+        .post('/roles')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'support', permissions: ['*'] })
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
+import { MAILER } from '../src/mail/mail.constants';
+
+describe('Sessions (e2e)', () => {
+  let app: INestApplication;
+
+  const firefox = 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0';
+  const iphone = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+
+  const login = async (email: string, userAgent = firefox) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email, password: 'password123' })
+      .expect(201);
+    return response.body.data as { access_token: string; refresh_token: string; user: { id: string } };
+  };
+
+  const listSessions = async (token: string, path = '/users/profile/sessions') => {
+    const response = await request(app.getHttpServer())
+      .get(path)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    return response.body.data;
+  };
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(MAILER)
+      .useValue({ send: jest.fn() })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: validationExceptionFactory,
+    }));
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should list the sessions of the current user with their devices', async () => {
+    await login('user@example.com', iphone);
+    const { access_token } = await login('user@example.com');
+
+    const response = await request(app.getHttpServer())
+      .get('/users/profile/sessions')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+
+    expect(response.body.message).toBe('Sessions retrieved successfully');
+    expect(response.body.data).toHaveLength(2);
+    expect(response.body.data).toEqual(expect.arrayContaining([
+      expect.objectContaining({ device: 'desktop', browser: 'Firefox 128', os: 'Linux', userAgent: firefox, current: true }),
+      expect.objectContaining({ device: 'mobile', browser: 'Safari 17', os: 'iOS', current: false }),
+    ]));
+    expect(response.body.data[0].ip).toBeTruthy();
+  });
+
+  it('should sign out a revoked session on its next request and refresh', async () => {
+    const phone = await login('user@example.com', iphone);
+    const { access_token } = await login('user@example.com');
+    const { id: sid } = (await listSessions(access_token)).find(session => !session.current);
+
+    const response = await request(app.getHttpServer())
+      .delete(`/users/profile/sessions/${sid}`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+
+    expect(response.body.message).toBe('Session revoked successfully');
+    await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${phone.access_token}`)
+      .expect(401);
+    await request(app.getHttpServer())
+      .post('/auth/refresh')
+      .send({ refresh_token: phone.refresh_token })
+      .expect(401);
+    expect(await listSessions(access_token)).toHaveLength(1);
+  });
+
+  it('should keep the session across refreshes', async () => {
+    const { refresh_token } = await login('user@example.com');
+
+    const refreshed = await request(app.getHttpServer())
+      .post('/auth/refresh')
+      .send({ refresh_token })
+      .expect(201);
+
+    const sessions = await listSessions(refreshed.body.data.access_token);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].current).toBe(true);
+  });
+
+  it('should end the session on logout', async () => {
+    const phone = await login('user@example.com', iphone);
+    const { access_token } = await login('user@example.com');
+
+    await request(app.getHttpServer())
+      .post('/auth/logout')
+      .set('Authorization', `Bearer ${phone.access_token}`)
+      .expect(201);
+
+    const sessions = await listSessions(access_token);
+    expect(sessions.map(session => session.browser)).toEqual(['Firefox 128']);
+  });
+
+  it('should not reveal sessions of other users', async () => {
+    const admin = await login('admin@example.com');
+    const user = await login('user@example.com');
+    const [adminSession] = await listSessions(admin.access_token);
+
+    const response = await request(app.getHttpServer())
+      .delete(`/users/profile/sessions/${adminSession.id}`)
+      .set('Authorization', `Bearer ${user.access_token}`)
+      .expect(404);
+
+    expect(response.body.code).toBe('SESSION_NOT_FOUND');
+  });
+
+  it('should let an admin list and revoke the sessions of any user', async () => {
+    const user = await login('user@example.com');
+    const admin = await login('admin@example.com');
+    const [session] = await listSessions(admin.access_token, `/users/${user.user.id}/sessions`);
+
+    expect(session).toEqual(expect.objectContaining({ userId: user.user.id, current: false }));
+    await request(app.getHttpServer())
+      .delete(`/users/${user.user.id}/sessions/${session.id}`)
+      .set('Authorization', `Bearer ${admin.access_token}`)
+      .expect(200);
+    await request(app.getHttpServer())
+      .get('/users/profile')
+      .set('Authorization', `Bearer ${user.access_token}`)
+      .expect(401);
+  });
+
+  it('should not let regular users manage the sessions of others', async () => {
+    const admin = await login('admin@example.com');
+    const user = await login('user@example.com');
+
+    await request(app.getHttpServer())
+      .get(`/users/${admin.user.id}/sessions`)
+      .set('Authorization', `Bearer ${user.access_token}`)
+      .expect(403);
+  });
+});
@@ -3,12 +3,17 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from '../src/app.module';
 import { GlobalExceptionFilter } from '../src/common/filters/global-exception.filter';
+import { ValidationExceptionFilter } from '../src/common/filters/validation-exception.filter';
+import { validationExceptionFactory } from '../src/common/exceptions/validation-failed.exception';
+import { I18nService } from '../src/i18n/i18n.service';
 import { UserRole } from '../src/common/types/user.types';
 
 describe('UsersController (e2e)', () => {
   let app: INestApplication;
   let adminToken: string;
   let userToken: string;
+  let adminId: string;
+  let userId: string;
 
   beforeEach(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -20,8 +25,10 @@ describe('UsersController (e2e)', () => {
       whitelist: true,
       forbidNonWhitelisted: true,
       transform: true,
+      exceptionFactory: validationExceptionFactory,
     }));
-    app.useGlobalFilters(new GlobalExceptionFilter());
+    const i18n = app.get(I18nService);
+    app.useGlobalFilters(new GlobalExceptionFilter(i18n), new ValidationExceptionFilter(i18n));
     await app.init();
 
     // Get admin token
@@ -29,12 +36,14 @@ describe('UsersController (e2e)', () => {
       .post('/auth/login')
       .send({ email: 'admin@example.com', password: 'password123' });
     adminToken = adminLogin.body.data.access_token;
+    adminId = adminLogin.body.data.user.id;
 
     // Get user token
     const userLogin = await request(app.getHttpServer())
       .post('/auth/login')
       .send({ email: 'user@example.com', password: 'password123' });
     userToken = userLogin.body.data.access_token;
+    userId = userLogin.body.data.user.id;
   });
 
   afterEach(async () => {
@@ -60,6 +69,26 @@ describe('UsersController (e2e)', () => {
       expect(response.body.data.username).toBe(createUserDto.username);
     });
 
+    it('should not let a self-registered user pick their role', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/users')
+        .send({
+          email: 'wannabe@example.com',
+          username: 'wannabe',
+          password: 'password123',
+          role: UserRole.ADMIN,
+        })
+        .expect(201);
+
+      expect(response.body.data.role).toBe(UserRole.USER);
+
+      const stored = await request(app.getHttpServer())
+        .get(`/users/${response.body.data.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(stored.body.data.role).toBe(UserRole.USER);
+    });
+
     it('should fail with validation errors', async () => {
       const createUserDto = {
         email: 'invalid-email',
@@ -72,7 +101,10 @@ describe('UsersController (e2e)', () => {
         .send(createUserDto)
         .expect(400);
 
-      expect(response.body.message).toBeDefined();
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+      expect(response.body.errors.map(error => error.field)).toEqual(
+        expect.arrayContaining(['email', 'username', 'password']),
+      );
     });
   });
 
@@ -87,6 +119,68 @@ describe('UsersController (e2e)', () => {
       expect(Array.isArray(response.body.data)).toBe(true);
     });
 
+    it('should paginate, filter and sort users', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/users')
+        .query({ page: 1, limit: 1, sort: 'email:desc', isActive: 'true' })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].email).toBe('user@example.com');
+      expect(response.body.meta).toEqual({
+        total: 2,
+        limit: 1,
+        page: 1,
+        totalPages: 2,
+        nextCursor: expect.any(String),
+      });
+
+      const next = await request(app.getHttpServer())
+        .get('/users')
+        .query({ limit: 1, sort: 'email:desc', cursor: response.body.meta.nextCursor })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(next.body.data[0].email).toBe('admin@example.com');
+      expect(next.body.meta.nextCursor).toBeNull();
+    });
+
+    it('should wrap the result in the response envelope with the real path', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/users?page=2&limit=1&sort=email:asc')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Users retrieved successfully',
+        data: [expect.objectContaining({ email: 'user@example.com' })],
+        meta: expect.objectContaining({ page: 2, limit: 1 }),
+        timestamp: expect.any(String),
+        path: '/users?page=2&limit=1&sort=email:asc',
+        requestId: response.headers['x-request-id'],
+      });
+    });
+
+    it('should accept ?lang= next to the list filters', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/users')
+        .query({ limit: 1, lang: 'es' })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.message).toBe('Usuarios obtenidos correctamente');
+    });
+
+    it('should reject invalid query parameters', async () => {
+      await request(app.getHttpServer())
+        .get('/users')
+        .query({ sort: 'password:asc', limit: 1000 })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+
     it('should fail for regular user (insufficient role)', async () => {
       const response = await request(app.getHttpServer())
         .get('/users')
@@ -125,34 +219,86 @@ describe('UsersController (e2e)', () => {
     });
   });
 
+  describe('/users/profile/password (PATCH)', () => {
+    it('should change the password and revoke the current session', async () => {
+      await request(app.getHttpServer())
+        .patch('/users/profile/password')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ currentPassword: 'password123', newPassword: 'newpassword123' })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'user@example.com', password: 'newpassword123' })
+        .expect(201);
+    });
+
+    it('should fail when the current password is wrong', async () => {
+      const response = await request(app.getHttpServer())
+        .patch('/users/profile/password')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ currentPassword: 'wrongpassword', newPassword: 'newpassword123' })
+        .expect(400);
+
+      expect(response.body.message).toContain('Current password is incorrect');
+    });
+  });
+
   describe('/users/:id (GET)', () => {
     it('should get user by id (own profile)', async () => {
       const response = await request(app.getHttpServer())
-        .get('/users/2')
+        .get(`/users/${userId}`)
         .set('Authorization', `Bearer ${userToken}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.id).toBe('2');
+      expect(response.body.data.id).toBe(userId);
     });
 
     it('should fail to access other user profile', async () => {
       const response = await request(app.getHttpServer())
-        .get('/users/1')
+        .get(`/users/${adminId}`)
         .set('Authorization', `Bearer ${userToken}`)
         .expect(403);
 
-      expect(response.body.message).toContain('You can only access your own resources');
+      expect(response.body.message).toContain('You are not allowed to perform this action');
+    });
+
+    it('should let moderators read other profiles', async () => {
+      await request(app.getHttpServer())
+        .patch(`/users/${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: UserRole.MODERATOR })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get(`/users/${adminId}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      expect(response.body.data.id).toBe(adminId);
     });
 
     it('should allow admin to access any user', async () => {
       const response = await request(app.getHttpServer())
-        .get('/users/2')
+        .get(`/users/${userId}`)
         .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.id).toBe('2');
+      expect(response.body.data.id).toBe(userId);
+    });
+
+    it('should reject ids that are not UUIDs', async () => {
+      await request(app.getHttpServer())
+        .get('/users/2')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
     });
   });
 
@@ -163,7 +309,7 @@ describe('UsersController (e2e)', () => {
       };
 
       const response = await request(app.getHttpServer())
-        .patch('/users/2')
+        .patch(`/users/${userId}`)
         .set('Authorization', `Bearer ${userToken}`)
         .send(updateDto)
         .expect(200);
@@ -178,12 +324,45 @@ describe('UsersController (e2e)', () => {
       };
 
       const response = await request(app.getHttpServer())
-        .patch('/users/1')
+        .patch(`/users/${adminId}`)
         .set('Authorization', `Bearer ${userToken}`)
         .send(updateDto)
         .expect(403);
 
-      expect(response.body.message).toContain('You can only access your own resources');
+      expect(response.body.message).toContain('You are not allowed to perform this action');
+    });
+
+    it('should not let users change their own role', async () => {
+      await request(app.getHttpServer())
+        .patch(`/users/${userId}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ role: UserRole.ADMIN })
+        .expect(403);
+
+      const response = await request(app.getHttpServer())
+        .get('/users/profile')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      expect(response.body.data.role).toBe(UserRole.USER);
+    });
+
+    it('should let admins change roles', async () => {
+      const response = await request(app.getHttpServer())
+        .patch(`/users/${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: UserRole.MODERATOR })
+        .expect(200);
+
+      expect(response.body.data.role).toBe(UserRole.MODERATOR);
+    });
+
+    it('should return 404 for unknown users', async () => {
+      await request(app.getHttpServer())
+        .patch('/users/00000000-0000-4000-8000-000000000000')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ username: 'ghost' })
+        .expect(404);
     });
   });
 
@@ -206,11 +385,14 @@ describe('UsersController (e2e)', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
+      expect(response.body.message).toBe('User deleted successfully');
+      expect(response.body.path).toBe(`/users/${userId}`);
+      expect(response.body).not.toHaveProperty('data');
     });
 
     it('should fail for non-admin users', async () => {
       const response = await request(app.getHttpServer())
-        .delete('/users/2')
+        .delete(`/users/${userId}`)
         .set('Authorization', `Bearer ${userToken}`)
         .expect(403);
 